@@ -0,0 +1,77 @@
+// Local Stripe stub for testing checkout and the billing portal offline
+// Run `npm run stripe:stub`, then start the dashboard with STRIPE_API_BASE=http://127.0.0.1:12111 and any
+// STRIPE_SECRET_KEY / STRIPE_*_SEAT_PRICE_ID values. Checkout and portal sessions redirect straight back
+// to the success or return URL; requests are logged to the console.
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.STRIPE_STUB_PORT) || 12111;
+
+let sessionCount = 0;
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, message) {
+  send(res, status, { error: { type: 'invalid_request_error', message } });
+}
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => {
+    raw += chunk;
+  });
+  req.on('end', () => {
+    const params = Object.fromEntries(new URLSearchParams(raw));
+    console.log(`${req.method} ${req.url}`, params);
+
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      sendError(res, 401, 'No API key provided.');
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, `Unsupported method ${req.method}`);
+      return;
+    }
+
+    sessionCount += 1;
+
+    if (req.url === '/v1/checkout/sessions') {
+      if (!params.success_url || !params['line_items[0][price]']) {
+        sendError(res, 400, 'Missing success_url or line_items.');
+        return;
+      }
+      send(res, 200, {
+        id: `cs_test_stub_${sessionCount}`,
+        object: 'checkout.session',
+        mode: params.mode,
+        customer: params.customer || null,
+        client_reference_id: params.client_reference_id || null,
+        url: params.success_url,
+      });
+      return;
+    }
+
+    if (req.url === '/v1/billing_portal/sessions') {
+      if (!params.customer) {
+        sendError(res, 400, 'Missing required param: customer.');
+        return;
+      }
+      send(res, 200, {
+        id: `bps_test_stub_${sessionCount}`,
+        object: 'billing_portal.session',
+        customer: params.customer,
+        url: params.return_url,
+      });
+      return;
+    }
+
+    sendError(res, 404, `Unrecognized request URL (${req.method}: ${req.url}).`);
+  });
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Stripe stub listening on http://127.0.0.1:${PORT}`);
+});
@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams, useRouter } from 'next/navigation';
+import {
+  Container,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import {
+  applyActionCode,
+  checkActionCode,
+  confirmPasswordReset,
+  verifyPasswordResetCode,
+} from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { sendPasswordReset } from '@/lib/auth';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+
+// Firebase email action modes handled by this page
+type ActionMode = 'resetPassword' | 'verifyEmail' | 'verifyAndChangeEmail' | 'recoverEmail';
+const SUPPORTED_MODES: ActionMode[] = ['resetPassword', 'verifyEmail', 'verifyAndChangeEmail', 'recoverEmail'];
+
+const PAGE_TITLES: Record<ActionMode, string> = {
+  resetPassword: 'Reset Password',
+  verifyEmail: 'Verify Email',
+  verifyAndChangeEmail: 'Change Email',
+  recoverEmail: 'Recover Email',
+};
+
+function AuthActionHandler() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const mode = searchParams.get('mode') as ActionMode | null;
+  const oobCode = searchParams.get('oobCode');
+  const isValidLink = !!oobCode && !!mode && SUPPORTED_MODES.includes(mode);
+
+  const [status, setStatus] = useState<'loading' | 'ready' | 'success' | 'error'>('loading');
+  const [error, setError] = useState('');
+  const [accountEmail, setAccountEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [resetSent, setResetSent] = useState(false);
+
+  // Action codes are single-use, so only process the link once (effects run twice in dev)
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (!isValidLink || !oobCode || handledRef.current) return;
+    handledRef.current = true;
+
+    const handleAction = async () => {
+      try {
+        if (mode === 'resetPassword') {
+          // Verify the code first so we can show which account is being reset
+          const email = await verifyPasswordResetCode(auth, oobCode);
+          setAccountEmail(email);
+          setStatus('ready');
+        } else if (mode === 'verifyEmail') {
+          await applyActionCode(auth, oobCode);
+          // Refresh the signed-in user (if any) so emailVerified is up to date
+          await auth.currentUser?.reload();
+          setStatus('success');
+        } else if (mode === 'verifyAndChangeEmail') {
+          // Email change requested from Account Settings - existing sessions are signed out,
+          // and the users document picks up the new address on the next sign-in
+          const info = await checkActionCode(auth, oobCode);
+          await applyActionCode(auth, oobCode);
+          setAccountEmail(info.data.email || '');
+          setStatus('success');
+        } else if (mode === 'recoverEmail') {
+          // Revert the email change and remember the restored address
+          const info = await checkActionCode(auth, oobCode);
+          await applyActionCode(auth, oobCode);
+          setAccountEmail(info.data.email || '');
+          setStatus('success');
+        }
+      } catch (err: unknown) {
+        setError(getAuthErrorMessage(err));
+        setStatus('error');
+      }
+    };
+
+    handleAction();
+  }, [isValidLink, mode, oobCode]);
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      await confirmPasswordReset(auth, oobCode!, newPassword);
+      setStatus('success');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // After recovering an email, the account may be compromised - offer a password reset
+  const handleSendPasswordReset = async () => {
+    setError('');
+    setSubmitting(true);
+
+    try {
+      await sendPasswordReset(accountEmail);
+      setResetSent(true);
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!isValidLink) {
+      return (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          This link is invalid or incomplete. Please request a new one.
+        </Alert>
+      );
+    }
+
+    if (status === 'loading') {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+
+    if (status === 'error') {
+      return (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      );
+    }
+
+    if (mode === 'resetPassword' && status === 'ready') {
+      return (
+        <Box component="form" onSubmit={handleResetPassword}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Choose a new password for <strong>{accountEmail}</strong>
+          </Typography>
+          <TextField
+            fullWidth
+            label="New Password"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            margin="normal"
+            required
+            autoFocus
+            helperText="Minimum 6 characters"
+          />
+          <TextField
+            fullWidth
+            label="Confirm Password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            margin="normal"
+            required
+          />
+          <Button
+            type="submit"
+            fullWidth
+            variant="contained"
+            sx={{ mt: 3, mb: 1 }}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <>
+                <CircularProgress size={20} color="inherit" sx={{ mr: 1 }} />
+                Saving...
+              </>
+            ) : (
+              'Save Password'
+            )}
+          </Button>
+        </Box>
+      );
+    }
+
+    if (mode === 'resetPassword') {
+      return (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your password has been reset. You can now sign in with your new password.
+        </Alert>
+      );
+    }
+
+    if (mode === 'verifyEmail') {
+      return (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your email address has been verified. You can now sign in to the dashboard.
+        </Alert>
+      );
+    }
+
+    if (mode === 'verifyAndChangeEmail') {
+      return (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your sign-in email has been changed to <strong>{accountEmail}</strong>. Please sign in again with your new email.
+        </Alert>
+      );
+    }
+
+    return (
+      <Box>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your sign-in email has been restored to <strong>{accountEmail}</strong>.
+        </Alert>
+        {resetSent ? (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Password reset email sent. Check your email for instructions to reset your password.
+          </Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              If you didn't request the email change, your account may have been compromised. We recommend resetting your password.
+            </Typography>
+            <Button
+              fullWidth
+              variant="outlined"
+              sx={{ mb: 1 }}
+              disabled={submitting}
+              onClick={handleSendPasswordReset}
+            >
+              {submitting ? 'Sending...' : 'Reset My Password'}
+            </Button>
+          </>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Container maxWidth="sm">
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      >
+        <Paper elevation={3} sx={{ p: 4, width: '100%' }}>
+          <Typography variant="h4" component="h1" gutterBottom align="center" sx={{ mb: 3 }}>
+            {isValidLink && mode ? PAGE_TITLES[mode] : 'Account Action'}
+          </Typography>
+
+          {renderContent()}
+
+          <Button
+            fullWidth
+            variant="text"
+            onClick={() => router.push('/login')}
+          >
+            Go to sign in
+          </Button>
+        </Paper>
+      </Box>
+    </Container>
+  );
+}
+
+export default function AuthActionPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <AuthActionHandler />
+    </Suspense>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
   Container,
   Box,
@@ -16,41 +16,70 @@ import {
 import GoogleIcon from '@mui/icons-material/Google';
 import AppleIcon from '@mui/icons-material/Apple';
 import { collection, query, where, getDocs } from 'firebase/firestore';
-import { sendPasswordResetEmail } from 'firebase/auth';
-import { db, auth } from '@/lib/firebase';
-import { loginWithPassword } from '@/lib/auth';
-import { signInWithGoogle, signInWithApple } from '@/lib/oauthSignIn';
+import { db } from '@/lib/firebase';
+import { loginWithPassword, createServerSession } from '@/lib/auth';
+import { signInWithGoogle, signInWithApple, signInWithOidc } from '@/lib/oauthSignIn';
+import {
+  completeSecondFactorSignIn,
+  completeSignInWithRecoveryCode,
+  clearPendingSecondFactor,
+} from '@/lib/mfa';
 import { useAuth } from '@/hooks/useAuth';
 import { getAuthErrorMessage } from '@/lib/errorMessages';
 import { getEmailValidationError } from '@/utils/validation';
+import OidcSignInButtons from '@/components/shared/OidcSignInButtons';
+import { SIGN_OUT_MESSAGES, type SignOutReason } from '@/lib/sessionPolicy';
+import type { OidcProvider } from '@/types';
 
-export default function LoginPage() {
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user, userData } = useAuth();
+  // Set when the user was signed out automatically (idle timeout, role change, another tab)
+  const signOutMessage = SIGN_OUT_MESSAGES[searchParams.get('reason') as SignOutReason] || '';
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState('');
   const [loading, setLoading] = useState(false);
-  const [resetLoading, setResetLoading] = useState(false);
-  const [oauthLoading, setOauthLoading] = useState<'google' | 'apple' | null>(null);
+  // 'google', 'apple' or the ID of the OIDC provider signing in
+  const [oauthLoading, setOauthLoading] = useState<string | null>(null);
   const [redirecting, setRedirecting] = useState(false);
+  const [secondFactorRequired, setSecondFactorRequired] = useState(false);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   // Redirect if already logged in
   useEffect(() => {
     const handleRedirect = async () => {
       if (!user || !userData || redirecting) return;
 
+      // Make sure the server session cookie exists before entering the dashboard,
+      // otherwise the proxy sends us straight back here
+      setRedirecting(true);
+      try {
+        await createServerSession(user);
+      } catch (err) {
+        setError(getAuthErrorMessage(err));
+        setLoading(false);
+        setRedirecting(false);
+        return;
+      }
+
       // Super admins go to admin dashboard
       if (userData.role === 'super_admin') {
         router.push('/admin');
         return;
       }
 
+      // Team managers only manage their own teams
+      if (userData.role === 'team_manager') {
+        router.push('/club/teams');
+        return;
+      }
+
       // For club admins, check if they have existing teams
       if (userData.clubId) {
-        setRedirecting(true);
         try {
           const teamsQuery = query(
             collection(db, 'teams'),
@@ -79,7 +108,6 @@ export default function LoginPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    setSuccess('');
 
     if (!email || !password) {
       setError('Email and password are required');
@@ -95,7 +123,12 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      await loginWithPassword(email, password);
+      const result = await loginWithPassword(email, password);
+      if (result.needsSecondFactor) {
+        setSecondFactorRequired(true);
+        setLoading(false);
+        return;
+      }
       // Redirect will happen via useEffect when user state updates
       // The useEffect will check the role and redirect appropriately
     } catch (err: unknown) {
@@ -104,14 +137,15 @@ export default function LoginPage() {
     }
   };
 
-  const handleOAuthSignIn = async (provider: 'google' | 'apple') => {
+  const handleOAuthSignIn = async (provider: 'google' | 'apple' | OidcProvider) => {
     setError('');
-    setSuccess('');
-    setOauthLoading(provider);
+    setOauthLoading(typeof provider === 'string' ? provider : provider.id);
 
     try {
-      const signInFn = provider === 'google' ? signInWithGoogle : signInWithApple;
-      const result = await signInFn();
+      const result =
+        typeof provider === 'string'
+          ? await (provider === 'google' ? signInWithGoogle : signInWithApple)()
+          : await signInWithOidc(provider);
 
       if (result.needsReferralCode) {
         // New user needs to sign up with referral code
@@ -120,6 +154,12 @@ export default function LoginPage() {
         return;
       }
 
+      if (result.needsSecondFactor) {
+        setSecondFactorRequired(true);
+        setOauthLoading(null);
+        return;
+      }
+
       // Success - redirect will happen via useEffect when user state updates
     } catch (err: unknown) {
       setError(getAuthErrorMessage(err));
@@ -127,35 +167,43 @@ export default function LoginPage() {
     }
   };
 
-  const handleForgotPassword = async () => {
+  const handleSecondFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
     setError('');
-    setSuccess('');
 
-    // Validate email is entered
-    if (!email.trim()) {
-      setError('Please enter your email address first.');
+    if (!verificationCode.trim()) {
+      setError(useRecoveryCode ? 'Recovery code is required' : 'Verification code is required');
       return;
     }
 
-    // Validate email format
-    const emailError = getEmailValidationError(email);
-    if (emailError) {
-      setError(emailError);
-      return;
-    }
-
-    setResetLoading(true);
+    setLoading(true);
 
     try {
-      await sendPasswordResetEmail(auth, email.trim().toLowerCase());
-      setSuccess('Password reset email sent. Check your email for instructions to reset your password.');
+      if (useRecoveryCode) {
+        await completeSignInWithRecoveryCode(verificationCode);
+      } else {
+        await completeSecondFactorSignIn(verificationCode);
+      }
+      // Redirect will happen via useEffect when user state updates
     } catch (err: unknown) {
       setError(getAuthErrorMessage(err));
-    } finally {
-      setResetLoading(false);
+      setLoading(false);
     }
   };
 
+  const handleCancelSecondFactor = () => {
+    clearPendingSecondFactor();
+    setSecondFactorRequired(false);
+    setVerificationCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  const handleForgotPassword = () => {
+    const emailParam = email.trim() ? `?email=${encodeURIComponent(email.trim().toLowerCase())}` : '';
+    router.push(`/reset-password${emailParam}`);
+  };
+
   return (
     <Container maxWidth="sm">
       <Box
@@ -174,120 +222,184 @@ export default function LoginPage() {
             Sign in to access your admin console
           </Typography>
 
-          {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
-              {error}
+          {signOutMessage && !error && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {signOutMessage}
             </Alert>
           )}
 
-          {success && (
-            <Alert severity="success" sx={{ mb: 2 }}>
-              {success}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
             </Alert>
           )}
 
-          <Box component="form" onSubmit={handleSubmit}>
-            <TextField
-              fullWidth
-              label="Email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              margin="normal"
-              required
-              autoFocus
-            />
-            <TextField
-              fullWidth
-              label="Password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              margin="normal"
-              required
-            />
-            <Box sx={{ textAlign: 'right', mt: 1 }}>
+          {secondFactorRequired ? (
+            // Second step for accounts with two-factor authentication
+            <Box component="form" onSubmit={handleSecondFactorSubmit}>
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication. Your authenticator app will be removed so you can set it up again.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </Alert>
+              <TextField
+                fullWidth
+                label={useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+                value={verificationCode}
+                onChange={(e) => setVerificationCode(e.target.value)}
+                margin="normal"
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                slotProps={{ htmlInput: useRecoveryCode ? {} : { inputMode: 'numeric', maxLength: 6 } }}
+              />
               <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 2, mb: 1 }}
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <CircularProgress size={20} color="inherit" sx={{ mr: 1 }} />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+              <Button
+                fullWidth
                 variant="text"
-                size="small"
-                onClick={handleForgotPassword}
-                disabled={loading || resetLoading || oauthLoading !== null}
-                sx={{ textTransform: 'none' }}
+                disabled={loading}
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setVerificationCode('');
+                  setError('');
+                }}
               >
-                {resetLoading ? (
+                {useRecoveryCode ? 'Use authenticator app instead' : 'Lost your authenticator? Use a recovery code'}
+              </Button>
+              <Button
+                fullWidth
+                variant="text"
+                disabled={loading}
+                onClick={handleCancelSecondFactor}
+              >
+                Cancel and return to login
+              </Button>
+            </Box>
+          ) : (
+            <Box component="form" onSubmit={handleSubmit}>
+              <TextField
+                fullWidth
+                label="Email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                margin="normal"
+                required
+                autoFocus
+              />
+              <TextField
+                fullWidth
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                margin="normal"
+                required
+              />
+              <Box sx={{ textAlign: 'right', mt: 1 }}>
+                <Button
+                  variant="text"
+                  size="small"
+                  onClick={handleForgotPassword}
+                  disabled={loading || oauthLoading !== null}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Forgot Password?
+                </Button>
+              </Box>
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 2, mb: 2 }}
+                disabled={loading || oauthLoading !== null}
+              >
+                {loading ? (
                   <>
-                    <CircularProgress size={16} sx={{ mr: 1 }} />
-                    Sending...
+                    <CircularProgress size={20} color="inherit" sx={{ mr: 1 }} />
+                    Signing in...
                   </>
                 ) : (
-                  'Forgot Password?'
+                  'Sign In'
                 )}
               </Button>
+
+              <Divider sx={{ my: 2 }}>or</Divider>
+
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={oauthLoading === 'google' ? <CircularProgress size={20} /> : <GoogleIcon />}
+                onClick={() => handleOAuthSignIn('google')}
+                disabled={loading || oauthLoading !== null}
+                sx={{ mb: 1 }}
+              >
+                {oauthLoading === 'google' ? 'Signing in...' : 'Sign in with Google'}
+              </Button>
+              <OidcSignInButtons
+                mode="login"
+                onSignIn={handleOAuthSignIn}
+                loadingProviderId={oauthLoading}
+                disabled={loading || oauthLoading !== null}
+              />
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={oauthLoading === 'apple' ? <CircularProgress size={20} /> : <AppleIcon />}
+                onClick={() => handleOAuthSignIn('apple')}
+                disabled={loading || oauthLoading !== null}
+                sx={{ 
+                  mb: 2,
+                  bgcolor: 'black',
+                  color: 'white',
+                  borderColor: 'black',
+                  '&:hover': {
+                    bgcolor: '#333',
+                    borderColor: '#333',
+                  },
+                  '&:disabled': {
+                    bgcolor: 'grey.300',
+                    borderColor: 'grey.300',
+                  },
+                }}
+              >
+                {oauthLoading === 'apple' ? 'Signing in...' : 'Sign in with Apple'}
+              </Button>
+
+              <Button
+                fullWidth
+                variant="text"
+                onClick={() => router.push('/signup')}
+              >
+                Don&apos;t have an account? Sign up
+              </Button>
             </Box>
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              sx={{ mt: 2, mb: 2 }}
-              disabled={loading || resetLoading || oauthLoading !== null}
-            >
-              {loading ? (
-                <>
-                  <CircularProgress size={20} color="inherit" sx={{ mr: 1 }} />
-                  Signing in...
-                </>
-              ) : (
-                'Sign In'
-              )}
-            </Button>
-
-            <Divider sx={{ my: 2 }}>or</Divider>
-
-            <Button
-              fullWidth
-              variant="outlined"
-              startIcon={oauthLoading === 'google' ? <CircularProgress size={20} /> : <GoogleIcon />}
-              onClick={() => handleOAuthSignIn('google')}
-              disabled={loading || resetLoading || oauthLoading !== null}
-              sx={{ mb: 1 }}
-            >
-              {oauthLoading === 'google' ? 'Signing in...' : 'Sign in with Google'}
-            </Button>
-            <Button
-              fullWidth
-              variant="outlined"
-              startIcon={oauthLoading === 'apple' ? <CircularProgress size={20} /> : <AppleIcon />}
-              onClick={() => handleOAuthSignIn('apple')}
-              disabled={loading || resetLoading || oauthLoading !== null}
-              sx={{ 
-                mb: 2,
-                bgcolor: 'black',
-                color: 'white',
-                borderColor: 'black',
-                '&:hover': {
-                  bgcolor: '#333',
-                  borderColor: '#333',
-                },
-                '&:disabled': {
-                  bgcolor: 'grey.300',
-                  borderColor: 'grey.300',
-                },
-              }}
-            >
-              {oauthLoading === 'apple' ? 'Signing in...' : 'Sign in with Apple'}
-            </Button>
-
-            <Button
-              fullWidth
-              variant="text"
-              onClick={() => router.push('/signup')}
-            >
-              Don&apos;t have an account? Sign up
-            </Button>
-          </Box>
+          )}
         </Paper>
       </Box>
     </Container>
   );
 }
 
+export default function LoginPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -19,6 +19,7 @@ import { signupAdmin } from '@/lib/auth';
 import {
   signInWithGoogle,
   signInWithApple,
+  signInWithOidc,
   completePendingOAuthSignup,
   hasPendingOAuthSignup,
   getPendingOAuthEmail,
@@ -27,6 +28,8 @@ import {
 import { useAuth } from '@/hooks/useAuth';
 import { getAuthErrorMessage } from '@/lib/errorMessages';
 import { getEmailValidationError } from '@/utils/validation';
+import OidcSignInButtons from '@/components/shared/OidcSignInButtons';
+import type { OidcProvider } from '@/types';
 
 function SignupForm() {
   const searchParams = useSearchParams();
@@ -42,9 +45,11 @@ function SignupForm() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const [oauthLoading, setOauthLoading] = useState<'google' | 'apple' | null>(null);
+  // 'google', 'apple' or the ID of the OIDC provider signing up
+  const [oauthLoading, setOauthLoading] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
   const [isOAuthFlow, setIsOAuthFlow] = useState(false);
+  const [verificationSentTo, setVerificationSentTo] = useState<string | null>(null);
 
   // Initialize state from URL params after mount to avoid hydration mismatch
   useEffect(() => {
@@ -90,17 +95,19 @@ function SignupForm() {
     };
   }, []);
 
-  // Redirect if already logged in
+  // Redirect if already logged in (not while signup is in progress or awaiting email verification)
   useEffect(() => {
-    if (user && userData) {
+    if (user && userData && !loading && !verificationSentTo) {
       // Super admins go to admin dashboard, others go to onboarding
       if (userData.role === 'super_admin') {
         router.push('/admin');
+      } else if (userData.role === 'team_manager') {
+        router.push('/club/teams');
       } else {
         router.push('/onboarding');
       }
     }
-  }, [user, userData, router]);
+  }, [user, userData, loading, verificationSentTo, router]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -131,7 +138,12 @@ function SignupForm() {
     setLoading(true);
 
     try {
-      await signupAdmin(email, password, referralCode, firstName, lastName);
+      const result = await signupAdmin(email, password, referralCode, firstName, lastName);
+      if (result.needsEmailVerification) {
+        setVerificationSentTo(result.user.email);
+        setLoading(false);
+        return;
+      }
       // Signup successful - redirect directly instead of waiting for useEffect
       // This avoids race condition where onAuthStateChanged fires before Firestore doc is ready
       router.push('/onboarding');
@@ -141,13 +153,15 @@ function SignupForm() {
     }
   };
 
-  const handleOAuthSignIn = async (provider: 'google' | 'apple') => {
+  const handleOAuthSignIn = async (provider: 'google' | 'apple' | OidcProvider) => {
     setError('');
-    setOauthLoading(provider);
+    setOauthLoading(typeof provider === 'string' ? provider : provider.id);
 
     try {
-      const signInFn = provider === 'google' ? signInWithGoogle : signInWithApple;
-      const result = await signInFn(referralCode || null);
+      const result =
+        typeof provider === 'string'
+          ? await (provider === 'google' ? signInWithGoogle : signInWithApple)(referralCode || null)
+          : await signInWithOidc(provider, referralCode || null);
 
       if (result.needsReferralCode) {
         // Stay on this page but mark as OAuth flow
@@ -211,7 +225,22 @@ function SignupForm() {
             </Alert>
           )}
 
-          {isOAuthFlow && hasPendingOAuthSignup() ? (
+          {verificationSentTo ? (
+            // Password signup - email must be verified before signing in
+            <Box>
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Your account has been created. We've sent a verification link to <strong>{verificationSentTo}</strong>.
+                Please verify your email address, then sign in.
+              </Alert>
+              <Button
+                fullWidth
+                variant="contained"
+                onClick={() => router.push('/login')}
+              >
+                Go to Sign In
+              </Button>
+            </Box>
+          ) : isOAuthFlow && hasPendingOAuthSignup() ? (
             // OAuth flow - user needs to provide referral code only
             <Box>
               <Alert severity="info" sx={{ mb: 2 }}>
@@ -350,6 +379,12 @@ function SignupForm() {
               >
                 {oauthLoading === 'google' ? 'Signing up...' : 'Google'}
               </Button>
+              <OidcSignInButtons
+                mode="signup"
+                onSignIn={handleOAuthSignIn}
+                loadingProviderId={oauthLoading}
+                disabled={loading || oauthLoading !== null}
+              />
               <Button
                 fullWidth
                 variant="outlined"
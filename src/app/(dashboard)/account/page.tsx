@@ -0,0 +1,48 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Container, Box, Typography, Stack } from '@mui/material';
+import ProfileSettings from '@/components/account/ProfileSettings';
+import SignInSettings from '@/components/account/SignInSettings';
+import MfaSettings from '@/components/account/MfaSettings';
+import DeleteAccountSettings from '@/components/account/DeleteAccountSettings';
+import ClubMembershipSettings from '@/components/account/ClubMembershipSettings';
+import { appColors } from '@/theme';
+
+function AccountSettingsContent() {
+  const searchParams = useSearchParams();
+  // Set by the proxy when the user's club requires MFA and this session didn't use it
+  const mfaRequired = searchParams.get('mfa') === 'required';
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Account Settings
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Manage your profile and how you sign in to Benchmark Coach
+        </Typography>
+      </Box>
+
+      <Stack spacing={3}>
+        {/* Put the MFA setup first when the club requires it */}
+        {mfaRequired && <MfaSettings required />}
+        <ProfileSettings />
+        <ClubMembershipSettings />
+        <SignInSettings />
+        {!mfaRequired && <MfaSettings />}
+        <DeleteAccountSettings />
+      </Stack>
+    </Container>
+  );
+}
+
+export default function AccountSettingsPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <AccountSettingsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Container,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+} from '@mui/material';
+import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
+import { RateReview as ReviewIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { isCoolOffOver } from '@/lib/accountDeletion';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { AccountDeletion, User } from '@/types';
+import PageLoader from '@/components/shared/PageLoader';
+import AccountDeletionReviewDialog from '@/components/admin/AccountDeletionReviewDialog';
+import { useToast } from '@/contexts/ToastContext';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+
+export default function AccountDeletionsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { showSuccess } = useToast();
+  const [requests, setRequests] = useState<AccountDeletion[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filterStatus, setFilterStatus] = useState<'all' | AccountDeletion['status']>('pending');
+  const [selectedRequest, setSelectedRequest] = useState<AccountDeletion | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const [requestsSnapshot, usersSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'account_deletions'), orderBy('requestedAt', 'desc'))),
+        getDocs(collection(db, 'users')),
+      ]);
+
+      setRequests(requestsSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as AccountDeletion)));
+      setUsers(usersSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as User)));
+    } catch (err) {
+      console.error('Error loading deletion requests:', err);
+      setError('Failed to load account deletion requests');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!user || authLoading) return;
+
+      try {
+        await loadRequests();
+      } catch (err) {
+        console.error('Error:', err);
+        setError('Failed to load account deletion requests');
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, authLoading, loadRequests]);
+
+  const filteredRequests = useMemo(
+    () => requests.filter((request) => filterStatus === 'all' || request.status === filterStatus),
+    [requests, filterStatus]
+  );
+
+  const columns: GridColDef[] = useMemo(
+    () => [
+      {
+        field: 'userName',
+        headerName: 'User',
+        flex: 1,
+        minWidth: 150,
+        valueGetter: (value, row: AccountDeletion) => row.userName || row.email,
+      },
+      {
+        field: 'email',
+        headerName: 'Email',
+        flex: 1,
+        minWidth: 200,
+      },
+      {
+        field: 'reason',
+        headerName: 'Reason',
+        flex: 1,
+        minWidth: 180,
+        valueGetter: (value: unknown) => (value as string) || '—',
+      },
+      {
+        field: 'requestedAt',
+        headerName: 'Requested',
+        width: 130,
+        valueGetter: (value: unknown) => formatDate(value),
+      },
+      {
+        field: 'scheduledFor',
+        headerName: 'Cool-off Ends',
+        width: 130,
+        valueGetter: (value: unknown) => formatDate(value),
+      },
+      {
+        field: 'status',
+        headerName: 'Status',
+        width: 140,
+        renderCell: (params) => {
+          const request = params.row as AccountDeletion;
+          if (request.status === 'pending') {
+            const ready = isCoolOffOver(request);
+            return (
+              <Chip
+                label={ready ? 'Ready' : 'Cooling Off'}
+                size="small"
+                sx={{ backgroundColor: ready ? appColors.error : appColors.warning, color: '#fff' }}
+              />
+            );
+          }
+          return (
+            <Chip
+              label={request.status === 'completed' ? 'Deleted' : 'Cancelled'}
+              size="small"
+              variant="outlined"
+            />
+          );
+        },
+      },
+      {
+        field: 'actions',
+        type: 'actions',
+        headerName: 'Actions',
+        width: 100,
+        getActions: (params) => [
+          <GridActionsCellItem
+            key="review"
+            icon={<ReviewIcon sx={{ color: appColors.textSecondary }} />}
+            label="Review"
+            onClick={() => setSelectedRequest(params.row as AccountDeletion)}
+          />,
+        ],
+      },
+    ],
+    []
+  );
+
+  if (authLoading || (loading && requests.length === 0)) {
+    return <PageLoader />;
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 4 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Account Deletions
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Review and process account deletion requests once their cool-off period has ended
+          </Typography>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as typeof filterStatus)}
+            label="Status"
+          >
+            <MenuItem value="pending">Pending</MenuItem>
+            <MenuItem value="completed">Deleted</MenuItem>
+            <MenuItem value="cancelled">Cancelled</MenuItem>
+            <MenuItem value="all">All</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: '100%' }}>
+        <DataGrid
+          rows={filteredRequests}
+          columns={columns}
+          loading={loading}
+          getRowId={(row) => row.id}
+          disableRowSelectionOnClick
+          initialState={{
+            pagination: {
+              paginationModel: { pageSize: 25 },
+            },
+          }}
+          pageSizeOptions={[10, 25, 50, 100]}
+        />
+      </Box>
+
+      <AccountDeletionReviewDialog
+        open={selectedRequest !== null}
+        onClose={() => setSelectedRequest(null)}
+        onDeleted={() => {
+          showSuccess('Account deleted');
+          loadRequests();
+        }}
+        request={selectedRequest}
+        users={users}
+      />
+    </Container>
+  );
+}
@@ -15,13 +15,15 @@ import {
   Stack,
 } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
 import { collection, getDocs, query, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { DataGrid, GridColDef } from '@mui/x-data-grid';
 import PageLoader from '@/components/shared/PageLoader';
 import { appColors } from '@/theme';
-import { toDate } from '@/utils/dateHelpers';
+import { toDate, formatDate, formatDateTime } from '@/utils/dateHelpers';
+import { getRoleLabel } from '@/config/roles';
+import { SEAT_TYPE_LABELS, type SeatType } from '@/config/seatLedger';
+import { ADMIN_PLAN_KIND_LABELS, type AdminPlanKind } from '@/config/adminPlans';
 
 interface AuditLogEntry {
   id: string;
@@ -38,22 +40,14 @@ export default function AuditLogPage() {
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [accessDenied, setAccessDenied] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('all');
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadAuditLogs();
       } catch (err) {
         console.error('Error:', err);
@@ -62,7 +56,7 @@ export default function AuditLogPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading]);
 
   const loadAuditLogs = async () => {
@@ -115,7 +109,8 @@ export default function AuditLogPage() {
       case 'member_removed':
         return getString(data.userName) || getString(data.email, 'User');
       case 'role_changed':
-        return getString(data.userName) || getString(data.email, 'User');
+        // targetName/targetEmail identify the member; older entries only have userName/email
+        return getString(data.targetName) || getString(data.targetEmail) || getString(data.userName) || getString(data.email, 'User');
       case 'team_deleted':
         return getString(data.teamName, 'Team');
       case 'session_created':
@@ -126,6 +121,44 @@ export default function AuditLogPage() {
         return getString(data.drillName, 'Drill');
       case 'team_drill_uploaded':
         return getString(data.drillName, 'Drill');
+      case 'club_updated':
+        return getString(data.clubName, 'Club');
+      case 'oidc_provider_saved':
+      case 'oidc_provider_deleted':
+        return getString(data.providerName) || getString(data.providerId, 'Provider');
+      case 'session_policy_updated':
+        return 'Idle Timeout';
+      case 'active_club_switched':
+      case 'club_membership_added':
+        return getString(data.clubName) || getString(data.clubId, 'Club');
+      case 'memberships_migrated':
+        return 'Club Memberships';
+      case 'seat_ledger_drift':
+        return getString(data.clubId, 'Club');
+      case 'admin_plan_created':
+      case 'admin_plan_updated':
+      case 'admin_plan_ended':
+        return getString(data.clubName) || getString(data.clubId, 'Club');
+      case 'admin_grant_created':
+      case 'admin_grant_revoked':
+      case 'member_suspended':
+      case 'member_reinstated':
+        return getString(data.targetName) || getString(data.targetEmail, 'User');
+      case 'impersonation_started':
+      case 'impersonation_stopped':
+      case 'account_deleted':
+        return getString(data.targetUserName) || getString(data.targetEmail, 'User');
+      case 'mfa_enrolled':
+      case 'mfa_removed':
+      case 'mfa_recovery_used':
+      case 'provider_linked':
+      case 'provider_unlinked':
+      case 'email_change_requested':
+      case 'email_changed':
+      case 'password_changed':
+      case 'account_deletion_requested':
+      case 'account_deletion_cancelled':
+        return getString(data.userName) || getString(data.email, 'User');
       default:
         return 'N/A';
     }
@@ -152,6 +185,90 @@ export default function AuditLogPage() {
         return `Deleted drill "${getString(data.drillName, 'Drill')}"`;
       case 'team_drill_uploaded':
         return `Uploaded team drill "${getString(data.drillName, 'Drill')}" to ${getString(data.teamName, 'team')}`;
+      case 'club_updated':
+        if (typeof data.requireAdminMfa === 'boolean') {
+          return `${data.requireAdminMfa ? 'Required' : 'Stopped requiring'} two-factor authentication for club admins`;
+        }
+        if ('maxTeamManagers' in data) {
+          return data.maxTeamManagers == null
+            ? 'Removed team manager seats'
+            : `Set team manager seats to ${data.maxTeamManagers}`;
+        }
+        return 'Updated club details';
+      case 'mfa_enrolled':
+        return 'Enabled two-factor authentication';
+      case 'mfa_removed':
+        return 'Removed two-factor authentication';
+      case 'mfa_recovery_used':
+        return 'Signed in with a recovery code and reset two-factor authentication';
+      case 'provider_linked':
+        return `Linked sign-in method ${getString(data.providerId, 'unknown')}`;
+      case 'provider_unlinked':
+        return `Unlinked sign-in method ${getString(data.providerId, 'unknown')}`;
+      case 'email_change_requested':
+        return `Requested email change to ${getString(data.newEmail, 'unknown')}`;
+      case 'email_changed':
+        return `Changed email from ${getString(data.previousEmail, 'N/A')} to ${getString(data.newEmail, 'unknown')}`;
+      case 'password_changed':
+        return 'Changed password';
+      case 'impersonation_started':
+        return `Started viewing as ${getString(data.targetEmail, 'user')} (read-only)`;
+      case 'impersonation_stopped':
+        if (data.reason === 'expired') return `View as ${getString(data.targetEmail, 'user')} expired`;
+        return `Stopped viewing as ${getString(data.targetEmail, 'user')}${data.reason === 'signed_out' ? ' (signed out)' : ''}`;
+      case 'oidc_provider_saved':
+        return `Saved sign-in provider ${getString(data.providerId, 'unknown')}${data.enabled === false ? ' (disabled)' : ''}`;
+      case 'oidc_provider_deleted':
+        return `Removed sign-in provider ${getString(data.providerId, 'unknown')}`;
+      case 'session_policy_updated': {
+        const minutes = (data.idleTimeoutMinutes || {}) as Record<string, number>;
+        return `Set idle timeouts: ${Object.entries(minutes)
+          .map(([role, value]) => `${getRoleLabel(role)} ${value ? `${value} min` : 'off'}`)
+          .join(', ')}`;
+      }
+      case 'active_club_switched':
+        return `Switched to ${getString(data.clubName) || getString(data.clubId, 'another club')} as ${getRoleLabel(getString(data.role))}`;
+      case 'club_membership_added':
+        return `Joined ${getString(data.clubName) || getString(data.clubId, 'a club')} as ${getRoleLabel(getString(data.role))}`;
+      case 'memberships_migrated':
+        return `Migrated ${typeof data.migratedCount === 'number' ? data.migratedCount : 0} user(s) to club memberships`;
+      case 'admin_grant_created':
+        return `Gave temporary admin access until ${formatDateTime(getString(data.expiresAt))}`;
+      case 'admin_grant_revoked':
+        return data.reason === 'expired' ? 'Temporary admin access expired' : 'Revoked temporary admin access';
+      case 'admin_plan_created':
+      case 'admin_plan_updated': {
+        const kind = ADMIN_PLAN_KIND_LABELS[data.kind as AdminPlanKind] || 'Admin-managed';
+        const coachSeats = typeof data.maxCoachAccounts === 'number' ? data.maxCoachAccounts : 0;
+        const viewOnlySeats = typeof data.maxViewOnlyUsers === 'number' ? data.maxViewOnlyUsers : 0;
+        const verb = action === 'admin_plan_created' ? 'Created' : 'Updated';
+        const note = data.note ? `. Note: ${getString(data.note)}` : '';
+        return `${verb} ${kind.toLowerCase()} plan "${getString(data.planName, 'Plan')}" with ${coachSeats} coach and ${viewOnlySeats} view-only seats, ${formatDate(data.startDate)} to ${formatDate(data.endDate)}${note}`;
+      }
+      case 'admin_plan_ended':
+        return `Ended plan "${getString(data.planName, 'Plan')}"`;
+      case 'member_suspended':
+        return `Suspended ${getRoleLabel(getString(data.role))}, freeing their seat`;
+      case 'member_reinstated':
+        return `Reinstated ${getRoleLabel(getString(data.role))}`;
+      case 'seat_ledger_drift': {
+        // Drift is the ledger minus the recount, per seat type
+        const drift = (data.drift || {}) as Record<string, { used?: number; pending?: number }>;
+        const formatCount = (count: number | undefined) => `${(count || 0) > 0 ? '+' : ''}${count || 0}`;
+        return `Seat ledger corrected: ${Object.entries(drift)
+          .map(([seatType, counts]) =>
+            `${SEAT_TYPE_LABELS[seatType as SeatType] || seatType} used ${formatCount(counts.used)}, pending ${formatCount(counts.pending)}`
+          )
+          .join('; ')}`;
+      }
+      case 'account_deletion_requested':
+        return 'Requested deletion of their account';
+      case 'account_deletion_cancelled':
+        return 'Cancelled their account deletion request';
+      case 'account_deleted':
+        return data.contentAction === 'reassign'
+          ? `Deleted account ${getString(data.targetEmail, 'user')} and reassigned their content`
+          : `Deleted account ${getString(data.targetEmail, 'user')} and purged their content`;
       default:
         return 'Action performed';
     }
@@ -167,19 +284,46 @@ export default function AuditLogPage() {
       case 'session_created':
       case 'drill_uploaded':
       case 'team_drill_uploaded':
+      case 'club_membership_added':
+      case 'admin_grant_created':
+      case 'admin_plan_created':
         return appColors.success;
       case 'user_updated':
       case 'club_updated':
       case 'settings_updated':
+      case 'oidc_provider_saved':
+      case 'session_policy_updated':
+      case 'active_club_switched':
+      case 'memberships_migrated':
+      case 'admin_plan_updated':
+      case 'member_reinstated':
+      case 'mfa_enrolled':
+      case 'provider_linked':
+      case 'email_changed':
+      case 'password_changed':
         return appColors.info;
       case 'user_deleted':
       case 'team_deleted':
       case 'member_removed':
       case 'drill_deleted':
+      case 'account_deleted':
+      case 'oidc_provider_deleted':
         return appColors.error;
       case 'role_changed':
+      case 'admin_grant_revoked':
+      case 'impersonation_started':
+      case 'impersonation_stopped':
         return '#9c27b0';
       case 'member_invited':
+      case 'mfa_removed':
+      case 'mfa_recovery_used':
+      case 'provider_unlinked':
+      case 'email_change_requested':
+      case 'account_deletion_requested':
+      case 'account_deletion_cancelled':
+      case 'seat_ledger_drift':
+      case 'admin_plan_ended':
+      case 'member_suspended':
         return appColors.warning;
       default:
         return appColors.textSecondary;
@@ -222,6 +366,50 @@ export default function AuditLogPage() {
         return 'Drill Deleted';
       case 'team_drill_uploaded':
         return 'Team Drill Uploaded';
+      case 'mfa_enrolled':
+        return '2FA Enabled';
+      case 'mfa_removed':
+        return '2FA Removed';
+      case 'mfa_recovery_used':
+        return '2FA Recovery Used';
+      case 'impersonation_started':
+        return 'View As Started';
+      case 'impersonation_stopped':
+        return 'View As Stopped';
+      case 'account_deletion_requested':
+        return 'Deletion Requested';
+      case 'account_deletion_cancelled':
+        return 'Deletion Cancelled';
+      case 'account_deleted':
+        return 'Account Deleted';
+      case 'oidc_provider_saved':
+        return 'Sign-In Provider Saved';
+      case 'oidc_provider_deleted':
+        return 'Sign-In Provider Removed';
+      case 'session_policy_updated':
+        return 'Session Policy Updated';
+      case 'active_club_switched':
+        return 'Club Switched';
+      case 'club_membership_added':
+        return 'Club Joined';
+      case 'memberships_migrated':
+        return 'Memberships Migrated';
+      case 'admin_grant_created':
+        return 'Temporary Admin Given';
+      case 'admin_grant_revoked':
+        return 'Temporary Admin Ended';
+      case 'seat_ledger_drift':
+        return 'Seat Ledger Corrected';
+      case 'admin_plan_created':
+        return 'Club Plan Created';
+      case 'admin_plan_updated':
+        return 'Club Plan Updated';
+      case 'admin_plan_ended':
+        return 'Club Plan Ended';
+      case 'member_suspended':
+        return 'Member Suspended';
+      case 'member_reinstated':
+        return 'Member Reinstated';
       default:
         return action.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
     }
@@ -318,14 +506,6 @@ export default function AuditLogPage() {
     return <PageLoader />;
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">Access denied. You must be a super admin to view this page.</Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4 }}>
@@ -360,6 +540,7 @@ export default function AuditLogPage() {
               <MenuItem value="user_created">User Created</MenuItem>
               <MenuItem value="user_updated">User Updated</MenuItem>
               <MenuItem value="user_deleted">User Deleted</MenuItem>
+              <MenuItem value="account_deleted">Account Deleted</MenuItem>
               <MenuItem value="club_created">Club Created</MenuItem>
               <MenuItem value="club_updated">Club Updated</MenuItem>
               <MenuItem value="team_created">Team Created</MenuItem>
@@ -18,7 +18,7 @@ import {
   CircularProgress,
 } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import type { Club, Team } from '@/types';
@@ -39,8 +39,8 @@ import { compressImage } from '@/utils/imageCompression';
 export default function BulkUploadPage() {
   const { user, loading: authLoading } = useAuth();
   const { showToast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
   const [loading, setLoading] = useState(true);
-  const [accessDenied, setAccessDenied] = useState(false);
   const [drillsJson, setDrillsJson] = useState<Array<Record<string, unknown>>>([]);
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
@@ -69,17 +69,10 @@ export default function BulkUploadPage() {
   const [isClearingTeam, setIsClearingTeam] = useState(false);
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadClubsAndTeams();
       } catch (err) {
         console.error('Error:', err);
@@ -89,7 +82,7 @@ export default function BulkUploadPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading]);
 
   const loadClubsAndTeams = async () => {
@@ -106,10 +99,6 @@ export default function BulkUploadPage() {
     }
   };
 
-  const promptForAdminEmail = (): string | null => {
-    return prompt('⚠️ Super Admin Email Required\n\nEnter your super admin email to confirm this action:');
-  };
-
   const fixEncoding = (obj: unknown): unknown => {
     if (typeof obj === 'string') {
       return obj
@@ -341,12 +330,10 @@ export default function BulkUploadPage() {
   };
 
   const handleClearBenchmarkClick = () => {
-    const email = promptForAdminEmail();
-    if (!email) {
-      showToast('Email confirmation required to proceed', 'warning');
-      return;
-    }
-    setClearBenchmarkDialogOpen(true);
+    requireStepUp(
+      () => setClearBenchmarkDialogOpen(true),
+      'Clearing benchmark drills affects every club. Please confirm it\'s you to continue.'
+    );
   };
 
   const handleClearBenchmarkConfirm = () => {
@@ -374,13 +361,10 @@ export default function BulkUploadPage() {
       return;
     }
 
-    const email = promptForAdminEmail();
-    if (!email) {
-      showToast('Email confirmation required to proceed', 'warning');
-      return;
-    }
-
-    setClearClubDialogOpen(true);
+    requireStepUp(
+      () => setClearClubDialogOpen(true),
+      'Clearing a club\'s drills cannot be undone. Please confirm it\'s you to continue.'
+    );
   };
 
   const handleClearClubDrillsConfirm = async () => {
@@ -406,13 +390,10 @@ export default function BulkUploadPage() {
       return;
     }
 
-    const email = promptForAdminEmail();
-    if (!email) {
-      showToast('Email confirmation required to proceed', 'warning');
-      return;
-    }
-
-    setClearTeamDialogOpen(true);
+    requireStepUp(
+      () => setClearTeamDialogOpen(true),
+      'Clearing a team\'s drills cannot be undone. Please confirm it\'s you to continue.'
+    );
   };
 
   const handleClearTeamDrillsConfirm = async () => {
@@ -461,14 +442,6 @@ export default function BulkUploadPage() {
     return <PageLoader />;
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">Access denied. You must be a super admin to view this page.</Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4 }}>
@@ -863,6 +836,9 @@ export default function BulkUploadPage() {
         isLoading={uploading}
       />
 
+      {/* Step-up re-authentication for the danger zone */}
+      {stepUpDialog}
+
       {/* Clear Benchmark - First Confirmation */}
       <ConfirmationDialog
         open={clearBenchmarkDialogOpen}
@@ -14,11 +14,17 @@ import {
   Tab,
   LinearProgress,
   Divider,
+  FormControlLabel,
+  Switch,
+  TextField,
 } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin, canAccessClub } from '@/lib/permissions';
-import { doc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { useToast } from '@/contexts/ToastContext';
+import { usePermission } from '@/hooks/usePermission';
+import { doc, getDoc, updateDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { logActivity } from '@/lib/activityLog';
+import { setClubAdminMfaRequired } from '@/lib/mfa';
 import type { Club, Team, User } from '@/types';
 import {
   ArrowBack as ArrowBackIcon,
@@ -26,15 +32,19 @@ import {
   Groups as GroupsIcon,
   Dashboard as DashboardIcon,
   VpnKey as VpnKeyIcon,
+  History as HistoryIcon,
   Add as AddIcon,
   PersonAdd as PersonAddIcon,
+  Visibility as VisibilityIcon,
 } from '@mui/icons-material';
-import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
 import PageLoader from '@/components/shared/PageLoader';
 import ReferralCodesTable from '@/components/shared/ReferralCodesTable';
 import InviteMemberModal from '@/components/club/InviteMemberModal';
 import CreateTeamDialog from '@/components/teams/CreateTeamDialog';
 import ClubAnalytics from '@/components/admin/ClubAnalytics';
+import AdminPlanSettings from '@/components/admin/AdminPlanSettings';
+import SubscriptionTimeline from '@/components/shared/SubscriptionTimeline';
 import { appColors } from '@/theme';
 import { formatDate } from '@/utils/dateHelpers';
 import { AGE_GROUP_LABELS } from '@/constants/teams';
@@ -43,16 +53,23 @@ export default function ClubDetailPage() {
   const router = useRouter();
   const params = useParams();
   const clubId = params?.clubId as string;
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, startImpersonation } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const { allowed: canViewAs } = usePermission('user.impersonate');
+  const { allowed: canEditSecurity } = usePermission('club.security');
+  const { allowed: canManageAdminPlans } = usePermission('subscription.admin_plan');
   const [club, setClub] = useState<Club | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const [members, setMembers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [accessDenied, setAccessDenied] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
   const [inviteMemberOpen, setInviteMemberOpen] = useState(false);
   const [createTeamOpen, setCreateTeamOpen] = useState(false);
+  const [savingSecurity, setSavingSecurity] = useState(false);
+  // Empty means the club has no team manager seats
+  const [teamManagerSeats, setTeamManagerSeats] = useState('');
+  const [savingSeats, setSavingSeats] = useState(false);
 
   const loadClubData = useCallback(async () => {
     if (!clubId) return;
@@ -72,7 +89,9 @@ export default function ClubDetailPage() {
         setError('Club not found');
         return;
       }
-      setClub({ id: clubDoc.id, ...clubDoc.data() } as Club);
+      const clubData = { id: clubDoc.id, ...clubDoc.data() } as Club;
+      setClub(clubData);
+      setTeamManagerSeats(clubData.maxTeamManagers != null ? String(clubData.maxTeamManagers) : '');
 
       const membersData = membersSnapshot.docs.map((doc) => ({
         id: doc.id,
@@ -104,17 +123,10 @@ export default function ClubDetailPage() {
   }, [clubId]);
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading || !clubId) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid) || await canAccessClub(user.uid, clubId);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadClubData();
       } catch (err) {
         console.error('Error:', err);
@@ -123,23 +135,13 @@ export default function ClubDetailPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading, clubId, loadClubData]);
 
   if (authLoading || loading) {
     return <PageLoader />;
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">
-          Access denied. You don't have permission to view this club.
-        </Alert>
-      </Container>
-    );
-  }
-
   if (!club) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -178,6 +180,17 @@ export default function ClubDetailPage() {
     },
   ];
 
+  // Open the club dashboard as this club admin (read-only)
+  const handleViewAs = async (member: User) => {
+    try {
+      await startImpersonation(member.id);
+      router.push('/club');
+    } catch (err) {
+      console.error('Error starting view as:', err);
+      showError(err instanceof Error ? err.message : 'Failed to view as this user');
+    }
+  };
+
   const memberColumns: GridColDef[] = [
     {
       field: 'displayName',
@@ -201,6 +214,7 @@ export default function ClubDetailPage() {
       valueGetter: (value: unknown) => {
         const roleMap: Record<string, string> = {
           club_admin_coach: 'Admin Coach',
+          team_manager: 'Team Manager',
           club_admin: 'Club Admin',
           coach: 'Coach',
           player: 'Player',
@@ -214,6 +228,27 @@ export default function ClubDetailPage() {
       width: 150,
       valueGetter: (value: unknown) => formatDate(value),
     },
+    ...(canViewAs
+      ? [
+          {
+            field: 'actions',
+            type: 'actions',
+            headerName: 'Actions',
+            width: 100,
+            getActions: (params: { row: User }) =>
+              params.row.role === 'club_admin' || params.row.role === 'club_admin_coach'
+                ? [
+                    <GridActionsCellItem
+                      key="view-as"
+                      icon={<VisibilityIcon />}
+                      label="View as this user"
+                      onClick={() => handleViewAs(params.row)}
+                    />,
+                  ]
+                : [],
+          } as GridColDef,
+        ]
+      : []),
   ];
 
   const getUsagePercentage = (used: number, max: number): number => {
@@ -231,6 +266,44 @@ export default function ClubDetailPage() {
     loadClubData(); // Refresh data after team creation
   };
 
+  const handleRequireAdminMfaChange = async (requireAdminMfa: boolean) => {
+    try {
+      setSavingSecurity(true);
+      await setClubAdminMfaRequired(clubId, requireAdminMfa);
+      setClub({ ...club, requireAdminMfa });
+      showSuccess(requireAdminMfa ? 'Two-factor authentication is now required' : 'Two-factor authentication is no longer required');
+    } catch (err) {
+      console.error('Error updating club security:', err);
+      showError('Failed to update security settings');
+    } finally {
+      setSavingSecurity(false);
+    }
+  };
+
+  const handleSaveTeamManagerSeats = async () => {
+    const maxTeamManagers = teamManagerSeats.trim() === '' ? null : Number(teamManagerSeats);
+    if (maxTeamManagers !== null && (!Number.isInteger(maxTeamManagers) || maxTeamManagers < 0)) {
+      showError('Team manager seats must be a whole number');
+      return;
+    }
+
+    try {
+      setSavingSeats(true);
+      await updateDoc(doc(db, 'sports_clubs', clubId), {
+        maxTeamManagers,
+        updatedAt: serverTimestamp(),
+      });
+      await logActivity('club_updated', { clubId, clubName: club.name, maxTeamManagers });
+      setClub({ ...club, maxTeamManagers });
+      showSuccess('Team manager seats updated');
+    } catch (err) {
+      console.error('Error updating team manager seats:', err);
+      showError('Failed to update team manager seats');
+    } finally {
+      setSavingSeats(false);
+    }
+  };
+
   const renderOverview = () => (
     <Stack spacing={3}>
       <Paper sx={{ p: 3 }}>
@@ -333,6 +406,67 @@ export default function ClubDetailPage() {
         </Box>
       </Paper>
 
+      {canEditSecurity && (
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary, mb: 1 }}>
+            Security
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Club admins without an authenticator app will be asked to set one up before they can use the dashboard.
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={club.requireAdminMfa === true}
+                disabled={savingSecurity}
+                onChange={(e) => handleRequireAdminMfaChange(e.target.checked)}
+              />
+            }
+            label="Require two-factor authentication for club admins"
+          />
+        </Paper>
+      )}
+
+      {canEditSecurity && (
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary, mb: 1 }}>
+            Team Manager Seats
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Team managers can edit only their own teams and invite view-only members to them. Leave empty if the
+            club&apos;s plan has no team manager seats.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <TextField
+              label="Seats"
+              type="number"
+              size="small"
+              value={teamManagerSeats}
+              onChange={(e) => setTeamManagerSeats(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+              sx={{ width: 140 }}
+            />
+            <Button
+              variant="contained"
+              onClick={handleSaveTeamManagerSeats}
+              disabled={savingSeats}
+              sx={{
+                backgroundColor: appColors.primary,
+                color: appColors.primaryText,
+                fontWeight: 'bold',
+                '&:hover': { backgroundColor: appColors.primaryHover },
+              }}
+            >
+              Save
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {canManageAdminPlans && (
+        <AdminPlanSettings club={club} onAdminPlanChange={(adminPlan) => setClub({ ...club, adminPlan })} />
+      )}
+
       <ClubAnalytics clubId={clubId} teams={teams} members={members} />
     </Stack>
   );
@@ -470,6 +604,7 @@ export default function ClubDetailPage() {
         <Tab icon={<PeopleIcon />} iconPosition="start" label="Members" />
         <Tab icon={<GroupsIcon />} iconPosition="start" label="Teams" />
         <Tab icon={<VpnKeyIcon />} iconPosition="start" label="Referral Codes" />
+        <Tab icon={<HistoryIcon />} iconPosition="start" label="Subscription History" />
       </Tabs>
       <Divider sx={{ mb: 3 }} />
 
@@ -478,6 +613,7 @@ export default function ClubDetailPage() {
         {activeTab === 1 && renderMembers()}
         {activeTab === 2 && renderTeams()}
         {activeTab === 3 && renderReferralCodes()}
+        {activeTab === 4 && <SubscriptionTimeline clubId={clubId} showWebhookEvents />}
       </Box>
 
       {/* Invite Member Modal */}
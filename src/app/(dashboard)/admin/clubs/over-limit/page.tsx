@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Container, Box, Typography, Button, CircularProgress, Alert } from '@mui/material';
+import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
+import {
+  ArrowBack as ArrowBackIcon,
+  Download as DownloadIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  SEAT_TYPES,
+  SEAT_TYPE_LABELS,
+  formatSeatOverages,
+  getSeatLimits,
+  getSeatOverages,
+  normalizeSeatCounts,
+  type SeatCounts,
+  type SeatOverages,
+  type SeatType,
+} from '@/config/seatLedger';
+import { formatDateTime } from '@/utils/dateHelpers';
+import { downloadCsv, toCsv } from '@/utils/csv';
+import type { FirestoreTimestamp } from '@/types';
+import { appColors } from '@/theme';
+
+interface OverLimitClub {
+  id: string;
+  name: string;
+  seats: SeatCounts;
+  limits: Record<SeatType, number | null>;
+  overages: SeatOverages;
+  totalOver: number;
+  lastReconciledAt: FirestoreTimestamp | null;
+}
+
+/**
+ * Format a seat type's members against its current limit, e.g. "12 / 10"
+ */
+function formatSeatUsage(club: OverLimitClub, seatType: SeatType): string {
+  return `${club.seats[seatType].used} / ${club.limits[seatType] ?? 0}`;
+}
+
+export default function OverLimitClubsPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const [clubs, setClubs] = useState<OverLimitClub[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user || authLoading) return;
+
+    // Compare each ledger with the club's current limits, so plans that just lost seats show up before a recount
+    const loadClubs = async () => {
+      try {
+        const [ledgersSnapshot, clubsSnapshot] = await Promise.all([
+          getDocs(collection(db, 'seat_ledgers')),
+          getDocs(collection(db, 'sports_clubs')),
+        ]);
+        const clubsById = new Map(clubsSnapshot.docs.map((doc) => [doc.id, doc.data()]));
+        const now = Date.now();
+
+        const overLimitClubs = ledgersSnapshot.docs.flatMap((doc) => {
+          const clubData = clubsById.get(doc.id);
+          if (!clubData) return [];
+
+          const seats = normalizeSeatCounts(doc.data().seats);
+          const limits = getSeatLimits(clubData, now);
+          const overages = getSeatOverages(seats, limits);
+          const totalOver = Object.values(overages).reduce((total, count) => total + (count || 0), 0);
+          if (totalOver === 0) return [];
+
+          return [
+            {
+              id: doc.id,
+              name: (clubData.name as string) || 'Unnamed Club',
+              seats,
+              limits,
+              overages,
+              totalOver,
+              lastReconciledAt: doc.data().lastReconciliation?.at || null,
+            },
+          ];
+        });
+
+        setClubs(overLimitClubs.sort((a, b) => b.totalOver - a.totalOver));
+      } catch (err) {
+        console.error('Error loading over-limit clubs:', err);
+        setError('Failed to load over-limit clubs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadClubs();
+  }, [user, authLoading]);
+
+  const columns: GridColDef<OverLimitClub>[] = useMemo(
+    () => [
+      {
+        field: 'name',
+        headerName: 'Club Name',
+        flex: 1,
+        minWidth: 200,
+      },
+      {
+        field: 'overages',
+        headerName: 'Over By',
+        flex: 1,
+        minWidth: 220,
+        valueGetter: (value: SeatOverages) => formatSeatOverages(value),
+        cellClassName: 'over-limit-cell',
+      },
+      ...SEAT_TYPES.map(
+        (seatType): GridColDef<OverLimitClub> => ({
+          field: `seats_${seatType}`,
+          headerName: SEAT_TYPE_LABELS[seatType],
+          width: 130,
+          sortable: false,
+          valueGetter: (_value: unknown, row: OverLimitClub) => formatSeatUsage(row, seatType),
+        })
+      ),
+      {
+        field: 'lastReconciledAt',
+        headerName: 'Last Recounted',
+        width: 180,
+        valueGetter: (value: FirestoreTimestamp | null) => (value ? formatDateTime(value) : 'Never'),
+      },
+      {
+        field: 'actions',
+        type: 'actions',
+        headerName: 'Actions',
+        width: 100,
+        getActions: (params) => [
+          <GridActionsCellItem
+            key="view"
+            icon={<ViewIcon />}
+            label="View Club"
+            onClick={() => router.push(`/admin/clubs/${params.row.id}`)}
+          />,
+        ],
+      },
+    ],
+    [router]
+  );
+
+  const handleExport = () => {
+    downloadCsv(
+      'over-limit-clubs.csv',
+      toCsv(
+        [
+          'Club ID',
+          'Club',
+          'Over By',
+          ...SEAT_TYPES.flatMap((seatType) => [`${SEAT_TYPE_LABELS[seatType]} Members`, `${SEAT_TYPE_LABELS[seatType]} Limit`]),
+          'Last Recounted',
+        ],
+        clubs.map((club) => [
+          club.id,
+          club.name,
+          formatSeatOverages(club.overages),
+          ...SEAT_TYPES.flatMap((seatType) => [club.seats[seatType].used, club.limits[seatType] ?? 0]),
+          club.lastReconciledAt ? formatDateTime(club.lastReconciledAt) : '',
+        ])
+      )
+    );
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '100vh',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Button startIcon={<ArrowBackIcon />} onClick={() => router.push('/admin/clubs')} sx={{ mb: 2 }}>
+        Back to Clubs
+      </Button>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 4 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Over-Limit Clubs
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Clubs with more members than their plan&apos;s seats, e.g. after a downgrade. Their admins are asked to
+            downgrade or suspend members.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={<DownloadIcon />}
+          onClick={handleExport}
+          disabled={clubs.length === 0}
+          sx={{ flexShrink: 0 }}
+        >
+          Export CSV
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!error && clubs.length === 0 ? (
+        <Alert severity="success">Every club is within its seat limits.</Alert>
+      ) : (
+        <div style={{ height: 600, width: '100%' }}>
+          <DataGrid
+            rows={clubs}
+            columns={columns}
+            getRowId={(row) => row.id}
+            disableRowSelectionOnClick
+            onRowClick={(params) => {
+              router.push(`/admin/clubs/${params.row.id}`);
+            }}
+            sx={{
+              '& .MuiDataGrid-cell': {
+                cursor: 'pointer',
+              },
+              '& .over-limit-cell': {
+                color: appColors.error,
+                fontWeight: 'bold',
+              },
+            }}
+            initialState={{
+              pagination: {
+                paginationModel: { pageSize: 25 },
+              },
+            }}
+            pageSizeOptions={[10, 25, 50, 100]}
+          />
+        </div>
+      )}
+    </Container>
+  );
+}
@@ -8,9 +8,10 @@ import {
   Typography,
   CircularProgress,
   Alert,
+  Button,
 } from '@mui/material';
+import { EventSeat as SeatIcon } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import type { Club } from '@/types';
@@ -23,20 +24,12 @@ export default function AdminClubsPage() {
   const [clubs, setClubs] = useState<Club[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [accessDenied, setAccessDenied] = useState(false);
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadClubs();
       } catch (err) {
         console.error('Error:', err);
@@ -45,7 +38,7 @@ export default function AdminClubsPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading]);
 
   const loadClubs = async () => {
@@ -83,25 +76,25 @@ export default function AdminClubsPage() {
     );
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">
-          Access denied. You must be a super admin to view this page.
-        </Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
-      <Box sx={{ mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
-          All Clubs
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          View and manage all clubs in the system
-        </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 4 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            All Clubs
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            View and manage all clubs in the system
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={<SeatIcon />}
+          onClick={() => router.push('/admin/clubs/over-limit')}
+          sx={{ flexShrink: 0 }}
+        >
+          Over-Limit Report
+        </Button>
       </Box>
 
       {error && (
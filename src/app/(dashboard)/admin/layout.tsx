@@ -0,0 +1,15 @@
+'use client';
+
+import RequirePermission from '@/components/shared/RequirePermission';
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission action="admin.access" deniedMessage="Access denied. You must be a super admin to view this page.">
+      {children}
+    </RequirePermission>
+  );
+}
@@ -1,6 +1,5 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Container,
@@ -13,9 +12,9 @@ import {
   Chip,
 } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
 import { useAdminStats } from '@/hooks/useAdminStats';
 import SystemStats from '@/components/admin/SystemStats';
+import UserActivity from '@/components/admin/UserActivity';
 import PageLoader from '@/components/shared/PageLoader';
 import {
   Business as BusinessIcon,
@@ -32,11 +31,15 @@ import { appColors } from '@/theme';
 
 export default function AdminDashboardPage() {
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { loading: authLoading } = useAuth();
   const {
     totalClubs,
     clubsThisMonth,
+    totalUsers,
+    dailyActiveUsers,
+    weeklyActiveUsers,
     activeUsers,
+    inactiveUsers,
     usersThisMonth,
     sessionsCreated,
     sessionsThisMonth,
@@ -48,40 +51,11 @@ export default function AdminDashboardPage() {
     formatUserChange,
     refetch,
   } = useAdminStats();
-  const [accessDenied, setAccessDenied] = useState(false);
-
-  useEffect(() => {
-    const checkAccess = async () => {
-      if (!user || authLoading) return;
-
-      try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          return;
-        }
-      } catch (err) {
-        console.error('Error checking access:', err);
-      }
-    };
-
-    checkAccess();
-  }, [user, authLoading]);
 
   if (authLoading || loading) {
     return <PageLoader />;
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">
-          Access denied. You must be a super admin to view this page.
-        </Alert>
-      </Container>
-    );
-  }
-
   const stats = [
     {
       label: 'Total Clubs',
@@ -90,7 +64,7 @@ export default function AdminDashboardPage() {
     },
     {
       label: 'Total Users',
-      value: loading ? '...' : activeUsers.toLocaleString(),
+      value: loading ? '...' : totalUsers.toLocaleString(),
       change: loading ? '...' : formatUserChange(usersThisMonth),
     },
     {
@@ -135,13 +109,25 @@ export default function AdminDashboardPage() {
       <Box sx={{ mb: 4 }}>
         <SystemStats
           totalClubs={totalClubs}
-          totalUsers={activeUsers}
+          totalUsers={totalUsers}
           totalTeams={totalTeams}
           totalAdmins={totalAdmins}
           loading={loading}
         />
       </Box>
 
+      {/* Sign-in activity */}
+      <Box sx={{ mb: 4 }}>
+        <UserActivity
+          totalUsers={totalUsers}
+          dailyActiveUsers={dailyActiveUsers}
+          weeklyActiveUsers={weeklyActiveUsers}
+          monthlyActiveUsers={activeUsers}
+          inactiveUsers={inactiveUsers}
+          loading={loading}
+        />
+      </Box>
+
       {/* System Status Section */}
       <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' }, gap: 3, mb: 4 }}>
         {/* Orphaned Records */}
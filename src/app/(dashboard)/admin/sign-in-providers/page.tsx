@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Container, Box, Typography, Alert, Button, Chip } from '@mui/material';
+import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { getOidcProviders, deleteOidcProvider } from '@/lib/oidcProviders';
+import type { OidcProvider } from '@/types';
+import PageLoader from '@/components/shared/PageLoader';
+import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
+import OidcProviderDialog from '@/components/admin/OidcProviderDialog';
+import { useToast } from '@/contexts/ToastContext';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+
+export default function SignInProvidersPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [providers, setProviders] = useState<OidcProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [providerToEdit, setProviderToEdit] = useState<OidcProvider | null>(null);
+  const [providerToDelete, setProviderToDelete] = useState<OidcProvider | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadProviders = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setProviders(await getOidcProviders());
+    } catch (err) {
+      console.error('Error loading sign-in providers:', err);
+      setError('Failed to load sign-in providers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!user || authLoading) return;
+
+      try {
+        await loadProviders();
+      } catch (err) {
+        console.error('Error:', err);
+        setError('Failed to load sign-in providers');
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, authLoading, loadProviders]);
+
+  const handleAdd = () => {
+    setProviderToEdit(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = useCallback((provider: OidcProvider) => {
+    setProviderToEdit(provider);
+    setDialogOpen(true);
+  }, []);
+
+  const handleDeleteConfirm = async () => {
+    if (!providerToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      await deleteOidcProvider(providerToDelete);
+      showSuccess('Sign-in provider removed');
+      setProviderToDelete(null);
+      await loadProviders();
+    } catch (err) {
+      console.error('Error deleting sign-in provider:', err);
+      showError('Failed to remove sign-in provider');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const columns: GridColDef[] = useMemo(
+    () => [
+      {
+        field: 'displayName',
+        headerName: 'Name',
+        flex: 1,
+        minWidth: 180,
+        renderCell: (params) => {
+          const provider = params.row as OidcProvider;
+          return (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+              <Box
+                sx={{
+                  width: 16,
+                  height: 16,
+                  borderRadius: '4px',
+                  backgroundColor: provider.buttonColor,
+                  border: `1px solid ${appColors.backgroundGrey}`,
+                }}
+              />
+              {provider.displayName}
+            </Box>
+          );
+        },
+      },
+      {
+        field: 'id',
+        headerName: 'Provider ID',
+        flex: 1,
+        minWidth: 180,
+      },
+      {
+        field: 'allowedEmailDomains',
+        headerName: 'Allowed Domains',
+        flex: 1,
+        minWidth: 180,
+        valueGetter: (value: unknown) => {
+          const domains = (value as string[]) || [];
+          return domains.length > 0 ? domains.join(', ') : 'Any';
+        },
+      },
+      {
+        field: 'enabled',
+        headerName: 'Status',
+        width: 120,
+        renderCell: (params) => (
+          <Chip
+            label={params.value ? 'Enabled' : 'Disabled'}
+            color={params.value ? 'success' : 'default'}
+            size="small"
+            sx={{ fontWeight: 'medium' }}
+          />
+        ),
+      },
+      {
+        field: 'updatedAt',
+        headerName: 'Updated',
+        width: 130,
+        valueGetter: (value: unknown) => formatDate(value),
+      },
+      {
+        field: 'actions',
+        type: 'actions',
+        headerName: 'Actions',
+        width: 100,
+        getActions: (params) => {
+          const provider = params.row as OidcProvider;
+          return [
+            <GridActionsCellItem
+              key="edit"
+              icon={<EditIcon sx={{ color: appColors.textSecondary }} />}
+              label="Edit"
+              onClick={() => handleEdit(provider)}
+            />,
+            <GridActionsCellItem
+              key="delete"
+              icon={<DeleteIcon sx={{ color: appColors.textSecondary }} />}
+              label="Remove"
+              onClick={() => setProviderToDelete(provider)}
+              showInMenu
+            />,
+          ];
+        },
+      },
+    ],
+    [handleEdit]
+  );
+
+  if (authLoading || (loading && providers.length === 0)) {
+    return <PageLoader />;
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 4 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Sign-In Providers
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            OIDC identity providers shown on the login and signup pages, e.g. for county boards and federations
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={handleAdd}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          Add Provider
+        </Button>
+      </Box>
+
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Each provider must first be set up as an OpenID Connect provider in Firebase Authentication (with Identity
+        Platform). Use the same provider ID here.
+      </Alert>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 500, width: '100%' }}>
+        <DataGrid
+          rows={providers}
+          columns={columns}
+          loading={loading}
+          getRowId={(row) => row.id}
+          disableRowSelectionOnClick
+          hideFooter={providers.length <= 25}
+        />
+      </Box>
+
+      {dialogOpen && (
+        <OidcProviderDialog
+          key={providerToEdit?.id || 'new'}
+          open={dialogOpen}
+          onClose={() => setDialogOpen(false)}
+          onSaved={() => {
+            showSuccess('Sign-in provider saved');
+            loadProviders();
+          }}
+          provider={providerToEdit}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={providerToDelete !== null}
+        onClose={() => !isDeleting && setProviderToDelete(null)}
+        onConfirm={handleDeleteConfirm}
+        title="Remove Sign-In Provider"
+        message={
+          <Typography>
+            Remove <strong>{providerToDelete?.displayName}</strong> from the login and signup pages? Users who signed
+            in with it keep their accounts.
+          </Typography>
+        }
+        confirmText="Remove"
+        cancelText="Cancel"
+        isLoading={isDeleting}
+      />
+    </Container>
+  );
+}
@@ -0,0 +1,423 @@
+'use client';
+
+import { useState, useEffect, useMemo, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  Container,
+  Box,
+  Typography,
+  Alert,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import { collection, getDocs, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  UNPROCESSED_AFTER_MINUTES,
+  WEBHOOK_EVENTS_PAGE_SIZE,
+  WEBHOOK_PROCESSING_STATUS_LABELS,
+  getEventClubId,
+  getEventCreatedAt,
+  getEventCustomerId,
+  getEventSubscriptionId,
+  getProcessingStatus,
+  getStripeWebhookEvents,
+  type WebhookProcessingStatus,
+} from '@/lib/stripeWebhookEvents';
+import WebhookEventDialog, { WEBHOOK_STATUS_COLORS, type SubscriptionDocument } from '@/components/admin/WebhookEventDialog';
+import PageLoader from '@/components/shared/PageLoader';
+import type { StripeWebhookEvent } from '@/types';
+import { appColors } from '@/theme';
+import { formatDateTime } from '@/utils/dateHelpers';
+
+interface WebhookEventRow {
+  id: string;
+  event: StripeWebhookEvent;
+  type: string;
+  createdAt: Date | null;
+  customerId: string | null;
+  subscriptionId: string | null;
+  clubId: string | null;
+  clubName: string;
+  status: WebhookProcessingStatus;
+  subscription: SubscriptionDocument | null;
+}
+
+interface SubscriptionLookup {
+  bySubscriptionId: Map<string, SubscriptionDocument>;
+  byCustomerId: Map<string, SubscriptionDocument>;
+}
+
+function WebhookEventsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  const [events, setEvents] = useState<StripeWebhookEvent[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [subscriptionLookup, setSubscriptionLookup] = useState<SubscriptionLookup | null>(null);
+  const [clubNames, setClubNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [eventsLoading, setEventsLoading] = useState(true);
+  const [error, setError] = useState('');
+  // SubscriptionList links here with ?customer= or ?club= to show one subscription's events
+  const [clubFilter, setClubFilter] = useState(searchParams.get('club') || 'all');
+  const [customerFilter, setCustomerFilter] = useState(searchParams.get('customer') || '');
+  // Club and customer are filtered in the query; the customer ID is applied on Enter or when the field loses focus
+  const [customerQuery, setCustomerQuery] = useState(customerFilter.trim());
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<WebhookProcessingStatus | 'all'>('all');
+  const [selectedRow, setSelectedRow] = useState<WebhookEventRow | null>(null);
+
+  useEffect(() => {
+    if (!user || authLoading) return;
+
+    const loadLookups = async () => {
+      try {
+        const [subscriptionsSnapshot, clubsSnapshot] = await Promise.all([
+          getDocs(collection(db, 'subscriptions')),
+          getDocs(collection(db, 'sports_clubs')),
+        ]);
+
+        const names: Record<string, string> = {};
+        clubsSnapshot.docs.forEach((clubDoc) => {
+          names[clubDoc.id] = clubDoc.data().name || 'Unknown Club';
+        });
+
+        const subscriptions = subscriptionsSnapshot.docs.map(
+          (subscriptionDoc) => ({ id: subscriptionDoc.id, ...subscriptionDoc.data() }) as SubscriptionDocument
+        );
+        const bySubscriptionId = new Map<string, SubscriptionDocument>();
+        const byCustomerId = new Map<string, SubscriptionDocument>();
+        subscriptions.forEach((subscription) => {
+          if (typeof subscription.stripeSubscriptionId === 'string') {
+            bySubscriptionId.set(subscription.stripeSubscriptionId, subscription);
+          }
+          if (typeof subscription.stripeCustomerId === 'string' && !byCustomerId.has(subscription.stripeCustomerId)) {
+            byCustomerId.set(subscription.stripeCustomerId, subscription);
+          }
+        });
+
+        setSubscriptionLookup({ bySubscriptionId, byCustomerId });
+        setClubNames(names);
+      } catch (err) {
+        console.error('Error loading subscriptions for webhook events:', err);
+        setError('Failed to load webhook events');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLookups();
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    if (!user || authLoading) return;
+
+    let cancelled = false;
+    const loadEvents = async () => {
+      setEventsLoading(true);
+      try {
+        const page = await getStripeWebhookEvents({
+          clubId: clubFilter === 'all' ? undefined : clubFilter,
+          customerId: customerQuery || undefined,
+        });
+        if (cancelled) return;
+        setEvents(page.events);
+        setCursor(page.cursor);
+      } catch (err) {
+        console.error('Error loading webhook events:', err);
+        if (!cancelled) setError('Failed to load webhook events');
+      } finally {
+        if (!cancelled) setEventsLoading(false);
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading, clubFilter, customerQuery]);
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+    setEventsLoading(true);
+    try {
+      const page = await getStripeWebhookEvents(
+        { clubId: clubFilter === 'all' ? undefined : clubFilter, customerId: customerQuery || undefined },
+        cursor
+      );
+      setEvents((previous) => [...previous, ...page.events]);
+      setCursor(page.cursor);
+    } catch (err) {
+      console.error('Error loading more webhook events:', err);
+      setError('Failed to load more webhook events');
+    } finally {
+      setEventsLoading(false);
+    }
+  };
+
+  const rows = useMemo<WebhookEventRow[]>(() => {
+    const now = Date.now();
+    return events.map((event) => {
+      const customerId = getEventCustomerId(event);
+      const subscriptionId = getEventSubscriptionId(event);
+      const subscription =
+        (subscriptionId && subscriptionLookup?.bySubscriptionId.get(subscriptionId)) ||
+        (customerId && subscriptionLookup?.byCustomerId.get(customerId)) ||
+        null;
+      const clubId = getEventClubId(event) || (subscription?.clubId as string | undefined) || null;
+
+      return {
+        id: event.id,
+        event,
+        type: event.type || 'unknown',
+        createdAt: getEventCreatedAt(event),
+        customerId,
+        subscriptionId,
+        clubId,
+        clubName: clubId ? clubNames[clubId] || 'Club Not Found' : 'No Club',
+        status: getProcessingStatus(event, now),
+        subscription,
+      };
+    });
+  }, [events, subscriptionLookup, clubNames]);
+
+  const eventTypes = useMemo(() => [...new Set(rows.map((row) => row.type))].sort(), [rows]);
+  const clubOptions = useMemo(
+    () =>
+      Object.entries(clubNames)
+        .map(([id, name]) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [clubNames]
+  );
+
+  const filteredRows = useMemo(
+    () =>
+      rows.filter(
+        (row) =>
+          (typeFilter === 'all' || row.type === typeFilter) && (statusFilter === 'all' || row.status === statusFilter)
+      ),
+    [rows, typeFilter, statusFilter]
+  );
+
+  const problemCount = rows.filter((row) => row.status === 'failed' || row.status === 'unprocessed').length;
+
+  const columns: GridColDef<WebhookEventRow>[] = [
+    {
+      field: 'createdAt',
+      headerName: 'Created',
+      width: 170,
+      valueGetter: (value: unknown) => (value ? formatDateTime(value as Date) : 'N/A'),
+    },
+    {
+      field: 'type',
+      headerName: 'Event Type',
+      flex: 1,
+      minWidth: 220,
+    },
+    {
+      field: 'clubName',
+      headerName: 'Club',
+      flex: 1,
+      minWidth: 150,
+    },
+    {
+      field: 'customerId',
+      headerName: 'Customer',
+      width: 170,
+      renderCell: (params) => (
+        <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.75rem', lineHeight: 'inherit' }}>
+          {params.value || '—'}
+        </Typography>
+      ),
+    },
+    {
+      field: 'status',
+      headerName: 'Status',
+      width: 150,
+      renderCell: (params) => {
+        const status = params.value as WebhookProcessingStatus;
+        return <Chip label={WEBHOOK_PROCESSING_STATUS_LABELS[status]} color={WEBHOOK_STATUS_COLORS[status]} size="small" />;
+      },
+    },
+    {
+      field: 'subscription',
+      headerName: 'Subscription',
+      width: 130,
+      sortable: false,
+      valueGetter: (value: unknown) => (value ? 'Matched' : 'None'),
+    },
+  ];
+
+  if (authLoading || loading) {
+    return <PageLoader />;
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Button startIcon={<ArrowBackIcon />} onClick={() => router.push('/admin/subscriptions')} sx={{ mb: 2 }}>
+        All Subscriptions
+      </Button>
+
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Stripe Webhook Events
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          See which Stripe events arrived and what they did to each subscription. Select an event to compare its
+          payload with the subscription document.
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      {problemCount > 0 && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 3 }}
+          action={
+            statusFilter === 'all' ? (
+              <Button color="inherit" size="small" onClick={() => setStatusFilter('failed')}>
+                Show Failed
+              </Button>
+            ) : undefined
+          }
+        >
+          {problemCount} loaded event{problemCount !== 1 ? 's' : ''} failed or were never processed.
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Box sx={{ mb: 3 }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Club</InputLabel>
+            <Select value={clubFilter} onChange={(e) => setClubFilter(e.target.value)} label="Club">
+              <MenuItem value="all">All Clubs</MenuItem>
+              {/* Keep a club from the URL selectable even if it no longer exists */}
+              {clubFilter !== 'all' && !clubOptions.some((club) => club.id === clubFilter) && (
+                <MenuItem value={clubFilter}>{clubNames[clubFilter] || clubFilter}</MenuItem>
+              )}
+              {clubOptions.map((club) => (
+                <MenuItem key={club.id} value={club.id}>
+                  {club.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Stripe customer ID"
+            value={customerFilter}
+            onChange={(e) => setCustomerFilter(e.target.value)}
+            onBlur={() => setCustomerQuery(customerFilter.trim())}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setCustomerQuery(customerFilter.trim());
+            }}
+            helperText="Exact ID, e.g. cus_123; press Enter to search"
+            size="small"
+            fullWidth
+          />
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>Event Type</InputLabel>
+            <Select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} label="Event Type">
+              <MenuItem value="all">All Event Types</MenuItem>
+              {eventTypes.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as WebhookProcessingStatus | 'all')}
+              label="Status"
+            >
+              <MenuItem value="all">All Statuses</MenuItem>
+              {(Object.keys(WEBHOOK_PROCESSING_STATUS_LABELS) as WebhookProcessingStatus[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {WEBHOOK_PROCESSING_STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+      </Box>
+
+      <Box sx={{ height: 600, width: '100%' }}>
+        <DataGrid
+          rows={filteredRows}
+          columns={columns}
+          getRowId={(row) => row.id}
+          loading={eventsLoading}
+          disableRowSelectionOnClick
+          onRowClick={(params) => setSelectedRow(params.row)}
+          getRowClassName={(params) =>
+            params.row.status === 'failed' || params.row.status === 'unprocessed'
+              ? `webhook-event-${params.row.status}`
+              : ''
+          }
+          sx={{
+            '& .MuiDataGrid-row': { cursor: 'pointer' },
+            // Light error/warning backgrounds so problem events stand out
+            '& .webhook-event-failed': { backgroundColor: '#fdecea' },
+            '& .webhook-event-unprocessed': { backgroundColor: '#fff4e5' },
+          }}
+          initialState={{
+            pagination: {
+              paginationModel: { pageSize: 25 },
+            },
+          }}
+          pageSizeOptions={[10, 25, 50, 100]}
+        />
+      </Box>
+
+      {cursor && (
+        <Box sx={{ mt: 2, display: 'flex', justifyContent: 'center' }}>
+          <Button variant="outlined" onClick={handleLoadMore} disabled={eventsLoading}>
+            Load More Events
+          </Button>
+        </Box>
+      )}
+
+      <Alert severity="info" sx={{ mt: 3 }}>
+        <Typography variant="body2">
+          Events load {WEBHOOK_EVENTS_PAGE_SIZE} at a time, newest first; type and status filter the loaded events.
+          Events not processed {UNPROCESSED_AFTER_MINUTES} minutes after Stripe sent them are marked as never processed.
+        </Typography>
+      </Alert>
+
+      <WebhookEventDialog
+        open={!!selectedRow}
+        onClose={() => setSelectedRow(null)}
+        event={selectedRow?.event || null}
+        status={selectedRow?.status || 'pending'}
+        createdAt={selectedRow?.createdAt || null}
+        subscription={selectedRow?.subscription || null}
+      />
+    </Container>
+  );
+}
+
+export default function WebhookEventsPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <WebhookEventsContent />
+    </Suspense>
+  );
+}
@@ -7,12 +7,23 @@ import {
   Typography,
   CircularProgress,
   Alert,
+  Button,
+  Tabs,
+  Tab,
+  Divider,
 } from '@mui/material';
+import {
+  ReceiptLong as EventsIcon,
+  List as ListIcon,
+  TrendingUp as TrendingUpIcon,
+} from '@mui/icons-material';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
 import { collection, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import SubscriptionList from '@/components/admin/SubscriptionList';
+import RevenueAnalytics from '@/components/admin/RevenueAnalytics';
+import { isAdminPlan } from '@/config/adminPlans';
 import { appColors } from '@/theme';
 import type { FirestoreTimestamp } from '@/types';
 
@@ -23,9 +34,13 @@ interface Subscription {
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
   subscriptionType?: string;
+  source?: string; // 'admin' for admin-managed plans
   productName?: string;
   planName?: string;
+  maxCoachAccounts?: number;
+  coachAccountPrice?: number;
   maxViewOnlyUsers?: number;
+  viewOnlyPrice?: number;
   status?: string;
   planType?: string;
   price?: number;
@@ -41,24 +56,20 @@ interface Subscription {
 }
 
 export default function AdminSubscriptionsPage() {
+  const router = useRouter();
   const { user, loading: authLoading } = useAuth();
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [accessDenied, setAccessDenied] = useState(false);
+  const [activeTab, setActiveTab] = useState(0);
+  // When the subscriptions were loaded; revenue figures are worked out as of this time
+  const [loadedAt, setLoadedAt] = useState(0);
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadSubscriptions();
       } catch (err) {
         console.error('Error:', err);
@@ -67,7 +78,7 @@ export default function AdminSubscriptionsPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading]);
 
   const loadSubscriptions = async () => {
@@ -108,6 +119,7 @@ export default function AdminSubscriptionsPage() {
       }
 
       setSubscriptions(subscriptionsData);
+      setLoadedAt(Date.now());
     } catch (err) {
       console.error('Error loading subscriptions:', err);
       setError('Failed to load subscriptions');
@@ -131,25 +143,20 @@ export default function AdminSubscriptionsPage() {
     );
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">
-          Access denied. You must be a super admin to view this page.
-        </Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
-      <Box sx={{ mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
-          All Subscriptions
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          View and manage all subscriptions across the system
-        </Typography>
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            All Subscriptions
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            View and manage all subscriptions across the system
+          </Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<EventsIcon />} onClick={() => router.push('/admin/subscriptions/events')}>
+          Webhook Events
+        </Button>
       </Box>
 
       {error && (
@@ -158,14 +165,41 @@ export default function AdminSubscriptionsPage() {
         </Alert>
       )}
 
+      <Tabs
+        value={activeTab}
+        onChange={(_, newValue) => setActiveTab(newValue)}
+        sx={{
+          '& .MuiTab-root': {
+            textTransform: 'none',
+            fontWeight: 500,
+          },
+          '& .Mui-selected': {
+            color: appColors.primary,
+          },
+          '& .MuiTabs-indicator': {
+            backgroundColor: appColors.primary,
+          },
+        }}
+      >
+        <Tab icon={<ListIcon />} iconPosition="start" label="Subscriptions" />
+        <Tab icon={<TrendingUpIcon />} iconPosition="start" label="Revenue" />
+      </Tabs>
+      <Divider sx={{ mb: 3 }} />
+
       {subscriptions.length === 0 && !loading ? (
         <Box sx={{ p: 3 }}>
           <Typography variant="body1" color="text.secondary" align="center">
             No subscriptions found.
           </Typography>
         </Box>
-      ) : (
+      ) : activeTab === 0 ? (
         <SubscriptionList subscriptions={subscriptions} loading={loading} showClubName={true} />
+      ) : (
+        // Admin-managed plans aren't billed through Stripe, so they're left out of revenue
+        <RevenueAnalytics
+          subscriptions={subscriptions.filter((subscription) => !isAdminPlan(subscription))}
+          now={loadedAt}
+        />
       )}
     </Container>
   );
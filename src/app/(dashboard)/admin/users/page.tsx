@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
 import {
   Container,
   Box,
@@ -8,25 +9,26 @@ import {
   Alert,
 } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
-import { isSuperAdmin } from '@/lib/permissions';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
 import { collection, getDocs, doc, getDoc, deleteDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import type { User, Club } from '@/types';
 import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
 import PageLoader from '@/components/shared/PageLoader';
 import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
-import { Delete as DeleteIcon } from '@mui/icons-material';
+import { Delete as DeleteIcon, Visibility as VisibilityIcon } from '@mui/icons-material';
 import { appColors } from '@/theme';
 import { useToast } from '@/contexts/ToastContext';
 import { formatDate } from '@/utils/dateHelpers';
 
 export default function UserManagementPage() {
-  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { user, loading: authLoading, startImpersonation } = useAuth();
   const { showToast } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
   const [users, setUsers] = useState<(User & { clubName?: string | null })[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [accessDenied, setAccessDenied] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -85,17 +87,10 @@ export default function UserManagementPage() {
   }, []);
 
   useEffect(() => {
-    const checkAccessAndLoad = async () => {
+    const loadData = async () => {
       if (!user || authLoading) return;
 
       try {
-        const hasAccess = await isSuperAdmin(user.uid);
-        if (!hasAccess) {
-          setAccessDenied(true);
-          setLoading(false);
-          return;
-        }
-
         await loadUsers();
       } catch (err) {
         console.error('Error:', err);
@@ -104,7 +99,7 @@ export default function UserManagementPage() {
       }
     };
 
-    checkAccessAndLoad();
+    loadData();
   }, [user, authLoading, loadUsers]);
 
   const handleDeleteClick = (user: User) => {
@@ -135,6 +130,17 @@ export default function UserManagementPage() {
     setUserToDelete(null);
   };
 
+  // Open the club dashboard as this club admin (read-only)
+  const handleViewAs = useCallback(async (target: User) => {
+    try {
+      await startImpersonation(target.id);
+      router.push('/club');
+    } catch (err) {
+      console.error('Error starting view as:', err);
+      showToast(err instanceof Error ? err.message : 'Failed to view as this user', 'error');
+    }
+  }, [startImpersonation, router, showToast]);
+
   const columns: GridColDef[] = useMemo(
     () => [
       {
@@ -164,6 +170,7 @@ export default function UserManagementPage() {
             coach: 'Coach',
             club_admin: 'Club Admin',
             club_admin_coach: 'Admin Coach',
+          team_manager: 'Team Manager',
             view_only: 'View Only',
             super_admin: 'Super Admin',
           };
@@ -182,6 +189,12 @@ export default function UserManagementPage() {
         width: 150,
         valueGetter: (value: unknown) => formatDate(value),
       },
+      {
+        field: 'lastLoginAt',
+        headerName: 'Last Login',
+        width: 150,
+        valueGetter: (value: unknown) => (value ? formatDate(value) : 'Never'),
+      },
       {
         field: 'actions',
         type: 'actions',
@@ -189,7 +202,18 @@ export default function UserManagementPage() {
         width: 120,
         getActions: (params) => {
           const user = params.row as User;
+          const canViewAs = (user.role === 'club_admin' || user.role === 'club_admin_coach') && !!user.clubId;
           return [
+            ...(canViewAs
+              ? [
+                  <GridActionsCellItem
+                    key="view-as"
+                    icon={<VisibilityIcon />}
+                    label="View as this user"
+                    onClick={() => handleViewAs(user)}
+                  />,
+                ]
+              : []),
             <GridActionsCellItem
               key="delete"
               icon={<DeleteIcon />}
@@ -200,21 +224,13 @@ export default function UserManagementPage() {
         },
       },
     ],
-    []
+    [handleViewAs]
   );
 
   if (authLoading || loading) {
     return <PageLoader />;
   }
 
-  if (accessDenied) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">Access denied. You must be a super admin to view this page.</Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4 }}>
@@ -252,7 +268,9 @@ export default function UserManagementPage() {
       <ConfirmationDialog
         open={deleteDialogOpen}
         onClose={handleDeleteCancel}
-        onConfirm={handleDeleteConfirm}
+        onConfirm={() =>
+          requireStepUp(handleDeleteConfirm, 'Deleting a user cannot be undone. Please confirm it\'s you to continue.')
+        }
         title="Delete User"
         message={
           <Typography>
@@ -263,6 +281,8 @@ export default function UserManagementPage() {
         cancelText="Cancel"
         isLoading={isDeleting}
       />
+
+      {stepUpDialog}
     </Container>
   );
 }
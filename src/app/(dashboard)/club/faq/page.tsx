@@ -67,7 +67,7 @@ Roles can be changed by a Club Admin in the admin portal.`,
   },
   {
     question: 'How do I upgrade, change, or cancel my subscription?',
-    answer: 'Contact info@benchmarksports.co.uk',
+    answer: 'Club Admins can add coach or view-only seats, update payment details, view invoices or cancel from the Subscriptions page in the admin portal (Add Seats and Manage Billing). For anything else, contact info@benchmarksports.co.uk',
   },
   {
     question: 'How do I invite team members?',
@@ -17,14 +17,16 @@ import { db } from '@/lib/firebase';
 import type { Club } from '@/types';
 import { appColors } from '@/theme';
 import { formatDate } from '@/utils/dateHelpers';
+import { usePermission } from '@/hooks/usePermission';
+import AdminGrantsSettings from '@/components/club/AdminGrantsSettings';
 
 export default function ClubInfoPage() {
   const router = useRouter();
-  const { userData, loading: authLoading } = useAuth();
+  const { userData, impersonatedUser, loading: authLoading } = useAuth();
   const [club, setClub] = useState<Club | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-
+  const { allowed: canManageMembers } = usePermission('member.update', { clubId: userData?.clubId || null });
 
   // DataGrid columns
   const columns: GridColDef[] = useMemo(
@@ -188,6 +190,9 @@ export default function ClubInfoPage() {
           pageSizeOptions={[10, 25, 50, 100]}
         />
       </Box>
+
+      {/* Grants are managed by the club's own admins, not while viewing as one */}
+      {canManageMembers && !impersonatedUser && <AdminGrantsSettings clubId={club.id} />}
     </Container>
   );
 }
@@ -9,6 +9,8 @@ import {
   Button,
   CircularProgress,
   Alert,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import { Add as AddIcon } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
@@ -19,7 +21,10 @@ import MemberList from '@/components/club/MemberList';
 import InviteMemberModal from '@/components/club/InviteMemberModal';
 import EditUserModal from '@/components/club/EditUserModal';
 import RemoveUserModal from '@/components/club/RemoveUserModal';
+import RoleHistoryModal from '@/components/club/RoleHistoryModal';
 import { appColors } from '@/theme';
+import { isInactiveUser, INACTIVE_AFTER_DAYS } from '@/lib/loginActivity';
+import { getClubMembership } from '@/config/memberships';
 
 export default function MembersPage() {
   const router = useRouter();
@@ -31,7 +36,9 @@ export default function MembersPage() {
   const [inviteModalOpen, setInviteModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [removeModalOpen, setRemoveModalOpen] = useState(false);
+  const [roleHistoryOpen, setRoleHistoryOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [showInactiveOnly, setShowInactiveOnly] = useState(false);
 
 
   useEffect(() => {
@@ -68,16 +75,16 @@ export default function MembersPage() {
     if (!userData?.clubId) return;
 
     try {
-      const membersQuery = query(
-        collection(db, 'users'),
-        where('clubId', '==', userData.clubId)
-      );
-      const membersSnapshot = await getDocs(membersQuery);
-      const membersData = membersSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as User[];
-      setMembers(membersData);
+      // Members whose active club is this club, plus members of several clubs who are using another one
+      const [membersSnapshot, otherClubMembersSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'users'), where('clubId', '==', userData.clubId))),
+        getDocs(query(collection(db, 'users'), where('memberClubIds', 'array-contains', userData.clubId))),
+      ]);
+      const membersById = new Map<string, User>();
+      [...membersSnapshot.docs, ...otherClubMembersSnapshot.docs].forEach((doc) => {
+        membersById.set(doc.id, { id: doc.id, ...doc.data() } as User);
+      });
+      setMembers([...membersById.values()]);
     } catch (err) {
       console.error('Error loading members:', err);
       setError('Failed to load members');
@@ -88,16 +95,24 @@ export default function MembersPage() {
     setInviteModalOpen(true);
   };
 
+  // The modals work from the stored users document, not the row shown for this club
+  const getStoredMember = (member: User) => members.find((m) => m.id === member.id) || member;
+
   const handleEdit = (member: User) => {
-    setSelectedUser(member);
+    setSelectedUser(getStoredMember(member));
     setEditModalOpen(true);
   };
 
   const handleRemove = (member: User) => {
-    setSelectedUser(member);
+    setSelectedUser(getStoredMember(member));
     setRemoveModalOpen(true);
   };
 
+  const handleViewRoleHistory = (member: User) => {
+    setSelectedUser(getStoredMember(member));
+    setRoleHistoryOpen(true);
+  };
+
   const handleInviteSent = () => {
     loadMembers();
   };
@@ -129,6 +144,15 @@ export default function MembersPage() {
     return null;
   }
 
+  // Show each member's role and team in this club
+  const memberRows = members.map((member) => {
+    const membership = getClubMembership(member, club.id);
+    return membership
+      ? { ...member, role: membership.role, teamId: membership.teamId || undefined, suspended: membership.suspended }
+      : member;
+  });
+  const inactiveMembers = memberRows.filter((member) => isInactiveUser(member));
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 4 }}>
@@ -161,10 +185,23 @@ export default function MembersPage() {
         </Alert>
       )}
 
+      <FormControlLabel
+        control={
+          <Switch
+            checked={showInactiveOnly}
+            onChange={(e) => setShowInactiveOnly(e.target.checked)}
+            color="warning"
+          />
+        }
+        label={`Only show members inactive for ${INACTIVE_AFTER_DAYS}+ days (${inactiveMembers.length})`}
+        sx={{ mb: 2 }}
+      />
+
       <MemberList
-        members={members}
+        members={showInactiveOnly ? inactiveMembers : memberRows}
         onEdit={handleEdit}
         onRemove={handleRemove}
+        onViewRoleHistory={handleViewRoleHistory}
         loading={loading}
       />
 
@@ -184,6 +221,7 @@ export default function MembersPage() {
         }}
         onUserUpdated={handleUserUpdated}
         user={selectedUser}
+        clubId={club.id}
       />
 
       <RemoveUserModal
@@ -196,6 +234,16 @@ export default function MembersPage() {
         user={selectedUser}
         clubId={club.id}
       />
+
+      <RoleHistoryModal
+        open={roleHistoryOpen}
+        onClose={() => {
+          setRoleHistoryOpen(false);
+          setSelectedUser(null);
+        }}
+        user={selectedUser}
+        clubId={club.id}
+      />
     </Container>
   );
 }
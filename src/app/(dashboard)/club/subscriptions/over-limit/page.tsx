@@ -0,0 +1,561 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Container,
+  Box,
+  Typography,
+  Paper,
+  Stepper,
+  Step,
+  StepLabel,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import {
+  CheckCircle as CheckCircleIcon,
+  Error as ErrorIcon,
+  ArrowBack as ArrowBackIcon,
+} from '@mui/icons-material';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
+import { useSeatOverages } from '@/hooks/useSeatOverages';
+import { useToast } from '@/contexts/ToastContext';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
+import { changeMemberRole, setMemberSuspended } from '@/lib/memberRoles';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import RequirePermission from '@/components/shared/RequirePermission';
+import { getClubMembership } from '@/config/memberships';
+import { getRoleLabel, type ClubRole } from '@/config/roles';
+import { SEAT_TYPES, SEAT_TYPE_LABELS, getSeatType, type SeatType } from '@/config/seatLedger';
+import {
+  SEAT_RESOLUTION_ACTION_LABELS,
+  SEAT_RESOLUTION_ORDER,
+  checkSeatResolution,
+  getSeatResolutionActions,
+  type SeatResolutionAction,
+} from '@/config/seatResolution';
+import { getAddSeatsPath, isCheckoutSeatType } from '@/config/billing';
+import type { ClubMembership, User } from '@/types';
+import { appColors } from '@/theme';
+
+const steps = ['Choose Members', 'Review Changes', 'Done'];
+
+interface ClubMember {
+  user: User;
+  membership: ClubMembership;
+  name: string;
+}
+
+interface LoadedMembers {
+  clubId: string;
+  members: ClubMember[];
+}
+
+interface ChangeResult {
+  member: ClubMember;
+  action: SeatResolutionAction;
+  error?: string;
+}
+
+/**
+ * Get a member's name for display
+ */
+function getMemberName(user: User): string {
+  return user.displayName || `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Unknown';
+}
+
+function OverLimitWizard() {
+  const router = useRouter();
+  const { user, userData } = useAuth();
+  const { allowed: canBuySeats } = usePermission('subscription.manage');
+  const { showSuccess } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
+  const clubId = userData?.clubId || null;
+  const { overages, seats, limits, isOverLimit, loading: seatsLoading } = useSeatOverages(clubId);
+  const [loaded, setLoaded] = useState<LoadedMembers | null>(null);
+  const [actions, setActions] = useState<Record<string, SeatResolutionAction>>({});
+  const [activeStep, setActiveStep] = useState(0);
+  const [isApplying, setIsApplying] = useState(false);
+  const [results, setResults] = useState<ChangeResult[]>([]);
+  const [reinstatingId, setReinstatingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Members whose active club is this club, plus members of several clubs who are using another one
+  const loadMembers = useCallback(() => {
+    if (!clubId) return;
+
+    Promise.all([
+      getDocs(query(collection(db, 'users'), where('clubId', '==', clubId))),
+      getDocs(query(collection(db, 'users'), where('memberClubIds', 'array-contains', clubId))),
+    ])
+      .then(([activeSnapshot, membershipSnapshot]) => {
+        const membersById = new Map<string, ClubMember>();
+        [...activeSnapshot.docs, ...membershipSnapshot.docs].forEach((doc) => {
+          const member = { id: doc.id, ...doc.data() } as User;
+          const membership = getClubMembership(member, clubId);
+          if (membership) {
+            membersById.set(doc.id, { user: member, membership, name: getMemberName(member) });
+          }
+        });
+        setLoaded({
+          clubId,
+          members: [...membersById.values()].sort((a, b) => a.name.localeCompare(b.name)),
+        });
+      })
+      .catch((err) => {
+        console.error('Error loading members:', err);
+        setLoaded({ clubId, members: [] });
+        setError('Failed to load members');
+      });
+  }, [clubId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const members = loaded?.clubId === clubId ? loaded.members : null;
+  const activeMembers = (members || []).filter((member) => !member.membership.suspended);
+  const suspendedMembers = (members || []).filter((member) => member.membership.suspended);
+  const overLimitSeatTypes = SEAT_TYPES.filter((seatType) => overages[seatType]);
+
+  const roles = Object.fromEntries(activeMembers.map((member) => [member.user.id, member.membership.role])) as Record<
+    string,
+    ClubRole
+  >;
+  const check = seats && limits ? checkSeatResolution(seats, limits, roles, actions) : null;
+  const changes = activeMembers
+    .filter((member) => actions[member.user.id] && actions[member.user.id] !== 'keep')
+    .map((member) => ({ member, action: actions[member.user.id] }));
+  const isResolved = !!check && Object.keys(check.overages).length === 0 && check.pendingViewOnlyShortfall === 0;
+
+  // Members who can free a seat of a type: everyone holding it, except the signed-in admin and temporary admins
+  const getCandidates = (seatType: SeatType) =>
+    activeMembers.filter(
+      (member) =>
+        getSeatType(member.membership.role) === seatType &&
+        member.user.id !== user?.uid &&
+        member.user.adminGrant?.clubId !== clubId
+    );
+
+  const handleApply = async () => {
+    if (!clubId) return;
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    setIsApplying(true);
+    const changeResults: ChangeResult[] = [];
+    // Freeing seats first means downgrades find the view-only seats they need
+    for (const action of SEAT_RESOLUTION_ORDER) {
+      for (const change of changes.filter((c) => c.action === action)) {
+        try {
+          if (action === 'suspend') {
+            await setMemberSuspended(clubId, change.member.user.id, true);
+          } else {
+            await changeMemberRole(clubId, change.member.user.id, action as ClubRole);
+          }
+          changeResults.push(change);
+        } catch (err) {
+          changeResults.push({ ...change, error: err instanceof Error ? err.message : 'Failed to update this member' });
+        }
+      }
+    }
+
+    setResults(changeResults);
+    setActions({});
+    setIsApplying(false);
+    setActiveStep(2);
+    loadMembers();
+  };
+
+  // Role changes need the admin to confirm it's them; suspensions alone don't
+  const handleApplyClick = () => {
+    if (changes.some((change) => change.action !== 'suspend')) {
+      requireStepUp(
+        handleApply,
+        'Changing members\' roles changes their club access. Please confirm it\'s you to continue.'
+      );
+      return;
+    }
+    void handleApply();
+  };
+
+  const handleReinstate = async (member: ClubMember) => {
+    if (!clubId) return;
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    try {
+      setReinstatingId(member.user.id);
+      await setMemberSuspended(clubId, member.user.id, false);
+      showSuccess(`${member.name} reinstated`);
+      loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reinstate this member');
+    } finally {
+      setReinstatingId(null);
+    }
+  };
+
+  if (seatsLoading || members === null) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const renderSeatSummary = () => (
+    <Table size="small" sx={{ mb: 3 }}>
+      <TableHead>
+        <TableRow>
+          <TableCell>Seat Type</TableCell>
+          <TableCell align="right">Members</TableCell>
+          <TableCell align="right">Plan Seats</TableCell>
+          <TableCell align="right">After Changes</TableCell>
+          <TableCell align="right">Over By</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {SEAT_TYPES.map((seatType) => {
+          const overBy = check?.overages[seatType] || 0;
+          return (
+            <TableRow key={seatType}>
+              <TableCell>{SEAT_TYPE_LABELS[seatType]}</TableCell>
+              <TableCell align="right">{seats?.[seatType].used ?? 0}</TableCell>
+              <TableCell align="right">{limits?.[seatType] ?? 0}</TableCell>
+              <TableCell align="right">{check?.resolved[seatType].used ?? 0}</TableCell>
+              <TableCell align="right" sx={{ color: overBy > 0 ? appColors.error : appColors.success, fontWeight: 'bold' }}>
+                {overBy > 0 ? overBy : '—'}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  const renderChooseMembers = () => (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Your club has more members than its plan includes, for example after the plan was downgraded. Choose members
+        to downgrade or suspend until every seat type fits. Suspended members keep their role but can&apos;t use the
+        club until you reinstate them.
+      </Typography>
+
+      {renderSeatSummary()}
+
+      {overLimitSeatTypes.map((seatType) => {
+        const candidates = getCandidates(seatType);
+        return (
+          <Box key={seatType} sx={{ mb: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {SEAT_TYPE_LABELS[seatType]} seats: {overages[seatType]} over the limit
+              </Typography>
+              {canBuySeats && isCheckoutSeatType(seatType) && (
+                <Button size="small" onClick={() => router.push(getAddSeatsPath(seatType))}>
+                  Add Seats Instead
+                </Button>
+              )}
+            </Box>
+            {candidates.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No members can be changed here. Change roles on the Members page.
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Member</TableCell>
+                    <TableCell>Role</TableCell>
+                    <TableCell sx={{ width: 280 }}>Action</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {candidates.map((member) => (
+                    <TableRow key={member.user.id}>
+                      <TableCell>
+                        <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                          {member.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {member.user.email}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{getRoleLabel(member.membership.role)}</TableCell>
+                      <TableCell>
+                        <Select
+                          size="small"
+                          fullWidth
+                          value={actions[member.user.id] || 'keep'}
+                          onChange={(e) =>
+                            setActions({ ...actions, [member.user.id]: e.target.value as SeatResolutionAction })
+                          }
+                        >
+                          {getSeatResolutionActions(member.membership.role).map((action) => (
+                            <MenuItem key={action} value={action}>
+                              {SEAT_RESOLUTION_ACTION_LABELS[action]}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        );
+      })}
+
+      {check && check.pendingViewOnlyShortfall > 0 && Object.keys(check.overages).length === 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Unused invitations hold the View Only seats these downgrades need. Delete {check.pendingViewOnlyShortfall}{' '}
+          unused view-only invitation{check.pendingViewOnlyShortfall !== 1 ? 's' : ''} on the Referral Codes page, or
+          suspend members instead.
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => router.push('/club/subscriptions')}>
+          Back to Subscriptions
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => setActiveStep(1)}
+          disabled={!isResolved || changes.length === 0}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          Review Changes
+        </Button>
+      </Box>
+    </>
+  );
+
+  const renderReview = () => (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        These changes bring your club within its plan. Members are told nothing automatically, so let them know
+        before you continue.
+      </Typography>
+
+      <Table size="small" sx={{ mb: 3 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Member</TableCell>
+            <TableCell>Current Role</TableCell>
+            <TableCell>Change</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {changes.map(({ member, action }) => (
+            <TableRow key={member.user.id}>
+              <TableCell>{member.name}</TableCell>
+              <TableCell>{getRoleLabel(member.membership.role)}</TableCell>
+              <TableCell>
+                <Chip
+                  label={SEAT_RESOLUTION_ACTION_LABELS[action]}
+                  size="small"
+                  color={action === 'suspend' ? 'error' : 'warning'}
+                  variant="outlined"
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {renderSeatSummary()}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+        <Button onClick={() => setActiveStep(0)} disabled={isApplying}>
+          Back
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleApplyClick}
+          disabled={isApplying}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          {isApplying ? <CircularProgress size={24} /> : `Apply ${changes.length} Change${changes.length !== 1 ? 's' : ''}`}
+        </Button>
+      </Box>
+    </>
+  );
+
+  const renderDone = () => {
+    const failed = results.filter((result) => result.error);
+    return (
+      <>
+        {failed.length === 0 ? (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            All changes were applied.
+            {isOverLimit ? '' : ' Your club is now within its plan.'}
+          </Alert>
+        ) : (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {failed.length} of {results.length} change{results.length !== 1 ? 's' : ''} could not be applied.
+          </Alert>
+        )}
+
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableBody>
+            {results.map(({ member, action, error: changeError }) => (
+              <TableRow key={member.user.id}>
+                <TableCell sx={{ width: 40 }}>
+                  {changeError ? (
+                    <ErrorIcon fontSize="small" sx={{ color: appColors.error }} />
+                  ) : (
+                    <CheckCircleIcon fontSize="small" sx={{ color: appColors.success }} />
+                  )}
+                </TableCell>
+                <TableCell>{member.name}</TableCell>
+                <TableCell>{SEAT_RESOLUTION_ACTION_LABELS[action]}</TableCell>
+                <TableCell sx={{ color: appColors.error }}>{changeError || ''}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+          {isOverLimit ? (
+            <Button onClick={() => setActiveStep(0)}>Choose More Members</Button>
+          ) : (
+            <span />
+          )}
+          <Button
+            variant="contained"
+            onClick={() => router.push('/club/subscriptions')}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            Back to Subscriptions
+          </Button>
+        </Box>
+      </>
+    );
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+        Seat Limits
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 4, mb: 3 }}>
+        {!isOverLimit && activeStep === 0 ? (
+          <>
+            <Alert severity="success" sx={{ mb: 3 }}>
+              Your club is within its plan&apos;s seats.
+            </Alert>
+            {renderSeatSummary()}
+            <Button startIcon={<ArrowBackIcon />} onClick={() => router.push('/club/subscriptions')}>
+              Back to Subscriptions
+            </Button>
+          </>
+        ) : (
+          <>
+            <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
+              {steps.map((label) => (
+                <Step key={label}>
+                  <StepLabel>{label}</StepLabel>
+                </Step>
+              ))}
+            </Stepper>
+            {activeStep === 0 && renderChooseMembers()}
+            {activeStep === 1 && renderReview()}
+            {activeStep === 2 && renderDone()}
+          </>
+        )}
+      </Paper>
+
+      {suspendedMembers.length > 0 && (
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary, mb: 1 }}>
+            Suspended Members
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Reinstating a member takes one of their role&apos;s seats again.
+          </Typography>
+          <Table size="small">
+            <TableBody>
+              {suspendedMembers.map((member) => (
+                <TableRow key={member.user.id}>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                      {member.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {member.user.email}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{getRoleLabel(member.membership.role)}</TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      onClick={() => handleReinstate(member)}
+                      disabled={reinstatingId !== null || isApplying}
+                    >
+                      {reinstatingId === member.user.id ? <CircularProgress size={16} /> : 'Reinstate'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      {stepUpDialog}
+    </Container>
+  );
+}
+
+export default function OverLimitPage() {
+  return (
+    <RequirePermission action="member.update" deniedMessage="Only club admins can change members' seats.">
+      <OverLimitWizard />
+    </RequirePermission>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import {
   Container,
   Box,
@@ -12,16 +13,37 @@ import {
   CardContent,
   Chip,
   Divider,
+  Button,
 } from '@mui/material';
 import {
   CreditCard as CreditCardIcon,
   People as PeopleIcon,
   Visibility as VisibilityIcon,
   CalendarToday as CalendarIcon,
+  Add as AddIcon,
+  OpenInNew as OpenInNewIcon,
+  CardGiftcard as GiftIcon,
+  ReceiptLong as InvoiceIcon,
 } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
+import { usePermission } from '@/hooks/usePermission';
+import { useToast } from '@/contexts/ToastContext';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { openBillingPortal } from '@/lib/billing';
+import { isImpersonating, READ_ONLY_MESSAGE } from '@/lib/impersonation';
+import SeatLedgerCard from '@/components/club/SeatLedgerCard';
+import AddSeatsDialog from '@/components/club/AddSeatsDialog';
+import SubscriptionTimeline from '@/components/shared/SubscriptionTimeline';
+import { isCheckoutSeatType } from '@/config/billing';
+import {
+  ADMIN_PLAN_KIND_LABELS,
+  ADMIN_PLAN_STATE_COLORS,
+  ADMIN_PLAN_STATE_LABELS,
+  getAdminPlanState,
+  isAdminPlan,
+  type AdminPlanKind,
+} from '@/config/adminPlans';
 import type { FirestoreTimestamp } from '@/types';
 import { appColors } from '@/theme';
 
@@ -31,6 +53,10 @@ interface Subscription {
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
   subscriptionType?: string;
+  // Admin-managed plan fields (see config/adminPlans)
+  source?: string;
+  adminPlanKind?: AdminPlanKind;
+  note?: string;
   productName?: string;
   planName?: string;
   // Coach Account fields (from coach_account line item)
@@ -62,11 +88,21 @@ interface Subscription {
   updatedAt?: FirestoreTimestamp;
 }
 
-export default function ClubSubscriptionsPage() {
+function ClubSubscriptionsContent() {
+  const searchParams = useSearchParams();
   const { userData, loading: authLoading } = useAuth();
+  const { allowed: canManageBilling } = usePermission('subscription.manage');
+  const { showError } = useToast();
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [loadedAt, setLoadedAt] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  // Seat limit errors link here with ?addSeats=<seat type> to open checkout straight away
+  const addSeatsParam = searchParams.get('addSeats');
+  const [addSeatsOpen, setAddSeatsOpen] = useState(() => isCheckoutSeatType(addSeatsParam));
+  const [openingPortal, setOpeningPortal] = useState(false);
+  // Set by Stripe when it sends the user back from Checkout
+  const checkoutStatus = searchParams.get('checkout');
 
   useEffect(() => {
     const loadSubscriptions = async () => {
@@ -87,6 +123,7 @@ export default function ClubSubscriptionsPage() {
         })) as Subscription[];
 
         setSubscriptions(subscriptionsData);
+        setLoadedAt(Date.now());
       } catch (err) {
         console.error('Error loading subscriptions:', err);
         setError('Failed to load subscriptions');
@@ -98,6 +135,24 @@ export default function ClubSubscriptionsPage() {
     loadSubscriptions();
   }, [userData?.clubId, authLoading]);
 
+  const handleOpenPortal = async () => {
+    if (!userData?.clubId) return;
+
+    // Billing stays available in billing read-only mode, so the past-due payment can be fixed
+    if (isImpersonating()) {
+      showError(READ_ONLY_MESSAGE);
+      return;
+    }
+
+    try {
+      setOpeningPortal(true);
+      await openBillingPortal(userData.clubId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Unable to open billing. Please try again.');
+      setOpeningPortal(false);
+    }
+  };
+
   if (authLoading || loading) {
     return (
       <Box
@@ -115,21 +170,61 @@ export default function ClubSubscriptionsPage() {
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
-      <Box sx={{ mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
-          Subscriptions
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          View your club&apos;s subscription details
-        </Typography>
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Subscriptions
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            View your club&apos;s subscription details
+          </Typography>
+        </Box>
+        {canManageBilling && userData?.clubId && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={openingPortal ? <CircularProgress size={16} /> : <OpenInNewIcon />}
+              onClick={handleOpenPortal}
+              disabled={openingPortal}
+            >
+              Manage Billing
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setAddSeatsOpen(true)}
+              sx={{
+                backgroundColor: appColors.primary,
+                color: appColors.primaryText,
+                fontWeight: 'bold',
+                '&:hover': { backgroundColor: appColors.primaryHover },
+              }}
+            >
+              Add Seats
+            </Button>
+          </Box>
+        )}
       </Box>
 
+      {checkoutStatus === 'success' && (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          Payment received. Your new seats will appear below once Stripe confirms the payment.
+        </Alert>
+      )}
+      {checkoutStatus === 'canceled' && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Checkout was canceled. No changes were made to your subscription.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }}>
           {error}
         </Alert>
       )}
 
+      {userData?.clubId && <SeatLedgerCard clubId={userData.clubId} />}
+
       {subscriptions.length === 0 && !loading ? (
         <Paper sx={{ p: 3 }}>
           <Typography variant="body1" color="text.secondary" align="center">
@@ -138,15 +233,42 @@ export default function ClubSubscriptionsPage() {
         </Paper>
       ) : (
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-          {subscriptions.map((subscription) => (
-            <SubscriptionCard key={subscription.id} subscription={subscription} />
-          ))}
+          {subscriptions.map((subscription) =>
+            isAdminPlan(subscription) ? (
+              <AdminPlanCard key={subscription.id} subscription={subscription} now={loadedAt} />
+            ) : (
+              <SubscriptionCard key={subscription.id} subscription={subscription} />
+            )
+          )}
+        </Box>
+      )}
+
+      {userData?.clubId && (
+        <Box sx={{ mt: 3 }}>
+          <SubscriptionTimeline clubId={userData.clubId} />
         </Box>
       )}
+
+      {canManageBilling && userData?.clubId && (
+        <AddSeatsDialog
+          open={addSeatsOpen}
+          onClose={() => setAddSeatsOpen(false)}
+          clubId={userData.clubId}
+          initialSeatType={isCheckoutSeatType(addSeatsParam) ? addSeatsParam : undefined}
+        />
+      )}
     </Container>
   );
 }
 
+export default function ClubSubscriptionsPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ClubSubscriptionsContent />
+    </Suspense>
+  );
+}
+
 // Helper functions
 function formatCurrency(amount: number | undefined | null): string {
   if (amount === undefined || amount === null) return 'N/A';
@@ -356,3 +478,110 @@ function SubscriptionCard({ subscription }: { subscription: Subscription }) {
   );
 }
 
+// Admin-Managed Plan Card Component
+// Complimentary and manually invoiced plans have no Stripe billing, so they show their period instead of prices
+function AdminPlanCard({ subscription, now }: { subscription: Subscription; now: number }) {
+  const state = getAdminPlanState(subscription, now);
+  const isComplimentary = subscription.adminPlanKind === 'complimentary';
+  const PlanIcon = isComplimentary ? GiftIcon : InvoiceIcon;
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        border: `1px solid ${state === 'ended' ? '#e0e0e0' : appColors.primary}`,
+        borderRadius: 2,
+      }}
+    >
+      <CardContent sx={{ p: 3 }}>
+        {/* Header */}
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <PlanIcon sx={{ fontSize: 32, color: appColors.primary }} />
+            <Box>
+              <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+                {subscription.planName || 'Club Plan'}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {isComplimentary
+                  ? 'Complimentary plan, free of charge'
+                  : 'Invoiced plan, billed by invoice rather than card'}
+              </Typography>
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Chip
+              label={ADMIN_PLAN_KIND_LABELS[subscription.adminPlanKind as AdminPlanKind] || 'Admin Plan'}
+              variant="outlined"
+              size="small"
+            />
+            <Chip label={ADMIN_PLAN_STATE_LABELS[state]} color={ADMIN_PLAN_STATE_COLORS[state]} size="small" />
+          </Box>
+        </Box>
+
+        {/* Seats */}
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 3 }}>
+          <Box sx={{ bgcolor: 'grey.50', p: 2, borderRadius: 1, display: 'flex', alignItems: 'center', gap: 2 }}>
+            <PeopleIcon sx={{ color: appColors.primary }} />
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                Coach Seats
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Up to {subscription.maxCoachAccounts || 0} coach{subscription.maxCoachAccounts !== 1 ? 'es' : ''}
+              </Typography>
+            </Box>
+          </Box>
+          <Box sx={{ bgcolor: 'grey.50', p: 2, borderRadius: 1, display: 'flex', alignItems: 'center', gap: 2 }}>
+            <VisibilityIcon sx={{ color: appColors.primary }} />
+            <Box>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                View Only Seats
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Up to {subscription.maxViewOnlyUsers || 0} user{subscription.maxViewOnlyUsers !== 1 ? 's' : ''}
+              </Typography>
+            </Box>
+          </Box>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Plan Period */}
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CalendarIcon fontSize="small" color="action" />
+            <Box>
+              <Typography variant="caption" color="text.secondary">Starts</Typography>
+              <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                {formatDate(subscription.currentPeriodStart)}
+              </Typography>
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CalendarIcon fontSize="small" color="action" />
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                {subscription.status === 'canceled' ? 'Ended On' : 'Ends'}
+              </Typography>
+              <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                {formatDate(subscription.status === 'canceled' ? subscription.canceledAt : subscription.currentPeriodEnd)}
+              </Typography>
+            </Box>
+          </Box>
+        </Box>
+
+        {subscription.note && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, whiteSpace: 'pre-wrap' }}>
+            {subscription.note}
+          </Typography>
+        )}
+
+        <Alert severity="info" sx={{ mt: 2 }}>
+          This plan is managed by our team and isn&apos;t billed through Stripe. Contact support to change or renew it.
+          Seats you buy with Add Seats are added to the plan&apos;s seats.
+        </Alert>
+      </CardContent>
+    </Card>
+  );
+}
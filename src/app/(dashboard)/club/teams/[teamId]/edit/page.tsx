@@ -24,8 +24,11 @@ import { CloudUpload as CloudUploadIcon } from '@mui/icons-material';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { doc, getDoc, updateDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { storage, db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/contexts/ToastContext';
+import { can } from '@/config/permissions';
+import { ROLE_CONFIG, INVITABLE_ROLES, type ClubRole } from '@/config/roles';
 import Step2ManageMembers from '@/components/teams/Step2ManageMembers';
 import { AGE_GROUPS, SPORT_CATEGORIES, AGE_GROUP_LABELS } from '@/constants/teams';
 import { appColors } from '@/theme';
@@ -94,8 +97,8 @@ export default function EditTeamPage() {
           ...teamDataRaw,
         } as Team;
         
-        // Check if team belongs to club
-        if (teamData.clubId !== userData.clubId) {
+        // Club admins can edit any team in their club, team managers only their own teams
+        if (!can(userData, 'team.update', { clubId: teamData.clubId || null, teamId: teamData.id })) {
           showError('You do not have permission to edit this team');
           router.push('/club/teams');
           return;
@@ -151,7 +154,7 @@ export default function EditTeamPage() {
     };
 
     loadData();
-  }, [userData?.clubId, authLoading, teamId, router, showError]);
+  }, [userData, authLoading, teamId, router, showError]);
 
   const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -210,6 +213,11 @@ export default function EditTeamPage() {
       return;
     }
 
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     setError('');
     setSaving(true);
 
@@ -463,6 +471,13 @@ export default function EditTeamPage() {
               teamId={team.id}
               teamName={team.name}
               existingMembers={teamMembers}
+              invitableRoles={
+                userData?.role === 'super_admin'
+                  ? INVITABLE_ROLES
+                  : ROLE_CONFIG[userData?.role as ClubRole]?.invitableRoles || []
+              }
+              existingCoaches={team.coaches || []}
+              currentUserId={userData?.id || ''}
               onComplete={handleStep2Complete}
               onBack={handleBack}
             />
@@ -13,9 +13,11 @@ import {
 import { Add as AddIcon } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/contexts/ToastContext';
-import { isSuperAdmin, isClubAdmin } from '@/lib/permissions';
+import { usePermission } from '@/hooks/usePermission';
+import { can } from '@/config/permissions';
 import { collection, query, where, getDocs, doc, getDoc, updateDoc, deleteDoc, increment, serverTimestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import type { Team, Club } from '@/types';
 import TeamList from '@/components/club/TeamList';
 import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
@@ -24,16 +26,18 @@ import { appColors } from '@/theme';
 export default function TeamsPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { userData, loading: authLoading } = useAuth();
+  const { userData, realUserData, loading: authLoading } = useAuth();
   const { showSuccess, showError } = useToast();
   const [club, setClub] = useState<Club | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [canDeleteTeams, setCanDeleteTeams] = useState(false);
+  const { allowed: canDeleteTeams } = usePermission('team.delete', { clubId: userData?.clubId || null });
+  const { allowed: canCreateTeams } = usePermission('team.create', { clubId: userData?.clubId || null });
 
   useEffect(() => {
     const loadData = async () => {
@@ -43,13 +47,6 @@ export default function TeamsPage() {
         setLoading(true);
         setError('');
 
-        // Check delete permissions
-        if (userData.id) {
-          const isAdmin = await isSuperAdmin(userData.id);
-          const isClubAdminUser = await isClubAdmin(userData.id, userData.clubId);
-          setCanDeleteTeams(isAdmin || isClubAdminUser);
-        }
-
         // Load club
         const clubDoc = await getDoc(doc(db, 'sports_clubs', userData.clubId));
         if (clubDoc.exists()) {
@@ -65,14 +62,18 @@ export default function TeamsPage() {
           getDocs(query(collection(db, 'users'), where('clubId', '==', userData.clubId))),
         ]);
 
-        // Count users per team
+        // Count users per team and collect names for the coaching staff column
         const teamMemberCounts: Record<string, number> = {};
+        const names: Record<string, string> = {};
         usersSnapshot.docs.forEach((doc) => {
-          const teamId = doc.data().teamId;
+          const data = doc.data();
+          const teamId = data.teamId;
           if (teamId) {
             teamMemberCounts[teamId] = (teamMemberCounts[teamId] || 0) + 1;
           }
+          names[doc.id] = data.displayName || `${data.firstName || ''} ${data.lastName || ''}`.trim() || data.email;
         });
+        setMemberNames(names);
 
         // Add real member count to each team
         const teamsData = teamsSnapshot.docs.map((doc) => ({
@@ -108,16 +109,18 @@ export default function TeamsPage() {
   };
 
   const handleDelete = async (team: Team) => {
+    if (isReadOnly()) {
+      showError(getReadOnlyMessage());
+      return;
+    }
+
     // Check permissions before showing dialog
     if (!userData?.id) {
       showError('You must be logged in to delete teams');
       return;
     }
 
-    const isAdmin = await isSuperAdmin(userData.id);
-    const isClubAdminUser = await isClubAdmin(userData.id, userData.clubId);
-
-    if (!isAdmin && !isClubAdminUser) {
+    if (!canDeleteTeams) {
       showError('You do not have permission to delete teams. Only club admins and super admins can delete teams.');
       return;
     }
@@ -133,17 +136,6 @@ export default function TeamsPage() {
       setIsDeleting(true);
       setError('');
 
-      // Double-check permissions
-      const isAdmin = await isSuperAdmin(userData.id);
-      const isClubAdminUser = await isClubAdmin(userData.id, userData.clubId);
-
-      if (!isAdmin && !isClubAdminUser) {
-        showError('You do not have permission to delete teams.');
-        setDeleteDialogOpen(false);
-        setTeamToDelete(null);
-        return;
-      }
-
       // Fetch team to get clubId (for safety)
       const teamDoc = await getDoc(doc(db, 'teams', teamToDelete.id));
       if (!teamDoc.exists()) {
@@ -156,6 +148,13 @@ export default function TeamsPage() {
       const teamData = teamDoc.data();
       const teamClubId = teamData.clubId;
 
+      if (!can(realUserData, 'team.delete', { clubId: teamClubId || null })) {
+        showError('You do not have permission to delete teams.');
+        setDeleteDialogOpen(false);
+        setTeamToDelete(null);
+        return;
+      }
+
       // Hard delete: permanently remove team document
       // Note: Associated drills and sessions remain orphaned in database
       await deleteDoc(doc(db, 'teams', teamToDelete.id));
@@ -221,6 +220,11 @@ export default function TeamsPage() {
     return null;
   }
 
+  // Team managers only see the teams they manage
+  const visibleTeams = teams.filter((team) =>
+    can(userData, 'team.update', { clubId: team.clubId || null, teamId: team.id })
+  );
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 4 }}>
@@ -232,19 +236,21 @@ export default function TeamsPage() {
             Manage club teams
           </Typography>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => router.push('/club/teams/create')}
-          sx={{
-            backgroundColor: appColors.primary,
-            color: appColors.primaryText,
-            fontWeight: 'bold',
-            '&:hover': { backgroundColor: appColors.primaryHover },
-          }}
-        >
-          Create Team
-        </Button>
+        {canCreateTeams && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => router.push('/club/teams/create')}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            Create Team
+          </Button>
+        )}
       </Box>
 
       {error && (
@@ -254,7 +260,8 @@ export default function TeamsPage() {
       )}
 
       <TeamList
-        teams={teams}
+        teams={visibleTeams}
+        memberNames={memberNames}
         onEdit={handleEdit}
         onDelete={canDeleteTeams ? handleDelete : undefined}
         loading={loading}
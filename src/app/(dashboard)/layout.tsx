@@ -4,7 +4,15 @@ import { useEffect } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { Box, CircularProgress } from '@mui/material';
 import { useAuth } from '@/hooks/useAuth';
+import { useSubscriptionAccess } from '@/hooks/useSubscriptionAccess';
+import { useSeatOverages } from '@/hooks/useSeatOverages';
+import { usePermission } from '@/hooks/usePermission';
+import { isBillingPath } from '@/config/subscriptionAccess';
 import Navigation from '@/components/shared/Navigation';
+import ImpersonationBanner from '@/components/shared/ImpersonationBanner';
+import SubscriptionBanner from '@/components/shared/SubscriptionBanner';
+import SeatLimitBanner from '@/components/shared/SeatLimitBanner';
+import IdleTimeoutDialog from '@/components/shared/IdleTimeoutDialog';
 
 export default function DashboardLayout({
   children,
@@ -14,6 +22,15 @@ export default function DashboardLayout({
   const router = useRouter();
   const pathname = usePathname();
   const { user, userData, loading: authLoading } = useAuth();
+  // Super admins have no club subscription; while viewing as a club admin, the club's is used
+  const { access, graceEndsAt } = useSubscriptionAccess(
+    userData?.role !== 'super_admin' ? userData?.clubId : null
+  );
+  // Only members who can change roles can bring the club back within its seats
+  const { allowed: canResolveSeats } = usePermission('member.update');
+  const { overages } = useSeatOverages(
+    userData?.role !== 'super_admin' && canResolveSeats ? userData?.clubId : null
+  );
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -21,6 +38,13 @@ export default function DashboardLayout({
     }
   }, [user, authLoading, router]);
 
+  // The proxy enforces this on navigation; this catches the subscription changing while the dashboard is open
+  useEffect(() => {
+    if (access === 'billing_only' && !isBillingPath(pathname)) {
+      router.push('/club/subscriptions');
+    }
+  }, [access, pathname, router]);
+
   // Show loading while checking auth
   if (authLoading) {
     return (
@@ -53,8 +77,12 @@ export default function DashboardLayout({
           mt: { xs: '56px', md: '64px' }, // Account for AppBar height
         }}
       >
+        <ImpersonationBanner />
+        <SubscriptionBanner access={access} graceEndsAt={graceEndsAt} />
+        <SeatLimitBanner overages={overages} currentPath={pathname} />
         {children}
       </Box>
+      <IdleTimeoutDialog />
     </Box>
   );
 }
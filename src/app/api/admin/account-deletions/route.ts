@@ -0,0 +1,220 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference, WriteBatch } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, STEP_UP_REQUIRED_CODE, verifySession, verifyStepUp } from '@/lib/sessionCookie';
+import { ensureSeatLedger, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { USER_CONTENT_COLLECTIONS } from '@/config/accountDeletion';
+import { getUserMemberships } from '@/config/memberships';
+import { getRemovalSeats } from '@/config/seatLedger';
+import type { Team, User } from '@/types';
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Update or delete documents in batches
+ */
+async function commitInBatches(
+  refs: DocumentReference[],
+  apply: (batch: WriteBatch, ref: DocumentReference) => void
+) {
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    refs.slice(i, i + BATCH_SIZE).forEach((ref) => apply(batch, ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Execute a pending account deletion request (super admins only)
+ * Body: { requestId: string, contentAction: 'purge' | 'reassign', reassignTo?: string }
+ * Header: Authorization: Bearer <idToken> from a reauthentication within the last 5 minutes (see verifyStepUp)
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session?.role !== 'super_admin') {
+    return NextResponse.json({ error: 'Only super admins can delete accounts.' }, { status: 403 });
+  }
+  if (!(await verifyStepUp(request.headers.get('Authorization'), session.uid))) {
+    return NextResponse.json(
+      { error: 'Please confirm it\'s you again to continue.', code: STEP_UP_REQUIRED_CODE },
+      { status: 403 }
+    );
+  }
+
+  let requestId: string | undefined;
+  let contentAction: string | undefined;
+  let reassignTo: string | undefined;
+  try {
+    const body = await request.json();
+    requestId = typeof body?.requestId === 'string' ? body.requestId : undefined;
+    contentAction = body?.contentAction;
+    reassignTo = typeof body?.reassignTo === 'string' ? body.reassignTo : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!requestId) {
+    return NextResponse.json({ error: 'Missing account to delete' }, { status: 400 });
+  }
+  if (contentAction !== 'purge' && contentAction !== 'reassign') {
+    return NextResponse.json({ error: 'Choose whether to purge or reassign the user\'s content' }, { status: 400 });
+  }
+
+  try {
+    // Requests are keyed by uid, except those added by older clients with generated IDs
+    const requestRef = adminDb.collection('account_deletions').doc(requestId);
+    const requestDoc = await requestRef.get();
+    const deletion = requestDoc.data();
+    if (!deletion || deletion.status !== 'pending') {
+      return NextResponse.json({ error: 'This deletion request is no longer pending.' }, { status: 400 });
+    }
+    const userId: string | undefined = deletion.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'This deletion request does not name an account.' }, { status: 400 });
+    }
+    if (contentAction === 'reassign' && (!reassignTo || reassignTo === userId)) {
+      return NextResponse.json({ error: 'Choose another user to reassign the content to' }, { status: 400 });
+    }
+    if (deletion.scheduledFor instanceof Timestamp && deletion.scheduledFor.toMillis() > Date.now()) {
+      return NextResponse.json({ error: 'This request is still in its cool-off period.' }, { status: 400 });
+    }
+
+    const userRef = adminDb.collection('users').doc(userId);
+    const target = (await userRef.get()).data();
+    if (target?.role === 'super_admin') {
+      return NextResponse.json({ error: 'Super admin accounts cannot be deleted here.' }, { status: 400 });
+    }
+
+    if (contentAction === 'reassign') {
+      const recipient = await adminDb.collection('users').doc(reassignTo as string).get();
+      if (!recipient.exists) {
+        return NextResponse.json({ error: 'The user to reassign content to was not found.' }, { status: 400 });
+      }
+    }
+
+    // Reassign or purge the user's drills, sessions and notes
+    const contentCounts: Record<string, number> = {};
+    const imageUrls: string[] = [];
+    for (const { collection, ownerField } of USER_CONTENT_COLLECTIONS) {
+      const snapshot = await adminDb.collection(collection).where(ownerField, '==', userId).get();
+      contentCounts[collection] = snapshot.size;
+
+      if (contentAction === 'reassign') {
+        await commitInBatches(
+          snapshot.docs.map((doc) => doc.ref),
+          (batch, ref) => batch.update(ref, { [ownerField]: reassignTo, updatedAt: FieldValue.serverTimestamp() })
+        );
+      } else {
+        snapshot.docs.forEach((doc) => {
+          const image = doc.data().image;
+          if (typeof image === 'string' && image) imageUrls.push(image);
+        });
+        await commitInBatches(
+          snapshot.docs.map((doc) => doc.ref),
+          (batch, ref) => batch.delete(ref)
+        );
+      }
+    }
+
+    // Purged drill images still live in Storage; queue them for cleanup
+    if (imageUrls.length > 0) {
+      await adminDb.collection('pending_content_deletion').add({
+        userId,
+        imageUrls,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    // Remove the user from each of their clubs (freeing their seat)
+    const memberships = getUserMemberships(target as User | undefined);
+    for (const [clubId, membership] of Object.entries(memberships)) {
+      await ensureSeatLedger(clubId);
+      const batch = adminDb.batch();
+      batch.update(adminDb.collection('sports_clubs').doc(clubId), {
+        memberIds: FieldValue.arrayRemove(userId),
+        clubAdminIds: FieldValue.arrayRemove(userId),
+        clubAdminCoachIds: FieldValue.arrayRemove(userId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      updateSeatLedger(batch, clubId, getRemovalSeats(membership));
+      await batch.commit();
+    }
+    // Admin lists on clubs they are no longer a member of (e.g. left without being removed)
+    const adminClubsSnapshot = await adminDb.collection('sports_clubs').where('clubAdminIds', 'array-contains', userId).get();
+    await commitInBatches(
+      adminClubsSnapshot.docs.filter((doc) => !memberships[doc.id]).map((doc) => doc.ref),
+      (batch, ref) =>
+        batch.update(ref, {
+          clubAdminIds: FieldValue.arrayRemove(userId),
+          clubAdminCoachIds: FieldValue.arrayRemove(userId),
+          updatedAt: FieldValue.serverTimestamp(),
+        })
+    );
+
+    // Remove the user from their teams, as a member and as coaching staff
+    const [memberTeamsSnapshot, coachTeamsSnapshot] = await Promise.all([
+      adminDb.collection('teams').where('members', 'array-contains', userId).get(),
+      adminDb.collection('teams').where('coachIds', 'array-contains', userId).get(),
+    ]);
+    const teamDocs = new Map(
+      [...memberTeamsSnapshot.docs, ...coachTeamsSnapshot.docs].map((doc) => [doc.id, doc] as const)
+    );
+    await commitInBatches(
+      [...teamDocs.values()].map((doc) => doc.ref),
+      (batch, ref) => {
+        const coaches = (teamDocs.get(ref.id)?.data().coaches || []) as NonNullable<Team['coaches']>;
+        batch.update(ref, {
+          members: FieldValue.arrayRemove(userId),
+          coachIds: FieldValue.arrayRemove(userId),
+          coaches: coaches.filter((coach) => coach.userId !== userId),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    );
+
+    await Promise.all([
+      userRef.delete(),
+      adminDb.collection('mfa_recovery_codes').doc(userId).delete(),
+    ]);
+    try {
+      await adminAuth.deleteUser(userId);
+    } catch (error) {
+      // The Auth account may already be gone; the Firestore data is what matters here
+      console.warn('[account-deletions] Failed to delete Auth user:', error);
+    }
+
+    await requestRef.update({
+      status: 'completed',
+      completedAt: FieldValue.serverTimestamp(),
+      completedBy: session.uid,
+      contentAction,
+      reassignedTo: contentAction === 'reassign' ? reassignTo : null,
+    });
+
+    const admin = (await adminDb.collection('users').doc(session.uid).get()).data();
+    await adminDb.collection('activity_log').add({
+      type: 'account_deleted',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: admin?.displayName || session.email || null,
+        targetUserId: userId,
+        targetEmail: deletion.email || null,
+        targetUserName: deletion.userName || null,
+        clubId: deletion.clubId || null,
+        contentAction,
+        reassignedTo: contentAction === 'reassign' ? reassignTo : null,
+        contentCounts,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ status: 'ok' });
+  } catch (error) {
+    console.error('[account-deletions] Failed to delete account:', error);
+    return NextResponse.json({ error: 'Unable to delete this account. Please try again.' }, { status: 500 });
+  }
+}
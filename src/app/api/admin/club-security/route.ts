@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+
+/**
+ * Require two-factor authentication for a club's admins, or stop requiring it (super admins only)
+ * The requirement is copied into the role claims of the club's members, which the proxy reads.
+ * Body: { clubId: string, requireAdminMfa: boolean }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session?.role !== 'super_admin') {
+    return NextResponse.json({ error: 'Only super admins can change club security settings.' }, { status: 403 });
+  }
+
+  let clubId: string | undefined;
+  let requireAdminMfa: boolean | undefined;
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    requireAdminMfa = typeof body?.requireAdminMfa === 'boolean' ? body.requireAdminMfa : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId || requireAdminMfa === undefined) {
+    return NextResponse.json({ error: 'Missing club security settings' }, { status: 400 });
+  }
+
+  try {
+    const clubRef = adminDb.collection('sports_clubs').doc(clubId);
+    const club = (await clubRef.get()).data();
+    if (!club) {
+      return NextResponse.json({ error: 'Club not found.' }, { status: 404 });
+    }
+
+    await clubRef.update({ requireAdminMfa, updatedAt: FieldValue.serverTimestamp() });
+
+    const members = await adminDb.collection('users').where('clubId', '==', clubId).get();
+    for (const member of members.docs) {
+      await syncRoleClaims(member.id).catch((error) =>
+        console.error(`[club-security] Failed to sync role claims for ${member.id}:`, error)
+      );
+    }
+
+    const admin = (await adminDb.collection('users').doc(session.uid).get()).data();
+    await adminDb.collection('activity_log').add({
+      type: 'club_updated',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: admin?.displayName || session.email || null,
+        clubId,
+        clubName: club.name || null,
+        requireAdminMfa,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ requireAdminMfa });
+  } catch (error) {
+    console.error('[club-security] Failed to update club security:', error);
+    return NextResponse.json({ error: 'Unable to update security settings. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { getUserMemberships, getMembershipFields } from '@/config/memberships';
+import type { User } from '@/types';
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Migrate single-club users to multi-club memberships (super admins only)
+ * Gives every user with a club but no memberships map a membership for that club. Safe to run more than once.
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session?.role !== 'super_admin') {
+    return NextResponse.json({ error: 'Only super admins can migrate memberships.' }, { status: 403 });
+  }
+
+  try {
+    const snapshot = await adminDb.collection('users').where('clubId', '!=', null).get();
+    const docsToMigrate = snapshot.docs.filter((doc) => {
+      const data = doc.data() as User;
+      return !data.memberships && data.role !== 'super_admin';
+    });
+
+    // Club names are shown in the club switcher
+    const clubNames: Record<string, string> = {};
+    const clubIds = [...new Set(docsToMigrate.map((doc) => doc.data().clubId as string))];
+    for (const clubId of clubIds) {
+      clubNames[clubId] = (await adminDb.collection('sports_clubs').doc(clubId).get()).data()?.name || '';
+    }
+
+    for (let i = 0; i < docsToMigrate.length; i += BATCH_SIZE) {
+      const batch = adminDb.batch();
+      docsToMigrate.slice(i, i + BATCH_SIZE).forEach((doc) => {
+        const data = doc.data() as User;
+        const memberships = getUserMemberships(data);
+        const clubId = data.clubId as string;
+        if (clubNames[clubId]) {
+          memberships[clubId] = { ...memberships[clubId], clubName: clubNames[clubId] };
+        }
+        batch.update(doc.ref, { ...getMembershipFields(memberships), updatedAt: FieldValue.serverTimestamp() });
+      });
+      await batch.commit();
+    }
+
+    const admin = (await adminDb.collection('users').doc(session.uid).get()).data();
+    await adminDb.collection('activity_log').add({
+      type: 'memberships_migrated',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: admin?.displayName || session.email || null,
+        migratedCount: docsToMigrate.length,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ migratedCount: docsToMigrate.length });
+  } catch (error) {
+    console.error('[memberships] Failed to migrate memberships:', error);
+    return NextResponse.json({ error: 'Unable to migrate memberships. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, DASHBOARD_ROLES, getHomePathForRole, verifySession } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { getUserMemberships, getActiveClubFields, getMembershipFields } from '@/config/memberships';
+import type { User } from '@/types';
+
+/**
+ * Switch the signed-in user's active club to another club they belong to
+ * Body: { clubId: string }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let clubId: string | undefined;
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId) {
+    return NextResponse.json({ error: 'Missing club to switch to' }, { status: 400 });
+  }
+
+  try {
+    const userRef = adminDb.collection('users').doc(session.uid);
+    const userData = (await userRef.get()).data() as User | undefined;
+    // Includes the current club's up-to-date role and team, saved back below
+    const memberships = getUserMemberships(userData);
+    const membership = memberships[clubId];
+
+    if (!userData || !membership) {
+      return NextResponse.json({ error: 'You are not a member of this club.' }, { status: 403 });
+    }
+    if (!DASHBOARD_ROLES.includes(membership.role)) {
+      return NextResponse.json({ error: 'Your role in this club uses the mobile app only.' }, { status: 400 });
+    }
+
+    if (userData.clubId !== clubId) {
+      await userRef.update({
+        ...getMembershipFields(memberships),
+        ...getActiveClubFields(membership),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await syncRoleClaims(session.uid).catch((error) =>
+        console.error('[active-club] Failed to sync role claims:', error)
+      );
+
+      await adminDb.collection('activity_log').add({
+        type: 'active_club_switched',
+        userId: session.uid,
+        data: {
+          email: session.email || null,
+          userName: userData.displayName || session.email || null,
+          fromClubId: userData.clubId || null,
+          clubId,
+          clubName: membership.clubName || null,
+          role: membership.role,
+        },
+        timestamp: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return NextResponse.json({ homePath: getHomePathForRole(membership.role) });
+  } catch (error) {
+    console.error('[active-club] Failed to switch club:', error);
+    return NextResponse.json({ error: 'Unable to switch club. Please try again.' }, { status: 500 });
+  }
+}
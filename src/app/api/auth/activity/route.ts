@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { recordSessionActivity } from '@/lib/sessionActivity';
+
+/**
+ * Record that the signed-in user is active (sent by the idle timeout dialog while the user is active)
+ * A session that is already idle is refused by verifySession and has to sign in again.
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  try {
+    await recordSessionActivity(session.uid, session.role);
+    return NextResponse.json({ status: 'ok' });
+  } catch (error) {
+    console.error('[activity] Failed to record activity:', error);
+    return NextResponse.json({ error: 'Unable to record activity.' }, { status: 500 });
+  }
+}
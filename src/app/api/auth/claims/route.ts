@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+
+/**
+ * Update the signed-in user's role claims from their users document
+ * The client then force-refreshes its ID token to pick them up.
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  try {
+    const claims = await syncRoleClaims(session.uid);
+    return NextResponse.json({ claims });
+  } catch (error) {
+    console.error('[claims] Failed to sync role claims:', error);
+    return NextResponse.json({ error: 'Unable to update role claims.' }, { status: 500 });
+  }
+}
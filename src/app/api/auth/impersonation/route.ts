@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebaseAdmin';
+import {
+  SESSION_COOKIE_NAME,
+  IMPERSONATION_COOKIE_NAME,
+  IMPERSONATION_EXPIRES_IN_SECONDS,
+  verifySession,
+  SessionUser,
+} from '@/lib/sessionCookie';
+import { getActiveImpersonation, startImpersonation, stopImpersonation } from '@/lib/impersonationSessions';
+
+// Only club dashboards can be viewed as another user
+const IMPERSONATABLE_ROLES = ['club_admin', 'club_admin_coach'];
+
+async function getSuperAdminSession(request: NextRequest): Promise<SessionUser | null> {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  return session?.role === 'super_admin' ? session : null;
+}
+
+/**
+ * Get the user the signed-in super admin is currently viewing as
+ * A "view as" whose cookie has expired is ended here (ended: true tells the client to refresh its ID token).
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSuperAdminSession(request);
+  if (!session) {
+    return NextResponse.json({ targetUid: null, ended: false });
+  }
+
+  try {
+    const cookieTargetUid = request.cookies.get(IMPERSONATION_COOKIE_NAME)?.value || null;
+    const targetUid = await getActiveImpersonation(session.uid, cookieTargetUid);
+    const response = NextResponse.json({ targetUid, ended: !targetUid && !!cookieTargetUid });
+    if (!targetUid && cookieTargetUid) {
+      response.cookies.delete(IMPERSONATION_COOKIE_NAME);
+    }
+    return response;
+  } catch (error) {
+    console.error('[impersonation] Failed to check session:', error);
+    return NextResponse.json({ targetUid: null, ended: false });
+  }
+}
+
+/**
+ * Start viewing the club dashboard as a club admin (read-only)
+ * Body: { targetUid: string }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSuperAdminSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Only super admins can view as another user.' }, { status: 403 });
+  }
+
+  let targetUid: string | undefined;
+  try {
+    const body = await request.json();
+    targetUid = typeof body?.targetUid === 'string' ? body.targetUid : undefined;
+  } catch {
+    // Fall through to missing user error
+  }
+
+  if (!targetUid) {
+    return NextResponse.json({ error: 'Missing user to view as' }, { status: 400 });
+  }
+
+  try {
+    const targetDoc = await adminDb.collection('users').doc(targetUid).get();
+    const target = targetDoc.data();
+    if (!target || !IMPERSONATABLE_ROLES.includes(target.role) || !target.clubId) {
+      return NextResponse.json(
+        { error: 'You can only view as a club admin who belongs to a club.' },
+        { status: 400 }
+      );
+    }
+
+    await startImpersonation(session.uid, targetUid);
+
+    const response = NextResponse.json({ status: 'ok' });
+    response.cookies.set(IMPERSONATION_COOKIE_NAME, targetUid, {
+      maxAge: IMPERSONATION_EXPIRES_IN_SECONDS,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('[impersonation] Failed to start:', error);
+    return NextResponse.json({ error: 'Unable to view as this user. Please try again.' }, { status: 500 });
+  }
+}
+
+/**
+ * Stop viewing as another user
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getSuperAdminSession(request);
+
+  if (session) {
+    try {
+      await stopImpersonation(session.uid, 'stopped');
+    } catch (error) {
+      console.error('[impersonation] Failed to record stop:', error);
+    }
+  }
+
+  const response = NextResponse.json({ status: 'ok' });
+  response.cookies.delete(IMPERSONATION_COOKIE_NAME);
+  return response;
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import { updateSeatLedger } from '@/lib/seatLedgerSync';
+import { getSeatType } from '@/config/seatLedger';
+import { getClubMembership } from '@/config/memberships';
+import type { User } from '@/types';
+
+/**
+ * Move the seat held by an invitation to the member who just signed up with it
+ * Called right after the completeUserSignup Cloud Function, before the session cookie exists. Each account moves a
+ * seat once per invitation (recorded in invite_seat_claims/{uid}_{code}), so members who leave and accept another
+ * invitation take a seat again; drift left by a failure is corrected by the nightly recount.
+ * Header: Authorization: Bearer <idToken>
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!idToken) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let code: string | undefined;
+  try {
+    const body = await request.json();
+    code = typeof body?.code === 'string' ? body.code.trim().toUpperCase() : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!code) {
+    return NextResponse.json({ error: 'Missing invitation code' }, { status: 400 });
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    const claimRef = adminDb.collection('invite_seat_claims').doc(`${decoded.uid}_${code}`);
+    const codeRef = adminDb.collection('referral_codes').doc(code);
+    const userRef = adminDb.collection('users').doc(decoded.uid);
+
+    const claimed = await adminDb.runTransaction(async (transaction) => {
+      const [claimDoc, codeDoc, userDoc] = await Promise.all([
+        transaction.get(claimRef),
+        transaction.get(codeRef),
+        transaction.get(userRef),
+      ]);
+      const invitation = codeDoc.data();
+      if (claimDoc.exists || !invitation?.clubId) return false;
+
+      // The new member must have joined the invitation's club with its role
+      const membership = getClubMembership(userDoc.data() as User | undefined, invitation.clubId);
+      const seatType = getSeatType(invitation.intendedRole);
+      if (!seatType || membership?.role !== invitation.intendedRole) return false;
+
+      const ledgerRef = adminDb.collection('seat_ledgers').doc(invitation.clubId);
+      if (!(await transaction.get(ledgerRef)).exists) return false;
+
+      transaction.create(claimRef, {
+        userId: decoded.uid,
+        code,
+        clubId: invitation.clubId,
+        claimedAt: FieldValue.serverTimestamp(),
+      });
+      updateSeatLedger(transaction, invitation.clubId, { [seatType]: { used: 1, pending: -1 } });
+      return true;
+    });
+
+    return NextResponse.json({ claimed });
+  } catch (error) {
+    console.error('[invite-seat] Failed to claim invitation seat:', error);
+    return NextResponse.json({ error: 'Unable to update seat usage.' }, { status: 500 });
+  }
+}
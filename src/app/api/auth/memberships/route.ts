@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { ensureSeatLedger, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { INVITABLE_ROLES, type ClubRole } from '@/config/roles';
+import { getSeatType } from '@/config/seatLedger';
+import { getUserMemberships, getActiveClubFields, getMembershipFields } from '@/config/memberships';
+import type { ClubMembership, User } from '@/types';
+
+/**
+ * Join another club with an invitation (referral) code, keeping the user's current clubs
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+  if (session.role === 'super_admin') {
+    return NextResponse.json({ error: 'Super admins cannot join clubs.' }, { status: 400 });
+  }
+
+  let code: string | undefined;
+  try {
+    const body = await request.json();
+    code = typeof body?.code === 'string' ? body.code.trim().toUpperCase() : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!code) {
+    return NextResponse.json({ error: 'Enter your invitation code' }, { status: 400 });
+  }
+
+  try {
+    const codeRef = adminDb.collection('referral_codes').doc(code);
+    const userRef = adminDb.collection('users').doc(session.uid);
+
+    const codeClubId = (await codeRef.get()).data()?.clubId;
+    if (codeClubId) {
+      await ensureSeatLedger(codeClubId);
+    }
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const [codeDoc, userDoc] = await Promise.all([transaction.get(codeRef), transaction.get(userRef)]);
+      const invitation = codeDoc.data();
+      const userData = userDoc.data() as User | undefined;
+
+      if (!invitation || !invitation.active || !invitation.clubId) {
+        return { error: 'This invitation code is not valid.' };
+      }
+      if ((invitation.usesCount || 0) >= (invitation.maxUses || 1)) {
+        return { error: 'This invitation code has already been used.' };
+      }
+      if (invitation.expiresAt instanceof Timestamp && invitation.expiresAt.toMillis() < Date.now()) {
+        return { error: 'This invitation code has expired.' };
+      }
+      if (invitation.adminEmail && invitation.adminEmail.toLowerCase() !== session.email?.toLowerCase()) {
+        return { error: 'This invitation was sent to a different email address.' };
+      }
+
+      const role = (invitation.intendedRole || 'view_only') as ClubRole;
+      if (!INVITABLE_ROLES.includes(role)) {
+        return { error: 'This invitation code is not valid.' };
+      }
+
+      const memberships = getUserMemberships(userData);
+      if (memberships[invitation.clubId]) {
+        return { error: 'You are already a member of this club.' };
+      }
+
+      const membership: ClubMembership = {
+        clubId: invitation.clubId,
+        // The Admin SDK rejects undefined fields
+        ...(invitation.clubName && { clubName: invitation.clubName }),
+        role,
+        teamId: invitation.teamId || null,
+        managedTeamIds: [],
+        joinedAt: Timestamp.now(),
+      };
+
+      transaction.update(userRef, {
+        ...getMembershipFields({ ...memberships, [membership.clubId]: membership }),
+        // Users without a club (e.g. removed from their last one) start in the new club
+        ...(userData?.clubId ? {} : getActiveClubFields(membership)),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      const usesCount = (invitation.usesCount || 0) + 1;
+      transaction.update(codeRef, {
+        usesCount,
+        active: usesCount < (invitation.maxUses || 1),
+        updated_at: FieldValue.serverTimestamp(),
+      });
+
+      transaction.update(adminDb.collection('sports_clubs').doc(membership.clubId), {
+        memberIds: FieldValue.arrayUnion(session.uid),
+        ...(role === 'club_admin' && { clubAdminIds: FieldValue.arrayUnion(session.uid) }),
+        ...(role === 'club_admin_coach' && { clubAdminCoachIds: FieldValue.arrayUnion(session.uid) }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      // The invitation's pending seat becomes a used seat
+      const seatType = getSeatType(role);
+      if (seatType) {
+        updateSeatLedger(transaction, membership.clubId, { [seatType]: { used: 1, pending: -1 } });
+      }
+
+      return { membership, userName: userData?.displayName || null };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Users who had no club start in the new one
+    await syncRoleClaims(session.uid).catch((error) =>
+      console.error('[memberships] Failed to sync role claims:', error)
+    );
+
+    await adminDb.collection('activity_log').add({
+      type: 'club_membership_added',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: result.userName || session.email || null,
+        clubId: result.membership.clubId,
+        clubName: result.membership.clubName || null,
+        role: result.membership.role,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ membership: result.membership });
+  } catch (error) {
+    console.error('[memberships] Failed to join club:', error);
+    return NextResponse.json({ error: 'Unable to join this club. Please try again.' }, { status: 500 });
+  }
+}
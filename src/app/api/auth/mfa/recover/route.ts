@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import { consumeRecoveryCode, verifyFirstFactor } from '@/lib/mfaRecovery';
+
+/**
+ * Sign-in recovery for users who lost their authenticator app
+ * Verifies the first factor and a recovery code, then removes the user's second factors
+ * so they can sign in and enroll again.
+ * Body: { firstFactor: RecoveryFirstFactor, recoveryCode: string }
+ */
+export async function POST(request: NextRequest) {
+  let firstFactor: Record<string, unknown> | undefined;
+  let recoveryCode: string | undefined;
+  try {
+    const body = await request.json();
+    firstFactor = body?.firstFactor;
+    recoveryCode = typeof body?.recoveryCode === 'string' ? body.recoveryCode : undefined;
+  } catch {
+    // Fall through to missing fields error
+  }
+
+  if (!firstFactor || !recoveryCode) {
+    return NextResponse.json({ error: 'Missing sign-in details or recovery code' }, { status: 400 });
+  }
+
+  try {
+    const uid = await verifyFirstFactor(firstFactor, request.nextUrl.origin);
+    if (!uid) {
+      return NextResponse.json({ error: 'Your sign-in has expired. Please sign in again.' }, { status: 401 });
+    }
+
+    const isValidCode = await consumeRecoveryCode(uid, recoveryCode);
+    if (!isValidCode) {
+      return NextResponse.json({ error: 'Invalid or already used recovery code.' }, { status: 400 });
+    }
+
+    await adminAuth.updateUser(uid, { multiFactor: { enrolledFactors: null } });
+
+    const userRecord = await adminAuth.getUser(uid);
+    await adminDb.collection('activity_log').add({
+      type: 'mfa_recovery_used',
+      userId: uid,
+      data: {
+        email: userRecord.email || null,
+        userName: userRecord.displayName || userRecord.email || null,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ status: 'ok' });
+  } catch (error) {
+    console.error('[mfa] Recovery failed:', error);
+    return NextResponse.json({ error: 'Unable to use this recovery code. Please try again.' }, { status: 500 });
+  }
+}
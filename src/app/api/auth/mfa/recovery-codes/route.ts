@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { createRecoveryCodes } from '@/lib/mfaRecovery';
+
+// Codes can be generated without a second-factor sign-in only right after enrollment
+const ENROLLMENT_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+/**
+ * Generate a new set of MFA recovery codes for the signed-in user
+ * Header: Authorization: Bearer <idToken>
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!idToken) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    const userRecord = await adminAuth.getUser(decoded.uid);
+    const enrolledFactors = userRecord.multiFactor?.enrolledFactors || [];
+
+    if (enrolledFactors.length === 0) {
+      return NextResponse.json(
+        { error: 'Set up two-factor authentication before generating recovery codes.' },
+        { status: 400 }
+      );
+    }
+
+    // Require a session that passed the second factor, unless a factor was just enrolled
+    const signedInWithSecondFactor = !!decoded.firebase?.sign_in_second_factor;
+    const justEnrolled = enrolledFactors.some((factor) => {
+      const enrolledAt = factor.enrollmentTime ? new Date(factor.enrollmentTime).getTime() : 0;
+      return Date.now() - enrolledAt < ENROLLMENT_GRACE_PERIOD_MS;
+    });
+
+    if (!signedInWithSecondFactor && !justEnrolled) {
+      return NextResponse.json(
+        { error: 'Please sign in again with your authenticator app to generate new recovery codes.', code: 'auth/requires-recent-login' },
+        { status: 403 }
+      );
+    }
+
+    const codes = await createRecoveryCodes(decoded.uid);
+    return NextResponse.json({ codes });
+  } catch (error) {
+    console.error('[mfa] Failed to generate recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to generate recovery codes. Please try again.' }, { status: 500 });
+  }
+}
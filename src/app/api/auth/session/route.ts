@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import {
+  SESSION_COOKIE_NAME,
+  IMPERSONATION_COOKIE_NAME,
+  SESSION_EXPIRES_IN_MS,
+  MAX_SIGN_IN_AGE_SECONDS,
+  DASHBOARD_ROLES,
+  getHomePathForRole,
+  verifySession,
+} from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { stopImpersonation } from '@/lib/impersonationSessions';
+import { recordSessionActivity } from '@/lib/sessionActivity';
+import { isEmailAllowedForProvider, isOidcProviderId } from '@/config/oidc';
+import { getEffectiveRole } from '@/config/adminGrants';
+import type { OidcProvider } from '@/types';
+
+/**
+ * Exchange a Firebase ID token for an httpOnly session cookie
+ * Body: { idToken: string }
+ */
+export async function POST(request: NextRequest) {
+  let idToken: string | undefined;
+  try {
+    const body = await request.json();
+    idToken = typeof body?.idToken === 'string' ? body.idToken : undefined;
+  } catch {
+    // Fall through to missing token error
+  }
+
+  if (!idToken) {
+    return NextResponse.json({ error: 'Missing ID token' }, { status: 400 });
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+
+    // Only mint a session cookie for a recent sign-in, so a leaked ID token
+    // can't be turned into a long-lived session
+    const signInAge = Date.now() / 1000 - decoded.auth_time;
+    if (signInAge > MAX_SIGN_IN_AGE_SECONDS) {
+      return NextResponse.json(
+        { error: 'Your sign-in has expired. Please sign in again.', code: 'auth/requires-recent-login' },
+        { status: 401 }
+      );
+    }
+
+    const userDoc = await adminDb.collection('users').doc(decoded.uid).get();
+    // Members with temporary admin access sign in as club admins
+    const role = getEffectiveRole(userDoc.data()) || '';
+    if (!DASHBOARD_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Access denied. This dashboard is for club administrators only.' },
+        { status: 403 }
+      );
+    }
+
+    // Members suspended to bring their club within its seat limits lose access until reinstated
+    if (role !== 'super_admin' && userDoc.data()?.suspended === true) {
+      return NextResponse.json(
+        { error: 'Your access to this club has been suspended. Please contact your club admin.' },
+        { status: 403 }
+      );
+    }
+
+    // Password-created club admins must verify their email first
+    const isPasswordSignIn = decoded.firebase?.sign_in_provider === 'password';
+    if (role !== 'super_admin' && isPasswordSignIn && !decoded.email_verified) {
+      return NextResponse.json(
+        { error: 'Please verify your email address before signing in.', code: 'auth/unverified-email' },
+        { status: 403 }
+      );
+    }
+
+    // Club-configured OIDC providers may be limited to some email domains; the login page checks this too,
+    // but a client that skips it must not get a session
+    const signInProvider = decoded.firebase?.sign_in_provider || '';
+    if (isOidcProviderId(signInProvider)) {
+      const provider = (await adminDb.collection('oidc_providers').doc(signInProvider).get()).data() as
+        | OidcProvider
+        | undefined;
+      if (!decoded.email || (provider && !isEmailAllowedForProvider(provider, decoded.email))) {
+        return NextResponse.json(
+          { error: 'Your email address isn\'t allowed to sign in with this provider. Please contact your administrator.' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Users signing in for the first time since role claims were added get them now (the client refreshes its token)
+    await syncRoleClaims(decoded.uid).catch((error) => console.error('[session] Failed to sync role claims:', error));
+
+    // Signing in starts the idle timer again
+    await recordSessionActivity(decoded.uid, role);
+
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_EXPIRES_IN_MS });
+
+    const response = NextResponse.json({ status: 'ok', redirectTo: getHomePathForRole(role) });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, {
+      maxAge: SESSION_EXPIRES_IN_MS / 1000,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('[session] Failed to create session cookie:', error);
+    return NextResponse.json({ error: 'Unable to verify sign-in. Please try again.' }, { status: 401 });
+  }
+}
+
+/**
+ * Clear the session cookie (sign out)
+ * Signing out also ends a super admin's "view as", so its stop is recorded.
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session?.role === 'super_admin') {
+    await stopImpersonation(session.uid, 'signed_out').catch((error) =>
+      console.error('[session] Failed to end view as:', error)
+    );
+  }
+
+  const response = NextResponse.json({ status: 'ok' });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  response.cookies.delete(IMPERSONATION_COOKIE_NAME);
+  return response;
+}
@@ -0,0 +1,226 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import type { SessionUser } from '@/lib/sessionCookie';
+import { revokeAdminGrant, revokeExpiredAdminGrants } from '@/lib/adminGrantRevocation';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { can } from '@/config/permissions';
+import { getClubMembership } from '@/config/memberships';
+import { ADMIN_GRANT_MAX_DAYS, ADMIN_GRANT_ROLES } from '@/config/adminGrants';
+import type { AdminGrant, User } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check that the session belongs to an admin of their active club
+ */
+function isClubAdminSession(session: SessionUser | null): session is SessionUser & { clubId: string } {
+  return !!session?.clubId && can({ id: session.uid, role: session.role, clubId: session.clubId }, 'member.update', {
+    clubId: session.clubId,
+  });
+}
+
+/**
+ * Load the admin making a change
+ */
+async function getAdmin(session: SessionUser) {
+  const admin = (await adminDb.collection('users').doc(session.uid).get()).data() as User | undefined;
+  return { name: admin?.displayName || session.email || null, hasAdminGrant: !!admin?.adminGrant };
+}
+
+/**
+ * List the active temporary admin grants in the signed-in admin's club
+ * Expired grants are revoked first.
+ */
+export async function GET(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!isClubAdminSession(session)) {
+    return NextResponse.json({ error: 'Only club admins can view temporary admin access.' }, { status: 403 });
+  }
+
+  try {
+    await revokeExpiredAdminGrants(session.clubId);
+
+    const snapshot = await adminDb
+      .collection('admin_grants')
+      .where('clubId', '==', session.clubId)
+      .where('status', '==', 'active')
+      .get();
+
+    const grants = snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        ...data,
+        id: doc.id,
+        expiresAt: data.expiresAt?.toDate().toISOString() || null,
+        createdAt: data.createdAt?.toDate().toISOString() || null,
+      };
+    });
+
+    return NextResponse.json({ grants });
+  } catch (error) {
+    console.error('[admin-grants] Failed to list grants:', error);
+    return NextResponse.json({ error: 'Unable to load temporary admin access.' }, { status: 500 });
+  }
+}
+
+/**
+ * Give a member of the signed-in admin's club club_admin rights until a date
+ * The member keeps their role and seat; they are added to the club's clubAdminIds until the grant ends.
+ * Body: { userId: string, expiresAt: string (ISO date) }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!isClubAdminSession(session)) {
+    return NextResponse.json({ error: 'Only club admins can give temporary admin access.' }, { status: 403 });
+  }
+
+  let userId: string | undefined;
+  let expiresAt: Date | undefined;
+  try {
+    const body = await request.json();
+    userId = typeof body?.userId === 'string' ? body.userId : undefined;
+    expiresAt = typeof body?.expiresAt === 'string' ? new Date(body.expiresAt) : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!userId) {
+    return NextResponse.json({ error: 'Choose a member' }, { status: 400 });
+  }
+  if (userId === session.uid) {
+    return NextResponse.json({ error: 'You already have admin access.' }, { status: 400 });
+  }
+  if (!expiresAt || isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+    return NextResponse.json({ error: 'Choose an expiry date in the future' }, { status: 400 });
+  }
+  if (expiresAt.getTime() > Date.now() + ADMIN_GRANT_MAX_DAYS * DAY_MS) {
+    return NextResponse.json(
+      { error: `Temporary admin access can last at most ${ADMIN_GRANT_MAX_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const clubId = session.clubId;
+
+  try {
+    const admin = await getAdmin(session);
+    if (admin.hasAdminGrant) {
+      return NextResponse.json({ error: 'Temporary admins cannot give admin access to others.' }, { status: 403 });
+    }
+
+    const adminName = admin.name;
+    const userRef = adminDb.collection('users').doc(userId);
+    const grantRef = adminDb.collection('admin_grants').doc();
+    const expiresAtTimestamp = Timestamp.fromDate(expiresAt);
+
+    // Read the member inside the transaction, so a concurrent role change or grant can't be overwritten.
+    // The grant adds the member to clubAdminIds and leaves their role, teams and seat unchanged.
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const userData = (await transaction.get(userRef)).data() as User | undefined;
+      const membership = getClubMembership(userData, clubId);
+
+      if (!userData || !membership) {
+        return { error: 'This user is not a member of the club.', status: 404 } as const;
+      }
+      if (!ADMIN_GRANT_ROLES.includes(membership.role)) {
+        return { error: 'This member is already a club admin.', status: 400 } as const;
+      }
+      if (userData.adminGrant) {
+        return { error: 'This member already has temporary admin access.', status: 400 } as const;
+      }
+      if (membership.suspended) {
+        return { error: 'This member is suspended. Reinstate them first.', status: 400 } as const;
+      }
+
+      const userName = userData.displayName || `${userData.firstName || ''} ${userData.lastName || ''}`.trim() || null;
+      const grant: Omit<AdminGrant, 'id' | 'expiresAt' | 'createdAt'> = {
+        clubId,
+        userId,
+        userName,
+        email: userData.email || null,
+        memberRole: membership.role,
+        status: 'active',
+        grantedBy: session.uid,
+        grantedByName: adminName,
+      };
+
+      transaction.create(grantRef, { ...grant, expiresAt: expiresAtTimestamp, createdAt: FieldValue.serverTimestamp() });
+      transaction.update(userRef, {
+        adminGrant: { grantId: grantRef.id, clubId, expiresAt: expiresAtTimestamp },
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(adminDb.collection('sports_clubs').doc(clubId), {
+        clubAdminIds: FieldValue.arrayUnion(userId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { grant };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { grant } = result;
+
+    await syncRoleClaims(userId).catch((error) => console.error('[admin-grants] Failed to sync role claims:', error));
+
+    await adminDb.collection('activity_log').add({
+      type: 'admin_grant_created',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: adminName,
+        clubId,
+        targetUserId: userId,
+        targetName: grant.userName,
+        targetEmail: grant.email,
+        memberRole: grant.memberRole,
+        expiresAt: expiresAt.toISOString(),
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ grantId: grantRef.id });
+  } catch (error) {
+    console.error('[admin-grants] Failed to grant admin access:', error);
+    return NextResponse.json({ error: 'Unable to give temporary admin access. Please try again.' }, { status: 500 });
+  }
+}
+
+/**
+ * Revoke a temporary admin grant in the signed-in admin's club before it expires
+ * Body: { grantId: string }
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!isClubAdminSession(session)) {
+    return NextResponse.json({ error: 'Only club admins can revoke temporary admin access.' }, { status: 403 });
+  }
+
+  let grantId: string | undefined;
+  try {
+    const body = await request.json();
+    grantId = typeof body?.grantId === 'string' ? body.grantId : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!grantId) {
+    return NextResponse.json({ error: 'Missing grant to revoke' }, { status: 400 });
+  }
+
+  try {
+    const grant = (await adminDb.collection('admin_grants').doc(grantId).get()).data();
+    if (grant?.clubId !== session.clubId) {
+      return NextResponse.json({ error: 'Grant not found' }, { status: 404 });
+    }
+    const admin = await getAdmin(session);
+    await revokeAdminGrant(grantId, { uid: session.uid, email: session.email, name: admin.name });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[admin-grants] Failed to revoke admin access:', error);
+    return NextResponse.json({ error: 'Unable to revoke temporary admin access. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { createSeatCheckoutSession, getClubStripeCustomerId, hasSeatPrice, isStripeConfigured } from '@/lib/stripe';
+import { can } from '@/config/permissions';
+import { MAX_CHECKOUT_QUANTITY, isCheckoutSeatType, type CheckoutSeatType } from '@/config/billing';
+
+/**
+ * Start a Stripe Checkout session for new coach or view-only seats
+ * Returns the Checkout URL; Stripe sends the user back to club/subscriptions afterwards.
+ * Body: { clubId: string, seatType: 'coach' | 'view_only', quantity: number }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let clubId: string | undefined;
+  let seatType: CheckoutSeatType | undefined;
+  let quantity = 0;
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    seatType = isCheckoutSeatType(body?.seatType) ? body.seatType : undefined;
+    quantity = Number.isInteger(body?.quantity) ? body.quantity : 0;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId || !seatType) {
+    return NextResponse.json({ error: 'Missing club or seat type' }, { status: 400 });
+  }
+  if (quantity < 1 || quantity > MAX_CHECKOUT_QUANTITY) {
+    return NextResponse.json(
+      { error: `Choose between 1 and ${MAX_CHECKOUT_QUANTITY} seats.` },
+      { status: 400 }
+    );
+  }
+
+  if (!can({ id: session.uid, role: session.role, clubId: session.clubId }, 'subscription.manage', { clubId })) {
+    return NextResponse.json({ error: 'You do not have permission to manage this club\'s billing.' }, { status: 403 });
+  }
+
+  if (!isStripeConfigured() || !hasSeatPrice(seatType)) {
+    return NextResponse.json(
+      { error: 'These seats cannot be bought online. Please contact info@benchmarksports.co.uk.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const customerId = await getClubStripeCustomerId(clubId);
+    const returnUrl = `${request.nextUrl.origin}/club/subscriptions`;
+    const checkoutSession = await createSeatCheckoutSession({
+      clubId,
+      seatType,
+      quantity,
+      customerId,
+      customerEmail: session.email,
+      successUrl: `${returnUrl}?checkout=success`,
+      cancelUrl: `${returnUrl}?checkout=canceled`,
+    });
+
+    return NextResponse.json({ url: checkoutSession.url });
+  } catch (error) {
+    console.error('[billing] Failed to create checkout session:', error);
+    return NextResponse.json({ error: 'Unable to start checkout. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { createBillingPortalSession, getClubStripeCustomerId, isStripeConfigured } from '@/lib/stripe';
+import { can } from '@/config/permissions';
+
+/**
+ * Open the Stripe Billing Portal for the club's Stripe customer
+ * Returns the portal URL; the portal links back to club/subscriptions.
+ * Body: { clubId: string }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let clubId: string | undefined;
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId) {
+    return NextResponse.json({ error: 'Missing club' }, { status: 400 });
+  }
+
+  if (!can({ id: session.uid, role: session.role, clubId: session.clubId }, 'subscription.manage', { clubId })) {
+    return NextResponse.json({ error: 'You do not have permission to manage this club\'s billing.' }, { status: 403 });
+  }
+
+  if (!isStripeConfigured()) {
+    return NextResponse.json(
+      { error: 'Online billing is not available. Please contact info@benchmarksports.co.uk.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const customerId = await getClubStripeCustomerId(clubId);
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'Your club has no billing account yet. Add seats to create one.' },
+        { status: 404 }
+      );
+    }
+
+    const portalSession = await createBillingPortalSession(customerId, `${request.nextUrl.origin}/club/subscriptions`);
+    return NextResponse.json({ url: portalSession.url });
+  } catch (error) {
+    console.error('[billing] Failed to create billing portal session:', error);
+    return NextResponse.json({ error: 'Unable to open billing. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,256 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import {
+  SESSION_COOKIE_NAME,
+  STEP_UP_REQUIRED_CODE,
+  verifySession,
+  verifyStepUp,
+  type SessionUser,
+} from '@/lib/sessionCookie';
+import { ensureSeatLedger, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { can, type PermissionActor } from '@/config/permissions';
+import { INVITABLE_ROLES, type ClubRole } from '@/config/roles';
+import {
+  SEAT_TYPES,
+  SEAT_TYPE_LABELS,
+  getPendingSeats,
+  getSeatLimits,
+  getSeatType,
+  normalizeSeatCounts,
+  type SeatChanges,
+} from '@/config/seatLedger';
+import type { SeatLedger } from '@/types';
+
+// Invitations expire after 7 days unless the dashboard asks for another expiry
+const DEFAULT_EXPIRES_IN_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Optional invitation fields copied from the request as they are (the club's name is always read from the club)
+const INVITE_TEXT_FIELDS = ['teamId', 'teamName', 'adminEmail', 'firstName', 'lastName'] as const;
+
+/**
+ * The signed-in user as a permission actor; team managers' teams are read from their users document
+ */
+async function getActor(session: SessionUser): Promise<PermissionActor> {
+  const actor = (await adminDb.collection('users').doc(session.uid).get()).data();
+  return {
+    id: session.uid,
+    role: session.role,
+    clubId: session.clubId,
+    teamId: actor?.teamId || null,
+    managedTeamIds: actor?.managedTeamIds || [],
+  };
+}
+
+/**
+ * Read one invitation from the request body, or null if it isn't valid
+ */
+function parseInviteCode(value: unknown): Record<string, unknown> | null {
+  const input = value as Record<string, unknown> | null;
+  const code = typeof input?.code === 'string' ? input.code.trim().toUpperCase() : '';
+  const intendedRole = input?.intendedRole as ClubRole;
+  if (!/^[A-Z0-9]+$/.test(code) || !INVITABLE_ROLES.includes(intendedRole)) {
+    return null;
+  }
+
+  const maxUses = Number.isInteger(input?.maxUses) ? (input?.maxUses as number) : 1;
+  const expiresAt = typeof input?.expiresAt === 'string' ? Date.parse(input.expiresAt) : NaN;
+  if (maxUses < 1 || maxUses > 100) {
+    return null;
+  }
+
+  const inviteCode: Record<string, unknown> = {
+    code,
+    intendedRole,
+    isMemberInvitation: input?.isMemberInvitation === true,
+    maxUses,
+    usesCount: 0,
+    active: true,
+    expiresAt: Timestamp.fromMillis(Number.isNaN(expiresAt) ? Date.now() + DEFAULT_EXPIRES_IN_MS : expiresAt),
+  };
+  INVITE_TEXT_FIELDS.forEach((field) => {
+    if (typeof input?.[field] === 'string') inviteCode[field] = input[field];
+  });
+  return inviteCode;
+}
+
+/**
+ * Create invitation (referral) codes for a club, holding a pending seat for each use
+ * Fails without creating any code if the club doesn't have enough free seats.
+ * Body: { clubId: string, codes: { code, intendedRole, teamId?, teamName?, adminEmail?, firstName?, lastName?,
+ * isMemberInvitation?, maxUses?, expiresAt? (ISO date) }[] }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let clubId: string | undefined;
+  let codes: (Record<string, unknown> | null)[] = [];
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    codes = Array.isArray(body?.codes) ? body.codes.map(parseInviteCode) : [];
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId || codes.length === 0) {
+    return NextResponse.json({ error: 'Missing invitations to create' }, { status: 400 });
+  }
+  if (codes.some((code) => code === null)) {
+    return NextResponse.json({ error: 'One of the invitations is not valid' }, { status: 400 });
+  }
+  const inviteCodes = codes as Record<string, unknown>[];
+
+  const actor = await getActor(session);
+  const allowed = inviteCodes.every((code) =>
+    can(actor, 'member.invite', {
+      clubId,
+      teamId: (code.teamId as string | undefined) || null,
+      role: code.intendedRole as string,
+    })
+  );
+  if (!allowed) {
+    return NextResponse.json({ error: 'You do not have permission to send these invitations.' }, { status: 403 });
+  }
+
+  const needed: SeatChanges = {};
+  inviteCodes.forEach((code) => {
+    const seatType = getSeatType(code.intendedRole as string);
+    if (seatType) {
+      needed[seatType] = { pending: (needed[seatType]?.pending || 0) + (code.maxUses as number) };
+    }
+  });
+
+  try {
+    await ensureSeatLedger(clubId);
+    const clubRef = adminDb.collection('sports_clubs').doc(clubId);
+
+    const error = await adminDb.runTransaction(async (transaction) => {
+      const [ledgerDoc, clubDoc] = await Promise.all([
+        transaction.get(adminDb.collection('seat_ledgers').doc(clubId)),
+        transaction.get(clubRef),
+      ]);
+      const seats = normalizeSeatCounts((ledgerDoc.data() as SeatLedger | undefined)?.seats);
+      const limits = getSeatLimits(clubDoc.data());
+
+      for (const seatType of SEAT_TYPES) {
+        const pending = needed[seatType]?.pending || 0;
+        if (pending === 0) continue;
+
+        const limit = limits[seatType];
+        const available = limit === null ? 0 : Math.max(limit - seats[seatType].used - seats[seatType].pending, 0);
+        if (pending > available) {
+          return (
+            `Not enough ${SEAT_TYPE_LABELS[seatType]} seats: ${available} free, ${pending} needed. ` +
+            'Delete unused referral codes or upgrade your subscription.'
+          );
+        }
+      }
+
+      inviteCodes.forEach((code) =>
+        transaction.create(adminDb.collection('referral_codes').doc(code.code as string), {
+          ...code,
+          clubId,
+          clubName: clubDoc.data()?.name || '',
+          createdAt: FieldValue.serverTimestamp(),
+          updated_at: FieldValue.serverTimestamp(),
+        })
+      );
+      updateSeatLedger(transaction, clubId, needed);
+      return null;
+    });
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 });
+    }
+    return NextResponse.json({ codes: inviteCodes.map((code) => code.code) });
+  } catch (error) {
+    console.error('[invite-codes] Failed to create invitations:', error);
+    return NextResponse.json({ error: 'Unable to create the invitations. Please try again.' }, { status: 500 });
+  }
+}
+
+/**
+ * Delete invitation codes, releasing the seats they still hold
+ * Body: { codeIds: string[] }
+ * Header: Authorization: Bearer <idToken> from a reauthentication within the last 5 minutes (see verifyStepUp)
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+  if (!(await verifyStepUp(request.headers.get('Authorization'), session.uid))) {
+    return NextResponse.json(
+      { error: 'Please confirm it\'s you again to continue.', code: STEP_UP_REQUIRED_CODE },
+      { status: 403 }
+    );
+  }
+
+  let codeIds: string[] = [];
+  try {
+    const body = await request.json();
+    codeIds = Array.isArray(body?.codeIds)
+      ? [...new Set<string>(body.codeIds.filter((codeId: unknown) => typeof codeId === 'string' && codeId))]
+      : [];
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (codeIds.length === 0) {
+    return NextResponse.json({ error: 'Missing invitations to delete' }, { status: 400 });
+  }
+
+  try {
+    const actor = await getActor(session);
+    const codeRefs = codeIds.map((codeId) => adminDb.collection('referral_codes').doc(codeId));
+
+    const deletedCount = await adminDb.runTransaction(async (transaction) => {
+      const codeDocs = (await transaction.getAll(...codeRefs)).filter((codeDoc) => codeDoc.exists);
+      const allowed = codeDocs.every((codeDoc) => {
+        const code = codeDoc.data()!;
+        return can(actor, 'member.invite', {
+          clubId: code.clubId || null,
+          teamId: code.teamId || null,
+          role: code.intendedRole,
+        });
+      });
+      if (!allowed) return null;
+
+      const released: Record<string, SeatChanges> = {};
+      codeDocs.forEach((codeDoc) => {
+        const code = codeDoc.data()!;
+        const seatType = getSeatType(code.intendedRole);
+        const pending = getPendingSeats(code);
+        if (!code.clubId || !seatType || pending === 0) return;
+
+        const changes = (released[code.clubId] ||= {});
+        changes[seatType] = { pending: (changes[seatType]?.pending || 0) - pending };
+      });
+
+      // Clubs without a ledger yet get one with the right counts from the first recount
+      const releasedClubIds = Object.keys(released);
+      const ledgerDocs = releasedClubIds.length
+        ? await transaction.getAll(...releasedClubIds.map((clubId) => adminDb.collection('seat_ledgers').doc(clubId)))
+        : [];
+
+      codeDocs.forEach((codeDoc) => transaction.delete(codeDoc.ref));
+      ledgerDocs.forEach((ledgerDoc) => {
+        if (ledgerDoc.exists) updateSeatLedger(transaction, ledgerDoc.id, released[ledgerDoc.id]);
+      });
+      return codeDocs.length;
+    });
+
+    if (deletedCount === null) {
+      return NextResponse.json({ error: 'You do not have permission to delete these invitations.' }, { status: 403 });
+    }
+    return NextResponse.json({ deletedCount });
+  } catch (error) {
+    console.error('[invite-codes] Failed to delete invitations:', error);
+    return NextResponse.json({ error: 'Unable to delete the invitations. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, STEP_UP_REQUIRED_CODE, verifySession, verifyStepUp } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { ensureSeatLedger, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { can } from '@/config/permissions';
+import { getRemovalSeats } from '@/config/seatLedger';
+import { getClubMembership, getMembershipRemoval } from '@/config/memberships';
+import type { User } from '@/types';
+
+/**
+ * Remove a member from a club (club admins of the club, or super admins)
+ * Frees their seat and takes them off the club's admin lists; if it was their active club they move to another of
+ * their clubs.
+ * Body: { userId: string, clubId: string }
+ * Header: Authorization: Bearer <idToken> from a reauthentication within the last 5 minutes (see verifyStepUp)
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+  if (!(await verifyStepUp(request.headers.get('Authorization'), session.uid))) {
+    return NextResponse.json(
+      { error: 'Please confirm it\'s you again to continue.', code: STEP_UP_REQUIRED_CODE },
+      { status: 403 }
+    );
+  }
+
+  let userId: string | undefined;
+  let clubId: string | undefined;
+  try {
+    const body = await request.json();
+    userId = typeof body?.userId === 'string' ? body.userId : undefined;
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!userId || !clubId) {
+    return NextResponse.json({ error: 'Missing member to remove' }, { status: 400 });
+  }
+  if (!can({ id: session.uid, role: session.role, clubId: session.clubId }, 'member.remove', { clubId })) {
+    return NextResponse.json({ error: 'Only club admins can remove members.' }, { status: 403 });
+  }
+  if (userId === session.uid) {
+    return NextResponse.json({ error: 'You cannot remove yourself from the club.' }, { status: 400 });
+  }
+
+  try {
+    const userRef = adminDb.collection('users').doc(userId);
+
+    await ensureSeatLedger(clubId);
+    const removed = await adminDb.runTransaction(async (transaction) => {
+      const userData = (await transaction.get(userRef)).data() as User | undefined;
+      const membership = getClubMembership(userData, clubId);
+      if (!userData || !membership) return false;
+
+      transaction.update(userRef, {
+        ...getMembershipRemoval(userData, clubId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(adminDb.collection('sports_clubs').doc(clubId), {
+        memberIds: FieldValue.arrayRemove(userId),
+        clubAdminIds: FieldValue.arrayRemove(userId),
+        clubAdminCoachIds: FieldValue.arrayRemove(userId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      updateSeatLedger(transaction, clubId, getRemovalSeats(membership));
+      return true;
+    });
+
+    if (!removed) {
+      return NextResponse.json({ error: 'This user is not a member of the club.' }, { status: 404 });
+    }
+
+    await syncRoleClaims(userId).catch((error) => console.error('[member-removal] Failed to sync role claims:', error));
+
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('[member-removal] Failed to remove member:', error);
+    return NextResponse.json({ error: 'Unable to remove this member. Please try again.' }, { status: 500 });
+  }
+}
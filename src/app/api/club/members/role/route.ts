@@ -0,0 +1,166 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, STEP_UP_REQUIRED_CODE, verifySession, verifyStepUp } from '@/lib/sessionCookie';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { ensureSeatLedger, hasFreeSeat, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { can } from '@/config/permissions';
+import { INVITABLE_ROLES, getRoleLabel, type ClubRole } from '@/config/roles';
+import { getRoleChangeSeats, getSeatType } from '@/config/seatLedger';
+import { getClubMembership, getMembershipUpdate } from '@/config/memberships';
+import type { User } from '@/types';
+
+/**
+ * Change a member's role in a club (club admins of the club, or super admins)
+ * Keeps the club's clubAdminIds/clubAdminCoachIds and seat ledger in sync and records the change in roleAuditLog.
+ * Body: { userId: string, clubId: string, role: ClubRole, managedTeamIds?: string[] }
+ * Header: Authorization: Bearer <idToken> from a reauthentication within the last 5 minutes (see verifyStepUp)
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+  if (!(await verifyStepUp(request.headers.get('Authorization'), session.uid))) {
+    return NextResponse.json(
+      { error: 'Please confirm it\'s you again to continue.', code: STEP_UP_REQUIRED_CODE },
+      { status: 403 }
+    );
+  }
+
+  let userId: string | undefined;
+  let clubId: string | undefined;
+  let role: ClubRole | undefined;
+  let managedTeamIds: string[] = [];
+  try {
+    const body = await request.json();
+    userId = typeof body?.userId === 'string' ? body.userId : undefined;
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    role = INVITABLE_ROLES.includes(body?.role) ? body.role : undefined;
+    managedTeamIds = Array.isArray(body?.managedTeamIds)
+      ? body.managedTeamIds.filter((teamId: unknown) => typeof teamId === 'string')
+      : [];
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!userId || !clubId) {
+    return NextResponse.json({ error: 'Missing member to update' }, { status: 400 });
+  }
+  if (!role) {
+    return NextResponse.json({ error: 'Choose a valid role' }, { status: 400 });
+  }
+  if (!can({ id: session.uid, role: session.role, clubId: session.clubId }, 'member.update', { clubId })) {
+    return NextResponse.json({ error: 'Only club admins can change member roles.' }, { status: 403 });
+  }
+  if (userId === session.uid) {
+    return NextResponse.json({ error: 'You cannot change your own role. Ask another club admin.' }, { status: 400 });
+  }
+  if (role !== 'team_manager') {
+    managedTeamIds = [];
+  } else if (managedTeamIds.length === 0) {
+    return NextResponse.json({ error: 'Select at least one team for the team manager' }, { status: 400 });
+  }
+
+  try {
+    if (managedTeamIds.length > 0) {
+      const teamDocs = await adminDb.getAll(...managedTeamIds.map((teamId) => adminDb.collection('teams').doc(teamId)));
+      if (teamDocs.some((teamDoc) => teamDoc.data()?.clubId !== clubId)) {
+        return NextResponse.json({ error: 'Team managers can only manage teams in this club.' }, { status: 400 });
+      }
+    }
+
+    const actor = (await adminDb.collection('users').doc(session.uid).get()).data();
+    const actorName = actor?.displayName || session.email || null;
+    const newSeatType = getSeatType(role);
+    const userRef = adminDb.collection('users').doc(userId);
+
+    await ensureSeatLedger(clubId);
+    // The member is read inside the transaction so concurrent role changes can't both apply the same seat change
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const userData = (await transaction.get(userRef)).data() as User | undefined;
+      const membership = getClubMembership(userData, clubId);
+      if (!userData || !membership) {
+        return { error: 'This user is not a member of the club.', status: 404 };
+      }
+      if (membership.suspended) {
+        return { error: 'This member is suspended. Reinstate them before changing their role.', status: 400 };
+      }
+      if (userData.adminGrant?.clubId === clubId) {
+        return {
+          error: 'This member has temporary admin access. Revoke it on the Club Information page first.',
+          status: 400,
+        };
+      }
+
+      const oldRole = membership.role;
+      const seatChanges = getRoleChangeSeats(oldRole, role);
+      if (newSeatType && seatChanges[newSeatType] && !(await hasFreeSeat(transaction, clubId, newSeatType))) {
+        return {
+          error: `No ${getRoleLabel(role)} seats are available. Free a seat or upgrade your subscription.`,
+          status: 409,
+        };
+      }
+
+      const userName = userData.displayName || `${userData.firstName || ''} ${userData.lastName || ''}`.trim() || null;
+
+      transaction.update(userRef, {
+        ...getMembershipUpdate(userData, clubId, { role, managedTeamIds }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      if (role !== oldRole) {
+        transaction.update(adminDb.collection('sports_clubs').doc(clubId), {
+          clubAdminIds: role === 'club_admin' ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId),
+          clubAdminCoachIds: role === 'club_admin_coach' ? FieldValue.arrayUnion(userId) : FieldValue.arrayRemove(userId),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        updateSeatLedger(transaction, clubId, seatChanges);
+
+        transaction.create(adminDb.collection('roleAuditLog').doc(), {
+          clubId,
+          userId,
+          userName,
+          email: userData.email || null,
+          oldRole,
+          newRole: role,
+          changedBy: session.uid,
+          changedByName: actorName,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      }
+      return { oldRole, userName, email: userData.email || null };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { oldRole } = result;
+
+    await syncRoleClaims(userId).catch((error) => console.error('[member-role] Failed to sync role claims:', error));
+
+    if (role !== oldRole) {
+      await adminDb.collection('activity_log').add({
+        type: 'role_changed',
+        userId: session.uid,
+        data: {
+          email: session.email || null,
+          userName: actorName,
+          clubId,
+          targetUserId: userId,
+          targetName: result.userName,
+          targetEmail: result.email,
+          oldRole,
+          newRole: role,
+        },
+        timestamp: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return NextResponse.json({ oldRole, role });
+  } catch (error) {
+    console.error('[member-role] Failed to change role:', error);
+    return NextResponse.json({ error: 'Unable to change this member\'s role. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { ensureSeatLedger, hasFreeSeat, updateSeatLedger } from '@/lib/seatLedgerSync';
+import { syncRoleClaims } from '@/lib/roleClaimsSync';
+import { can } from '@/config/permissions';
+import { getRoleLabel } from '@/config/roles';
+import { getSeatType } from '@/config/seatLedger';
+import { getClubMembership, getMembershipUpdate } from '@/config/memberships';
+import type { User } from '@/types';
+
+/**
+ * Suspend a member of a club, or reinstate them (club admins of the club, or super admins)
+ * A suspended member keeps their role but frees their seat and loses access to the club (see firestore.rules
+ * isClubMember); reinstating them takes a seat again. Used to bring a club back within its seat limits.
+ * Body: { userId: string, clubId: string, suspended: boolean }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let userId: string | undefined;
+  let clubId: string | undefined;
+  let suspended: boolean | undefined;
+  try {
+    const body = await request.json();
+    userId = typeof body?.userId === 'string' ? body.userId : undefined;
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    suspended = typeof body?.suspended === 'boolean' ? body.suspended : undefined;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!userId || !clubId || suspended === undefined) {
+    return NextResponse.json({ error: 'Missing member to update' }, { status: 400 });
+  }
+  if (!can({ id: session.uid, role: session.role, clubId: session.clubId }, 'member.update', { clubId })) {
+    return NextResponse.json({ error: 'Only club admins can suspend members.' }, { status: 403 });
+  }
+  if (userId === session.uid) {
+    return NextResponse.json({ error: 'You cannot suspend yourself.' }, { status: 400 });
+  }
+
+  try {
+    const actor = (await adminDb.collection('users').doc(session.uid).get()).data();
+    const actorName = actor?.displayName || session.email || null;
+    const userRef = adminDb.collection('users').doc(userId);
+
+    await ensureSeatLedger(clubId);
+    // The member is read inside the transaction so two requests can't both free (or take) the same seat
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const userData = (await transaction.get(userRef)).data() as User | undefined;
+      const membership = getClubMembership(userData, clubId);
+      if (!userData || !membership) {
+        return { error: 'This user is not a member of the club.', status: 404 };
+      }
+
+      // Club admins manage the club, so they free a coach seat by becoming a Club Admin instead
+      const seatType = getSeatType(membership.role);
+      if (!seatType || membership.role === 'club_admin_coach') {
+        return {
+          error: `${getRoleLabel(membership.role)}s can't be suspended. Change their role instead.`,
+          status: 400,
+        };
+      }
+      if (userData.adminGrant?.clubId === clubId) {
+        return {
+          error: 'This member has temporary admin access. Revoke it on the Club Information page first.',
+          status: 400,
+        };
+      }
+      if (membership.suspended === suspended) {
+        return { changed: false };
+      }
+      if (!suspended && !(await hasFreeSeat(transaction, clubId, seatType))) {
+        return {
+          error: `No ${getRoleLabel(membership.role)} seats are available. Free a seat or upgrade your subscription.`,
+          status: 409,
+        };
+      }
+
+      transaction.update(userRef, {
+        ...getMembershipUpdate(userData, clubId, { suspended }),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      updateSeatLedger(transaction, clubId, { [seatType]: { used: suspended ? -1 : 1 } });
+      return {
+        changed: true,
+        role: membership.role,
+        userName: userData.displayName || `${userData.firstName || ''} ${userData.lastName || ''}`.trim() || null,
+        email: userData.email || null,
+      };
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    if (!result.changed) {
+      return NextResponse.json({ suspended });
+    }
+
+    await syncRoleClaims(userId).catch((error) =>
+      console.error('[member-suspension] Failed to sync role claims:', error)
+    );
+
+    await adminDb.collection('activity_log').add({
+      type: suspended ? 'member_suspended' : 'member_reinstated',
+      userId: session.uid,
+      data: {
+        email: session.email || null,
+        userName: actorName,
+        clubId,
+        targetUserId: userId,
+        targetName: result.userName,
+        targetEmail: result.email,
+        role: result.role,
+      },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ suspended });
+  } catch (error) {
+    console.error('[member-suspension] Failed to update suspension:', error);
+    return NextResponse.json({ error: 'Unable to update this member. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from '@/lib/sessionCookie';
+import { ensureSeatLedger, reconcileSeatLedger } from '@/lib/seatLedgerSync';
+import { can } from '@/config/permissions';
+
+/**
+ * Create the signed-in user's club seat ledger from a recount, or recount it now
+ * Any member of the club can create a missing ledger; only club admins can force a recount.
+ * Body: { clubId: string, reconcile?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Please sign in again.' }, { status: 401 });
+  }
+
+  let clubId: string | undefined;
+  let reconcile = false;
+  try {
+    const body = await request.json();
+    clubId = typeof body?.clubId === 'string' ? body.clubId : undefined;
+    reconcile = body?.reconcile === true;
+  } catch {
+    // Fall through to validation errors
+  }
+
+  if (!clubId) {
+    return NextResponse.json({ error: 'Missing club' }, { status: 400 });
+  }
+
+  const allowed = reconcile
+    ? can({ id: session.uid, role: session.role, clubId: session.clubId }, 'member.update', { clubId })
+    : session.role === 'super_admin' || session.clubId === clubId;
+  if (!allowed) {
+    return NextResponse.json({ error: 'You do not have permission to manage this club\'s seats.' }, { status: 403 });
+  }
+
+  try {
+    if (reconcile) {
+      const drift = await reconcileSeatLedger(clubId);
+      return NextResponse.json({ drift });
+    }
+    await ensureSeatLedger(clubId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[seat-ledgers] Failed to update seat ledger:', error);
+    return NextResponse.json({ error: 'Unable to update the seat ledger. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { revokeExpiredAdminGrants } from '@/lib/adminGrantRevocation';
+
+/**
+ * Revoke expired temporary admin grants in every club
+ * Runs daily from Vercel Cron (vercel.json), which sends `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const revokedCount = await revokeExpiredAdminGrants();
+    return NextResponse.json({ revokedCount });
+  } catch (error) {
+    console.error('[admin-grants] Failed to revoke expired grants:', error);
+    return NextResponse.json({ error: 'Unable to revoke expired grants.' }, { status: 500 });
+  }
+}
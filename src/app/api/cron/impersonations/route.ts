@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { stopExpiredImpersonations } from '@/lib/impersonationSessions';
+
+/**
+ * End expired "view as" sessions and record their stop in activity_log
+ * Runs daily from Vercel Cron (vercel.json), which sends `Authorization: Bearer <CRON_SECRET>`. Safe to run again:
+ * a session that is already ended is skipped.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const stoppedCount = await stopExpiredImpersonations();
+    return NextResponse.json({ stoppedCount });
+  } catch (error) {
+    console.error('[impersonation] Failed to end expired sessions:', error);
+    return NextResponse.json({ error: 'Unable to end expired sessions.' }, { status: 500 });
+  }
+}
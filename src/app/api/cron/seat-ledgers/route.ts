@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { reconcileAllSeatLedgers } from '@/lib/seatLedgerSync';
+
+/**
+ * Recount every club's seats, correct the seat ledgers and report clubs whose ledger had drifted
+ * Runs nightly from Vercel Cron (vercel.json), which sends `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcileAllSeatLedgers();
+    if (result.driftedClubIds.length > 0) {
+      console.warn('[seat-ledgers] Corrected drift in clubs:', result.driftedClubIds.join(', '));
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[seat-ledgers] Failed to reconcile seat ledgers:', error);
+    return NextResponse.json({ error: 'Unable to reconcile seat ledgers.' }, { status: 500 });
+  }
+}
@@ -29,6 +29,12 @@ export default function HomePage() {
         return;
       }
 
+      // Team managers only manage their own teams
+      if (userData.role === 'team_manager') {
+        router.push('/club/teams');
+        return;
+      }
+
       // For club admins, check if they have existing teams
       if (userData.clubId) {
         setChecking(true);
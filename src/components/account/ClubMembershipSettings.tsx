@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+} from '@mui/material';
+import { Business as BusinessIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import { getUserMemberships } from '@/config/memberships';
+import { getRoleLabel } from '@/config/roles';
+import { joinClubWithCode } from '@/lib/clubMemberships';
+import { appColors } from '@/theme';
+
+/**
+ * The signed-in user's clubs, and joining another club with an invitation code
+ */
+export default function ClubMembershipSettings() {
+  // Always the signed-in user's own clubs, even while viewing as another user
+  const { realUserData: userData, refreshUserData } = useAuth();
+  const { showSuccess } = useToast();
+  const [code, setCode] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!userData || userData.role === 'super_admin') {
+    return null;
+  }
+
+  const memberships = Object.values(getUserMemberships(userData));
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setJoining(true);
+      const membership = await joinClubWithCode(code);
+      await refreshUserData();
+      setCode('');
+      showSuccess(`You joined ${membership.clubName || 'the club'}. Switch clubs from the menu to use it.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to join this club. Please try again.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <BusinessIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Clubs
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Invited to another club? Enter the invitation code here to use the same account for both clubs.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {memberships.length > 0 && (
+        <List dense sx={{ mb: 2 }}>
+          {memberships.map((membership) => (
+            <ListItem key={membership.clubId} disableGutters>
+              <ListItemText
+                primary={membership.clubName || 'Club'}
+                secondary={getRoleLabel(membership.role)}
+              />
+              {membership.clubId === userData.clubId && <Chip label="Active" size="small" color="success" />}
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Box component="form" onSubmit={handleJoin} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <TextField
+          label="Invitation Code"
+          size="small"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          disabled={joining}
+          sx={{ width: 220 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={joining || !code.trim()}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          {joining ? <CircularProgress size={20} /> : 'Join Club'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Box, Typography, Paper, Button, TextField, Alert, CircularProgress } from '@mui/material';
+import { DeleteForever as DeleteForeverIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  getAccountDeletionRequest,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+} from '@/lib/accountDeletion';
+import { ACCOUNT_DELETION_COOL_OFF_DAYS } from '@/config/accountDeletion';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
+import type { AccountDeletion } from '@/types';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+
+export default function DeleteAccountSettings() {
+  // Always the signed-in user's own account, even while viewing as another user
+  const { user, realUserData: userData } = useAuth();
+  const { showSuccess } = useToast();
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
+
+  const [deletionRequest, setDeletionRequest] = useState<AccountDeletion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reason, setReason] = useState('');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    getAccountDeletionRequest(user.uid)
+      .then(setDeletionRequest)
+      .catch((err) => console.error('Error loading deletion request:', err))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  // Super admins can't remove themselves from Account Settings
+  if (!user || userData?.role === 'super_admin') {
+    return null;
+  }
+
+  const isPending = deletionRequest?.status === 'pending';
+
+  const handleRequest = async () => {
+    setConfirmOpen(false);
+    setError('');
+    setBusy(true);
+    try {
+      await requestAccountDeletion(user, userData, reason);
+      setDeletionRequest(await getAccountDeletionRequest(user.uid));
+      setReason('');
+      showSuccess('Account deletion requested');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setError('');
+    setBusy(true);
+    try {
+      await cancelAccountDeletion(user);
+      setDeletionRequest(await getAccountDeletionRequest(user.uid));
+      showSuccess('Account deletion cancelled');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <DeleteForeverIcon sx={{ color: appColors.error }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Delete Account
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <CircularProgress size={24} />
+      ) : isPending ? (
+        <>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Your account is scheduled for deletion on or after{' '}
+            <strong>{formatDate(deletionRequest?.scheduledFor)}</strong>. You can keep using Benchmark Coach
+            until then, and cancel the request at any time before it is processed.
+          </Alert>
+          <Button variant="outlined" onClick={handleCancel} disabled={busy}>
+            {busy ? <CircularProgress size={20} /> : 'Cancel Deletion Request'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Request permanent deletion of your account. After a {ACCOUNT_DELETION_COOL_OFF_DAYS}-day cool-off
+            period, a Benchmark Coach administrator will delete your account and either remove or hand over the
+            drills, sessions and notes you created.
+          </Typography>
+          <TextField
+            fullWidth
+            label="Reason (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            size="small"
+            multiline
+            minRows={2}
+            sx={{ mb: 2 }}
+          />
+          <Button
+            variant="contained"
+            onClick={() => setConfirmOpen(true)}
+            disabled={busy}
+            sx={{
+              backgroundColor: appColors.error,
+              color: '#fff',
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: '#b71c1c' },
+            }}
+          >
+            {busy ? <CircularProgress size={20} color="inherit" /> : 'Delete My Account'}
+          </Button>
+        </>
+      )}
+
+      <ConfirmationDialog
+        open={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={() => requireStepUp(handleRequest, 'Please confirm it\'s you to request deletion of your account.')}
+        title="Delete Your Account?"
+        message={
+          <Typography>
+            Your account will be deleted after {ACCOUNT_DELETION_COOL_OFF_DAYS} days unless you cancel the request.
+            This cannot be undone once processed.
+          </Typography>
+        }
+        confirmText="Request Deletion"
+        cancelText="Cancel"
+        confirmButtonColor="error"
+      />
+
+      {stepUpDialog}
+    </Paper>
+  );
+}
@@ -0,0 +1,337 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  Alert,
+  Chip,
+  CircularProgress,
+  Stack,
+} from '@mui/material';
+import {
+  Security as SecurityIcon,
+  ContentCopy as ContentCopyIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import QRCode from 'qrcode';
+import type { MultiFactorInfo, TotpSecret } from 'firebase/auth';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  getEnrolledTotpFactors,
+  startTotpEnrollment,
+  finishTotpEnrollment,
+  unenrollFactor,
+  generateRecoveryCodes,
+} from '@/lib/mfa';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+
+interface MfaSettingsProps {
+  // The user's club requires two-factor authentication for club admins
+  required?: boolean;
+}
+
+const primaryButtonSx = {
+  backgroundColor: appColors.primary,
+  color: appColors.primaryText,
+  fontWeight: 'bold',
+  '&:hover': { backgroundColor: appColors.primaryHover },
+};
+
+export default function MfaSettings({ required = false }: MfaSettingsProps) {
+  const { user, signOut } = useAuth();
+  const { showSuccess } = useToast();
+
+  const [factors, setFactors] = useState<MultiFactorInfo[]>(() => (user ? getEnrolledTotpFactors(user) : []));
+  const [enrollment, setEnrollment] = useState<{ secret: TotpSecret; qrDataUrl: string } | null>(null);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [factorToRemove, setFactorToRemove] = useState<MultiFactorInfo | null>(null);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user) {
+    return null;
+  }
+
+  const isEnrolled = factors.length > 0;
+
+  const handleStartEnrollment = async () => {
+    setError('');
+    setBusy(true);
+    try {
+      const { secret, qrCodeUrl } = await startTotpEnrollment(user);
+      const qrDataUrl = await QRCode.toDataURL(qrCodeUrl);
+      setEnrollment({ secret, qrDataUrl });
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFinishEnrollment = async () => {
+    if (!enrollment) return;
+    setError('');
+
+    if (!/^\d{6}$/.test(verificationCode.trim())) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await finishTotpEnrollment(user, enrollment.secret, verificationCode);
+      setFactors(getEnrolledTotpFactors(user));
+      setEnrollment(null);
+      setVerificationCode('');
+      showSuccess('Two-factor authentication enabled');
+
+      const codes = await generateRecoveryCodes(user);
+      setRecoveryCodes(codes);
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemoveFactor = async () => {
+    if (!factorToRemove) return;
+    setError('');
+    setBusy(true);
+    try {
+      await unenrollFactor(user, factorToRemove);
+      setFactors(getEnrolledTotpFactors(user));
+      setRecoveryCodes(null);
+      showSuccess('Two-factor authentication removed');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+      setFactorToRemove(null);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    setError('');
+    setBusy(true);
+    try {
+      const codes = await generateRecoveryCodes(user);
+      setRecoveryCodes(codes);
+      showSuccess('New recovery codes generated');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+      setConfirmRegenerate(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    showSuccess('Recovery codes copied to clipboard');
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Benchmark Coach recovery codes for ${user.email}\n\n${recoveryCodes.join('\n')}\n`], {
+      type: 'text/plain',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'benchmark-coach-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The current session didn't use a second factor, so sign in again once codes are saved
+  const handleCodesSaved = async () => {
+    setRecoveryCodes(null);
+    if (required) {
+      await signOut();
+      window.location.href = '/login';
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <SecurityIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary, flexGrow: 1 }}>
+          Two-Factor Authentication
+        </Typography>
+        <Chip
+          label={isEnrolled ? 'Enabled' : 'Disabled'}
+          size="small"
+          sx={{
+            backgroundColor: isEnrolled ? appColors.success : appColors.backgroundGrey,
+            color: isEnrolled ? '#fff' : appColors.textSecondary,
+            fontWeight: 'medium',
+          }}
+        />
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Protect your account with a code from an authenticator app (such as Google Authenticator, 1Password or Authy) whenever you sign in.
+      </Typography>
+
+      {required && !isEnrolled && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Your club requires two-factor authentication for club admins. Set it up to continue using the dashboard.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Recovery codes - only shown once after generation */}
+      {recoveryCodes && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 1 }}>
+            Save your recovery codes
+          </Typography>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Each code can be used once to sign in if you lose access to your authenticator app. They won't be shown again.
+          </Typography>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, 1fr)',
+              gap: 1,
+              fontFamily: 'monospace',
+              mb: 2,
+            }}
+          >
+            {recoveryCodes.map((code) => (
+              <Typography key={code} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {code}
+              </Typography>
+            ))}
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" startIcon={<ContentCopyIcon />} onClick={handleCopyCodes}>
+              Copy
+            </Button>
+            <Button size="small" startIcon={<DownloadIcon />} onClick={handleDownloadCodes}>
+              Download
+            </Button>
+            <Button size="small" variant="contained" onClick={handleCodesSaved} sx={primaryButtonSx}>
+              {required ? "I've saved these codes - sign in again" : "I've saved these codes"}
+            </Button>
+          </Stack>
+        </Alert>
+      )}
+
+      {isEnrolled ? (
+        <Box>
+          {factors.map((factor) => (
+            <Box
+              key={factor.uid}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                p: 2,
+                mb: 2,
+                border: '1px solid #e0e0e0',
+                borderRadius: 1,
+              }}
+            >
+              <Box>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  {factor.displayName || 'Authenticator app'}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Added {formatDate(factor.enrollmentTime)}
+                </Typography>
+              </Box>
+              <Button
+                color="error"
+                disabled={busy || required}
+                onClick={() => setFactorToRemove(factor)}
+              >
+                Remove
+              </Button>
+            </Box>
+          ))}
+          <Button variant="outlined" disabled={busy} onClick={() => setConfirmRegenerate(true)}>
+            Generate New Recovery Codes
+          </Button>
+        </Box>
+      ) : enrollment ? (
+        <Box>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            1. Scan this QR code with your authenticator app, or enter the key manually.
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, mb: 2, flexWrap: 'wrap' }}>
+            <Box component="img" src={enrollment.qrDataUrl} alt="Authenticator QR code" sx={{ width: 180, height: 180 }} />
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Setup key
+              </Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {enrollment.secret.secretKey}
+              </Typography>
+            </Box>
+          </Box>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            2. Enter the 6-digit code shown in the app.
+          </Typography>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+            <TextField
+              label="Verification Code"
+              value={verificationCode}
+              onChange={(e) => setVerificationCode(e.target.value)}
+              size="small"
+              autoComplete="one-time-code"
+              slotProps={{ htmlInput: { inputMode: 'numeric', maxLength: 6 } }}
+            />
+            <Button variant="contained" disabled={busy} onClick={handleFinishEnrollment} sx={primaryButtonSx}>
+              {busy ? <CircularProgress size={20} /> : 'Verify & Enable'}
+            </Button>
+            <Button disabled={busy} onClick={() => setEnrollment(null)} sx={{ color: appColors.textSecondary }}>
+              Cancel
+            </Button>
+          </Stack>
+        </Box>
+      ) : (
+        <Button variant="contained" disabled={busy} onClick={handleStartEnrollment} sx={primaryButtonSx}>
+          {busy ? <CircularProgress size={20} /> : 'Set Up Authenticator App'}
+        </Button>
+      )}
+
+      <ConfirmationDialog
+        open={factorToRemove !== null}
+        onClose={() => setFactorToRemove(null)}
+        onConfirm={handleRemoveFactor}
+        title="Remove Two-Factor Authentication"
+        message="You will only need your password or sign-in provider to access your account. Your recovery codes will stop working."
+        confirmText="Remove"
+        isLoading={busy}
+      />
+
+      <ConfirmationDialog
+        open={confirmRegenerate}
+        onClose={() => setConfirmRegenerate(false)}
+        onConfirm={handleRegenerateCodes}
+        title="Generate New Recovery Codes"
+        message="Your existing recovery codes will stop working."
+        confirmText="Generate"
+        isLoading={busy}
+      />
+    </Paper>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, Typography, Paper, Button, TextField, Alert, CircularProgress } from '@mui/material';
+import { Person as PersonIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import { updateAccountProfile } from '@/lib/account';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+import { appColors } from '@/theme';
+
+export default function ProfileSettings() {
+  // Always edit the signed-in user's own profile, even while viewing as another user
+  const { user, realUserData: userData, refreshUserData } = useAuth();
+  const { showSuccess } = useToast();
+
+  const [firstName, setFirstName] = useState(userData?.firstName || '');
+  const [lastName, setLastName] = useState(userData?.lastName || '');
+  const [displayName, setDisplayName] = useState(userData?.displayName || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user) {
+    return null;
+  }
+
+  const hasChanges =
+    firstName !== (userData?.firstName || '') ||
+    lastName !== (userData?.lastName || '') ||
+    displayName !== (userData?.displayName || '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!firstName.trim() || !lastName.trim()) {
+      setError('First and last name are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateAccountProfile(user, { firstName, lastName, displayName });
+      await refreshUserData();
+      showSuccess('Profile updated');
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <PersonIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Profile
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box component="form" onSubmit={handleSubmit}>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2, mb: 2 }}>
+          <TextField
+            label="First Name"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+            size="small"
+            required
+          />
+          <TextField
+            label="Last Name"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+            size="small"
+            required
+          />
+          <TextField
+            label="Display Name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            size="small"
+            helperText="Defaults to your first and last name"
+          />
+        </Box>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={saving || !hasChanges}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          {saving ? <CircularProgress size={20} /> : 'Save Profile'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
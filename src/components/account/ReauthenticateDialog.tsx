@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { useAuth } from '@/hooks/useAuth';
+import { getLinkedProviderIds, reauthenticate } from '@/lib/account';
+import { getEnrolledTotpFactors } from '@/lib/mfa';
+import { isOidcProviderId } from '@/config/oidc';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+import { appColors } from '@/theme';
+
+interface ReauthenticateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Runs the sensitive action once the user has signed in again
+  onReauthenticated: () => void | Promise<void>;
+  message?: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  'google.com': 'Google',
+  'apple.com': 'Apple',
+};
+
+export default function ReauthenticateDialog({
+  open,
+  onClose,
+  onReauthenticated,
+  message = 'For your security, please confirm it\'s you before making this change.',
+}: ReauthenticateDialogProps) {
+  const { user } = useAuth();
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user) {
+    return null;
+  }
+
+  const providerIds = getLinkedProviderIds(user);
+  const hasPassword = providerIds.includes('password');
+  const oauthProviderId = providerIds.find((id) => id in PROVIDER_LABELS || isOidcProviderId(id));
+  const hasMfa = getEnrolledTotpFactors(user).length > 0;
+
+  const handleClose = () => {
+    if (loading) return;
+    setPassword('');
+    setTotpCode('');
+    setError('');
+    onClose();
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (hasPassword && !password) {
+      setError('Please enter your current password');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await reauthenticate(user, {
+        password: hasPassword ? password : undefined,
+        totpCode: hasMfa ? totpCode : undefined,
+      });
+      setPassword('');
+      setTotpCode('');
+      await onReauthenticated();
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleConfirm}>
+        <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Confirm It&apos;s You
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {message}
+          </Typography>
+          {error && (
+            <Alert severity="error" sx={{ my: 1 }}>
+              {error}
+            </Alert>
+          )}
+          {hasPassword && (
+            <TextField
+              fullWidth
+              label="Current Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              margin="normal"
+              autoComplete="current-password"
+              autoFocus
+            />
+          )}
+          {hasMfa && (
+            <TextField
+              fullWidth
+              label="Authenticator Code"
+              value={totpCode}
+              onChange={(e) => setTotpCode(e.target.value)}
+              margin="normal"
+              autoComplete="one-time-code"
+              slotProps={{ htmlInput: { inputMode: 'numeric', maxLength: 6 } }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={handleClose} disabled={loading} sx={{ color: appColors.textSecondary }}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={loading}
+            startIcon={loading ? <CircularProgress size={20} /> : null}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            {hasPassword || !oauthProviderId ? 'Continue' : `Continue with ${PROVIDER_LABELS[oauthProviderId] || 'Single Sign-On'}`}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
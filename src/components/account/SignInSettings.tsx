@@ -0,0 +1,356 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  TextField,
+  Alert,
+  Chip,
+  Divider,
+  CircularProgress,
+  Stack,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { VpnKey as VpnKeyIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ACCOUNT_PROVIDERS,
+  AccountProviderId,
+  getLinkedProviderIds,
+  linkOAuthProvider,
+  linkPasswordProvider,
+  unlinkProvider,
+  requestEmailChange,
+  changePassword,
+} from '@/lib/account';
+import { getAuthErrorMessage } from '@/lib/errorMessages';
+import ReauthenticateDialog from './ReauthenticateDialog';
+import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
+import { appColors } from '@/theme';
+
+const primaryButtonSx = {
+  backgroundColor: appColors.primary,
+  color: appColors.primaryText,
+  fontWeight: 'bold',
+  '&:hover': { backgroundColor: appColors.primaryHover },
+};
+
+export default function SignInSettings() {
+  const { user } = useAuth();
+  const { showSuccess } = useToast();
+
+  const [providerIds, setProviderIds] = useState<string[]>(() => (user ? getLinkedProviderIds(user) : []));
+  const [providerToUnlink, setProviderToUnlink] = useState<AccountProviderId | null>(null);
+  const [addPasswordOpen, setAddPasswordOpen] = useState(false);
+  const [addPassword, setAddPassword] = useState('');
+  const [addPasswordConfirm, setAddPasswordConfirm] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [emailChangeSentTo, setEmailChangeSentTo] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Sensitive change waiting for the user to sign in again
+  const [pendingAction, setPendingAction] = useState<(() => Promise<void>) | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user) {
+    return null;
+  }
+
+  const hasPassword = providerIds.includes('password');
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+      setProviderIds(getLinkedProviderIds(user));
+    }
+  };
+
+  const requireReauth = (action: () => Promise<void>) => {
+    setError('');
+    setPendingAction(() => action);
+  };
+
+  const handleReauthenticated = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (action) {
+      await runAction(action);
+    }
+  };
+
+  const handleLinkProvider = (providerId: AccountProviderId) => {
+    if (providerId === 'password') {
+      setAddPasswordOpen(true);
+      return;
+    }
+    runAction(async () => {
+      await linkOAuthProvider(user, providerId);
+      showSuccess('Sign-in method linked');
+    });
+  };
+
+  const handleAddPassword = () => {
+    if (addPassword.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+    if (addPassword !== addPasswordConfirm) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    const password = addPassword;
+    setAddPasswordOpen(false);
+    setAddPassword('');
+    setAddPasswordConfirm('');
+    requireReauth(async () => {
+      await linkPasswordProvider(user, password);
+      showSuccess('Password added');
+    });
+  };
+
+  const handleUnlinkProvider = () => {
+    if (!providerToUnlink) return;
+    const providerId = providerToUnlink;
+    setProviderToUnlink(null);
+    requireReauth(async () => {
+      await unlinkProvider(user, providerId);
+      showSuccess('Sign-in method removed');
+    });
+  };
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    const email = newEmail.trim().toLowerCase();
+    requireReauth(async () => {
+      await requestEmailChange(user, email);
+      setEmailChangeSentTo(email);
+      setNewEmail('');
+    });
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    const password = newPassword;
+    requireReauth(async () => {
+      await changePassword(user, password);
+      setNewPassword('');
+      setConfirmPassword('');
+      showSuccess('Password changed');
+    });
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <VpnKeyIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Sign-In Methods
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Linked providers */}
+      {ACCOUNT_PROVIDERS.map((provider) => {
+        const isLinked = providerIds.includes(provider.id);
+        return (
+          <Box
+            key={provider.id}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              p: 2,
+              mb: 2,
+              border: '1px solid #e0e0e0',
+              borderRadius: 1,
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                {provider.label}
+              </Typography>
+              <Chip
+                label={isLinked ? 'Linked' : 'Not linked'}
+                size="small"
+                sx={{
+                  backgroundColor: isLinked ? appColors.success : appColors.backgroundGrey,
+                  color: isLinked ? '#fff' : appColors.textSecondary,
+                  fontWeight: 'medium',
+                }}
+              />
+            </Box>
+            {isLinked ? (
+              <Button
+                color="error"
+                disabled={busy || providerIds.length <= 1}
+                onClick={() => setProviderToUnlink(provider.id)}
+              >
+                Unlink
+              </Button>
+            ) : (
+              <Button variant="outlined" disabled={busy} onClick={() => handleLinkProvider(provider.id)}>
+                Link
+              </Button>
+            )}
+          </Box>
+        );
+      })}
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* Email change */}
+      <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
+        Email Address
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Currently <strong>{user.email}</strong>. We&apos;ll send a link to your new address, and the change takes effect once you open it.
+      </Typography>
+      {emailChangeSentTo && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Verification link sent to {emailChangeSentTo}. Open it to finish changing your email, then sign in again with your new address.
+        </Alert>
+      )}
+      <Stack component="form" onSubmit={handleChangeEmail} direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+        <TextField
+          label="New Email"
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          size="small"
+          sx={{ minWidth: 280 }}
+        />
+        <Button type="submit" variant="contained" disabled={busy || !newEmail} sx={primaryButtonSx}>
+          Change Email
+        </Button>
+      </Stack>
+
+      {/* Password change - only for accounts with a password */}
+      {hasPassword && (
+        <>
+          <Divider sx={{ my: 3 }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 2 }}>
+            Password
+          </Typography>
+          <Stack component="form" onSubmit={handleChangePassword} direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+            <TextField
+              label="New Password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              size="small"
+              autoComplete="new-password"
+            />
+            <TextField
+              label="Confirm Password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              size="small"
+              autoComplete="new-password"
+            />
+            <Button type="submit" variant="contained" disabled={busy || !newPassword} sx={primaryButtonSx}>
+              {busy ? <CircularProgress size={20} /> : 'Change Password'}
+            </Button>
+          </Stack>
+        </>
+      )}
+
+      {/* Add a password to an OAuth-only account */}
+      <Dialog open={addPasswordOpen} onClose={() => setAddPasswordOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>Add Password</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 1 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            You&apos;ll be able to sign in with {user.email} and this password.
+          </Typography>
+          <TextField
+            fullWidth
+            label="Password"
+            type="password"
+            value={addPassword}
+            onChange={(e) => setAddPassword(e.target.value)}
+            margin="normal"
+            autoComplete="new-password"
+            helperText="Minimum 6 characters"
+          />
+          <TextField
+            fullWidth
+            label="Confirm Password"
+            type="password"
+            value={addPasswordConfirm}
+            onChange={(e) => setAddPasswordConfirm(e.target.value)}
+            margin="normal"
+            autoComplete="new-password"
+          />
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setAddPasswordOpen(false)} sx={{ color: appColors.textSecondary }}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleAddPassword} sx={primaryButtonSx}>
+            Add Password
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={providerToUnlink !== null}
+        onClose={() => setProviderToUnlink(null)}
+        onConfirm={handleUnlinkProvider}
+        title="Unlink Sign-In Method"
+        message={`You will no longer be able to sign in with ${
+          ACCOUNT_PROVIDERS.find((provider) => provider.id === providerToUnlink)?.label || 'this method'
+        }.`}
+        confirmText="Unlink"
+      />
+
+      <ReauthenticateDialog
+        open={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onReauthenticated={handleReauthenticated}
+      />
+    </Paper>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+  Stack,
+  Radio,
+  RadioGroup,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { collection, query, where, getCountFromServer } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { executeAccountDeletion, isCoolOffOver } from '@/lib/accountDeletion';
+import { USER_CONTENT_COLLECTIONS } from '@/config/accountDeletion';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
+import type { AccountDeletion, User } from '@/types';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+import { getRoleLabel } from '@/config/roles';
+
+interface AccountDeletionReviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onDeleted: () => void;
+  request: AccountDeletion | null;
+  // Users the content can be handed over to
+  users: User[];
+}
+
+export default function AccountDeletionReviewDialog({
+  open,
+  onClose,
+  onDeleted,
+  request,
+  users,
+}: AccountDeletionReviewDialogProps) {
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
+  const [contentCounts, setContentCounts] = useState<Record<string, number> | null>(null);
+  const [contentAction, setContentAction] = useState<'purge' | 'reassign'>('purge');
+  const [reassignTo, setReassignTo] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open || !request) return;
+
+    const loadContentCounts = async () => {
+      try {
+        const counts = await Promise.all(
+          USER_CONTENT_COLLECTIONS.map(async ({ collection: name, ownerField }) => {
+            const snapshot = await getCountFromServer(
+              query(collection(db, name), where(ownerField, '==', request.userId))
+            );
+            return [name, snapshot.data().count] as const;
+          })
+        );
+        setContentCounts(Object.fromEntries(counts));
+      } catch (err) {
+        console.error('Error counting user content:', err);
+        setContentCounts(null);
+      }
+    };
+
+    loadContentCounts();
+  }, [open, request]);
+
+  if (!request) return null;
+
+  // Prefer members of the same club, then super admins
+  const reassignCandidates = users.filter(
+    (candidate) =>
+      candidate.id !== request.userId &&
+      ((request.clubId && candidate.clubId === request.clubId) || candidate.role === 'super_admin')
+  );
+
+  const isPending = request.status === 'pending';
+  const canExecute = isPending && isCoolOffOver(request);
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    setError('');
+    setContentCounts(null);
+    setContentAction('purge');
+    setReassignTo('');
+    onClose();
+  };
+
+  const handleExecute = async () => {
+    setError('');
+    try {
+      setIsSubmitting(true);
+      await executeAccountDeletion(request, {
+        contentAction,
+        reassignTo: contentAction === 'reassign' ? reassignTo : undefined,
+      });
+      onDeleted();
+      setIsSubmitting(false);
+      handleClose();
+    } catch (err) {
+      console.error('Error deleting account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete account. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleExecuteClick = () => {
+    if (contentAction === 'reassign' && !reassignTo) {
+      setError('Choose who should receive this user\'s content');
+      return;
+    }
+    requireStepUp(handleExecute, 'Deleting an account cannot be undone. Please confirm it\'s you to continue.');
+  };
+
+  return (
+    <>
+      <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Review Deletion Request
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Stack spacing={0.5} sx={{ mb: 2 }}>
+            <Typography variant="body1">
+              <strong>{request.userName || request.email}</strong> ({request.email})
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Role: {request.role ? getRoleLabel(request.role) : 'N/A'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Requested {formatDate(request.requestedAt)} · Cool-off ends {formatDate(request.scheduledFor)}
+            </Typography>
+            {request.reason && (
+              <Typography variant="body2" color="text.secondary">
+                Reason: {request.reason}
+              </Typography>
+            )}
+          </Stack>
+
+          {isPending && !canExecute && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              This request is still in its cool-off period. The user can cancel it until{' '}
+              {formatDate(request.scheduledFor)}.
+            </Alert>
+          )}
+
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold', mb: 1 }}>
+            Content created by this user
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 3, mb: 2 }}>
+            {USER_CONTENT_COLLECTIONS.map(({ collection: name, label }) => (
+              <Typography key={name} variant="body2">
+                {label}: <strong>{contentCounts ? contentCounts[name] ?? 0 : '...'}</strong>
+              </Typography>
+            ))}
+          </Box>
+
+          {isPending && (
+            <>
+              <RadioGroup
+                value={contentAction}
+                onChange={(e) => setContentAction(e.target.value as 'purge' | 'reassign')}
+              >
+                <FormControlLabel value="purge" control={<Radio />} label="Delete their drills, sessions and notes" />
+                <FormControlLabel value="reassign" control={<Radio />} label="Reassign them to another user" />
+              </RadioGroup>
+
+              {contentAction === 'reassign' && (
+                <FormControl fullWidth size="small" sx={{ mt: 1 }}>
+                  <InputLabel>Reassign To</InputLabel>
+                  <Select value={reassignTo} onChange={(e) => setReassignTo(e.target.value)} label="Reassign To">
+                    {reassignCandidates.map((candidate) => (
+                      <MenuItem key={candidate.id} value={candidate.id}>
+                        {candidate.displayName || candidate.email} ({getRoleLabel(candidate.role)})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={handleClose} disabled={isSubmitting} sx={{ color: appColors.textSecondary }}>
+            Close
+          </Button>
+          {isPending && (
+            <Button
+              onClick={handleExecuteClick}
+              variant="contained"
+              disabled={!canExecute || isSubmitting}
+              sx={{
+                backgroundColor: appColors.error,
+                color: '#fff',
+                fontWeight: 'bold',
+                '&:hover': { backgroundColor: '#b71c1c' },
+              }}
+            >
+              {isSubmitting ? <CircularProgress size={20} color="inherit" /> : 'Delete Account'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+      {stepUpDialog}
+    </>
+  );
+}
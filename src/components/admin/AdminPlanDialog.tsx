@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { saveAdminPlan } from '@/lib/adminPlans';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { useToast } from '@/contexts/ToastContext';
+import { ADMIN_PLAN_KINDS, ADMIN_PLAN_KIND_LABELS, type AdminPlanKind, type ClubAdminPlan } from '@/config/adminPlans';
+import { toDate } from '@/utils/dateHelpers';
+import type { AdminPlan, Club } from '@/types';
+import { appColors } from '@/theme';
+
+interface AdminPlanDialogProps {
+  club: Club;
+  plan: AdminPlan | null; // Plan to edit, or null to create one
+  onClose: () => void;
+  onSaved: (adminPlan: ClubAdminPlan) => void;
+}
+
+/**
+ * Format a date for a date input (local time)
+ */
+function toDateInputValue(value: unknown): string {
+  const date = toDate(value);
+  if (!date) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Create or edit a club's complimentary or manually invoiced plan (super admins)
+ * Mount it only while open so the form starts from the plan being edited.
+ */
+export default function AdminPlanDialog({ club, plan, onClose, onSaved }: AdminPlanDialogProps) {
+  const { showSuccess } = useToast();
+  const [kind, setKind] = useState<AdminPlanKind>(plan?.adminPlanKind || 'complimentary');
+  const [planName, setPlanName] = useState(plan?.planName || '');
+  const [coachSeats, setCoachSeats] = useState(plan?.maxCoachAccounts != null ? String(plan.maxCoachAccounts) : '');
+  const [viewOnlySeats, setViewOnlySeats] = useState(
+    plan?.maxViewOnlyUsers != null ? String(plan.maxViewOnlyUsers) : ''
+  );
+  const [startDate, setStartDate] = useState(toDateInputValue(plan?.currentPeriodStart));
+  const [endDate, setEndDate] = useState(toDateInputValue(plan?.currentPeriodEnd));
+  const [note, setNote] = useState(plan?.note || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    // The plan starts at the beginning of its start date and lasts until the end of its end date
+    const start = new Date(`${startDate}T00:00:00`);
+    const end = new Date(`${endDate}T23:59:59.999`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      setError('Choose a start and end date');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const adminPlan = await saveAdminPlan(
+        club,
+        {
+          kind,
+          planName,
+          maxCoachAccounts: coachSeats.trim() === '' ? null : Number(coachSeats),
+          maxViewOnlyUsers: viewOnlySeats.trim() === '' ? null : Number(viewOnlySeats),
+          startDate: start,
+          endDate: end,
+          note,
+        },
+        plan
+      );
+      showSuccess(plan ? 'Plan updated' : 'Plan created');
+      onSaved(adminPlan);
+    } catch (err) {
+      console.error('Error saving admin plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the plan');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={isSaving ? undefined : onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>{plan ? 'Edit Plan' : 'Create Plan'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, pt: 1 }}>
+            <FormControl fullWidth>
+              <InputLabel>Plan Type</InputLabel>
+              <Select
+                value={kind}
+                label="Plan Type"
+                onChange={(e) => setKind(e.target.value as AdminPlanKind)}
+                disabled={isSaving}
+              >
+                {ADMIN_PLAN_KINDS.map((planKind) => (
+                  <MenuItem key={planKind} value={planKind}>
+                    {ADMIN_PLAN_KIND_LABELS[planKind]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Plan Name"
+              value={planName}
+              onChange={(e) => setPlanName(e.target.value)}
+              disabled={isSaving}
+              placeholder="e.g. 2026 Pilot"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Coach Seats"
+              type="number"
+              value={coachSeats}
+              onChange={(e) => setCoachSeats(e.target.value)}
+              disabled={isSaving}
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+              fullWidth
+            />
+            <TextField
+              label="View-Only Seats"
+              type="number"
+              value={viewOnlySeats}
+              onChange={(e) => setViewOnlySeats(e.target.value)}
+              disabled={isSaving}
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+              fullWidth
+            />
+            <TextField
+              label="Start Date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              disabled={isSaving}
+              required
+              slotProps={{ inputLabel: { shrink: true } }}
+              fullWidth
+            />
+            <TextField
+              label="End Date"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              disabled={isSaving}
+              required
+              slotProps={{ inputLabel: { shrink: true } }}
+              fullWidth
+            />
+          </Box>
+          <TextField
+            label="Note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={isSaving}
+            placeholder="e.g. Invoice #1042, paid by bank transfer"
+            helperText="Shown to the club's admins on their subscriptions page"
+            multiline
+            minRows={2}
+            fullWidth
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSaving}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            {isSaving ? <CircularProgress size={24} /> : plan ? 'Save' : 'Create Plan'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
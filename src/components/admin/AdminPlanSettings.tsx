@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { CardGiftcard as PlanIcon, Add as AddIcon } from '@mui/icons-material';
+import { getClubAdminPlans, endAdminPlan } from '@/lib/adminPlans';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  ADMIN_PLAN_KIND_LABELS,
+  ADMIN_PLAN_STATE_COLORS,
+  ADMIN_PLAN_STATE_LABELS,
+  getAdminPlanState,
+  type ClubAdminPlan,
+} from '@/config/adminPlans';
+import { formatDate } from '@/utils/dateHelpers';
+import type { AdminPlan, Club } from '@/types';
+import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
+import AdminPlanDialog from './AdminPlanDialog';
+import { appColors } from '@/theme';
+
+interface AdminPlanSettingsProps {
+  club: Club;
+  onAdminPlanChange: (adminPlan: ClubAdminPlan | null) => void;
+}
+
+interface LoadedPlans {
+  plans: AdminPlan[];
+  loadedAt: number;
+}
+
+/**
+ * Complimentary and manually invoiced plans for a club (super admins)
+ */
+export default function AdminPlanSettings({ club, onAdminPlanChange }: AdminPlanSettingsProps) {
+  const { showSuccess } = useToast();
+  const [loaded, setLoaded] = useState<LoadedPlans | null>(null);
+  // undefined: dialog closed. null: creating a plan.
+  const [editingPlan, setEditingPlan] = useState<AdminPlan | null | undefined>(undefined);
+  const [endingPlan, setEndingPlan] = useState<AdminPlan | null>(null);
+  const [isEnding, setIsEnding] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPlans = useCallback(() => {
+    getClubAdminPlans(club.id)
+      .then((plans) => setLoaded({ plans, loadedAt: Date.now() }))
+      .catch((err) => {
+        console.error('Error loading admin plans:', err);
+        setLoaded({ plans: [], loadedAt: Date.now() });
+        setError(err instanceof Error ? err.message : 'Failed to load plans');
+      });
+  }, [club.id]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const plans = loaded?.plans || [];
+  const currentPlan = loaded
+    ? plans.find((plan) => plan.id === club.adminPlan?.subscriptionId && getAdminPlanState(plan, loaded.loadedAt) !== 'ended')
+    : undefined;
+
+  const handleOpenDialog = (plan: AdminPlan | null) => {
+    setError('');
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+    setEditingPlan(plan);
+  };
+
+  const handleSaved = (adminPlan: ClubAdminPlan) => {
+    setEditingPlan(undefined);
+    onAdminPlanChange(adminPlan);
+    loadPlans();
+  };
+
+  const handleEnd = async () => {
+    if (!endingPlan) return;
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      setEndingPlan(null);
+      return;
+    }
+
+    try {
+      setIsEnding(true);
+      await endAdminPlan(club, endingPlan);
+      showSuccess(`${endingPlan.planName} ended`);
+      if (club.adminPlan?.subscriptionId === endingPlan.id) {
+        onAdminPlanChange(null);
+      }
+      loadPlans();
+    } catch (err) {
+      console.error('Error ending admin plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to end the plan');
+    } finally {
+      setIsEnding(false);
+      setEndingPlan(null);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <PlanIcon sx={{ color: appColors.textSecondary }} />
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Admin-Managed Plan
+          </Typography>
+        </Box>
+        {loaded && !currentPlan && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog(null)}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            Create Plan
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Give the club access without Stripe, free of charge or invoiced outside the dashboard. The plan&apos;s seats
+        are added to any seats the club pays for through Stripe, from the start date until the end of the end date.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {!loaded ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : plans.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          This club has no admin-managed plans.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Plan</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell align="right">Coach Seats</TableCell>
+              <TableCell align="right">View-Only Seats</TableCell>
+              <TableCell>Period</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Note</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plans.map((plan) => {
+              const state = getAdminPlanState(plan, loaded.loadedAt);
+              return (
+                <TableRow key={plan.id}>
+                  <TableCell sx={{ fontWeight: 'medium' }}>{plan.planName}</TableCell>
+                  <TableCell>{ADMIN_PLAN_KIND_LABELS[plan.adminPlanKind] || plan.adminPlanKind}</TableCell>
+                  <TableCell align="right">{plan.maxCoachAccounts ?? 0}</TableCell>
+                  <TableCell align="right">{plan.maxViewOnlyUsers ?? 0}</TableCell>
+                  <TableCell>
+                    {formatDate(plan.currentPeriodStart)} – {formatDate(plan.currentPeriodEnd)}
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={ADMIN_PLAN_STATE_LABELS[state]} color={ADMIN_PLAN_STATE_COLORS[state]} size="small" />
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 240, whiteSpace: 'pre-wrap' }}>{plan.note || '—'}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    {plan.id === currentPlan?.id && (
+                      <>
+                        <Button size="small" onClick={() => handleOpenDialog(plan)}>
+                          Edit
+                        </Button>
+                        <Button size="small" color="error" onClick={() => setEndingPlan(plan)}>
+                          End Plan
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {editingPlan !== undefined && (
+        <AdminPlanDialog
+          club={club}
+          plan={editingPlan}
+          onClose={() => setEditingPlan(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={endingPlan !== null}
+        onClose={() => setEndingPlan(null)}
+        onConfirm={handleEnd}
+        title="End Plan"
+        message={`End ${endingPlan?.planName || 'this plan'} now? ${club.name} keeps only the access and seats of its Stripe subscriptions.`}
+        confirmText="End Plan"
+        confirmButtonColor="error"
+        isLoading={isEnding}
+      />
+    </Paper>
+  );
+}
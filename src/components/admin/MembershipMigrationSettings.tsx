@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { Paper, Box, Typography, Button, Alert, CircularProgress } from '@mui/material';
+import { Business as BusinessIcon } from '@mui/icons-material';
+import { migrateMemberships } from '@/lib/clubMemberships';
+import { useToast } from '@/contexts/ToastContext';
+import { appColors } from '@/theme';
+
+/**
+ * One-off migration of single-club users to multi-club memberships (super admins)
+ */
+export default function MembershipMigrationSettings() {
+  const { showSuccess } = useToast();
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleMigrate = async () => {
+    setError('');
+
+    try {
+      setIsMigrating(true);
+      const migratedCount = await migrateMemberships();
+      showSuccess(
+        migratedCount > 0 ? `Migrated ${migratedCount} user(s) to club memberships` : 'All users are already migrated'
+      );
+    } catch (err) {
+      console.error('Error migrating memberships:', err);
+      setError(err instanceof Error ? err.message : 'Failed to migrate memberships');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <BusinessIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Club Memberships
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Users can belong to more than one club. Users created before that keep working with their single club and are
+        migrated when they join a second one. Migrate them all at once to store every user&apos;s club as a membership.
+        Safe to run more than once.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Button
+        variant="contained"
+        onClick={handleMigrate}
+        disabled={isMigrating}
+        sx={{
+          backgroundColor: appColors.primary,
+          color: appColors.primaryText,
+          fontWeight: 'bold',
+          '&:hover': { backgroundColor: appColors.primaryHover },
+        }}
+      >
+        {isMigrating ? <CircularProgress size={20} /> : 'Migrate Users'}
+      </Button>
+    </Paper>
+  );
+}
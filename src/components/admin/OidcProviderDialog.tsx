@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  Box,
+  Typography,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { Key as KeyIcon } from '@mui/icons-material';
+import {
+  saveOidcProvider,
+  parseEmailDomains,
+  DEFAULT_OIDC_BUTTON_COLOR,
+  DEFAULT_OIDC_BUTTON_TEXT_COLOR,
+} from '@/lib/oidcProviders';
+import type { OidcProvider } from '@/types';
+import { appColors } from '@/theme';
+
+interface OidcProviderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  // Provider being edited, or null to add a new one
+  provider: OidcProvider | null;
+}
+
+export default function OidcProviderDialog({ open, onClose, onSaved, provider }: OidcProviderDialogProps) {
+  // The page remounts this dialog for each provider, so state starts from the provider being edited
+  const [providerId, setProviderId] = useState(provider?.id || 'oidc.');
+  const [displayName, setDisplayName] = useState(provider?.displayName || '');
+  const [buttonColor, setButtonColor] = useState(provider?.buttonColor || DEFAULT_OIDC_BUTTON_COLOR);
+  const [buttonTextColor, setButtonTextColor] = useState(provider?.buttonTextColor || DEFAULT_OIDC_BUTTON_TEXT_COLOR);
+  const [logoUrl, setLogoUrl] = useState(provider?.logoUrl || '');
+  const [allowedDomains, setAllowedDomains] = useState((provider?.allowedEmailDomains || []).join(', '));
+  const [enabled, setEnabled] = useState(provider?.enabled ?? true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      setIsSubmitting(true);
+      await saveOidcProvider(
+        {
+          id: providerId,
+          displayName,
+          buttonColor,
+          buttonTextColor,
+          logoUrl,
+          allowedEmailDomains: parseEmailDomains(allowedDomains),
+          enabled,
+        },
+        provider === null
+      );
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving sign-in provider:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save sign-in provider. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          {provider ? 'Edit Sign-In Provider' : 'Add Sign-In Provider'}
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <TextField
+            fullWidth
+            label="Provider ID"
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value.toLowerCase())}
+            margin="normal"
+            required
+            disabled={provider !== null}
+            helperText="Must match the OIDC provider ID in Firebase Authentication, e.g. oidc.county-board"
+          />
+          <TextField
+            fullWidth
+            label="Display Name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            margin="normal"
+            required
+            helperText='Shown on the button, e.g. "Sign in with County Board"'
+          />
+          <TextField
+            fullWidth
+            label="Allowed Email Domains"
+            value={allowedDomains}
+            onChange={(e) => setAllowedDomains(e.target.value)}
+            margin="normal"
+            helperText="Comma separated, e.g. countyboard.ie. Leave empty to allow any email."
+          />
+          <TextField
+            fullWidth
+            label="Logo URL"
+            value={logoUrl}
+            onChange={(e) => setLogoUrl(e.target.value)}
+            margin="normal"
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              fullWidth
+              label="Button Color"
+              type="color"
+              value={buttonColor}
+              onChange={(e) => setButtonColor(e.target.value)}
+              margin="normal"
+            />
+            <TextField
+              fullWidth
+              label="Button Text Color"
+              type="color"
+              value={buttonTextColor}
+              onChange={(e) => setButtonTextColor(e.target.value)}
+              margin="normal"
+            />
+          </Box>
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+            label="Show on the login and signup pages"
+            sx={{ mt: 1 }}
+          />
+
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold', mt: 2, mb: 1 }}>
+            Preview
+          </Typography>
+          <Button
+            fullWidth
+            variant="outlined"
+            startIcon={
+              logoUrl ? (
+                <Box component="img" src={logoUrl} alt="" sx={{ width: 20, height: 20, objectFit: 'contain' }} />
+              ) : (
+                <KeyIcon />
+              )
+            }
+            tabIndex={-1}
+            sx={{
+              bgcolor: buttonColor,
+              color: buttonTextColor,
+              borderColor: buttonColor,
+              pointerEvents: 'none',
+            }}
+          >
+            Sign in with {displayName || 'Provider'}
+          </Button>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={handleClose} disabled={isSubmitting} sx={{ color: appColors.textSecondary }}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            {isSubmitting ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import {
+  Box,
+  Card,
+  CardContent,
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import {
+  TrendingUp as TrendingUpIcon,
+  Autorenew as AutorenewIcon,
+  HourglassEmpty as TrialIcon,
+  CheckCircle as ConversionIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import {
+  getMonthlyAmount,
+  getMonthlyRevenue,
+  getMrr,
+  getSubscriptionAmount,
+  getTrialConversion,
+  getTrialMrr,
+  getUpcomingCancellations,
+  getUpcomingRenewals,
+  isPaying,
+  type RevenueSubscription,
+} from '@/utils/revenue';
+import { downloadCsv, toCsv } from '@/utils/csv';
+import { formatDate, toDate } from '@/utils/dateHelpers';
+import { appColors } from '@/theme';
+
+interface RevenueAnalyticsProps {
+  subscriptions: RevenueSubscription[];
+  // When the subscriptions were loaded; every figure is worked out as of this time
+  now: number;
+}
+
+const RENEWAL_WINDOW_DAYS = 30;
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+  }).format(amount);
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+}
+
+// CSV dates are ISO (YYYY-MM-DD) so spreadsheets sort them correctly
+function formatCsvDate(value: unknown): string {
+  return toDate(value)?.toISOString().slice(0, 10) || '';
+}
+
+function SubscriptionDatesTable({
+  title,
+  emptyMessage,
+  subscriptions,
+}: {
+  title: string;
+  emptyMessage: string;
+  subscriptions: RevenueSubscription[];
+}) {
+  return (
+    <Paper sx={{ p: 3, flex: '1 1 400px' }}>
+      <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary, mb: 2 }}>
+        {title}
+      </Typography>
+      {subscriptions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {emptyMessage}
+        </Typography>
+      ) : (
+        <TableContainer sx={{ maxHeight: 360 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>Club</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }}>Date</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">MRR</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {subscriptions.map((subscription) => (
+                <TableRow key={subscription.id}>
+                  <TableCell>{subscription.clubName || 'N/A'}</TableCell>
+                  <TableCell>{formatDate(subscription.currentPeriodEnd)}</TableCell>
+                  <TableCell align="right">{formatCurrency(getMonthlyAmount(subscription))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
+
+/**
+ * Revenue figures worked out from the subscriptions collection: MRR, new and churned MRR by month,
+ * trial conversion and upcoming renewals and cancellations
+ */
+export default function RevenueAnalytics({ subscriptions, now }: RevenueAnalyticsProps) {
+  const mrr = getMrr(subscriptions);
+  const trialMrr = getTrialMrr(subscriptions);
+  const conversion = getTrialConversion(subscriptions, now);
+  const monthly = getMonthlyRevenue(subscriptions, now);
+  const renewals = getUpcomingRenewals(subscriptions, now, RENEWAL_WINDOW_DAYS);
+  const cancellations = getUpcomingCancellations(subscriptions, now);
+  const payingCount = subscriptions.filter(isPaying).length;
+
+  const stats = [
+    {
+      label: 'MRR',
+      value: formatCurrency(mrr),
+      caption: `${formatCurrency(mrr * 12)} ARR from ${payingCount} paying subscription${payingCount !== 1 ? 's' : ''}`,
+      icon: <TrendingUpIcon sx={{ fontSize: 40, color: appColors.primary }} />,
+    },
+    {
+      label: 'Trial MRR',
+      value: formatCurrency(trialMrr),
+      caption: 'If every current trial converts',
+      icon: <TrialIcon sx={{ fontSize: 40, color: appColors.primary }} />,
+    },
+    {
+      label: 'Trial Conversion',
+      value: conversion.conversionRate === null ? 'N/A' : `${Math.round(conversion.conversionRate * 100)}%`,
+      caption: `${conversion.trialsConverted} of ${conversion.trialsEnded} ended trials converted`,
+      icon: <ConversionIcon sx={{ fontSize: 40, color: appColors.primary }} />,
+    },
+    {
+      label: 'Renewing Soon',
+      value: String(renewals.length),
+      caption: `${formatCurrency(renewals.reduce((total, s) => total + getSubscriptionAmount(s), 0))} due in ${RENEWAL_WINDOW_DAYS} days`,
+      icon: <AutorenewIcon sx={{ fontSize: 40, color: appColors.primary }} />,
+    },
+  ];
+
+  const handleExportMonthly = () => {
+    downloadCsv(
+      'revenue-by-month.csv',
+      toCsv(
+        ['Month', 'New MRR', 'Churned MRR', 'Net New MRR', 'New Subscriptions', 'Churned Subscriptions', 'Trials Ended', 'Trials Converted'],
+        monthly.map((entry) => [
+          entry.month,
+          entry.newMrr.toFixed(2),
+          entry.churnedMrr.toFixed(2),
+          entry.netNewMrr.toFixed(2),
+          entry.newSubscriptions,
+          entry.churnedSubscriptions,
+          entry.trialsEnded,
+          entry.trialsConverted,
+        ])
+      )
+    );
+  };
+
+  const handleExportSubscriptions = () => {
+    downloadCsv(
+      'subscriptions-revenue.csv',
+      toCsv(
+        ['Subscription ID', 'Club', 'Status', 'Plan Type', 'Price', 'MRR', 'Trial Start', 'Trial End', 'Current Period End', 'Cancels At Period End', 'Canceled At'],
+        subscriptions.map((subscription) => [
+          subscription.id,
+          subscription.clubName,
+          subscription.status,
+          subscription.planType,
+          getSubscriptionAmount(subscription).toFixed(2),
+          getMonthlyAmount(subscription).toFixed(2),
+          formatCsvDate(subscription.trialStartDate),
+          formatCsvDate(subscription.trialEndDate),
+          formatCsvDate(subscription.currentPeriodEnd),
+          subscription.cancelAtPeriodEnd ? 'Yes' : 'No',
+          formatCsvDate(subscription.canceledAt),
+        ])
+      )
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' }, gap: 3 }}>
+        {stats.map((stat) => (
+          <Card key={stat.label} sx={{ height: '100%' }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                {stat.icon}
+                <Box sx={{ ml: 2 }}>
+                  <Typography variant="h5" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+                    {stat.value}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {stat.label}
+                  </Typography>
+                </Box>
+              </Box>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                {stat.caption}
+              </Typography>
+            </CardContent>
+          </Card>
+        ))}
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            MRR by Month
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button size="small" startIcon={<DownloadIcon />} onClick={handleExportMonthly}>
+              Monthly CSV
+            </Button>
+            <Button size="small" startIcon={<DownloadIcon />} onClick={handleExportSubscriptions}>
+              Subscriptions CSV
+            </Button>
+          </Box>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          New MRR counts in the month a subscription started paying (the end of its trial). Churned MRR counts in the
+          month a paying subscription was canceled. Annual plans count as a twelfth of their price.
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>Month</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">New MRR</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">Churned MRR</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">Net New MRR</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">New / Churned</TableCell>
+                <TableCell sx={{ fontWeight: 'bold' }} align="right">Trials Converted</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {[...monthly].reverse().map((entry) => (
+                <TableRow key={entry.month}>
+                  <TableCell>{formatMonth(entry.month)}</TableCell>
+                  <TableCell align="right">{formatCurrency(entry.newMrr)}</TableCell>
+                  <TableCell align="right" sx={{ color: entry.churnedMrr > 0 ? appColors.error : undefined }}>
+                    {formatCurrency(entry.churnedMrr)}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ fontWeight: 'bold', color: entry.netNewMrr < 0 ? appColors.error : appColors.success }}
+                  >
+                    {formatCurrency(entry.netNewMrr)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {entry.newSubscriptions} / {entry.churnedSubscriptions}
+                  </TableCell>
+                  <TableCell align="right">
+                    {entry.trialsEnded > 0 ? `${entry.trialsConverted} of ${entry.trialsEnded}` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+        <SubscriptionDatesTable
+          title={`Renewals in the Next ${RENEWAL_WINDOW_DAYS} Days`}
+          emptyMessage="No subscriptions renew in this period."
+          subscriptions={renewals}
+        />
+        <SubscriptionDatesTable
+          title="Upcoming Cancellations"
+          emptyMessage="No subscriptions are set to cancel."
+          subscriptions={cancellations}
+        />
+      </Box>
+    </Box>
+  );
+}
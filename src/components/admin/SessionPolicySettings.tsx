@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  InputAdornment,
+} from '@mui/material';
+import { Timer as TimerIcon } from '@mui/icons-material';
+import {
+  getSessionPolicy,
+  saveSessionPolicy,
+  SESSION_POLICY_ROLES,
+  type SessionPolicy,
+  type SessionPolicyRole,
+} from '@/lib/sessionPolicy';
+import { getRoleLabel } from '@/config/roles';
+import { useToast } from '@/contexts/ToastContext';
+import { appColors } from '@/theme';
+
+/**
+ * Idle timeout per role for dashboard sessions (super admins)
+ */
+export default function SessionPolicySettings() {
+  const { showSuccess } = useToast();
+  // Text values so the inputs can be cleared while typing
+  const [minutes, setMinutes] = useState<Record<SessionPolicyRole, string> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getSessionPolicy()
+      .then((policy) => {
+        const values = {} as Record<SessionPolicyRole, string>;
+        SESSION_POLICY_ROLES.forEach((role) => {
+          values[role] = String(policy.idleTimeoutMinutes[role]);
+        });
+        setMinutes(values);
+      })
+      .catch((err) => {
+        console.error('Error loading session policy:', err);
+        setError('Failed to load the session policy');
+      });
+  }, []);
+
+  const handleSave = async () => {
+    if (!minutes) return;
+    setError('');
+
+    const policy: SessionPolicy = { idleTimeoutMinutes: {} as SessionPolicy['idleTimeoutMinutes'] };
+    SESSION_POLICY_ROLES.forEach((role) => {
+      policy.idleTimeoutMinutes[role] = Number(minutes[role]);
+    });
+
+    try {
+      setIsSaving(true);
+      await saveSessionPolicy(policy);
+      showSuccess('Session policy saved. It applies the next time each dashboard is loaded.');
+    } catch (err) {
+      console.error('Error saving session policy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the session policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <TimerIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Idle Timeout
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Users are warned and then signed out of every open tab after this many minutes without activity. Use 0 to
+        keep users signed in.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {minutes === null ? (
+        !error && <CircularProgress size={24} />
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+            {SESSION_POLICY_ROLES.map((role) => (
+              <TextField
+                key={role}
+                label={getRoleLabel(role)}
+                type="number"
+                value={minutes[role]}
+                onChange={(e) => setMinutes({ ...minutes, [role]: e.target.value })}
+                slotProps={{
+                  htmlInput: { min: 0, max: 1440, step: 1 },
+                  input: { endAdornment: <InputAdornment position="end">min</InputAdornment> },
+                }}
+                sx={{ width: 220 }}
+              />
+            ))}
+          </Box>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={isSaving}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            {isSaving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import {
   Table,
   TableBody,
@@ -16,14 +17,17 @@ import {
   Chip,
   CircularProgress,
   TablePagination,
+  Tooltip,
 } from '@mui/material';
 import {
   KeyboardArrowDown as ExpandIcon,
   KeyboardArrowUp as CollapseIcon,
   People as PeopleIcon,
   Visibility as VisibilityIcon,
+  ReceiptLong as EventsIcon,
 } from '@mui/icons-material';
 import { formatDate } from '@/utils/dateHelpers';
+import { ADMIN_PLAN_KIND_LABELS, isAdminPlan, type AdminPlanKind } from '@/config/adminPlans';
 import { appColors } from '@/theme';
 
 import type { Timestamp } from 'firebase/firestore';
@@ -35,6 +39,9 @@ interface Subscription {
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
   subscriptionType?: string;
+  // Admin-managed plan fields (see config/adminPlans)
+  source?: string;
+  adminPlanKind?: AdminPlanKind;
   productName?: string;
   planName?: string;
   // Coach Account fields
@@ -108,6 +115,18 @@ function getStatusLabel(status: string | undefined): string {
   return statusMap[status || ''] || status || 'Unknown';
 }
 
+/**
+ * Link to the webhook event inspector, filtered to the subscription's Stripe customer (or its club)
+ */
+function getEventsPath(subscription: Subscription): string {
+  if (subscription.stripeCustomerId) {
+    return `/admin/subscriptions/events?customer=${encodeURIComponent(subscription.stripeCustomerId)}`;
+  }
+  return subscription.clubId
+    ? `/admin/subscriptions/events?club=${encodeURIComponent(subscription.clubId)}`
+    : '/admin/subscriptions/events';
+}
+
 // Expandable Row Component
 function SubscriptionRow({
   subscription,
@@ -116,6 +135,7 @@ function SubscriptionRow({
   subscription: Subscription;
   showClubName: boolean;
 }) {
+  const router = useRouter();
   const [open, setOpen] = useState(false);
 
   const hasCoachAccount = subscription.maxCoachAccounts !== undefined && subscription.maxCoachAccounts !== null;
@@ -161,7 +181,11 @@ function SubscriptionRow({
             <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
               {subscription.planName || subscription.productName || 'N/A'}
             </Typography>
-            {hasBothProducts && (
+            {isAdminPlan(subscription) ? (
+              <Typography variant="caption" color="text.secondary">
+                Admin-managed: {ADMIN_PLAN_KIND_LABELS[subscription.adminPlanKind as AdminPlanKind] || 'Plan'}
+              </Typography>
+            ) : hasBothProducts && (
               <Typography variant="caption" color="text.secondary">
                 Bundle: Coach + View Only
               </Typography>
@@ -176,9 +200,15 @@ function SubscriptionRow({
           />
         </TableCell>
         <TableCell>
-          <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-            {formatCurrency(subscription.price)}/yr
-          </Typography>
+          {isAdminPlan(subscription) ? (
+            <Typography variant="body2" color="text.secondary">
+              {subscription.adminPlanKind === 'complimentary' ? 'Free' : 'Invoiced'}
+            </Typography>
+          ) : (
+            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+              {formatCurrency(subscription.price)}/yr
+            </Typography>
+          )}
         </TableCell>
         <TableCell>
           {hasCoachAccount ? subscription.maxCoachAccounts : 'N/A'}
@@ -196,12 +226,26 @@ function SubscriptionRow({
             <Typography variant="body2" color="text.secondary">No</Typography>
           )}
         </TableCell>
+        <TableCell sx={{ width: 60 }}>
+          <Tooltip title="Webhook events">
+            <IconButton
+              size="small"
+              aria-label="webhook events"
+              onClick={(e) => {
+                e.stopPropagation();
+                router.push(getEventsPath(subscription));
+              }}
+            >
+              <EventsIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </TableCell>
       </TableRow>
 
       {/* Expandable Detail Row */}
       {hasBothProducts && (
         <TableRow>
-          <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={showClubName ? 10 : 9}>
+          <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={showClubName ? 11 : 10}>
             <Collapse in={open} timeout="auto" unmountOnExit>
               <Box sx={{ py: 2, px: 3, bgcolor: 'grey.50' }}>
                 <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
@@ -327,6 +371,7 @@ export default function SubscriptionList({
               <TableCell sx={{ fontWeight: 'bold' }}>Max View Only</TableCell>
               <TableCell sx={{ fontWeight: 'bold' }}>Next Billing</TableCell>
               <TableCell sx={{ fontWeight: 'bold' }}>Cancels</TableCell>
+              <TableCell sx={{ fontWeight: 'bold' }}>Events</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -339,7 +384,7 @@ export default function SubscriptionList({
             ))}
             {paginatedSubscriptions.length === 0 && (
               <TableRow>
-                <TableCell colSpan={showClubName ? 10 : 9} align="center">
+                <TableCell colSpan={showClubName ? 11 : 10} align="center">
                   <Typography variant="body2" color="text.secondary" sx={{ py: 4 }}>
                     No subscriptions found
                   </Typography>
@@ -0,0 +1,114 @@
+'use client';
+
+import { Paper, Box, Typography, Chip, Divider, Stack } from '@mui/material';
+import { TrendingUp as TrendingUpIcon } from '@mui/icons-material';
+import type { User } from '@/types';
+import { appColors } from '@/theme';
+import { formatDate } from '@/utils/dateHelpers';
+import { getRoleLabel } from '@/config/roles';
+import { INACTIVE_AFTER_DAYS } from '@/lib/loginActivity';
+
+interface UserActivityProps {
+  totalUsers: number;
+  dailyActiveUsers: number;
+  weeklyActiveUsers: number;
+  monthlyActiveUsers: number;
+  inactiveUsers: User[];
+  loading?: boolean;
+}
+
+// Only the least recently active users are listed on the dashboard
+const MAX_INACTIVE_SHOWN = 10;
+
+export default function UserActivity({
+  totalUsers,
+  dailyActiveUsers,
+  weeklyActiveUsers,
+  monthlyActiveUsers,
+  inactiveUsers,
+  loading = false,
+}: UserActivityProps) {
+  const metrics = [
+    { label: 'Daily Active', value: dailyActiveUsers },
+    { label: 'Weekly Active', value: weeklyActiveUsers },
+    { label: 'Monthly Active', value: monthlyActiveUsers },
+  ];
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <TrendingUpIcon sx={{ mr: 1, color: appColors.success }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          User Activity
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 3, mb: 3 }}>
+        {metrics.map((metric) => (
+          <Box key={metric.label}>
+            <Typography variant="h5" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+              {loading ? '...' : metric.value.toLocaleString()}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {metric.label}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {loading || totalUsers === 0 ? '' : `${Math.round((metric.value / totalUsers) * 100)}% of users`}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+
+      <Divider sx={{ mb: 2 }} />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1.5 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Inactive for {INACTIVE_AFTER_DAYS}+ days
+        </Typography>
+        <Chip
+          label={loading ? '...' : inactiveUsers.length}
+          size="small"
+          sx={{
+            ml: 2,
+            backgroundColor: inactiveUsers.length > 0 ? appColors.warning : appColors.backgroundGrey,
+            color: inactiveUsers.length > 0 ? '#fff' : appColors.textSecondary,
+          }}
+        />
+      </Box>
+
+      {!loading && inactiveUsers.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Everyone has signed in within the last {INACTIVE_AFTER_DAYS} days.
+        </Typography>
+      ) : (
+        <Stack spacing={1}>
+          {inactiveUsers.slice(0, MAX_INACTIVE_SHOWN).map((inactiveUser) => (
+            <Box
+              key={inactiveUser.id}
+              sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}
+            >
+              <Box sx={{ minWidth: 0 }}>
+                <Typography variant="body2" sx={{ fontWeight: 'medium' }} noWrap>
+                  {inactiveUser.displayName ||
+                    `${inactiveUser.firstName || ''} ${inactiveUser.lastName || ''}`.trim() ||
+                    inactiveUser.email}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" noWrap>
+                  {inactiveUser.email} · {getRoleLabel(inactiveUser.role)}
+                </Typography>
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                {inactiveUser.lastLoginAt ? `Last login ${formatDate(inactiveUser.lastLoginAt)}` : 'Never signed in'}
+              </Typography>
+            </Box>
+          ))}
+          {inactiveUsers.length > MAX_INACTIVE_SHOWN && (
+            <Typography variant="caption" color="text.secondary">
+              and {inactiveUsers.length - MAX_INACTIVE_SHOWN} more - see Manage Users for everyone&apos;s last login
+            </Typography>
+          )}
+        </Stack>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Alert,
+  Box,
+  Chip,
+} from '@mui/material';
+import {
+  WEBHOOK_PROCESSING_STATUS_LABELS,
+  formatDocumentJson,
+  type WebhookProcessingStatus,
+} from '@/lib/stripeWebhookEvents';
+import type { StripeWebhookEvent } from '@/types';
+import { appColors } from '@/theme';
+import { formatDateTime } from '@/utils/dateHelpers';
+
+// A subscriptions document as stored (shown raw)
+export type SubscriptionDocument = { id: string } & Record<string, unknown>;
+
+interface WebhookEventDialogProps {
+  open: boolean;
+  onClose: () => void;
+  event: StripeWebhookEvent | null;
+  status: WebhookProcessingStatus;
+  createdAt: Date | null;
+  // The subscriptions document the event updated, matched by Stripe subscription or customer
+  subscription: SubscriptionDocument | null;
+}
+
+export const WEBHOOK_STATUS_COLORS: Record<WebhookProcessingStatus, 'success' | 'error' | 'warning' | 'default'> = {
+  processed: 'success',
+  failed: 'error',
+  unprocessed: 'warning',
+  pending: 'default',
+};
+
+function JsonPanel({ title, value, emptyMessage }: { title: string; value: unknown; emptyMessage: string }) {
+  return (
+    <Box sx={{ flex: '1 1 360px', minWidth: 0 }}>
+      <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+        {title}
+      </Typography>
+      {value ? (
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 2,
+            maxHeight: 480,
+            overflow: 'auto',
+            bgcolor: 'grey.50',
+            border: '1px solid #e0e0e0',
+            borderRadius: 1,
+            fontFamily: 'monospace',
+            fontSize: '0.75rem',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-all',
+          }}
+        >
+          {formatDocumentJson(value)}
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          {emptyMessage}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * A webhook event's raw payload next to the subscriptions document it produced
+ */
+export default function WebhookEventDialog({
+  open,
+  onClose,
+  event,
+  status,
+  createdAt,
+  subscription,
+}: WebhookEventDialogProps) {
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+        {event?.type || 'Unknown event'}
+        <Chip label={WEBHOOK_PROCESSING_STATUS_LABELS[status]} color={WEBHOOK_STATUS_COLORS[status]} size="small" />
+      </DialogTitle>
+      <DialogContent>
+        {event && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {event.id} • Created {createdAt ? formatDateTime(createdAt) : 'N/A'}
+              {event.processedAt ? ` • Processed ${formatDateTime(event.processedAt)}` : ''}
+              {event.livemode === false ? ' • Test mode' : ''}
+            </Typography>
+
+            {status === 'failed' && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {event.error || 'The webhook reported this event as failed.'}
+              </Alert>
+            )}
+            {status === 'unprocessed' && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                This event was received but never processed, so the subscription may be missing its changes.
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+              <JsonPanel title="Event Payload" value={event} emptyMessage="No payload stored." />
+              <JsonPanel
+                title={subscription ? `Subscription Document (${subscription.id})` : 'Subscription Document'}
+                value={subscription}
+                emptyMessage="No subscriptions document matches this event's subscription or customer."
+              />
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@mui/material';
+import { usePermission } from '@/hooks/usePermission';
+import { getAddSeatsPath, type CheckoutSeatType } from '@/config/billing';
+
+interface AddSeatsButtonProps {
+  seatType: CheckoutSeatType;
+}
+
+/**
+ * Alert action for seat limit errors: opens checkout for more seats on the subscriptions page
+ * Hidden for members who can't manage billing.
+ */
+export default function AddSeatsButton({ seatType }: AddSeatsButtonProps) {
+  const router = useRouter();
+  const { allowed } = usePermission('subscription.manage');
+
+  if (!allowed) {
+    return null;
+  }
+
+  return (
+    <Button color="inherit" size="small" onClick={() => router.push(getAddSeatsPath(seatType))} sx={{ whiteSpace: 'nowrap' }}>
+      Add Seats
+    </Button>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { startSeatCheckout } from '@/lib/billing';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { CHECKOUT_SEAT_TYPES, MAX_CHECKOUT_QUANTITY, type CheckoutSeatType } from '@/config/billing';
+import { SEAT_TYPE_LABELS } from '@/config/seatLedger';
+import { appColors } from '@/theme';
+
+interface AddSeatsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  clubId: string;
+  initialSeatType?: CheckoutSeatType;
+}
+
+/**
+ * Choose seats to buy, then continue to Stripe Checkout
+ */
+export default function AddSeatsDialog({ open, onClose, clubId, initialSeatType = 'coach' }: AddSeatsDialogProps) {
+  const [seatType, setSeatType] = useState<CheckoutSeatType>(initialSeatType);
+  const [quantity, setQuantity] = useState('1');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const seats = Number(quantity);
+    if (!Number.isInteger(seats) || seats < 1 || seats > MAX_CHECKOUT_QUANTITY) {
+      setError(`Choose between 1 and ${MAX_CHECKOUT_QUANTITY} seats.`);
+      return;
+    }
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      // Leaves the dashboard for Stripe on success, so the dialog stays in its submitting state
+      await startSeatCheckout(clubId, seatType, seats);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to start checkout. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isSubmitting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle sx={{ fontWeight: 'bold' }}>Add Seats</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            You&apos;ll continue to Stripe to pay. The new seats are added to your club once the payment is
+            confirmed.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>Seat Type</InputLabel>
+            <Select
+              value={seatType}
+              label="Seat Type"
+              onChange={(e) => setSeatType(e.target.value as CheckoutSeatType)}
+              disabled={isSubmitting}
+            >
+              {CHECKOUT_SEAT_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {SEAT_TYPE_LABELS[type]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label="Number of Seats"
+            type="number"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            disabled={isSubmitting}
+            fullWidth
+            slotProps={{ htmlInput: { min: 1, max: MAX_CHECKOUT_QUANTITY } }}
+          />
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            sx={{
+              backgroundColor: appColors.primary,
+              color: appColors.primaryText,
+              fontWeight: 'bold',
+              '&:hover': { backgroundColor: appColors.primaryHover },
+            }}
+          >
+            {isSubmitting ? <CircularProgress size={24} /> : 'Continue to Payment'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { AdminPanelSettings as AdminIcon } from '@mui/icons-material';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getAdminGrants, grantTemporaryAdmin, revokeTemporaryAdmin } from '@/lib/adminGrants';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { useToast } from '@/contexts/ToastContext';
+import { getClubMembership } from '@/config/memberships';
+import { ADMIN_GRANT_MAX_DAYS, ADMIN_GRANT_ROLES } from '@/config/adminGrants';
+import { getRoleLabel } from '@/config/roles';
+import { formatDateTime } from '@/utils/dateHelpers';
+import type { AdminGrant, User } from '@/types';
+import { appColors } from '@/theme';
+
+interface AdminGrantsSettingsProps {
+  clubId: string;
+}
+
+/**
+ * Temporary club admin access: active grants and giving a member admin rights until a date
+ */
+export default function AdminGrantsSettings({ clubId }: AdminGrantsSettingsProps) {
+  const { showSuccess } = useToast();
+  const [grants, setGrants] = useState<AdminGrant[] | null>(null);
+  const [members, setMembers] = useState<User[]>([]);
+  const [userId, setUserId] = useState('');
+  const [untilDate, setUntilDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadGrants = useCallback(() => {
+    getAdminGrants()
+      .then(setGrants)
+      .catch((err) => {
+        console.error('Error loading admin grants:', err);
+        setGrants([]);
+        setError(err instanceof Error ? err.message : 'Failed to load temporary admin access');
+      });
+  }, []);
+
+  useEffect(() => {
+    loadGrants();
+  }, [loadGrants]);
+
+  // Members who can be given admin access (including members whose active club is another club)
+  useEffect(() => {
+    Promise.all([
+      getDocs(query(collection(db, 'users'), where('clubId', '==', clubId))),
+      getDocs(query(collection(db, 'users'), where('memberClubIds', 'array-contains', clubId))),
+    ])
+      .then(([activeSnapshot, membershipSnapshot]) => {
+        const membersById = new Map<string, User>();
+        [...activeSnapshot.docs, ...membershipSnapshot.docs].forEach((doc) => {
+          membersById.set(doc.id, { id: doc.id, ...doc.data() } as User);
+        });
+        setMembers([...membersById.values()]);
+      })
+      .catch((err) => console.error('Error loading members:', err));
+  }, [clubId, grants]);
+
+  const eligibleMembers = members.filter((member) => {
+    const membership = getClubMembership(member, clubId);
+    return !!membership && ADMIN_GRANT_ROLES.includes(membership.role) && !membership.suspended && !member.adminGrant;
+  });
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    // Access lasts until the end of the chosen day
+    const expiresAt = new Date(`${untilDate}T23:59:59`);
+    if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+      setError('Choose an end date in the future');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await grantTemporaryAdmin(userId, expiresAt);
+      showSuccess('Temporary admin access given');
+      setUserId('');
+      setUntilDate('');
+      loadGrants();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to give temporary admin access');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (grant: AdminGrant) => {
+    setError('');
+
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    try {
+      setRevokingId(grant.id);
+      await revokeTemporaryAdmin(grant.id);
+      showSuccess(`Admin access revoked for ${grant.userName || grant.email || 'the member'}`);
+      loadGrants();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke temporary admin access');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <AdminIcon sx={{ color: appColors.textSecondary }} />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+          Temporary Admin Access
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Give a member club admin rights until a date, for up to {ADMIN_GRANT_MAX_DAYS} days. They keep their role,
+        teams and seat, and the admin rights end automatically.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {grants === null ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : grants.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          No members have temporary admin access.
+        </Typography>
+      ) : (
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Member</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Given By</TableCell>
+              <TableCell>Ends</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {grants.map((grant) => (
+              <TableRow key={grant.id}>
+                <TableCell>{grant.userName || grant.email}</TableCell>
+                <TableCell>{getRoleLabel(grant.memberRole)}</TableCell>
+                <TableCell>{grant.grantedByName || 'Unknown'}</TableCell>
+                <TableCell>{formatDateTime(grant.expiresAt)}</TableCell>
+                <TableCell align="right">
+                  <Button
+                    size="small"
+                    color="error"
+                    onClick={() => handleRevoke(grant)}
+                    disabled={revokingId !== null}
+                  >
+                    {revokingId === grant.id ? <CircularProgress size={16} /> : 'Revoke'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Box component="form" onSubmit={handleGrant} sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>Member</InputLabel>
+          <Select value={userId} label="Member" onChange={(e) => setUserId(e.target.value)} disabled={isSaving}>
+            {eligibleMembers.map((member) => (
+              <MenuItem key={member.id} value={member.id}>
+                {member.displayName || member.email}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          label="Admin Until"
+          type="date"
+          size="small"
+          value={untilDate}
+          onChange={(e) => setUntilDate(e.target.value)}
+          disabled={isSaving}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={isSaving || !userId || !untilDate}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          {isSaving ? <CircularProgress size={20} /> : 'Give Admin Access'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
@@ -16,11 +16,20 @@ import {
   CircularProgress,
   Box,
   Typography,
+  Checkbox,
+  ListItemText,
 } from '@mui/material';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, updateDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { getEmailValidationError } from '@/utils/validation';
-import type { User } from '@/types';
+import { validateUserLimit } from '@/lib/subscriptionValidation';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { getClubMembership } from '@/config/memberships';
+import { changeMemberRole } from '@/lib/memberRoles';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
+import type { User, Team } from '@/types';
 import { appColors } from '@/theme';
 import { ROLE_CONFIG, INVITABLE_ROLES, type ClubRole } from '@/config/roles';
 
@@ -29,6 +38,8 @@ interface EditUserModalProps {
   onClose: () => void;
   onUserUpdated: () => void;
   user: User | null;
+  // Club whose membership is being edited (defaults to the user's active club)
+  clubId?: string;
 }
 
 export default function EditUserModal({
@@ -36,22 +47,44 @@ export default function EditUserModal({
   onClose,
   onUserUpdated,
   user,
+  clubId: clubIdProp,
 }: EditUserModalProps) {
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [email, setEmail] = useState('');
   const [role, setRole] = useState<User['role']>('view_only');
+  const [managedTeamIds, setManagedTeamIds] = useState<string[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
+
+  const clubId = clubIdProp || user?.clubId;
+  // Profile fields belong to the user; clubs other than their active club only change their membership
+  const isActiveClub = !!user && user.clubId === clubId;
 
   useEffect(() => {
     if (user) {
+      const membership = clubId ? getClubMembership(user, clubId) : null;
       setFirstName(user.firstName || '');
       setLastName(user.lastName || '');
       setEmail(user.email || '');
-      setRole(user.role || 'view_only');
+      setRole(membership?.role || user.role || 'view_only');
+      setManagedTeamIds(
+        membership?.managedTeamIds?.length ? membership.managedTeamIds : membership?.teamId ? [membership.teamId] : []
+      );
     }
-  }, [user]);
+  }, [user, clubId]);
+
+  // Teams a team manager can be given
+  useEffect(() => {
+    if (!clubId) return;
+
+    getDocs(query(collection(db, 'teams'), where('clubId', '==', clubId)))
+      .then((snapshot) => setTeams(snapshot.docs.map((d) => ({ id: d.id, ...d.data() }) as Team)))
+      .catch((err) => console.error('Error fetching teams:', err));
+  }, [clubId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,29 +92,82 @@ export default function EditUserModal({
 
     setError('');
 
+    setUpgradeSeatType(null);
+
     const emailError = getEmailValidationError(email);
     if (emailError) {
       setError(emailError);
       return;
     }
 
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
+    if (role === 'team_manager' && managedTeamIds.length === 0) {
+      setError('Select at least one team for the team manager');
+      return;
+    }
+
+    if (getRoleChange().roleChanged && clubId) {
+      requireStepUp(
+        saveUser,
+        'Changing a member\'s role changes their club access. Please confirm it\'s you to continue.'
+      );
+      return;
+    }
+    await saveUser();
+  };
+
+  // The role and teams being saved, and whether they differ from the user's membership in the club
+  const getRoleChange = () => {
+    const membership = clubId && user ? getClubMembership(user, clubId) : null;
+    const newManagedTeamIds = role === 'team_manager' ? managedTeamIds : [];
+    const roleChanged =
+      role !== membership?.role || newManagedTeamIds.join(',') !== (membership?.managedTeamIds || []).join(',');
+    return { membership, newManagedTeamIds, roleChanged };
+  };
+
+  const saveUser = async () => {
+    if (!user) return;
+
     try {
       setIsSubmitting(true);
 
-      await updateDoc(doc(db, 'users', user.id), {
-        firstName: firstName.trim(),
-        lastName: lastName.trim(),
-        email: email.trim().toLowerCase(),
-        displayName: `${firstName.trim()} ${lastName.trim()}`.trim(),
-        role,
-        updatedAt: serverTimestamp(),
-      });
+      const { membership, newManagedTeamIds, roleChanged } = getRoleChange();
+
+      if (roleChanged && clubId) {
+        // Checked again on the server; this gives the detailed reason
+        const newSeatType = ROLE_CONFIG[role as ClubRole]?.seatType;
+        if (newSeatType && newSeatType !== ROLE_CONFIG[membership?.role as ClubRole]?.seatType) {
+          const validation = await validateUserLimit(clubId, role, 1);
+          if (!validation.valid) {
+            setError(validation.reason || 'No seats available for this role');
+            setUpgradeSeatType(validation.upgradeSeatType || null);
+            return;
+          }
+        }
+
+        await changeMemberRole(clubId, user.id, role as ClubRole, newManagedTeamIds);
+      }
+
+      if (isActiveClub) {
+        await updateDoc(doc(db, 'users', user.id), {
+          firstName: firstName.trim(),
+          lastName: lastName.trim(),
+          email: email.trim().toLowerCase(),
+          displayName: `${firstName.trim()} ${lastName.trim()}`.trim(),
+          updatedAt: serverTimestamp(),
+        });
+      }
 
       onUserUpdated();
       onClose();
     } catch (err) {
       console.error('Error updating user:', err);
-      setError('Failed to update user. Please try again.');
+      // Role change errors come from the server and are shown as-is; Firestore errors are not
+      setError(err instanceof Error && !('code' in err) ? err.message : 'Failed to update user. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -90,6 +176,7 @@ export default function EditUserModal({
   const handleClose = () => {
     if (isSubmitting) return;
     setError('');
+    setUpgradeSeatType(null);
     onClose();
   };
 
@@ -103,11 +190,21 @@ export default function EditUserModal({
         </DialogTitle>
         <DialogContent>
           {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+            >
               {error}
             </Alert>
           )}
 
+          {!isActiveClub && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              This member is currently using another club, so only their role in this club can be changed.
+            </Alert>
+          )}
+
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, pt: 1 }}>
             <TextField
               label="First Name"
@@ -115,7 +212,7 @@ export default function EditUserModal({
               onChange={(e) => setFirstName(e.target.value)}
               required
               fullWidth
-              disabled={isSubmitting}
+              disabled={isSubmitting || !isActiveClub}
             />
 
             <TextField
@@ -124,7 +221,7 @@ export default function EditUserModal({
               onChange={(e) => setLastName(e.target.value)}
               required
               fullWidth
-              disabled={isSubmitting}
+              disabled={isSubmitting || !isActiveClub}
             />
 
             <TextField
@@ -134,7 +231,7 @@ export default function EditUserModal({
               onChange={(e) => setEmail(e.target.value)}
               required
               fullWidth
-              disabled={isSubmitting}
+              disabled={isSubmitting || !isActiveClub}
             />
 
             <FormControl fullWidth>
@@ -159,6 +256,29 @@ export default function EditUserModal({
                 ))}
               </Select>
             </FormControl>
+
+            {role === 'team_manager' && (
+              <FormControl fullWidth>
+                <InputLabel>Managed Teams</InputLabel>
+                <Select
+                  multiple
+                  value={managedTeamIds}
+                  label="Managed Teams"
+                  onChange={(e) => setManagedTeamIds(e.target.value as string[])}
+                  renderValue={(selected) =>
+                    selected.map((teamId) => teams.find((t) => t.id === teamId)?.name || teamId).join(', ')
+                  }
+                  disabled={isSubmitting}
+                >
+                  {teams.map((team) => (
+                    <MenuItem key={team.id} value={team.id}>
+                      <Checkbox checked={managedTeamIds.includes(team.id)} />
+                      <ListItemText primary={team.name} />
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
           </Box>
         </DialogContent>
         <DialogActions sx={{ p: 2 }}>
@@ -192,6 +312,7 @@ export default function EditUserModal({
           </Button>
         </DialogActions>
       </form>
+      {stepUpDialog}
     </Dialog>
   );
 }
@@ -17,10 +17,12 @@ import {
   Box,
   Typography,
 } from '@mui/material';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { getEmailValidationError } from '@/utils/validation';
 import { validateUserLimit } from '@/lib/subscriptionValidation';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { createInviteCodes } from '@/lib/seatLedger';
 import { useToast } from '@/contexts/ToastContext';
 import { appColors } from '@/theme';
 import { ROLE_CONFIG, INVITABLE_ROLES, type ClubRole } from '@/config/roles';
@@ -45,6 +47,7 @@ export default function GenerateReferralCodeDialog({
   const [role, setRole] = useState<ClubRole>('club_admin_coach');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
 
   const generateReferralCode = () => {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -58,6 +61,7 @@ export default function GenerateReferralCodeDialog({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setUpgradeSeatType(null);
 
     if (!email.trim()) {
       setError('Email is required');
@@ -70,6 +74,11 @@ export default function GenerateReferralCodeDialog({
       return;
     }
 
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -77,6 +86,7 @@ export default function GenerateReferralCodeDialog({
       const validation = await validateUserLimit(clubId, role, 1);
       if (!validation.valid) {
         setError(validation.reason || 'Cannot generate code: subscription limit exceeded');
+        setUpgradeSeatType(validation.upgradeSeatType || null);
         setIsSubmitting(false);
         return;
       }
@@ -84,21 +94,16 @@ export default function GenerateReferralCodeDialog({
       const code = generateReferralCode();
       const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
 
-      // Store referral code with code as document ID
-      await setDoc(doc(db, 'referral_codes', code), {
+      // Store referral code with code as document ID, holding its seat in the club's seat ledger
+      await createInviteCodes(clubId, [{
         code,
-        clubId,
         clubName,
         intendedRole: role,
         adminEmail: email.trim().toLowerCase(),
         isMemberInvitation: true, // Flag to trigger invitation email
         maxUses: 1,
-        usesCount: 0,
-        active: true,
-        createdAt: serverTimestamp(),
-        updated_at: serverTimestamp(),
         expiresAt,
-      });
+      }]);
 
       showSuccess('Referral code generated successfully!');
       setEmail('');
@@ -119,6 +124,7 @@ export default function GenerateReferralCodeDialog({
     setEmail('');
     setRole('club_admin_coach');
     setError('');
+    setUpgradeSeatType(null);
     onClose();
   };
 
@@ -130,7 +136,11 @@ export default function GenerateReferralCodeDialog({
         </DialogTitle>
         <DialogContent>
           {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+            >
               {error}
             </Alert>
           )}
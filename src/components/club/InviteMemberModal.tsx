@@ -17,10 +17,14 @@ import {
   Box,
   Typography,
 } from '@mui/material';
-import { doc, setDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { getEmailValidationError } from '@/utils/validation';
 import { validateUserLimit } from '@/lib/subscriptionValidation';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { createInviteCodes } from '@/lib/seatLedger';
 import { appColors } from '@/theme';
 import { ROLE_CONFIG, INVITABLE_ROLES, type ClubRole } from '@/config/roles';
 import type { Team } from '@/types';
@@ -47,6 +51,7 @@ export default function InviteMemberModal({
   const [loadingTeams, setLoadingTeams] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
   const [success, setSuccess] = useState(false);
 
   // Fetch teams for this club
@@ -92,6 +97,7 @@ export default function InviteMemberModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setUpgradeSeatType(null);
     setSuccess(false);
 
     if (!email.trim()) {
@@ -110,6 +116,11 @@ export default function InviteMemberModal({
       return;
     }
 
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -117,6 +128,7 @@ export default function InviteMemberModal({
       const validation = await validateUserLimit(clubId, role, 1);
       if (!validation.valid) {
         setError(validation.reason || 'Cannot invite member: subscription limit exceeded');
+        setUpgradeSeatType(validation.upgradeSeatType || null);
         setIsSubmitting(false);
         return;
       }
@@ -127,9 +139,9 @@ export default function InviteMemberModal({
 
       // Create referral code with isMemberInvitation flag
       // This will trigger the email Cloud Function
-      await setDoc(doc(db, 'referral_codes', referralCode), {
+      // createInviteCodes also holds the invitation's seat in the club's seat ledger
+      await createInviteCodes(clubId, [{
         code: referralCode,
-        clubId,
         clubName,
         teamId: selectedTeamId,
         teamName: selectedTeam?.name || '',
@@ -137,12 +149,8 @@ export default function InviteMemberModal({
         adminEmail: email.trim().toLowerCase(),
         isMemberInvitation: true, // Flag to trigger email
         maxUses: 1,
-        usesCount: 0,
-        active: true,
-        createdAt: serverTimestamp(),
-        updated_at: serverTimestamp(),
         expiresAt,
-      });
+      }]);
 
       setSuccess(true);
       setEmail('');
@@ -157,7 +165,8 @@ export default function InviteMemberModal({
       }, 2000);
     } catch (err) {
       console.error('Error creating referral code:', err);
-      setError('Failed to send invitation. Please try again.');
+      // Seat ledger errors explain what's missing; Firestore errors (with a code) don't
+      setError(err instanceof Error && !('code' in err) ? err.message : 'Failed to send invitation. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -169,6 +178,7 @@ export default function InviteMemberModal({
     setRole('coach');
     setSelectedTeamId(teams.length === 1 ? teams[0].id : '');
     setError('');
+    setUpgradeSeatType(null);
     setSuccess(false);
     onClose();
   };
@@ -181,7 +191,11 @@ export default function InviteMemberModal({
         </DialogTitle>
         <DialogContent>
           {error && (
-            <Alert severity="error" sx={{ mb: 2 }}>
+            <Alert
+              severity="error"
+              sx={{ mb: 2 }}
+              action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+            >
               {error}
             </Alert>
           )}
@@ -1,21 +1,30 @@
 'use client';
 
 import { useMemo } from 'react';
+import { Box, Chip } from '@mui/material';
 import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
-import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { Edit as EditIcon, Delete as DeleteIcon, History as HistoryIcon } from '@mui/icons-material';
 import type { User } from '@/types';
 import { appColors } from '@/theme';
 import { formatDate } from '@/utils/dateHelpers';
 import { getRoleLabel } from '@/config/roles';
+import { isInactiveUser } from '@/lib/loginActivity';
 
 interface MemberListProps {
   members: User[];
   onEdit?: (member: User) => void;
   onRemove?: (member: User) => void;
+  onViewRoleHistory?: (member: User) => void;
   loading?: boolean;
 }
 
-export default function MemberList({ members, onEdit, onRemove, loading = false }: MemberListProps) {
+export default function MemberList({
+  members,
+  onEdit,
+  onRemove,
+  onViewRoleHistory,
+  loading = false,
+}: MemberListProps) {
   const columns: GridColDef[] = useMemo(
     () => [
       {
@@ -39,8 +48,14 @@ export default function MemberList({ members, onEdit, onRemove, loading = false
       {
         field: 'role',
         headerName: 'Role',
-        width: 150,
+        width: 220,
         valueGetter: (value: unknown) => getRoleLabel(value as string),
+        renderCell: (params) => (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+            {params.value}
+            {(params.row as User).suspended && <Chip label="Suspended" size="small" color="error" variant="outlined" />}
+          </Box>
+        ),
       },
       {
         field: 'createdAt',
@@ -48,6 +63,20 @@ export default function MemberList({ members, onEdit, onRemove, loading = false
         width: 150,
         valueGetter: (value: unknown) => formatDate(value),
       },
+      {
+        field: 'lastLoginAt',
+        headerName: 'Last Login',
+        width: 180,
+        valueGetter: (value: unknown) => (value ? formatDate(value) : 'Never'),
+        renderCell: (params) => (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+            {params.value}
+            {isInactiveUser(params.row as User) && (
+              <Chip label="Inactive" size="small" color="warning" variant="outlined" />
+            )}
+          </Box>
+        ),
+      },
       {
         field: 'actions',
         type: 'actions',
@@ -68,6 +97,18 @@ export default function MemberList({ members, onEdit, onRemove, loading = false
             );
           }
 
+          if (onViewRoleHistory) {
+            actions.push(
+              <GridActionsCellItem
+                key="role-history"
+                icon={<HistoryIcon sx={{ color: appColors.textSecondary }} />}
+                label="Role history"
+                onClick={() => onViewRoleHistory(member)}
+                showInMenu
+              />
+            );
+          }
+
           if (onRemove) {
             actions.push(
               <GridActionsCellItem
@@ -84,7 +125,7 @@ export default function MemberList({ members, onEdit, onRemove, loading = false
         },
       },
     ],
-    [onEdit, onRemove]
+    [onEdit, onRemove, onViewRoleHistory]
   );
 
   return (
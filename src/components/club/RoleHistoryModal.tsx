@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { getRoleHistory } from '@/lib/memberRoles';
+import { getRoleLabel } from '@/config/roles';
+import { formatDateTime } from '@/utils/dateHelpers';
+import type { RoleAuditLogEntry, User } from '@/types';
+import { appColors } from '@/theme';
+
+interface RoleHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  user: User | null;
+  clubId: string;
+}
+
+interface LoadedHistory {
+  userId: string;
+  entries: RoleAuditLogEntry[];
+  error: string;
+}
+
+export default function RoleHistoryModal({ open, onClose, user, clubId }: RoleHistoryModalProps) {
+  const [history, setHistory] = useState<LoadedHistory | null>(null);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    getRoleHistory(clubId, user.id)
+      .then((entries) => setHistory({ userId: user.id, entries, error: '' }))
+      .catch((err) => {
+        console.error('Error loading role history:', err);
+        setHistory({ userId: user.id, entries: [], error: 'Failed to load role history' });
+      });
+  }, [open, user, clubId]);
+
+  if (!user) return null;
+
+  const loading = history?.userId !== user.id;
+  const userName = user.displayName || `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+        Role History
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Role changes for {userName} in this club.
+        </Typography>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : history.error ? (
+          <Alert severity="error">{history.error}</Alert>
+        ) : history.entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No role changes recorded.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Change</TableCell>
+                <TableCell>Changed By</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {history.entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{formatDateTime(entry.createdAt)}</TableCell>
+                  <TableCell>
+                    {entry.oldRole ? getRoleLabel(entry.oldRole) : 'None'} → {getRoleLabel(entry.newRole)}
+                  </TableCell>
+                  <TableCell>{entry.changedByName || 'Unknown'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} sx={{ color: appColors.textSecondary }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { EventSeat as SeatIcon } from '@mui/icons-material';
+import { subscribeToSeatLedger, reconcileSeatLedger } from '@/lib/seatLedger';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { useToast } from '@/contexts/ToastContext';
+import { usePermission } from '@/hooks/usePermission';
+import { SEAT_TYPES, SEAT_TYPE_LABELS, getSeatsAvailable } from '@/config/seatLedger';
+import { formatDateTime } from '@/utils/dateHelpers';
+import type { SeatLedger } from '@/types';
+import { appColors } from '@/theme';
+
+interface SeatLedgerCardProps {
+  clubId: string;
+}
+
+interface LoadedLedger {
+  clubId: string;
+  ledger: SeatLedger | null;
+  error: string;
+}
+
+/**
+ * Live seat usage for a club: members signed up, pending invitations and the plan limit for each seat type
+ */
+export default function SeatLedgerCard({ clubId }: SeatLedgerCardProps) {
+  const { showSuccess } = useToast();
+  const { allowed: canRecount } = usePermission('member.update', { clubId });
+  const [loaded, setLoaded] = useState<LoadedLedger | null>(null);
+  const [isRecounting, setIsRecounting] = useState(false);
+  const [recountError, setRecountError] = useState('');
+
+  useEffect(() => {
+    return subscribeToSeatLedger(
+      clubId,
+      (ledger) => setLoaded({ clubId, ledger, error: '' }),
+      (err) => {
+        console.error('Error loading seat ledger:', err);
+        setLoaded({ clubId, ledger: null, error: err.message || 'Failed to load seat usage' });
+      }
+    );
+  }, [clubId]);
+
+  const handleRecount = async () => {
+    setRecountError('');
+
+    if (isReadOnly()) {
+      setRecountError(getReadOnlyMessage());
+      return;
+    }
+
+    try {
+      setIsRecounting(true);
+      const drift = await reconcileSeatLedger(clubId);
+      showSuccess(Object.keys(drift).length > 0 ? 'Seat counts corrected' : 'Seat counts are up to date');
+    } catch (err) {
+      setRecountError(err instanceof Error ? err.message : 'Failed to recount seats');
+    } finally {
+      setIsRecounting(false);
+    }
+  };
+
+  const loading = loaded?.clubId !== clubId;
+  const ledger = loading ? null : loaded.ledger;
+  const lastReconciledAt = ledger?.lastReconciliation?.at;
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <SeatIcon sx={{ color: appColors.textSecondary }} />
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Seats
+          </Typography>
+        </Box>
+        {canRecount && (
+          <Button size="small" onClick={handleRecount} disabled={loading || isRecounting}>
+            {isRecounting ? <CircularProgress size={16} /> : 'Recount'}
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Members who have signed up and unused invitations each take a seat. Delete unused invitation codes to free
+        their seats.
+        {lastReconciledAt ? ` Last recounted ${formatDateTime(lastReconciledAt)}.` : ''}
+      </Typography>
+
+      {(recountError || loaded?.error) && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={recountError ? () => setRecountError('') : undefined}>
+          {recountError || loaded?.error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : ledger && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Seat Type</TableCell>
+              <TableCell align="right">Used</TableCell>
+              <TableCell align="right">Pending</TableCell>
+              <TableCell align="right">Limit</TableCell>
+              <TableCell align="right">Available</TableCell>
+              <TableCell sx={{ width: '25%' }} />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {SEAT_TYPES.map((seatType) => {
+              const seat = ledger.seats[seatType];
+              const available = getSeatsAvailable(seat);
+              const committed = seat.used + seat.pending;
+              const isFull = seat.limit !== null && committed >= seat.limit;
+
+              return (
+                <TableRow key={seatType}>
+                  <TableCell>{SEAT_TYPE_LABELS[seatType]}</TableCell>
+                  <TableCell align="right">{seat.used}</TableCell>
+                  <TableCell align="right">{seat.pending}</TableCell>
+                  <TableCell align="right">{seat.limit ?? 'None'}</TableCell>
+                  <TableCell align="right" sx={{ color: isFull ? appColors.error : undefined }}>
+                    {available ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    {seat.limit !== null && (
+                      <LinearProgress
+                        variant="determinate"
+                        value={Math.min((committed / seat.limit) * 100, 100)}
+                        color={isFull ? 'error' : 'primary'}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
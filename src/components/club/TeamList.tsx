@@ -6,16 +6,18 @@ import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import type { Team } from '@/types';
 import { appColors } from '@/theme';
 import { formatDate } from '@/utils/dateHelpers';
-import { AGE_GROUP_LABELS } from '@/constants/teams';
+import { AGE_GROUP_LABELS, COACHING_ROLES, COACHING_ROLE_LABELS, type CoachingRole } from '@/constants/teams';
 
 interface TeamListProps {
   teams: Team[];
   onEdit?: (team: Team) => void;
   onDelete?: (team: Team) => void;
   loading?: boolean;
+  // Display names by user ID, for the coaching staff column
+  memberNames?: Record<string, string>;
 }
 
-export default function TeamList({ teams, onEdit, onDelete, loading = false }: TeamListProps) {
+export default function TeamList({ teams, onEdit, onDelete, loading = false, memberNames = {} }: TeamListProps) {
   const columns: GridColDef[] = useMemo(
     () => [
       {
@@ -45,6 +47,26 @@ export default function TeamList({ teams, onEdit, onDelete, loading = false }: T
           return row.sport || 'N/A';
         },
       },
+      {
+        field: 'coaches',
+        headerName: 'Coaching Staff',
+        flex: 1.5,
+        minWidth: 220,
+        valueGetter: (value: unknown) => {
+          const coaches = (value as Team['coaches']) || [];
+          if (coaches.length === 0) return 'None';
+          return [...coaches]
+            .sort(
+              (a, b) =>
+                COACHING_ROLES.indexOf(a.role as CoachingRole) - COACHING_ROLES.indexOf(b.role as CoachingRole)
+            )
+            .map((coach) => {
+              const label = COACHING_ROLE_LABELS[coach.role as CoachingRole] || coach.role;
+              return `${memberNames[coach.userId] || 'Unknown'} (${label})`;
+            })
+            .join(', ');
+        },
+      },
       {
         field: 'memberCount',
         headerName: 'Members',
@@ -96,7 +118,7 @@ export default function TeamList({ teams, onEdit, onDelete, loading = false }: T
         },
       },
     ],
-    [onEdit, onDelete]
+    [onEdit, onDelete, memberNames]
   );
 
   return (
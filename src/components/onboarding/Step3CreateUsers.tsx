@@ -30,6 +30,9 @@ import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
 import { isValidEmail } from '@/utils/validation';
 import { validateUserLimit } from '@/lib/subscriptionValidation';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { createInviteCodes } from '@/lib/seatLedger';
 import { appColors } from '@/theme';
 
 interface UserToCreate {
@@ -67,6 +70,7 @@ export default function Step3CreateUsers({
     role: 'coach',
   });
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
   const [loading, setLoading] = useState(false);
 
   const handleAddUser = () => {
@@ -105,6 +109,7 @@ export default function Step3CreateUsers({
       role: 'coach',
     });
     setError('');
+    setUpgradeSeatType(null);
   };
 
   const handleRemoveUser = (id: string) => {
@@ -124,6 +129,7 @@ export default function Step3CreateUsers({
 
     setLoading(true);
     setError('');
+    setUpgradeSeatType(null);
 
     try {
       // Validate subscription limits before creating users
@@ -135,6 +141,7 @@ export default function Step3CreateUsers({
         const validation = await validateUserLimit(clubId, 'coach', coachUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add coaches: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -144,6 +151,7 @@ export default function Step3CreateUsers({
         const validation = await validateUserLimit(clubId, 'view_only', viewOnlyUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add view-only users: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -197,32 +205,28 @@ export default function Step3CreateUsers({
 
       // Create referral codes only - user documents will be created when they actually sign up
       // This prevents ID mismatch between pre-created docs and Firebase Auth UIDs
-      for (const user of users) {
-        const actualTeamId = teamIdMap[user.teamId] || user.teamId;
-        const referralCode = generateReferralCode();
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-        // Create referral code with all info needed for signup
-        const refRef = doc(db, 'referral_codes', referralCode);
-        await setDoc(refRef, {
-          code: referralCode,
-          clubId: clubId,
-          clubName: clubName,
-          teamId: actualTeamId,
-          intendedRole: user.role,
-          adminEmail: user.email,
-          // Store name for mobile signup to use
-          firstName: user.firstName,
-          lastName: user.lastName,
-          isMemberInvitation: true, // Flag to trigger email Cloud Function
-          maxUses: 1,
-          usesCount: 0,
-          active: true,
-          createdAt: serverTimestamp(),
-          updated_at: serverTimestamp(),
-          expiresAt,
-        });
-      }
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+      await createInviteCodes(
+        clubId,
+        users.map((user) => {
+          const actualTeamId = teamIdMap[user.teamId] || user.teamId;
+          const referralCode = generateReferralCode();
+          // Referral code with all info needed for signup
+          return {
+            code: referralCode,
+            clubName: clubName,
+            teamId: actualTeamId,
+            intendedRole: user.role,
+            adminEmail: user.email,
+            // Store name for mobile signup to use
+            firstName: user.firstName,
+            lastName: user.lastName,
+            isMemberInvitation: true, // Flag to trigger email Cloud Function
+            maxUses: 1,
+            expiresAt,
+          };
+        })
+      );
 
       onComplete();
     } catch (err: unknown) {
@@ -242,7 +246,11 @@ export default function Step3CreateUsers({
       </Typography>
 
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+        >
           {error}
         </Alert>
       )}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  LinearProgress,
+} from '@mui/material';
+import { useAuth } from '@/hooks/useAuth';
+import { broadcastAuthEvent, subscribeToAuthEvents } from '@/lib/authBroadcast';
+import {
+  getSessionPolicy,
+  getIdleTimeoutMinutes,
+  getLastActivity,
+  recordLastActivity,
+  sendActivityHeartbeat,
+  IDLE_WARNING_SECONDS,
+} from '@/lib/sessionPolicy';
+import { appColors } from '@/theme';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Record (and broadcast) activity at most this often
+const ACTIVITY_THROTTLE_MS = 15 * 1000;
+
+// Report activity to the server (see lib/sessionActivity) at most this often
+const HEARTBEAT_THROTTLE_MS = 60 * 1000;
+
+/**
+ * Signs the user out after the idle timeout set for their role, with a warning first
+ * Activity in any open tab keeps every tab signed in. The last activity is kept in localStorage and on the
+ * server, so closing and reopening the dashboard doesn't restart the timer.
+ */
+export default function IdleTimeoutDialog() {
+  const { realUserData, signOut } = useAuth();
+  const [timeoutMinutes, setTimeoutMinutes] = useState(0);
+  // Seconds until the automatic sign-out while the warning is shown
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(0);
+  const warningOpenRef = useRef(false);
+
+  const role = realUserData?.role;
+
+  useEffect(() => {
+    if (!role) return;
+
+    getSessionPolicy()
+      .then((policy) => setTimeoutMinutes(getIdleTimeoutMinutes(policy, role)))
+      .catch((err) => console.error('Error loading session policy:', err));
+  }, [role]);
+
+  // The server refuses the heartbeat once it considers the session idle
+  const reportActivity = useCallback(() => {
+    sendActivityHeartbeat().then((accepted) => {
+      if (!accepted) {
+        signOut('idle').catch((err) => console.error('Error signing out:', err));
+      }
+    });
+  }, [signOut]);
+
+  const resetIdleTimer = useCallback((at: number) => {
+    lastActivityRef.current = Math.max(lastActivityRef.current, at);
+    warningOpenRef.current = false;
+    setSecondsLeft(null);
+  }, []);
+
+  // Track activity in this tab and share it with the others
+  useEffect(() => {
+    if (!timeoutMinutes) return;
+
+    // The idle timer carries on from the last activity in any tab, even one that has since been closed
+    lastActivityRef.current = getLastActivity() || Date.now();
+    let lastRecorded = 0;
+    let lastHeartbeat = 0;
+    const handleActivity = () => {
+      // Once the warning is up, only "Stay signed in" keeps the session
+      if (warningOpenRef.current) return;
+
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastRecorded >= ACTIVITY_THROTTLE_MS) {
+        lastRecorded = now;
+        recordLastActivity(now);
+        broadcastAuthEvent({ type: 'activity', at: now });
+      }
+      if (now - lastHeartbeat >= HEARTBEAT_THROTTLE_MS) {
+        lastHeartbeat = now;
+        reportActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((eventName) => window.addEventListener(eventName, handleActivity, { passive: true }));
+    const unsubscribe = subscribeToAuthEvents((event) => {
+      if (event.type === 'activity') {
+        resetIdleTimer(event.at);
+      }
+    });
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((eventName) => window.removeEventListener(eventName, handleActivity));
+      unsubscribe();
+    };
+  }, [timeoutMinutes, resetIdleTimer, reportActivity]);
+
+  // Check once a second whether to warn or sign out
+  useEffect(() => {
+    if (!timeoutMinutes) return;
+
+    const timeoutMs = timeoutMinutes * 60 * 1000;
+    const interval = setInterval(() => {
+      const remainingMs = timeoutMs - (Date.now() - lastActivityRef.current);
+
+      if (remainingMs <= 0) {
+        clearInterval(interval);
+        signOut('idle').catch((err) => console.error('Error signing out:', err));
+      } else if (remainingMs <= IDLE_WARNING_SECONDS * 1000) {
+        warningOpenRef.current = true;
+        setSecondsLeft(Math.ceil(remainingMs / 1000));
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timeoutMinutes, signOut]);
+
+  const handleStaySignedIn = () => {
+    const now = Date.now();
+    resetIdleTimer(now);
+    recordLastActivity(now);
+    broadcastAuthEvent({ type: 'activity', at: now });
+    reportActivity();
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      window.location.href = '/login';
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+  };
+
+  if (!timeoutMinutes) {
+    return null;
+  }
+
+  return (
+    <Dialog open={secondsLeft !== null} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>Are you still there?</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ mb: 2 }}>
+          You&apos;ll be signed out in <strong>{secondsLeft}</strong> seconds because you haven&apos;t been active for
+          a while.
+        </Typography>
+        <LinearProgress
+          variant="determinate"
+          value={((secondsLeft || 0) / IDLE_WARNING_SECONDS) * 100}
+          sx={{ height: 6, borderRadius: 3 }}
+        />
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={handleSignOut} sx={{ color: appColors.textSecondary }}>
+          Sign Out
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleStaySignedIn}
+          sx={{
+            backgroundColor: appColors.primary,
+            color: appColors.primaryText,
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: appColors.primaryHover },
+          }}
+        >
+          Stay Signed In
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Box, Typography, Button, CircularProgress } from '@mui/material';
+import { Visibility as VisibilityIcon } from '@mui/icons-material';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import { appColors } from '@/theme';
+
+/**
+ * Persistent banner shown while a super admin is viewing the dashboard as a club admin
+ */
+export default function ImpersonationBanner() {
+  const router = useRouter();
+  const { impersonatedUser, stopImpersonation } = useAuth();
+  const { showError } = useToast();
+  const [stopping, setStopping] = useState(false);
+
+  if (!impersonatedUser) {
+    return null;
+  }
+
+  const name =
+    impersonatedUser.displayName ||
+    `${impersonatedUser.firstName || ''} ${impersonatedUser.lastName || ''}`.trim() ||
+    impersonatedUser.email;
+
+  const handleStop = async () => {
+    setStopping(true);
+    try {
+      await stopImpersonation();
+      router.push('/admin/users');
+    } catch (err) {
+      console.error('Error stopping view as:', err);
+      showError('Failed to stop viewing as this user');
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        position: 'sticky',
+        top: { xs: 56, md: 64 },
+        zIndex: (theme) => theme.zIndex.appBar - 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2,
+        px: 3,
+        py: 1.5,
+        backgroundColor: appColors.warning,
+        color: '#fff',
+      }}
+    >
+      <VisibilityIcon />
+      <Typography variant="body2" sx={{ flexGrow: 1 }}>
+        Viewing as <strong>{name}</strong> ({impersonatedUser.email}). This view is read-only - changes are disabled.
+      </Typography>
+      <Button
+        variant="contained"
+        size="small"
+        onClick={handleStop}
+        disabled={stopping}
+        sx={{
+          backgroundColor: appColors.textPrimary,
+          color: '#fff',
+          fontWeight: 'bold',
+          '&:hover': { backgroundColor: '#333333' },
+        }}
+      >
+        {stopping ? <CircularProgress size={18} color="inherit" /> : 'Stop Viewing'}
+      </Button>
+    </Box>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, query, where, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import {
   AppBar,
@@ -22,6 +22,7 @@ import {
   useTheme,
   Divider,
   Chip,
+  Select,
 } from '@mui/material';
 import {
   Menu as MenuIcon,
@@ -43,11 +44,17 @@ import {
   FitnessCenter as FitnessCenterIcon,
   VideoLibrary as VideoLibraryIcon,
   SportsGymnastics as SportsGymnasticsIcon,
-  Payment as PaymentIcon,
   OpenInNew as OpenInNewIcon,
   HelpOutline as HelpIcon,
+  PersonRemove as PersonRemoveIcon,
+  Key as KeyIcon,
 } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/contexts/ToastContext';
+import { getUserMemberships } from '@/config/memberships';
+import { DASHBOARD_ROLES, getRoleLabel as getClubRoleLabel } from '@/config/roles';
+import { getEffectiveRole } from '@/config/adminGrants';
+import { switchActiveClub } from '@/lib/clubMemberships';
 import type { User } from '@/types';
 import { appColors } from '@/theme';
 
@@ -62,15 +69,60 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
   const router = useRouter();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const { signOut } = useAuth();
+  const { signOut, impersonatedUser } = useAuth();
+  const { showError } = useToast();
   const [mobileOpen, setMobileOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [hasTeams, setHasTeams] = useState<boolean | null>(null); // null = loading, true/false = loaded
+  // Names of the user's clubs that aren't stored on their membership
+  const [clubNames, setClubNames] = useState<Record<string, string>>({});
+  const [switchingClub, setSwitchingClub] = useState(false);
 
-  const isSuperAdmin = userData?.role === 'super_admin';
-  const isClubAdmin = userData?.role === 'club_admin' || userData?.role === 'club_admin_coach';
+  // Members with temporary admin access get the club admin menu
+  const role = getEffectiveRole(userData);
+  const isSuperAdmin = role === 'super_admin';
+  const isClubAdmin = role === 'club_admin' || role === 'club_admin_coach';
+  const isTeamManager = role === 'team_manager';
   const userMenuOpen = Boolean(anchorEl);
 
+  // Clubs the user can open the dashboard for (not shown while viewing as another user)
+  const switchableMemberships = impersonatedUser
+    ? []
+    : Object.values(getUserMemberships(userData)).filter((m) => DASHBOARD_ROLES.includes(m.role));
+  const unnamedClubIds = switchableMemberships
+    .filter((m) => !m.clubName)
+    .map((m) => m.clubId)
+    .join(',');
+
+  useEffect(() => {
+    if (!unnamedClubIds || switchableMemberships.length < 2) return;
+
+    Promise.all(unnamedClubIds.split(',').map((clubId) => getDoc(doc(db, 'sports_clubs', clubId))))
+      .then((clubDocs) => {
+        const names: Record<string, string> = {};
+        clubDocs.forEach((clubDoc) => {
+          names[clubDoc.id] = clubDoc.data()?.name || 'Club';
+        });
+        setClubNames(names);
+      })
+      .catch((error) => console.error('Error loading club names:', error));
+  }, [unnamedClubIds, switchableMemberships.length]);
+
+  const handleSwitchClub = async (clubId: string) => {
+    if (clubId === userData?.clubId) return;
+
+    try {
+      setSwitchingClub(true);
+      const homePath = await switchActiveClub(clubId);
+      // Full page load so every page picks up the new club
+      window.location.href = homePath;
+    } catch (error) {
+      console.error('Error switching club:', error);
+      showError(error instanceof Error ? error.message : 'Unable to switch club. Please try again.');
+      setSwitchingClub(false);
+    }
+  };
+
   // Check if club has teams
   useEffect(() => {
     const checkTeams = async () => {
@@ -105,6 +157,8 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
         { label: 'User Management', path: '/admin/users', icon: <PeopleIcon /> },
         { label: 'Subscriptions', path: '/admin/subscriptions', icon: <CreditCardIcon /> },
         { label: 'Audit Log', path: '/admin/audit-log', icon: <HistoryIcon /> },
+        { label: 'Account Deletions', path: '/admin/account-deletions', icon: <PersonRemoveIcon /> },
+        { label: 'Sign-In Providers', path: '/admin/sign-in-providers', icon: <KeyIcon /> },
         { label: 'Bulk Drill Upload', path: '/admin/bulk-upload', icon: <UploadIcon /> },
         { label: 'Benchmark Drills', path: '/admin/benchmark-drills', icon: <FitnessCenterIcon /> },
         { label: 'Benchmark Exercises', path: '/admin/benchmark-exercises', icon: <SportsGymnasticsIcon /> },
@@ -122,7 +176,6 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
         { label: 'Members', path: '/club/members', icon: <PeopleIcon /> },
         { label: 'Invitation Codes', path: '/club/referral-codes', icon: <VpnKeyIcon /> },
         { label: 'Subscriptions', path: '/club/subscriptions', icon: <CreditCardIcon /> },
-        // { label: 'Billing', path: 'https://billing.stripe.com/p/login/eVq8wQ7CmaN98RyczR5EY00', icon: <PaymentIcon />, external: true },
         { label: 'FAQ', path: '/club/faq', icon: <HelpIcon /> },
       ];
 
@@ -134,6 +187,13 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
       return items;
     }
 
+    if (isTeamManager) {
+      return [
+        { label: 'My Teams', path: '/club/teams', icon: <GroupsIcon /> },
+        { label: 'FAQ', path: '/club/faq', icon: <HelpIcon /> },
+      ];
+    }
+
     return [];
   };
 
@@ -182,6 +242,7 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
       super_admin: 'Super Admin',
       club_admin: 'Club Admin',
       club_admin_coach: 'Admin Coach',
+      team_manager: 'Team Manager',
       coach: 'Coach',
       view_only: 'View Only',
     };
@@ -199,6 +260,30 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
         </Typography>
       </Toolbar>
       <Divider />
+      {switchableMemberships.length > 1 && userData?.clubId && (
+        <Box sx={{ px: 2, pt: 2 }}>
+          <Typography variant="caption" color="text.secondary">
+            Club
+          </Typography>
+          <Select
+            fullWidth
+            size="small"
+            value={userData.clubId}
+            onChange={(e) => handleSwitchClub(e.target.value)}
+            disabled={switchingClub}
+          >
+            {switchableMemberships.map((membership) => (
+              <MenuItem key={membership.clubId} value={membership.clubId}>
+                <ListItemText
+                  primary={membership.clubName || clubNames[membership.clubId] || 'Loading...'}
+                  secondary={getClubRoleLabel(membership.role)}
+                  sx={{ my: 0 }}
+                />
+              </MenuItem>
+            ))}
+          </Select>
+        </Box>
+      )}
       <List sx={{ flexGrow: 1, pt: 2 }}>
         {navItems.map((item) => {
           // External links are never "active"
@@ -409,6 +494,15 @@ export default function Navigation({ userData, currentPath }: NavigationProps) {
           </Typography>
         </MenuItem>
         <Divider />
+        <MenuItem
+          onClick={() => {
+            handleUserMenuClose();
+            router.push('/account');
+          }}
+        >
+          <SettingsIcon sx={{ mr: 1 }} />
+          Account Settings
+        </MenuItem>
         <MenuItem onClick={handleSignOut}>
           <LogoutIcon sx={{ mr: 1 }} />
           Sign Out
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Box, Button, CircularProgress } from '@mui/material';
+import { Key as KeyIcon } from '@mui/icons-material';
+import { getEnabledOidcProviders, DEFAULT_OIDC_BUTTON_COLOR, DEFAULT_OIDC_BUTTON_TEXT_COLOR } from '@/lib/oidcProviders';
+import type { OidcProvider } from '@/types';
+
+interface OidcSignInButtonsProps {
+  onSignIn: (provider: OidcProvider) => void;
+  // Provider ID currently signing in, if any
+  loadingProviderId: string | null;
+  disabled?: boolean;
+  mode: 'login' | 'signup';
+}
+
+/**
+ * One button per enabled OIDC provider (configured by super admins under Sign-In Providers)
+ */
+export default function OidcSignInButtons({ onSignIn, loadingProviderId, disabled = false, mode }: OidcSignInButtonsProps) {
+  const [providers, setProviders] = useState<OidcProvider[]>([]);
+
+  useEffect(() => {
+    getEnabledOidcProviders()
+      .then(setProviders)
+      .catch((err) => console.error('Error loading sign-in providers:', err));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {providers.map((provider) => {
+        const isLoading = loadingProviderId === provider.id;
+        const backgroundColor = provider.buttonColor || DEFAULT_OIDC_BUTTON_COLOR;
+        return (
+          <Button
+            key={provider.id}
+            fullWidth
+            variant="outlined"
+            startIcon={
+              isLoading ? (
+                <CircularProgress size={20} />
+              ) : provider.logoUrl ? (
+                <Box component="img" src={provider.logoUrl} alt="" sx={{ width: 20, height: 20, objectFit: 'contain' }} />
+              ) : (
+                <KeyIcon />
+              )
+            }
+            onClick={() => onSignIn(provider)}
+            disabled={disabled}
+            sx={{
+              mb: 1,
+              bgcolor: backgroundColor,
+              color: provider.buttonTextColor || DEFAULT_OIDC_BUTTON_TEXT_COLOR,
+              borderColor: backgroundColor,
+              '&:hover': {
+                bgcolor: backgroundColor,
+                borderColor: backgroundColor,
+                opacity: 0.9,
+              },
+              '&:disabled': {
+                bgcolor: 'grey.300',
+                borderColor: 'grey.300',
+              },
+            }}
+          >
+            {isLoading
+              ? mode === 'login' ? 'Signing in...' : 'Signing up...'
+              : mode === 'login' ? `Sign in with ${provider.displayName}` : provider.displayName}
+          </Button>
+        );
+      })}
+    </>
+  );
+}
@@ -8,12 +8,16 @@ import {
   Alert,
   Chip,
   IconButton,
+  Button,
 } from '@mui/material';
-import { DataGrid, GridColDef, GridActionsCellItem } from '@mui/x-data-grid';
+import { DataGrid, GridColDef, GridActionsCellItem, GridRowSelectionModel } from '@mui/x-data-grid';
 import { ContentCopy as CopyIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import { useToast } from '@/contexts/ToastContext';
-import { collection, query, where, getDocs, doc, deleteDoc } from 'firebase/firestore';
+import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
+import { deleteInviteCodes } from '@/lib/seatLedger';
+import { useStepUpAuth } from '@/hooks/useStepUpAuth';
 import type { ReferralCode } from '@/types';
 import ConfirmationDialog from '@/components/shared/ConfirmationDialog';
 import { appColors } from '@/theme';
@@ -43,6 +47,9 @@ export default function ReferralCodesTable({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [codeToDelete, setCodeToDelete] = useState<ReferralCode | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [selectionModel, setSelectionModel] = useState<GridRowSelectionModel>({ type: 'include', ids: new Set() });
+  const [bulkDeleteDialogOpen, setBulkDeleteDialogOpen] = useState(false);
+  const { requireStepUp, stepUpDialog } = useStepUpAuth();
 
   const loadReferralCodes = useCallback(async () => {
     if (!clubId) return;
@@ -93,9 +100,15 @@ export default function ReferralCodesTable({
   const handleDeleteConfirm = async () => {
     if (!codeToDelete) return;
 
+    if (isReadOnly()) {
+      showError(getReadOnlyMessage());
+      setDeleteDialogOpen(false);
+      return;
+    }
+
     try {
       setIsDeleting(true);
-      await deleteDoc(doc(db, 'referral_codes', codeToDelete.id));
+      await deleteInviteCodes([codeToDelete]);
       showSuccess('Invitation code deleted successfully');
       setDeleteDialogOpen(false);
       setCodeToDelete(null);
@@ -114,6 +127,30 @@ export default function ReferralCodesTable({
     setCodeToDelete(null);
   };
 
+  const handleBulkDeleteClick = () => {
+    if (isReadOnly()) {
+      showError(getReadOnlyMessage());
+      return;
+    }
+    setBulkDeleteDialogOpen(true);
+  };
+
+  const handleBulkDeleteConfirm = async () => {
+    try {
+      setIsDeleting(true);
+      await deleteInviteCodes(selectedCodes);
+      showSuccess(`${selectedCodes.length} invitation code${selectedCodes.length === 1 ? '' : 's'} deleted successfully`);
+      setBulkDeleteDialogOpen(false);
+      setSelectionModel({ type: 'include', ids: new Set() });
+      await loadReferralCodes();
+    } catch (err) {
+      console.error('Error deleting referral codes:', err);
+      showError('Failed to delete invitation codes');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   // Format date helper (using utility function)
   const formatDateHelper = (timestamp: unknown) => formatDate(timestamp);
 
@@ -136,6 +173,14 @@ export default function ReferralCodesTable({
     return code.usesCount >= (code.maxUses || 0);
   };
 
+  // Used codes can't be deleted, so they are never part of a bulk selection
+  const selectedCodes = referralCodes.filter((code) => {
+    const selected = selectionModel.type === 'include'
+      ? selectionModel.ids.has(code.id)
+      : !selectionModel.ids.has(code.id);
+    return selected && !isCodeUsed(code);
+  });
+
   // DataGrid columns
   const columns: GridColDef[] = useMemo(
     () => [
@@ -300,13 +345,31 @@ export default function ReferralCodesTable({
         </Alert>
       )}
 
+      {selectedCodes.length > 0 && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<DeleteIcon />}
+            onClick={handleBulkDeleteClick}
+            disabled={isDeleting}
+          >
+            Delete Selected ({selectedCodes.length})
+          </Button>
+        </Box>
+      )}
+
       <Box sx={{ height, width: '100%' }}>
         <DataGrid
           rows={referralCodes}
           columns={columns}
           loading={loading}
           getRowId={(row) => row.id}
+          checkboxSelection
           disableRowSelectionOnClick
+          isRowSelectable={(params) => !isCodeUsed(params.row as ReferralCode)}
+          rowSelectionModel={selectionModel}
+          onRowSelectionModelChange={setSelectionModel}
           getRowClassName={(params) => {
             const code = params.row as ReferralCode;
             return isCodeUsed(code) ? 'MuiDataGrid-row-disabled' : '';
@@ -350,6 +413,31 @@ export default function ReferralCodesTable({
         confirmButtonColor="primary"
         isLoading={isDeleting}
       />
+
+      {/* Bulk Delete Confirmation Dialog */}
+      <ConfirmationDialog
+        open={bulkDeleteDialogOpen}
+        onClose={() => !isDeleting && setBulkDeleteDialogOpen(false)}
+        onConfirm={() =>
+          requireStepUp(
+            handleBulkDeleteConfirm,
+            'Deleting invitation codes in bulk cannot be undone. Please confirm it\'s you to continue.'
+          )
+        }
+        title="Delete Invitation Codes"
+        message={
+          <Typography>
+            Are you sure you want to delete <strong>{selectedCodes.length}</strong> invitation
+            code{selectedCodes.length === 1 ? '' : 's'}? This action cannot be undone.
+          </Typography>
+        }
+        confirmText="Delete"
+        cancelText="Cancel"
+        confirmButtonColor="primary"
+        isLoading={isDeleting}
+      />
+
+      {stepUpDialog}
     </Box>
   );
 }
@@ -0,0 +1,40 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { Container, Alert } from '@mui/material';
+import { usePermission } from '@/hooks/usePermission';
+import type { PermissionAction, PermissionResource } from '@/config/permissions';
+import PageLoader from './PageLoader';
+
+interface RequirePermissionProps {
+  action: PermissionAction;
+  resource?: PermissionResource;
+  deniedMessage?: string;
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only if the signed-in user may perform the action
+ */
+export default function RequirePermission({
+  action,
+  resource,
+  deniedMessage = "Access denied. You don't have permission to view this page.",
+  children,
+}: RequirePermissionProps) {
+  const { allowed, loading } = usePermission(action, resource);
+
+  if (loading) {
+    return <PageLoader />;
+  }
+
+  if (!allowed) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Alert severity="error">{deniedMessage}</Alert>
+      </Container>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Box, Typography, Button } from '@mui/material';
+import { EventSeat as SeatIcon } from '@mui/icons-material';
+import { OVER_LIMIT_PATH } from '@/config/billing';
+import { formatSeatOverages, type SeatOverages } from '@/config/seatLedger';
+import { appColors } from '@/theme';
+
+interface SeatLimitBannerProps {
+  overages: SeatOverages;
+  currentPath: string;
+}
+
+/**
+ * Persistent banner shown to club admins while the club has more members than its plan's seats
+ */
+export default function SeatLimitBanner({ overages, currentPath }: SeatLimitBannerProps) {
+  const router = useRouter();
+
+  if (Object.keys(overages).length === 0 || currentPath.startsWith(OVER_LIMIT_PATH)) {
+    return null;
+  }
+
+  return (
+    <Box
+      sx={{
+        position: 'sticky',
+        top: { xs: 56, md: 64 },
+        zIndex: (theme) => theme.zIndex.appBar - 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2,
+        px: 3,
+        py: 1.5,
+        backgroundColor: appColors.warning,
+        color: '#fff',
+      }}
+    >
+      <SeatIcon />
+      <Typography variant="body2" sx={{ flexGrow: 1 }}>
+        Your club is using {formatSeatOverages(overages)} more than its plan includes. Choose members to downgrade or
+        suspend, or add seats.
+      </Typography>
+      <Button
+        variant="contained"
+        size="small"
+        onClick={() => router.push(OVER_LIMIT_PATH)}
+        sx={{
+          backgroundColor: appColors.textPrimary,
+          color: '#fff',
+          fontWeight: 'bold',
+          '&:hover': { backgroundColor: '#333333' },
+        }}
+      >
+        Resolve
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Box, Typography, Button } from '@mui/material';
+import { CreditCard as CreditCardIcon } from '@mui/icons-material';
+import { usePermission } from '@/hooks/usePermission';
+import type { SubscriptionAccess } from '@/config/subscriptionAccess';
+import { formatDate } from '@/utils/dateHelpers';
+import { appColors } from '@/theme';
+
+interface SubscriptionBannerProps {
+  access: SubscriptionAccess;
+  graceEndsAt: Date | null;
+}
+
+/**
+ * Persistent banner shown while the club's subscription payment is past due
+ */
+export default function SubscriptionBanner({ access, graceEndsAt }: SubscriptionBannerProps) {
+  const router = useRouter();
+  const { allowed: canManageBilling } = usePermission('subscription.view');
+
+  if (access !== 'read_only' && access !== 'billing_only') {
+    return null;
+  }
+
+  const message =
+    access === 'read_only'
+      ? `Your club's subscription payment is past due. The dashboard is read-only${
+          graceEndsAt ? ` until ${formatDate(graceEndsAt)}` : ''
+        }, after which only billing can be managed.`
+      : 'Your club\'s subscription payment is overdue. Only billing can be managed until the payment method is updated.';
+
+  return (
+    <Box
+      sx={{
+        position: 'sticky',
+        top: { xs: 56, md: 64 },
+        zIndex: (theme) => theme.zIndex.appBar - 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2,
+        px: 3,
+        py: 1.5,
+        backgroundColor: access === 'read_only' ? appColors.warning : appColors.error,
+        color: '#fff',
+      }}
+    >
+      <CreditCardIcon />
+      <Typography variant="body2" sx={{ flexGrow: 1 }}>
+        {message}
+        {!canManageBilling && ' Please ask your club admin to update the payment method.'}
+      </Typography>
+      {canManageBilling && (
+        <Button
+          variant="contained"
+          size="small"
+          onClick={() => router.push('/club/subscriptions')}
+          sx={{
+            backgroundColor: appColors.textPrimary,
+            color: '#fff',
+            fontWeight: 'bold',
+            '&:hover': { backgroundColor: '#333333' },
+          }}
+        >
+          Update Payment
+        </Button>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { History as HistoryIcon, Webhook as WebhookIcon } from '@mui/icons-material';
+import {
+  getSubscriptionTimeline,
+  SUBSCRIPTION_TIMELINE_KIND_LABELS,
+  SUBSCRIPTION_TIMELINE_SOURCE_LABELS,
+  type SubscriptionTimelineEntry,
+  type SubscriptionTimelineKind,
+} from '@/lib/subscriptionTimeline';
+import { formatDateTime } from '@/utils/dateHelpers';
+import { appColors } from '@/theme';
+
+interface SubscriptionTimelineProps {
+  clubId: string;
+  showWebhookEvents?: boolean; // Link to the webhook event inspector (super admins)
+}
+
+interface LoadedTimeline {
+  clubId: string;
+  entries: SubscriptionTimelineEntry[];
+  error: string;
+}
+
+const KIND_COLORS: Record<SubscriptionTimelineKind, 'primary' | 'info' | 'secondary'> = {
+  status: 'primary',
+  seats: 'info',
+  plan: 'secondary',
+};
+
+/**
+ * Every status transition, seat-limit change and plan change of a club's subscriptions, newest first
+ */
+export default function SubscriptionTimeline({ clubId, showWebhookEvents = false }: SubscriptionTimelineProps) {
+  const router = useRouter();
+  const [loaded, setLoaded] = useState<LoadedTimeline | null>(null);
+  const [kindFilter, setKindFilter] = useState<SubscriptionTimelineKind | 'all'>('all');
+
+  useEffect(() => {
+    getSubscriptionTimeline(clubId)
+      .then((entries) => setLoaded({ clubId, entries, error: '' }))
+      .catch((err) => {
+        console.error('Error loading subscription timeline:', err);
+        setLoaded({ clubId, entries: [], error: 'Failed to load subscription history' });
+      });
+  }, [clubId]);
+
+  const loading = loaded?.clubId !== clubId;
+  const entries = loading ? [] : loaded.entries.filter((entry) => kindFilter === 'all' || entry.kind === kindFilter);
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <HistoryIcon sx={{ color: appColors.textSecondary }} />
+          <Typography variant="h6" sx={{ fontWeight: 'bold', color: appColors.textPrimary }}>
+            Subscription History
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Show</InputLabel>
+            <Select
+              value={kindFilter}
+              label="Show"
+              onChange={(e) => setKindFilter(e.target.value as SubscriptionTimelineKind | 'all')}
+            >
+              <MenuItem value="all">All Changes</MenuItem>
+              {(Object.keys(SUBSCRIPTION_TIMELINE_KIND_LABELS) as SubscriptionTimelineKind[]).map((kind) => (
+                <MenuItem key={kind} value={kind}>
+                  {SUBSCRIPTION_TIMELINE_KIND_LABELS[kind]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {showWebhookEvents && (
+            <Button
+              size="small"
+              startIcon={<WebhookIcon />}
+              onClick={() => router.push(`/admin/subscriptions/events?club=${encodeURIComponent(clubId)}`)}
+            >
+              Webhook Events
+            </Button>
+          )}
+        </Box>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Status changes, seat changes and plan changes from Stripe and from admin-managed plans.
+      </Typography>
+
+      {loaded?.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {loaded.error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : entries.length === 0 ? (
+        !loaded.error && (
+          <Typography variant="body2" color="text.secondary">
+            No subscription changes recorded.
+          </Typography>
+        )
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Subscription</TableCell>
+              <TableCell>Change</TableCell>
+              <TableCell>From</TableCell>
+              <TableCell>To</TableCell>
+              <TableCell>Source</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateTime(entry.at)}</TableCell>
+                <TableCell>{entry.subscriptionName}</TableCell>
+                <TableCell>
+                  <Chip label={entry.label} size="small" color={KIND_COLORS[entry.kind]} variant="outlined" />
+                </TableCell>
+                <TableCell sx={{ color: appColors.textSecondary }}>{entry.from ?? '—'}</TableCell>
+                <TableCell sx={{ fontWeight: 'medium' }}>{entry.to ?? '—'}</TableCell>
+                <TableCell>
+                  <Typography variant="caption" color="text.secondary" title={entry.eventId}>
+                    {SUBSCRIPTION_TIMELINE_SOURCE_LABELS[entry.source]}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
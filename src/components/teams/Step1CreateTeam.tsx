@@ -17,6 +17,7 @@ import {
 import { CloudUpload as CloudUploadIcon } from '@mui/icons-material';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { storage } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { useAuth } from '@/hooks/useAuth';
 import { AGE_GROUPS, SPORT_CATEGORIES, AGE_GROUP_LABELS } from '@/constants/teams';
 import { appColors } from '@/theme';
@@ -113,6 +114,11 @@ export default function Step1CreateTeam({ clubId, onComplete, onBack }: Step1Cre
       return;
     }
 
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     setError('');
     setUploading(true);
 
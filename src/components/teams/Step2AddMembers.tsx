@@ -26,11 +26,15 @@ import {
   Divider,
 } from '@mui/material';
 import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
-import { doc, setDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { isValidEmail } from '@/utils/validation';
 import { appColors } from '@/theme';
 import { validateUserLimit } from '@/lib/subscriptionValidation';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { createInviteCodes } from '@/lib/seatLedger';
 import type { User, ReferralCode } from '@/types';
 
 interface UserToAdd {
@@ -77,6 +81,7 @@ export default function Step2AddMembers({
     role: 'coach',
   });
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
   const [emailWarning, setEmailWarning] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingMembers, setLoadingMembers] = useState(true);
@@ -208,6 +213,7 @@ export default function Step2AddMembers({
       role: 'coach',
     });
     setError('');
+    setUpgradeSeatType(null);
   };
 
   const handleRemoveUser = (id: string) => {
@@ -215,8 +221,14 @@ export default function Step2AddMembers({
   };
 
   const handleComplete = async () => {
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     setLoading(true);
     setError('');
+    setUpgradeSeatType(null);
 
     try {
       // Validate limits before adding users
@@ -228,6 +240,7 @@ export default function Step2AddMembers({
         const validation = await validateUserLimit(clubId, 'coach', coachUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add coaches: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -237,6 +250,7 @@ export default function Step2AddMembers({
         const validation = await validateUserLimit(clubId, 'view_only', viewOnlyUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add view-only users: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -255,31 +269,27 @@ export default function Step2AddMembers({
       // Create referral codes only - DO NOT create user documents
       // User documents will be created by the mobile app's Cloud Function (completeUserSignup)
       // when the user actually signs up with their Firebase Auth UID
-      for (const user of users) {
-        const referralCode = generateReferralCode();
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-        // Create referral code with all info needed for signup
-        const refRef = doc(db, 'referral_codes', referralCode);
-        await setDoc(refRef, {
-          code: referralCode,
-          clubId: clubId,
-          clubName: clubName,
-          teamId: teamId,
-          intendedRole: user.role,
-          adminEmail: user.email,
-          // Store name for mobile signup to use
-          firstName: user.firstName,
-          lastName: user.lastName,
-          isMemberInvitation: true, // Flag to trigger email
-          maxUses: 1,
-          usesCount: 0,
-          active: true,
-          createdAt: serverTimestamp(),
-          updated_at: serverTimestamp(),
-          expiresAt,
-        });
-      }
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+      await createInviteCodes(
+        clubId,
+        users.map((user) => {
+          const referralCode = generateReferralCode();
+          // Referral code with all info needed for signup
+          return {
+            code: referralCode,
+            clubName: clubName,
+            teamId: teamId,
+            intendedRole: user.role,
+            adminEmail: user.email,
+            // Store name for mobile signup to use
+            firstName: user.firstName,
+            lastName: user.lastName,
+            isMemberInvitation: true, // Flag to trigger email
+            maxUses: 1,
+            expiresAt,
+          };
+        })
+      );
 
       onComplete();
     } catch (err: unknown) {
@@ -299,7 +309,11 @@ export default function Step2AddMembers({
       </Typography>
 
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+        >
           {error}
         </Alert>
       )}
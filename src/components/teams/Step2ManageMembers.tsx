@@ -25,12 +25,35 @@ import {
   Chip,
 } from '@mui/material';
 import { Add as AddIcon, Delete as DeleteIcon, PersonAdd as PersonAddIcon } from '@mui/icons-material';
-import { doc, setDoc, getDoc, updateDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  serverTimestamp,
+  collection,
+  query,
+  where,
+  getDocs,
+  Timestamp,
+} from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isReadOnly, getReadOnlyMessage } from '@/lib/readOnlyMode';
 import { isValidEmail } from '@/utils/validation';
 import { appColors } from '@/theme';
 import { validateUserLimit } from '@/lib/subscriptionValidation';
-import type { User, ReferralCode } from '@/types';
+import AddSeatsButton from '@/components/club/AddSeatsButton';
+import type { CheckoutSeatType } from '@/config/billing';
+import { createInviteCodes } from '@/lib/seatLedger';
+import { getRoleLabel, type ClubRole } from '@/config/roles';
+import {
+  COACHING_ROLES,
+  COACHING_ROLE_LABELS,
+  COACHING_STAFF_CLUB_ROLES,
+  type CoachingRole,
+} from '@/constants/teams';
+import type { User, ReferralCode, Team } from '@/types';
+
+type TeamCoach = NonNullable<Team['coaches']>[number];
 
 interface ClubMemberOption extends User {
   isPending?: boolean;
@@ -58,6 +81,10 @@ interface Step2ManageMembersProps {
   teamId: string;
   teamName: string;
   existingMembers: Member[];
+  // Roles the current user may invite to this team
+  invitableRoles: ClubRole[];
+  existingCoaches: TeamCoach[];
+  currentUserId: string;
   onComplete: () => void;
   onBack: () => void;
 }
@@ -68,18 +95,27 @@ export default function Step2ManageMembers({
   teamId,
   teamName,
   existingMembers: initialMembers,
+  invitableRoles,
+  existingCoaches,
+  currentUserId,
   onComplete,
   onBack,
 }: Step2ManageMembersProps) {
+  const defaultRole = invitableRoles.includes('coach') ? 'coach' : invitableRoles[0] || '';
   const [existingMembers, setExistingMembers] = useState<Member[]>(initialMembers);
   const [usersToAdd, setUsersToAdd] = useState<UserToAdd[]>([]);
   const [currentUser, setCurrentUser] = useState({
     firstName: '',
     lastName: '',
     email: '',
-    role: 'coach',
+    role: defaultRole,
   });
+  // Coaching role per user ID; users without one aren't on the coaching staff
+  const [coachingRoles, setCoachingRoles] = useState<Record<string, CoachingRole>>(() =>
+    Object.fromEntries(existingCoaches.map((coach) => [coach.userId, coach.role as CoachingRole]))
+  );
   const [error, setError] = useState('');
+  const [upgradeSeatType, setUpgradeSeatType] = useState<CheckoutSeatType | null>(null);
   const [loading, setLoading] = useState(false);
 
   // State for existing club members (includes pending invitations)
@@ -165,7 +201,7 @@ export default function Step2ManageMembers({
   }, [clubId, initialMembers]);
 
   const handleAddNewUser = () => {
-    if (!currentUser.firstName || !currentUser.lastName || !currentUser.email) {
+    if (!currentUser.firstName || !currentUser.lastName || !currentUser.email || !currentUser.role) {
       setError('All fields are required');
       return;
     }
@@ -202,9 +238,10 @@ export default function Step2ManageMembers({
       firstName: '',
       lastName: '',
       email: '',
-      role: 'coach',
+      role: defaultRole,
     });
     setError('');
+    setUpgradeSeatType(null);
   };
 
   const handleRemoveNewUser = (id: string) => {
@@ -234,6 +271,7 @@ export default function Step2ManageMembers({
     // Remove from available list
     setAvailableClubMembers(prev => prev.filter(m => m.id !== member.id));
     setError('');
+    setUpgradeSeatType(null);
   };
 
   const handleRemoveSelectedExistingMember = (memberId: string) => {
@@ -245,11 +283,69 @@ export default function Step2ManageMembers({
     }
   };
 
+  // Current and newly selected members who can be given a coaching role
+  const coachingStaffCandidates: Member[] = [
+    ...existingMembers,
+    ...selectedExistingMembers
+      .filter((m) => !m.isPending)
+      .map((user) => ({
+        userId: user.id,
+        name: user.displayName || `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
+        email: user.email,
+        role: user.role,
+      })),
+  ].filter((member) => COACHING_STAFF_CLUB_ROLES.includes(member.role));
+
+  const handleCoachingRoleChange = (userId: string, coachingRole: CoachingRole | '') => {
+    setCoachingRoles((prev) => {
+      const next = { ...prev };
+      if (coachingRole) {
+        next[userId] = coachingRole;
+      } else {
+        delete next[userId];
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Build Team.coaches from the coaching roles of members still on the team
+   * Unchanged assignments keep their original assignedAt/assignedBy, and coaches who
+   * were never listed as members here (e.g. their teamId is another team) are kept.
+   */
+  const buildCoaches = (): TeamCoach[] => {
+    const listedIds = new Set([...initialMembers.map((m) => m.userId), ...coachingStaffCandidates.map((m) => m.userId)]);
+    const unlistedCoaches = existingCoaches.filter((c) => !listedIds.has(c.userId));
+
+    const coaches = coachingStaffCandidates
+      .filter((member) => coachingRoles[member.userId])
+      .map((member) => {
+        const role = coachingRoles[member.userId];
+        const existing = existingCoaches.find((c) => c.userId === member.userId && c.role === role);
+        return existing || { userId: member.userId, role, assignedAt: Timestamp.now(), assignedBy: currentUserId };
+      });
+
+    return [...unlistedCoaches, ...coaches];
+  };
+
   const handleComplete = async () => {
+    if (isReadOnly()) {
+      setError(getReadOnlyMessage());
+      return;
+    }
+
     setLoading(true);
     setError('');
+    setUpgradeSeatType(null);
 
     try {
+      const coaches = buildCoaches();
+      if (coaches.filter((c) => c.role === 'head_coach').length > 1) {
+        setError('A team can only have one head coach');
+        setLoading(false);
+        return;
+      }
+
       const teamRef = doc(db, 'teams', teamId);
       const teamDoc = await getDoc(teamRef);
       
@@ -263,11 +359,13 @@ export default function Step2ManageMembers({
       // Group users by role to check limits efficiently
       const coachUsers = usersToAdd.filter(u => u.role === 'coach' || u.role === 'club_admin_coach');
       const viewOnlyUsers = usersToAdd.filter(u => u.role === 'view_only');
+      const teamManagerUsers = usersToAdd.filter(u => u.role === 'team_manager');
       
       if (coachUsers.length > 0) {
         const validation = await validateUserLimit(clubId, 'coach', coachUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add coaches: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -277,6 +375,17 @@ export default function Step2ManageMembers({
         const validation = await validateUserLimit(clubId, 'view_only', viewOnlyUsers.length);
         if (!validation.valid) {
           setError(validation.reason || 'Cannot add view-only users: subscription limit exceeded');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
+          setLoading(false);
+          return;
+        }
+      }
+
+      if (teamManagerUsers.length > 0) {
+        const validation = await validateUserLimit(clubId, 'team_manager', teamManagerUsers.length);
+        if (!validation.valid) {
+          setError(validation.reason || 'Cannot add team managers: no team manager seats available');
+          setUpgradeSeatType(validation.upgradeSeatType || null);
           setLoading(false);
           return;
         }
@@ -294,31 +403,27 @@ export default function Step2ManageMembers({
 
       // Create referral codes only - user documents will be created when they actually sign up
       // This prevents ID mismatch between pre-created docs and Firebase Auth UIDs
-      for (const user of usersToAdd) {
-        const referralCode = generateReferralCode();
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-        // Create referral code with all info needed for signup
-        const refRef = doc(db, 'referral_codes', referralCode);
-        await setDoc(refRef, {
-          code: referralCode,
-          clubId: clubId,
-          clubName: clubName,
-          teamId: teamId,
-          intendedRole: user.role,
-          adminEmail: user.email,
-          // Store name for mobile signup to use
-          firstName: user.firstName,
-          lastName: user.lastName,
-          isMemberInvitation: true,
-          maxUses: 1,
-          usesCount: 0,
-          active: true,
-          createdAt: serverTimestamp(),
-          updated_at: serverTimestamp(),
-          expiresAt,
-        });
-      }
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+      await createInviteCodes(
+        clubId,
+        usersToAdd.map((user) => {
+          const referralCode = generateReferralCode();
+          // Referral code with all info needed for signup
+          return {
+            code: referralCode,
+            clubName: clubName,
+            teamId: teamId,
+            intendedRole: user.role,
+            adminEmail: user.email,
+            // Store name for mobile signup to use
+            firstName: user.firstName,
+            lastName: user.lastName,
+            isMemberInvitation: true,
+            maxUses: 1,
+            expiresAt,
+          };
+        })
+      );
 
       // Convert selected existing club members to Member format (skip pending - they're not users yet)
       const existingClubMembersToAdd: Member[] = selectedExistingMembers
@@ -338,6 +443,9 @@ export default function Step2ManageMembers({
         members: allMembers,
         memberIds: allMembers.map(m => m.userId),
         memberCount: allMembers.length,
+        // coachIds mirrors coaches for isTeamCoach in firestore.rules
+        coaches,
+        coachIds: coaches.map((c) => c.userId),
         updatedAt: serverTimestamp(),
       });
 
@@ -371,7 +479,11 @@ export default function Step2ManageMembers({
       </Typography>
 
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          action={upgradeSeatType && <AddSeatsButton seatType={upgradeSeatType} />}
+        >
           {error}
         </Alert>
       )}
@@ -416,6 +528,56 @@ export default function Step2ManageMembers({
         </Box>
       )}
 
+      {/* Coaching Staff */}
+      {coachingStaffCandidates.length > 0 && (
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold', mb: 1 }}>
+            Coaching Staff
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Give coaches a role on this team. Coaching staff can edit the team and its sessions.
+          </Typography>
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Email</TableCell>
+                  <TableCell sx={{ width: 240 }}>Team Role</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {coachingStaffCandidates.map((member) => (
+                  <TableRow key={member.userId}>
+                    <TableCell>{member.name}</TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        fullWidth
+                        size="small"
+                        displayEmpty
+                        value={coachingRoles[member.userId] || ''}
+                        onChange={(e) => handleCoachingRoleChange(member.userId, e.target.value as CoachingRole | '')}
+                        disabled={loading}
+                      >
+                        <MenuItem value="">
+                          <em>Not on coaching staff</em>
+                        </MenuItem>
+                        {COACHING_ROLES.map((coachingRole) => (
+                          <MenuItem key={coachingRole} value={coachingRole}>
+                            {COACHING_ROLE_LABELS[coachingRole]}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+
       {/* Add Existing Club Members */}
       <Box sx={{ mb: 4 }}>
         <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold', mb: 2 }}>
@@ -559,10 +721,11 @@ export default function Step2ManageMembers({
                   label="Role"
                   onChange={(e) => setCurrentUser((prev) => ({ ...prev, role: e.target.value }))}
                 >
-                  <MenuItem value="club_admin">Club Admin</MenuItem>
-                  <MenuItem value="club_admin_coach">Admin Coach</MenuItem>
-                  <MenuItem value="coach">Coach</MenuItem>
-                  <MenuItem value="view_only">View Only</MenuItem>
+                  {invitableRoles.map((role) => (
+                    <MenuItem key={role} value={role}>
+                      {getRoleLabel(role)}
+                    </MenuItem>
+                  ))}
                 </Select>
               </FormControl>
             </Box>
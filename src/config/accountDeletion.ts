@@ -0,0 +1,12 @@
+// Account deletion configuration
+// Shared by the account page, the super admin queue and the account deletion route handler
+
+// Days a deletion request waits before a super admin can execute it (the user can cancel meanwhile)
+export const ACCOUNT_DELETION_COOL_OFF_DAYS = 14;
+
+// Collections holding content the user created, and the field that identifies its owner
+export const USER_CONTENT_COLLECTIONS = [
+  { collection: 'user_drills', ownerField: 'ownerId', label: 'Drills' },
+  { collection: 'sessions', ownerField: 'createdBy', label: 'Sessions' },
+  { collection: 'notes', ownerField: 'authorId', label: 'Notes' },
+] as const;
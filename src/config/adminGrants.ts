@@ -0,0 +1,36 @@
+// Temporary admin access configuration
+// Shared by the club info page, the admin grant route handlers and everything that decides a user's dashboard role
+
+import type { ClubRole } from './roles';
+import { toDate } from '@/utils/dateHelpers';
+
+// Longest a club admin can give temporary admin access for
+export const ADMIN_GRANT_MAX_DAYS = 90;
+
+// Roles that can be given temporary club_admin access (admins already have it)
+export const ADMIN_GRANT_ROLES: ClubRole[] = ['team_manager', 'coach', 'view_only'];
+
+// The users document fields that decide whether temporary admin access applies
+export interface AdminGrantHolder {
+  role?: string | null;
+  clubId?: string | null;
+  adminGrant?: { clubId: string; expiresAt: unknown } | null;
+}
+
+/**
+ * Check if a user holds unexpired temporary admin access to their active club (as isClubAdmin in firestore.rules)
+ */
+export function hasActiveAdminGrant(user: AdminGrantHolder | null | undefined, now: number = Date.now()): boolean {
+  const grant = user?.adminGrant;
+  const expiresAt = toDate(grant?.expiresAt);
+  return !!grant && !!user?.clubId && grant.clubId === user.clubId && !!expiresAt && expiresAt.getTime() > now;
+}
+
+/**
+ * Get the role a user acts as in the dashboard: Club Admin while they hold temporary admin access, otherwise
+ * their own role. The grant itself leaves the member's role and seat unchanged.
+ */
+export function getEffectiveRole(user: AdminGrantHolder | null | undefined): string | null {
+  if (!user?.role) return null;
+  return hasActiveAdminGrant(user) ? 'club_admin' : user.role;
+}
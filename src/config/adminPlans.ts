@@ -0,0 +1,98 @@
+// Admin-managed plan configuration
+// Super admins give clubs that pay by bank transfer, or get free pilot access, a plan without Stripe. The plan is a
+// subscriptions document with source 'admin'; its seats are mirrored to the club's adminPlan field for seat limits.
+
+import { toDate } from '@/utils/dateHelpers';
+
+export type AdminPlanKind = 'complimentary' | 'invoiced';
+
+export const ADMIN_PLAN_KINDS: AdminPlanKind[] = ['complimentary', 'invoiced'];
+
+export const ADMIN_PLAN_KIND_LABELS: Record<AdminPlanKind, string> = {
+  complimentary: 'Complimentary',
+  invoiced: 'Manually Invoiced',
+};
+
+// 'scheduled': starts later. 'ended': past its end date or ended early by a super admin.
+export type AdminPlanState = 'active' | 'scheduled' | 'ended';
+
+export const ADMIN_PLAN_STATE_LABELS: Record<AdminPlanState, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  ended: 'Ended',
+};
+
+// Chip colour for each state
+export const ADMIN_PLAN_STATE_COLORS: Record<AdminPlanState, 'success' | 'info' | 'default'> = {
+  active: 'success',
+  scheduled: 'info',
+  ended: 'default',
+};
+
+// subscriptionType of admin-managed plan documents
+export const ADMIN_PLAN_SUBSCRIPTION_TYPE = 'admin_plan';
+
+// The subscriptions document fields used here
+export interface AdminPlanFields {
+  source?: string;
+  status?: string;
+  currentPeriodStart?: unknown; // Plan start
+  currentPeriodEnd?: unknown; // Plan end
+}
+
+// Mirror of the club's current admin-managed plan on its sports_clubs document (adminPlan)
+export interface ClubAdminPlan {
+  subscriptionId: string;
+  kind: AdminPlanKind;
+  maxCoachAccounts: number | null;
+  maxViewOnlyUsers: number | null;
+  startDate: unknown;
+  endDate: unknown;
+}
+
+/**
+ * Check if a subscriptions document is an admin-managed plan rather than a Stripe subscription
+ */
+export function isAdminPlan(subscription: AdminPlanFields): boolean {
+  return subscription.source === 'admin';
+}
+
+/**
+ * Check if a date range includes now (the end date is exclusive)
+ */
+function isWithinDates(startDate: unknown, endDate: unknown, now: number): boolean {
+  const start = toDate(startDate);
+  const end = toDate(endDate);
+  return !!start && !!end && start.getTime() <= now && now < end.getTime();
+}
+
+/**
+ * Check if an admin-managed plan gives the club access now: not ended early and between its start and end dates
+ */
+export function isAdminPlanActive(subscription: AdminPlanFields, now: number = Date.now()): boolean {
+  return (
+    isAdminPlan(subscription) &&
+    subscription.status === 'active' &&
+    isWithinDates(subscription.currentPeriodStart, subscription.currentPeriodEnd, now)
+  );
+}
+
+/**
+ * Work out whether an admin-managed plan applies now, starts later or has ended
+ */
+export function getAdminPlanState(subscription: AdminPlanFields, now: number = Date.now()): AdminPlanState {
+  if (isAdminPlanActive(subscription, now)) return 'active';
+  const start = toDate(subscription.currentPeriodStart);
+  return subscription.status === 'active' && start && start.getTime() > now ? 'scheduled' : 'ended';
+}
+
+/**
+ * Get the club's admin-managed plan from its sports_clubs document if it applies now
+ */
+export function getActiveClubAdminPlan(
+  clubData: Record<string, unknown> | null | undefined,
+  now: number = Date.now()
+): ClubAdminPlan | null {
+  const adminPlan = clubData?.adminPlan as ClubAdminPlan | null | undefined;
+  return adminPlan && isWithinDates(adminPlan.startDate, adminPlan.endDate, now) ? adminPlan : null;
+}
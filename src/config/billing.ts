@@ -0,0 +1,28 @@
+// Billing configuration
+// Shared by the subscriptions page, the seat limit errors and the Stripe route handlers
+
+import type { SeatType } from './seatLedger';
+
+// Seat types clubs can buy themselves through Stripe Checkout (team manager seats are set by super admins)
+export const CHECKOUT_SEAT_TYPES = ['coach', 'view_only'] as const satisfies readonly SeatType[];
+export type CheckoutSeatType = (typeof CHECKOUT_SEAT_TYPES)[number];
+
+export const MAX_CHECKOUT_QUANTITY = 100;
+
+// Where club admins resolve having more members than seats (under club/subscriptions, so billing-only clubs can
+// still reach it)
+export const OVER_LIMIT_PATH = '/club/subscriptions/over-limit';
+
+/**
+ * Check if a seat type can be bought through Stripe Checkout
+ */
+export function isCheckoutSeatType(seatType: unknown): seatType is CheckoutSeatType {
+  return CHECKOUT_SEAT_TYPES.includes(seatType as CheckoutSeatType);
+}
+
+/**
+ * Get the subscriptions page link that opens checkout for a seat type
+ */
+export function getAddSeatsPath(seatType: CheckoutSeatType): string {
+  return `/club/subscriptions?addSeats=${seatType}`;
+}
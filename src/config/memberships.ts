@@ -0,0 +1,137 @@
+// Multi-club membership
+// A user's top-level clubId/role/teamId/managedTeamIds describe their active club and are what the rest of the
+// app (and firestore.rules) reads. User.memberships holds one entry per club, keyed by club ID, and
+// User.memberClubIds mirrors its keys for queries. The active club's entry may be out of date, so always read
+// memberships through getUserMemberships, which fills it in from the top-level fields. The top-level suspended
+// flag belongs to the active club like the other fields.
+
+import type { ClubMembership, User } from '@/types';
+import type { ClubRole } from './roles';
+
+type MembershipUser = Pick<User, 'clubId' | 'role' | 'teamId' | 'managedTeamIds' | 'suspended' | 'memberships'>;
+
+// Fields written when a club becomes the active club
+export interface ActiveClubFields {
+  clubId: string;
+  role: ClubRole;
+  teamId: string | null;
+  managedTeamIds: string[];
+  suspended: boolean;
+}
+
+/**
+ * Get a user's memberships keyed by club ID
+ * Users from before multi-club membership (no memberships map) get a single membership for their club.
+ */
+export function getUserMemberships(user: MembershipUser | null | undefined): Record<string, ClubMembership> {
+  if (!user) return {};
+
+  const memberships: Record<string, ClubMembership> = { ...(user.memberships || {}) };
+  if (user.clubId && user.role !== 'super_admin') {
+    memberships[user.clubId] = {
+      ...memberships[user.clubId],
+      clubId: user.clubId,
+      role: user.role as ClubRole,
+      teamId: user.teamId || null,
+      managedTeamIds: user.managedTeamIds || [],
+      suspended: user.suspended === true,
+    };
+  }
+  return memberships;
+}
+
+/**
+ * Check whether a user really belongs to a club: it is in their memberships map, or the club lists them as a member
+ * or admin (users from before multi-club membership have no memberships map)
+ * Unlike getUserMemberships, the top-level clubId alone doesn't count.
+ */
+export function belongsToClub(
+  uid: string,
+  user: Pick<User, 'memberships'> | null | undefined,
+  clubId: string,
+  club: { memberIds?: string[]; clubAdminIds?: string[]; clubAdminCoachIds?: string[] } | null | undefined
+): boolean {
+  return (
+    !!user?.memberships?.[clubId] ||
+    !!club?.memberIds?.includes(uid) ||
+    !!club?.clubAdminIds?.includes(uid) ||
+    !!club?.clubAdminCoachIds?.includes(uid)
+  );
+}
+
+/**
+ * Get a user's membership in one club, or null if they aren't a member
+ */
+export function getClubMembership(user: MembershipUser | null | undefined, clubId: string): ClubMembership | null {
+  return getUserMemberships(user)[clubId] || null;
+}
+
+/**
+ * Fields that make a membership the user's active club
+ */
+export function getActiveClubFields(membership: ClubMembership): ActiveClubFields {
+  return {
+    clubId: membership.clubId,
+    role: membership.role,
+    teamId: membership.teamId || null,
+    managedTeamIds: membership.managedTeamIds || [],
+    suspended: membership.suspended === true,
+  };
+}
+
+/**
+ * The memberships map and its mirrored memberClubIds, ready to write to a users document
+ */
+export function getMembershipFields(memberships: Record<string, ClubMembership>) {
+  return { memberships, memberClubIds: Object.keys(memberships) };
+}
+
+/**
+ * Build the users document update that changes a user's membership in one club
+ * The active club is updated through the top-level fields; other clubs through the memberships map.
+ */
+export function getMembershipUpdate(
+  user: MembershipUser,
+  clubId: string,
+  changes: Partial<Pick<ClubMembership, 'role' | 'teamId' | 'managedTeamIds' | 'suspended'>>
+): Record<string, unknown> {
+  if (user.clubId === clubId) {
+    return { ...changes };
+  }
+
+  const memberships = getUserMemberships(user);
+  if (!memberships[clubId]) {
+    throw new Error('This user is not a member of the club');
+  }
+  return getMembershipFields({ ...memberships, [clubId]: { ...memberships[clubId], ...changes } });
+}
+
+/**
+ * Build the users document update that removes a user from one club
+ * Removing the active club makes one of the user's other clubs active, if they have any.
+ */
+export function getMembershipRemoval(user: MembershipUser, clubId: string): Record<string, unknown> {
+  const { [clubId]: removed, ...remaining } = getUserMemberships(user);
+  if (!removed) {
+    throw new Error('This user is not a member of the club');
+  }
+
+  // Users who were never migrated only have their active club
+  const update: Record<string, unknown> = user.memberships ? getMembershipFields(remaining) : {};
+  if (user.clubId === clubId) {
+    const nextMembership = Object.values(remaining)[0];
+    // Removing someone's last club leaves their role as it is (as before multi-club membership)
+    Object.assign(update, nextMembership ? getActiveClubFields(nextMembership) : { clubId: null, teamId: null });
+  }
+  return update;
+}
+
+/**
+ * Check whether a change to a users document is only a switch between clubs the user already belonged to
+ * (so an open dashboard can reload instead of signing the user out)
+ */
+export function isClubSwitch(previous: MembershipUser, next: MembershipUser): boolean {
+  if (!next.clubId) return false;
+  const previousMembership = getClubMembership(previous, next.clubId);
+  return previousMembership !== null && previousMembership.role === next.role;
+}
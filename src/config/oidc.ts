@@ -0,0 +1,25 @@
+// OIDC provider helpers
+// Shared by the login pages and the session route, which re-checks allowed email domains on the server
+
+import type { OidcProvider } from '@/types';
+
+/**
+ * Check if a Firebase provider ID belongs to an OIDC provider
+ */
+export function isOidcProviderId(providerId: string): boolean {
+  return providerId.startsWith('oidc.');
+}
+
+/**
+ * Check if an email may sign in with the provider
+ */
+export function isEmailAllowedForProvider(
+  provider: Pick<OidcProvider, 'allowedEmailDomains'>,
+  email: string
+): boolean {
+  if (!provider.allowedEmailDomains || provider.allowedEmailDomains.length === 0) {
+    return true;
+  }
+  const domain = email.toLowerCase().split('@')[1] || '';
+  return provider.allowedEmailDomains.includes(domain);
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRoleClaims,
+  can,
+  getClaimsActor,
+  getManagedTeamIds,
+  getRoleClaims,
+  roleClaimsMatch,
+  ROLE_CLAIMS_VERSION,
+  type PermissionActor,
+} from './permissions';
+import { PERMISSION_ACTIONS, ROLE_CONFIG, type AllRole, type ClubRole, type PermissionAction } from './roles';
+
+// What each role may do in its own club, written out from the firestore.rules helpers rather than read from
+// ROLE_CONFIG, so a change to either side shows up here:
+// - isSuperAdmin(): everything
+// - isClubAdmin(clubId): club, team, member, invitation, drill upload and subscription writes
+// - isTeamManager(teamId): their teams' rosters and view-only invitations
+// - isTeamCoach(teamId): their teams and drill uploads
+// - isClubMember(clubId): reading the club
+const EXPECTED: Record<AllRole, PermissionAction[]> = {
+  super_admin: [...PERMISSION_ACTIONS],
+  club_admin: [
+    'club.view',
+    'club.update',
+    'team.create',
+    'team.update',
+    'team.delete',
+    'member.view',
+    'member.invite',
+    'member.update',
+    'member.remove',
+    'referral_code.manage',
+    'drill.upload',
+    'subscription.view',
+    'subscription.manage',
+  ],
+  club_admin_coach: [
+    'club.view',
+    'club.update',
+    'team.create',
+    'team.update',
+    'team.delete',
+    'member.view',
+    'member.invite',
+    'member.update',
+    'member.remove',
+    'referral_code.manage',
+    'drill.upload',
+    'subscription.view',
+    'subscription.manage',
+  ],
+  team_manager: ['club.view', 'team.update', 'member.invite'],
+  coach: ['club.view', 'team.update', 'drill.upload'],
+  view_only: ['club.view'],
+};
+
+const CLUB_ID = 'club-1';
+const TEAM_ID = 'team-1';
+
+function actorFor(role: AllRole, overrides: Partial<PermissionActor> = {}): PermissionActor {
+  return { id: `${role}-uid`, role, clubId: CLUB_ID, teamId: TEAM_ID, managedTeamIds: [TEAM_ID], ...overrides };
+}
+
+// A team the actor owns, coaches or manages, so team-scoped roles pass isTeamCoach / isTeamManager
+function ownTeamFor(actor: PermissionActor) {
+  return { clubId: CLUB_ID, teamId: TEAM_ID, ownerId: actor.id, coachIds: [actor.id] };
+}
+
+const ALL_ROLES = Object.keys(EXPECTED) as AllRole[];
+const TEAM_SCOPED_ACTIONS: PermissionAction[] = ['team.update', 'team.delete', 'drill.upload', 'member.invite'];
+
+describe('can', () => {
+  it('covers every role in ROLE_CONFIG', () => {
+    expect(ALL_ROLES.filter((role) => role !== 'super_admin').sort()).toEqual(Object.keys(ROLE_CONFIG).sort());
+  });
+
+  describe.each(ALL_ROLES)('%s in their own club', (role) => {
+    const actor = actorFor(role);
+
+    it.each(PERMISSION_ACTIONS.map((action) => [action, EXPECTED[role].includes(action)] as const))(
+      '%s -> %s',
+      (action, allowed) => {
+        expect(can(actor, action, ownTeamFor(actor))).toBe(allowed);
+      }
+    );
+  });
+
+  describe.each(ALL_ROLES.filter((role) => role !== 'super_admin'))('%s in another club', (role) => {
+    const actor = actorFor(role);
+
+    it.each([...EXPECTED[role]])('%s is refused', (action) => {
+      expect(can(actor, action, { clubId: 'club-2' })).toBe(false);
+    });
+  });
+
+  it('lets super admins act in any club', () => {
+    const actor = actorFor('super_admin', { clubId: null });
+    PERMISSION_ACTIONS.forEach((action) => expect(can(actor, action, { clubId: 'club-2' })).toBe(true));
+  });
+
+  it('refuses signed-out users, users without a role and unknown roles', () => {
+    expect(can(null, 'club.view')).toBe(false);
+    expect(can(undefined, 'club.view')).toBe(false);
+    expect(can({ id: 'uid', role: null, clubId: CLUB_ID }, 'club.view')).toBe(false);
+    expect(can({ id: 'uid', role: 'parent', clubId: CLUB_ID }, 'club.view', { clubId: CLUB_ID })).toBe(false);
+  });
+
+  it('refuses club actions for users without a club', () => {
+    expect(can(actorFor('club_admin', { clubId: null }), 'club.update', { clubId: CLUB_ID })).toBe(false);
+  });
+
+  describe('team-scoped roles (isTeamCoach / isTeamManager)', () => {
+    const otherTeam = { clubId: CLUB_ID, teamId: 'team-2', ownerId: 'someone-else', coachIds: ['someone-else'] };
+
+    it.each(
+      (['coach', 'team_manager'] as const).flatMap((role) =>
+        TEAM_SCOPED_ACTIONS.filter((action) => EXPECTED[role].includes(action)).map((action) => [role, action] as const)
+      )
+    )('%s cannot %s on a team they do not own, coach or manage', (role, action) => {
+      expect(can(actorFor(role), action, otherTeam)).toBe(false);
+    });
+
+    it('allows coaches on teams they own or coach', () => {
+      const coach = actorFor('coach');
+      expect(can(coach, 'team.update', { clubId: CLUB_ID, teamId: 'team-2', ownerId: coach.id })).toBe(true);
+      expect(can(coach, 'team.update', { clubId: CLUB_ID, teamId: 'team-2', coachIds: [coach.id] })).toBe(true);
+    });
+
+    it('allows team managers on the teams they manage', () => {
+      const manager = actorFor('team_manager', { managedTeamIds: ['team-2'] });
+      expect(can(manager, 'team.update', { clubId: CLUB_ID, teamId: 'team-2' })).toBe(true);
+      expect(can(manager, 'team.update', { clubId: CLUB_ID, teamId: TEAM_ID })).toBe(false);
+    });
+
+    it('lets club-scoped admins update any team in their club', () => {
+      expect(can(actorFor('club_admin'), 'team.update', otherTeam)).toBe(true);
+      expect(can(actorFor('club_admin_coach'), 'team.delete', otherTeam)).toBe(true);
+    });
+  });
+
+  describe('member.invite roles (isTeamManagerInvite)', () => {
+    it.each(Object.keys(ROLE_CONFIG) as ClubRole[])('club admins can invite %s', (invitedRole) => {
+      expect(can(actorFor('club_admin'), 'member.invite', { clubId: CLUB_ID, role: invitedRole })).toBe(true);
+    });
+
+    it.each((Object.keys(ROLE_CONFIG) as ClubRole[]).map((role) => [role, role === 'view_only'] as const))(
+      'team managers inviting %s to their team -> %s',
+      (invitedRole, allowed) => {
+        const manager = actorFor('team_manager');
+        expect(can(manager, 'member.invite', { clubId: CLUB_ID, teamId: TEAM_ID, role: invitedRole })).toBe(allowed);
+      }
+    );
+  });
+});
+
+describe('temporary admin access (adminGrant in isClubAdmin)', () => {
+  const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  it.each([...EXPECTED.club_admin])('a coach with an active grant can %s', (action) => {
+    const coach = actorFor('coach', { adminGrant: { clubId: CLUB_ID, expiresAt: inOneDay } });
+    expect(can(coach, action, { clubId: CLUB_ID, teamId: 'team-2' })).toBe(true);
+  });
+
+  it('ignores expired grants and grants for another club', () => {
+    const expired = actorFor('coach', { adminGrant: { clubId: CLUB_ID, expiresAt: oneDayAgo } });
+    const otherClub = actorFor('coach', { adminGrant: { clubId: 'club-2', expiresAt: inOneDay } });
+    expect(can(expired, 'club.update', { clubId: CLUB_ID })).toBe(false);
+    expect(can(otherClub, 'club.update', { clubId: CLUB_ID })).toBe(false);
+  });
+});
+
+describe('getManagedTeamIds', () => {
+  it('uses managedTeamIds, falling back to the invitation team', () => {
+    expect(getManagedTeamIds(actorFor('team_manager', { managedTeamIds: ['a', 'b'] }))).toEqual(['a', 'b']);
+    expect(getManagedTeamIds(actorFor('team_manager', { managedTeamIds: [] }))).toEqual([TEAM_ID]);
+    expect(getManagedTeamIds(actorFor('coach'))).toEqual([]);
+  });
+});
+
+describe('role claims', () => {
+  const inOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const club = { clubAdminIds: ['coach-uid'], clubAdminCoachIds: [], requireAdminMfa: true };
+
+  it('builds versioned claims from the users document and active club', () => {
+    const claims = buildRoleClaims({ ...actorFor('club_admin'), id: 'coach-uid' }, club);
+    expect(claims).toEqual({
+      claimsVersion: ROLE_CLAIMS_VERSION,
+      role: 'club_admin',
+      clubId: CLUB_ID,
+      teamId: TEAM_ID,
+      managedTeamIds: [TEAM_ID],
+      clubAdmin: true,
+      clubAdminCoach: false,
+      suspended: false,
+      mfaRequired: true,
+      adminGrantExpiresAt: null,
+    });
+    expect(getRoleClaims({ ...claims, email: 'coach@example.com' })).toEqual(claims);
+  });
+
+  it('records temporary admin access and its expiry', () => {
+    const coach = actorFor('coach', { adminGrant: { clubId: CLUB_ID, expiresAt: inOneDay } });
+    const claims = buildRoleClaims(coach, club);
+    expect(claims.role).toBe('club_admin');
+    expect(claims.adminGrantExpiresAt).toBe(inOneDay.getTime());
+    expect(getClaimsActor(coach.id, claims)).not.toBeNull();
+  });
+
+  it('ignores claims whose temporary admin access has ended', () => {
+    const coach = actorFor('coach', { adminGrant: { clubId: CLUB_ID, expiresAt: oneDayAgo } });
+    const claims = { ...buildRoleClaims(coach, club), role: 'club_admin', adminGrantExpiresAt: oneDayAgo.getTime() };
+    expect(getClaimsActor(coach.id, claims)).toBeNull();
+  });
+
+  it('does not require MFA from super admins', () => {
+    expect(buildRoleClaims(actorFor('super_admin'), club).mfaRequired).toBe(false);
+  });
+
+  it('treats missing claims and claims from another version as none', () => {
+    const claims = buildRoleClaims(actorFor('coach'), club);
+    expect(getRoleClaims(undefined)).toBeNull();
+    expect(getRoleClaims({ role: 'coach', clubId: CLUB_ID })).toBeNull();
+    expect(getRoleClaims({ ...claims, claimsVersion: ROLE_CLAIMS_VERSION + 1 })).toBeNull();
+  });
+
+  it('notices role, club, team and suspension changes in the users document', () => {
+    const coach = actorFor('coach');
+    const claims = buildRoleClaims(coach, club);
+    expect(roleClaimsMatch(claims, coach)).toBe(true);
+    expect(roleClaimsMatch(claims, { ...coach, role: 'view_only' })).toBe(false);
+    expect(roleClaimsMatch(claims, { ...coach, clubId: 'club-2' })).toBe(false);
+    expect(roleClaimsMatch(claims, { ...coach, managedTeamIds: ['team-2'] })).toBe(false);
+    expect(roleClaimsMatch(claims, { ...coach, suspended: true })).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+// Capability model
+// can(actor, action, resource) answers permission questions from ROLE_CONFIG without fetching anything,
+// mirroring the helper functions in firestore.rules (the rules stay the source of truth for writes)
+
+import { ROLE_CONFIG, type ClubRole, type PermissionAction } from './roles';
+import { getEffectiveRole } from './adminGrants';
+import { toDate } from '@/utils/dateHelpers';
+
+export type { PermissionAction } from './roles';
+
+// The user asking (a users document, or the role/club claims from a session)
+export interface PermissionActor {
+  id: string;
+  role?: string | null;
+  clubId?: string | null;
+  teamId?: string | null;
+  managedTeamIds?: string[];
+  // Temporary admin access to the active club makes the actor a club admin (see config/adminGrants)
+  adminGrant?: { clubId: string; expiresAt: unknown } | null;
+}
+
+// What the action applies to. Omitted fields aren't checked, e.g. no clubId means "the actor's own club".
+export interface PermissionResource {
+  clubId?: string | null;
+  teamId?: string | null;
+  // Team owner and coaches (isTeamCoach in firestore.rules)
+  ownerId?: string | null;
+  coachIds?: string[];
+  // Role being invited (member.invite)
+  role?: string;
+}
+
+// Actions limited to the actor's own teams for roles with a 'team' permission scope
+const TEAM_SCOPED_ACTIONS: PermissionAction[] = ['team.update', 'team.delete', 'drill.upload', 'member.invite'];
+
+/**
+ * Get the teams a team manager manages (isTeamManager in firestore.rules)
+ * Team managers who signed up from an invitation manage the invitation's team until a club admin changes it.
+ */
+export function getManagedTeamIds(actor: PermissionActor | null | undefined): string[] {
+  if (actor?.role !== 'team_manager') return [];
+  if (actor.managedTeamIds && actor.managedTeamIds.length > 0) return actor.managedTeamIds;
+  return actor.teamId ? [actor.teamId] : [];
+}
+
+/**
+ * Check if an actor may perform an action on a resource
+ */
+export function can(
+  actor: PermissionActor | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource = {}
+): boolean {
+  const role = getEffectiveRole(actor);
+  if (!actor || !role) return false;
+
+  // isSuperAdmin()
+  if (role === 'super_admin') return true;
+
+  const config = ROLE_CONFIG[role as ClubRole];
+  if (!config || !config.permissions.includes(action)) return false;
+
+  // isClubAdmin(clubId) / isClubMember(clubId): club resources must belong to the actor's club
+  if (resource.clubId !== undefined && (!actor.clubId || resource.clubId !== actor.clubId)) {
+    return false;
+  }
+
+  if (action === 'member.invite' && resource.role && !config.invitableRoles.includes(resource.role as ClubRole)) {
+    return false;
+  }
+
+  // isTeamCoach(teamId) / isTeamManager(teamId)
+  if (config.permissionScope === 'team' && TEAM_SCOPED_ACTIONS.includes(action)) {
+    return (
+      resource.ownerId === actor.id ||
+      !!resource.coachIds?.includes(actor.id) ||
+      (!!resource.teamId && getManagedTeamIds(actor).includes(resource.teamId))
+    );
+  }
+
+  return true;
+}
+
+// Role and club mirrored into Firebase Auth custom claims (see lib/roleClaimsSync), so verifySession, permission
+// checks and firestore.rules can read them from the ID token or session cookie instead of Firestore
+export interface RoleClaims {
+  // ROLE_CLAIMS_VERSION when the claims were set
+  claimsVersion: number;
+  // The dashboard role (Club Admin while the user holds temporary admin access)
+  role: string;
+  clubId: string | null;
+  teamId: string | null;
+  managedTeamIds: string[];
+  // In the active club's clubAdminIds / clubAdminCoachIds
+  clubAdmin: boolean;
+  clubAdminCoach: boolean;
+  // Suspended in the active club (see isClubMember in firestore.rules)
+  suspended: boolean;
+  // The active club requires two-factor authentication for its admins (sports_clubs.requireAdminMfa)
+  mfaRequired: boolean;
+  // When temporary admin access to the active club ends (milliseconds), if the user has it
+  adminGrantExpiresAt: number | null;
+}
+
+// Bump when RoleClaims or the way they are built changes: tokens with claims from another version are treated as
+// having none, so readers fall back to Firestore and the claims are set again. Keep hasRoleClaims() in
+// firestore.rules in step. Version 2 only keeps an active club the user belongs to (see lib/roleClaimsSync).
+export const ROLE_CLAIMS_VERSION = 2;
+
+/**
+ * Build the role claims for a users document and its active club
+ */
+export function buildRoleClaims(
+  user: Pick<PermissionActor, 'id' | 'role' | 'clubId' | 'teamId' | 'managedTeamIds' | 'adminGrant'> & {
+    suspended?: boolean;
+  },
+  club?: { clubAdminIds?: string[]; clubAdminCoachIds?: string[]; requireAdminMfa?: boolean } | null
+): RoleClaims {
+  const role = getEffectiveRole(user) || '';
+  const grantExpiresAt = user.adminGrant?.clubId === user.clubId ? toDate(user.adminGrant?.expiresAt) : null;
+
+  return {
+    claimsVersion: ROLE_CLAIMS_VERSION,
+    role,
+    clubId: user.clubId || null,
+    teamId: user.teamId || null,
+    managedTeamIds: user.managedTeamIds || [],
+    clubAdmin: !!club?.clubAdminIds?.includes(user.id),
+    clubAdminCoach: !!club?.clubAdminCoachIds?.includes(user.id),
+    suspended: user.suspended === true,
+    mfaRequired: role !== 'super_admin' && club?.requireAdminMfa === true,
+    adminGrantExpiresAt: grantExpiresAt ? grantExpiresAt.getTime() : null,
+  };
+}
+
+/**
+ * Read role claims from decoded ID token or session cookie claims
+ * Returns null if they haven't been set or are from another ROLE_CLAIMS_VERSION.
+ */
+export function getRoleClaims(tokenClaims: Record<string, unknown> | null | undefined): RoleClaims | null {
+  if (!tokenClaims || tokenClaims.claimsVersion !== ROLE_CLAIMS_VERSION) return null;
+  if (typeof tokenClaims.role !== 'string' || !tokenClaims.role) return null;
+
+  return {
+    claimsVersion: ROLE_CLAIMS_VERSION,
+    role: tokenClaims.role,
+    clubId: typeof tokenClaims.clubId === 'string' ? tokenClaims.clubId : null,
+    teamId: typeof tokenClaims.teamId === 'string' ? tokenClaims.teamId : null,
+    managedTeamIds: Array.isArray(tokenClaims.managedTeamIds) ? (tokenClaims.managedTeamIds as string[]) : [],
+    clubAdmin: tokenClaims.clubAdmin === true,
+    clubAdminCoach: tokenClaims.clubAdminCoach === true,
+    suspended: tokenClaims.suspended === true,
+    mfaRequired: tokenClaims.mfaRequired === true,
+    adminGrantExpiresAt: typeof tokenClaims.adminGrantExpiresAt === 'number' ? tokenClaims.adminGrantExpiresAt : null,
+  };
+}
+
+/**
+ * Check whether the temporary admin access recorded in role claims has ended (the grant still needs revoking)
+ */
+export function isClaimsAdminGrantExpired(claims: RoleClaims, now: number = Date.now()): boolean {
+  return claims.adminGrantExpiresAt !== null && claims.adminGrantExpiresAt <= now;
+}
+
+/**
+ * Check whether two sets of role claims are the same
+ */
+export function roleClaimsEqual(a: RoleClaims | null, b: RoleClaims | null): boolean {
+  if (!a || !b) return a === b;
+  return (Object.keys(a) as (keyof RoleClaims)[]).every((key) =>
+    Array.isArray(a[key]) ? (a[key] as string[]).join(',') === (b[key] as string[]).join(',') : a[key] === b[key]
+  );
+}
+
+/**
+ * Check whether role claims still describe a users document (role, active club, teams and suspension)
+ */
+export function roleClaimsMatch(
+  claims: RoleClaims | null,
+  user: (Omit<PermissionActor, 'id'> & { suspended?: boolean }) | null
+): boolean {
+  if (!claims || !user) return false;
+  return (
+    claims.role === (getEffectiveRole(user) || '') &&
+    claims.clubId === (user.clubId || null) &&
+    claims.teamId === (user.teamId || null) &&
+    claims.managedTeamIds.join(',') === (user.managedTeamIds || []).join(',') &&
+    claims.suspended === (user.suspended === true)
+  );
+}
+
+/**
+ * The permission actor described by role claims, or null when there are none or their temporary admin access has
+ * ended (read the users document instead)
+ */
+export function getClaimsActor(uid: string | null | undefined, claims: RoleClaims | null): PermissionActor | null {
+  if (!uid || !claims || isClaimsAdminGrantExpired(claims)) return null;
+  return {
+    id: uid,
+    role: claims.role,
+    clubId: claims.clubId,
+    teamId: claims.teamId,
+    managedTeamIds: claims.managedTeamIds,
+  };
+}
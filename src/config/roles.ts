@@ -1,40 +1,109 @@
 // Role configuration for the club admin portal
-// Centralizes role labels, descriptions, and seat information
+// Centralizes role labels, descriptions, seat information and permissions
 
-export type ClubRole = 'club_admin' | 'club_admin_coach' | 'coach' | 'view_only';
+export type ClubRole = 'club_admin' | 'club_admin_coach' | 'team_manager' | 'coach' | 'view_only';
 export type AllRole = ClubRole | 'super_admin';
 
+// Actions checked with can() (see config/permissions). Super admins can do everything.
+export const PERMISSION_ACTIONS = [
+  'admin.access',
+  'audit_log.view',
+  'user.impersonate',
+  'club.view',
+  'club.update',
+  'club.security',
+  'team.create',
+  'team.update',
+  'team.delete',
+  'member.view',
+  'member.invite',
+  'member.update',
+  'member.remove',
+  'referral_code.manage',
+  'drill.upload',
+  'drill.clear',
+  'subscription.view',
+  'subscription.manage',
+  'subscription.admin_plan',
+] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
 export interface RoleConfig {
   label: string;
   description: string;
   usesSeat: boolean;
-  seatType: 'coach' | 'view_only' | null;
+  seatType: 'coach' | 'view_only' | 'team_manager' | null;
+  permissions: PermissionAction[];
+  // 'club': any resource in the user's club. 'team': team, drill and invite actions only on the user's own teams.
+  permissionScope: 'club' | 'team';
+  // Roles this role may invite (member.invite)
+  invitableRoles: ClubRole[];
 }
 
+const CLUB_ADMIN_PERMISSIONS: PermissionAction[] = [
+  'club.view',
+  'club.update',
+  'team.create',
+  'team.update',
+  'team.delete',
+  'member.view',
+  'member.invite',
+  'member.update',
+  'member.remove',
+  'referral_code.manage',
+  'drill.upload',
+  'subscription.view',
+  'subscription.manage',
+];
+
+// Roles available for club member invitations (ordered for dropdown display)
+export const INVITABLE_ROLES: ClubRole[] = ['club_admin_coach', 'club_admin', 'team_manager', 'coach', 'view_only'];
+
 export const ROLE_CONFIG: Record<ClubRole, RoleConfig> = {
   club_admin: {
     label: 'Club Admin',
     description: 'Admin portal only. No mobile app. No paid seat.',
     usesSeat: false,
     seatType: null,
+    permissions: CLUB_ADMIN_PERMISSIONS,
+    permissionScope: 'club',
+    invitableRoles: INVITABLE_ROLES,
   },
   club_admin_coach: {
     label: 'Club Admin Coach',
     description: 'Admin portal + mobile app. Uses 1 coach seat.',
     usesSeat: true,
     seatType: 'coach',
+    permissions: CLUB_ADMIN_PERMISSIONS,
+    permissionScope: 'club',
+    invitableRoles: INVITABLE_ROLES,
+  },
+  team_manager: {
+    label: 'Team Manager',
+    description: 'Admin portal for their own teams only: rosters and view-only invites. Uses 1 team manager seat.',
+    usesSeat: true,
+    seatType: 'team_manager',
+    permissions: ['club.view', 'team.update', 'member.invite'],
+    permissionScope: 'team',
+    invitableRoles: ['view_only'],
   },
   coach: {
     label: 'Coach',
     description: 'Mobile app only. Uses 1 coach seat.',
     usesSeat: true,
     seatType: 'coach',
+    permissions: ['club.view', 'team.update', 'drill.upload'],
+    permissionScope: 'team',
+    invitableRoles: [],
   },
   view_only: {
     label: 'View Only',
     description: 'Mobile app with limited access. Uses 1 view-only seat.',
     usesSeat: true,
     seatType: 'view_only',
+    permissions: ['club.view'],
+    permissionScope: 'club',
+    invitableRoles: [],
   },
 };
 
@@ -42,6 +111,7 @@ export const ROLE_CONFIG: Record<ClubRole, RoleConfig> = {
 export const ALL_ROLE_LABELS: Record<AllRole, string> = {
   club_admin: ROLE_CONFIG.club_admin.label,
   club_admin_coach: ROLE_CONFIG.club_admin_coach.label,
+  team_manager: ROLE_CONFIG.team_manager.label,
   coach: ROLE_CONFIG.coach.label,
   view_only: ROLE_CONFIG.view_only.label,
   super_admin: 'Super Admin',
@@ -57,5 +127,5 @@ export function getRoleDescription(role: string): string {
   return ROLE_CONFIG[role as ClubRole]?.description || '';
 }
 
-// Roles available for club member invitations (ordered for dropdown display)
-export const INVITABLE_ROLES: ClubRole[] = ['club_admin_coach', 'club_admin', 'coach', 'view_only'];
+// Roles allowed into the admin dashboard (team managers only see their own teams)
+export const DASHBOARD_ROLES: string[] = ['super_admin', 'club_admin', 'club_admin_coach', 'team_manager'];
@@ -0,0 +1,187 @@
+// Seat ledger configuration
+// Shared by the dashboard, the seat ledger route handlers and the nightly reconciliation
+
+import { ROLE_CONFIG, type ClubRole, type RoleConfig } from './roles';
+import { getActiveClubAdminPlan } from './adminPlans';
+import type { ClubMembership } from '@/types';
+
+export type SeatType = NonNullable<RoleConfig['seatType']>;
+
+// Every seat type used by a role, in ROLE_CONFIG order
+export const SEAT_TYPES: SeatType[] = [
+  ...new Set(Object.values(ROLE_CONFIG).flatMap((config) => (config.seatType ? [config.seatType] : []))),
+];
+
+// sports_clubs field holding the limit for each seat type (also the seat fields of an admin-managed plan)
+export const SEAT_LIMIT_FIELDS: Record<SeatType, string> = {
+  coach: 'maxCoachAccounts',
+  view_only: 'maxViewOnlyUsers',
+  team_manager: 'maxTeamManagers',
+};
+
+export const SEAT_TYPE_LABELS: Record<SeatType, string> = {
+  coach: 'Coach',
+  view_only: 'View Only',
+  team_manager: 'Team Manager',
+};
+
+// Members signed up (used) and unused invitation code uses (pending) against the plan limit (null = no seats)
+export interface SeatCount {
+  used: number;
+  pending: number;
+  limit: number | null;
+}
+
+export type SeatCounts = Record<SeatType, SeatCount>;
+
+// Seats to add (or remove, when negative) per seat type
+export type SeatChanges = Partial<Record<SeatType, { used?: number; pending?: number }>>;
+
+// Members over the limit, per seat type that has more members than seats
+export type SeatOverages = Partial<Record<SeatType, number>>;
+
+// Difference between the ledger and a recount, per seat type (ledger minus actual)
+export type SeatDrift = Partial<Record<SeatType, { used: number; pending: number }>>;
+
+/**
+ * Get the seat type a role takes up, or null for roles without seats (club admins)
+ */
+export function getSeatType(role: string | null | undefined): SeatType | null {
+  return ROLE_CONFIG[role as ClubRole]?.seatType || null;
+}
+
+/**
+ * Get the seat type a club membership takes up; suspended members don't take a seat
+ */
+export function getMembershipSeatType(membership: Pick<ClubMembership, 'role' | 'suspended'> | null | undefined): SeatType | null {
+  return membership?.suspended ? null : getSeatType(membership?.role);
+}
+
+/**
+ * Read the seat limits from a sports_clubs document
+ * Seats of an admin-managed plan that applies now are added to the club's own (Stripe) seats.
+ */
+export function getSeatLimits(
+  clubData: Record<string, unknown> | null | undefined,
+  now: number = Date.now()
+): Record<SeatType, number | null> {
+  const adminPlan = getActiveClubAdminPlan(clubData, now) as Record<string, unknown> | null;
+  return Object.fromEntries(
+    SEAT_TYPES.map((seatType) => {
+      const field = SEAT_LIMIT_FIELDS[seatType];
+      const limit = ((clubData?.[field] as number) || 0) + ((adminPlan?.[field] as number) || 0);
+      return [seatType, limit || null];
+    })
+  ) as Record<SeatType, number | null>;
+}
+
+/**
+ * Build zeroed seat counts with the given limits
+ */
+export function getEmptySeatCounts(limits: Record<SeatType, number | null>): SeatCounts {
+  return Object.fromEntries(
+    SEAT_TYPES.map((seatType) => [seatType, { used: 0, pending: 0, limit: limits[seatType] }])
+  ) as SeatCounts;
+}
+
+/**
+ * Fill in seat types missing from a stored ledger (e.g. a seat type added after the ledger was created)
+ */
+export function normalizeSeatCounts(seats: Partial<SeatCounts> | null | undefined): SeatCounts {
+  return Object.fromEntries(
+    SEAT_TYPES.map((seatType) => [
+      seatType,
+      {
+        used: seats?.[seatType]?.used || 0,
+        pending: seats?.[seatType]?.pending || 0,
+        limit: seats?.[seatType]?.limit ?? null,
+      },
+    ])
+  ) as SeatCounts;
+}
+
+/**
+ * Get the number of seats still free, or null when the plan has no seats of this type
+ */
+export function getSeatsAvailable(seat: SeatCount): number | null {
+  return seat.limit === null ? null : Math.max(seat.limit - seat.used - seat.pending, 0);
+}
+
+/**
+ * Get how many members are over the limit for each seat type (pending invitations aren't counted)
+ * A club goes over its limits when its plan loses seats, e.g. a Stripe downgrade or an admin-managed plan ending.
+ * Pass the club's current limits (getSeatLimits) so limit changes count before the ledger is recounted.
+ */
+export function getSeatOverages(seats: SeatCounts, limits?: Record<SeatType, number | null>): SeatOverages {
+  const overages: SeatOverages = {};
+  SEAT_TYPES.forEach((seatType) => {
+    const limit = limits ? limits[seatType] : seats[seatType].limit;
+    const overage = seats[seatType].used - (limit ?? 0);
+    if (overage > 0) {
+      overages[seatType] = overage;
+    }
+  });
+  return overages;
+}
+
+/**
+ * Describe seat overages, e.g. "2 Coach seats and 1 View Only seat"
+ */
+export function formatSeatOverages(overages: SeatOverages): string {
+  const parts = SEAT_TYPES.flatMap((seatType) => {
+    const count = overages[seatType];
+    return count ? [`${count} ${SEAT_TYPE_LABELS[seatType]} seat${count !== 1 ? 's' : ''}`] : [];
+  });
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] || '';
+}
+
+/**
+ * Get the seats an invitation code still holds: its remaining uses while active and unexpired
+ */
+export function getPendingSeats(
+  codeData: { active?: boolean; maxUses?: number; usesCount?: number; expiresAt?: unknown },
+  now: number = Date.now()
+): number {
+  const expiresAt = codeData.expiresAt as { toMillis?: () => number } | null | undefined;
+  if (codeData.active === false || (typeof expiresAt?.toMillis === 'function' && expiresAt.toMillis() < now)) {
+    return 0;
+  }
+  return Math.max((codeData.maxUses || 1) - (codeData.usesCount || 0), 0);
+}
+
+/**
+ * Compare a ledger with a recount; returns only the seat types that differ
+ */
+export function getSeatDrift(ledger: SeatCounts, actual: SeatCounts): SeatDrift {
+  const drift: SeatDrift = {};
+  SEAT_TYPES.forEach((seatType) => {
+    const used = ledger[seatType].used - actual[seatType].used;
+    const pending = ledger[seatType].pending - actual[seatType].pending;
+    if (used !== 0 || pending !== 0) {
+      drift[seatType] = { used, pending };
+    }
+  });
+  return drift;
+}
+
+/**
+ * Get the seat changes for a member leaving a club (none for suspended members, who hold no seat)
+ */
+export function getRemovalSeats(membership: Pick<ClubMembership, 'role' | 'suspended'> | null | undefined): SeatChanges {
+  const seatType = getMembershipSeatType(membership);
+  return seatType ? { [seatType]: { used: -1 } } : {};
+}
+
+/**
+ * Get the seat changes for a member moving from one role to another (null for joining or leaving the club)
+ */
+export function getRoleChangeSeats(oldRole: string | null | undefined, newRole: string | null | undefined): SeatChanges {
+  const oldSeatType = getSeatType(oldRole);
+  const newSeatType = getSeatType(newRole);
+  if (oldSeatType === newSeatType) return {};
+
+  const changes: SeatChanges = {};
+  if (oldSeatType) changes[oldSeatType] = { used: -1 };
+  if (newSeatType) changes[newSeatType] = { used: 1 };
+  return changes;
+}
@@ -0,0 +1,81 @@
+// Seat resolution configuration
+// Used by the over-limit wizard (club/subscriptions/over-limit): club admins choose what happens to members
+// holding seats the plan no longer includes, and the wizard checks the result fits the plan before applying it.
+
+import type { ClubRole } from './roles';
+import { SEAT_TYPES, getSeatOverages, getSeatType, type SeatCounts, type SeatOverages, type SeatType } from './seatLedger';
+
+// 'keep': no change. 'view_only' and 'club_admin': change role. 'suspend': suspend in the club.
+export type SeatResolutionAction = 'keep' | 'view_only' | 'club_admin' | 'suspend';
+
+export const SEAT_RESOLUTION_ACTION_LABELS: Record<SeatResolutionAction, string> = {
+  keep: 'Keep',
+  view_only: 'Downgrade to View Only',
+  club_admin: 'Change to Club Admin (no seat)',
+  suspend: 'Suspend',
+};
+
+// Order the wizard applies changes in: suspensions and admin changes free seats before downgrades take
+// view-only seats
+export const SEAT_RESOLUTION_ORDER: SeatResolutionAction[] = ['suspend', 'club_admin', 'view_only'];
+
+/**
+ * Get the actions available for a member with a role
+ * Club admin coaches stay admins (they can drop their coach seat); view-only members can only be suspended.
+ */
+export function getSeatResolutionActions(role: ClubRole): SeatResolutionAction[] {
+  switch (role) {
+    case 'club_admin_coach':
+      return ['keep', 'club_admin'];
+    case 'coach':
+    case 'team_manager':
+      return ['keep', 'view_only', 'suspend'];
+    case 'view_only':
+      return ['keep', 'suspend'];
+    default:
+      return ['keep'];
+  }
+}
+
+/**
+ * Work out the seat counts after the chosen changes (roles keyed by user ID, actions keyed by user ID)
+ */
+export function getResolvedSeats(
+  seats: SeatCounts,
+  roles: Record<string, ClubRole>,
+  actions: Record<string, SeatResolutionAction>
+): SeatCounts {
+  const resolved = Object.fromEntries(SEAT_TYPES.map((seatType) => [seatType, { ...seats[seatType] }])) as SeatCounts;
+
+  Object.entries(actions).forEach(([userId, action]) => {
+    const seatType = getSeatType(roles[userId]);
+    if (action === 'keep' || !seatType) return;
+
+    resolved[seatType].used--;
+    if (action === 'view_only') {
+      resolved.view_only.used++;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Check the chosen changes bring the club within its seats
+ * Returns what is still over the limit, and the view-only seats downgrades need but pending invitations hold
+ * (downgrades only take free seats).
+ */
+export function checkSeatResolution(
+  seats: SeatCounts,
+  limits: Record<SeatType, number | null>,
+  roles: Record<string, ClubRole>,
+  actions: Record<string, SeatResolutionAction>
+): { resolved: SeatCounts; overages: SeatOverages; pendingViewOnlyShortfall: number } {
+  const resolved = getResolvedSeats(seats, roles, actions);
+  const overages = getSeatOverages(resolved, limits);
+  const hasDowngrades = Object.values(actions).includes('view_only');
+  const pendingViewOnlyShortfall = hasDowngrades
+    ? Math.max(resolved.view_only.used + resolved.view_only.pending - (limits.view_only ?? 0), 0)
+    : 0;
+
+  return { resolved, overages, pendingViewOnlyShortfall };
+}
@@ -0,0 +1,41 @@
+// Session policy configuration
+// Idle timeout per role, shared by the idle timeout dialog and the server-side idle check in verifySession
+
+// Roles that can use the dashboard, and so have an idle timeout
+export const SESSION_POLICY_ROLES = ['super_admin', 'club_admin', 'club_admin_coach', 'team_manager'] as const;
+export type SessionPolicyRole = (typeof SESSION_POLICY_ROLES)[number];
+
+export interface SessionPolicy {
+  // Minutes without activity before the user is signed out (0 turns the timeout off)
+  idleTimeoutMinutes: Record<SessionPolicyRole, number>;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: {
+    super_admin: 60,
+    club_admin: 60,
+    club_admin_coach: 60,
+    team_manager: 60,
+  },
+};
+
+/**
+ * Build the session policy from the stored session_settings/policy document, falling back to the defaults for unset roles
+ */
+export function toSessionPolicy(
+  stored: { idleTimeoutMinutes?: Partial<Record<SessionPolicyRole, number>> } | undefined
+): SessionPolicy {
+  return {
+    idleTimeoutMinutes: { ...DEFAULT_SESSION_POLICY.idleTimeoutMinutes, ...stored?.idleTimeoutMinutes },
+  };
+}
+
+/**
+ * Get the idle timeout for a role in minutes (0 when there is none)
+ */
+export function getIdleTimeoutMinutes(policy: SessionPolicy, role: string | null | undefined): number {
+  if (!role || !(SESSION_POLICY_ROLES as readonly string[]).includes(role)) {
+    return 0;
+  }
+  return policy.idleTimeoutMinutes[role as SessionPolicyRole] || 0;
+}
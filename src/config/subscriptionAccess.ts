@@ -0,0 +1,137 @@
+// Subscription access configuration
+// Shared by the sign-in check, the proxy (pages and club API writes) and the dashboard's payment banner
+
+import { toDate } from '@/utils/dateHelpers';
+import { isAdminPlan, isAdminPlanActive } from './adminPlans';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const configuredGraceDays = Number.parseInt(process.env.NEXT_PUBLIC_PAST_DUE_GRACE_DAYS || '', 10);
+
+// Days a club keeps read-only access after its subscription becomes past_due
+export const PAST_DUE_GRACE_DAYS = Number.isNaN(configuredGraceDays) ? 7 : Math.max(configuredGraceDays, 0);
+
+// 'full': normal use. 'read_only': past due, within the grace period. 'billing_only': only club/subscriptions
+// (past due after the grace period, unpaid or incomplete). 'none': no subscription that can be recovered.
+export type SubscriptionAccess = 'full' | 'read_only' | 'billing_only' | 'none';
+
+export interface SubscriptionAccessResult {
+  access: SubscriptionAccess;
+  reason?: string;
+  graceEndsAt?: Date | null; // End of the read-only period (read_only and past-due billing_only)
+}
+
+// The subscriptions document fields used here
+export interface SubscriptionStatusFields {
+  status?: string;
+  source?: string; // 'admin' for admin-managed plans
+  pastDueSince?: unknown; // Set by the Stripe webhook when the subscription becomes past_due
+  currentPeriodStart?: unknown;
+  currentPeriodEnd?: unknown;
+  updatedAt?: unknown;
+}
+
+const FULL_ACCESS_STATUSES = ['trialing', 'active'];
+
+// Statuses a club admin can fix from club/subscriptions
+const BILLING_STATUSES = ['past_due', 'unpaid', 'incomplete'];
+
+const STATUS_REASONS: Record<string, string> = {
+  canceled: 'Your subscription has been canceled. Please renew your subscription to continue using the admin dashboard.',
+  past_due: 'Your subscription payment is past due. Please update your payment method to continue using the admin dashboard.',
+  unpaid: 'Your subscription payment failed. Please update your payment method to continue using the admin dashboard.',
+  incomplete: 'Your subscription setup is incomplete. Please complete your subscription to continue using the admin dashboard.',
+  incomplete_expired: 'Your subscription setup has expired. Please create a new subscription to continue using the admin dashboard.',
+};
+
+/**
+ * Get when a past_due subscription's grace period ends
+ * Counts from pastDueSince, or from the start of the billing period whose renewal failed for subscriptions
+ * written before the webhook recorded it.
+ */
+export function getGraceEndsAt(subscription: SubscriptionStatusFields): Date | null {
+  const pastDueSince =
+    toDate(subscription.pastDueSince) || toDate(subscription.currentPeriodStart) || toDate(subscription.updatedAt);
+  return pastDueSince ? new Date(pastDueSince.getTime() + PAST_DUE_GRACE_DAYS * DAY_MS) : null;
+}
+
+/**
+ * Work out what a club can do in the dashboard from all of its subscriptions
+ */
+export function getSubscriptionAccess(
+  allSubscriptions: SubscriptionStatusFields[],
+  now: number = Date.now()
+): SubscriptionAccessResult {
+  if (allSubscriptions.length === 0) {
+    return {
+      access: 'none',
+      reason: 'No active subscription found. Please purchase a subscription to access the dashboard.',
+    };
+  }
+
+  // Admin-managed plans give full access between their start and end dates; Stripe statuses decide the rest
+  if (allSubscriptions.some((subscription) => isAdminPlanActive(subscription, now))) {
+    return { access: 'full' };
+  }
+
+  const subscriptions = allSubscriptions.filter((subscription) => !isAdminPlan(subscription));
+  if (subscriptions.length === 0) {
+    return {
+      access: 'none',
+      reason: "Your club's plan is not active. Please contact support to continue using the admin dashboard.",
+    };
+  }
+
+  if (subscriptions.some((subscription) => FULL_ACCESS_STATUSES.includes(subscription.status || ''))) {
+    return { access: 'full' };
+  }
+
+  // The past_due subscription with the most grace left decides the read-only period
+  const graceEndsAt = subscriptions
+    .filter((subscription) => subscription.status === 'past_due')
+    .map(getGraceEndsAt)
+    .reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null);
+
+  if (graceEndsAt && graceEndsAt.getTime() > now) {
+    return { access: 'read_only', reason: STATUS_REASONS.past_due, graceEndsAt };
+  }
+
+  const billingSubscription = subscriptions.find((subscription) =>
+    BILLING_STATUSES.includes(subscription.status || '')
+  );
+  if (billingSubscription) {
+    return {
+      access: 'billing_only',
+      reason: STATUS_REASONS[billingSubscription.status as string],
+      graceEndsAt,
+    };
+  }
+
+  const firstInvalid = subscriptions.find((subscription) => STATUS_REASONS[subscription.status || '']);
+  return {
+    access: 'none',
+    reason: firstInvalid
+      ? STATUS_REASONS[firstInvalid.status as string]
+      : 'Your subscription status is not valid. Please contact support.',
+  };
+}
+
+// Shown when a write is attempted while the club's subscription is past due
+export const BILLING_READ_ONLY_MESSAGE =
+  'Your club\'s subscription payment is past due. Changes are disabled until the payment method is updated.';
+
+/**
+ * Check if a club API route can still be written to while the club is read-only or only has billing access:
+ * paying, and loading (or recounting) the seat ledger shown on club/subscriptions
+ */
+export function isBillingApiPath(pathname: string): boolean {
+  return pathname.startsWith('/api/club/billing/') || pathname === '/api/club/seat-ledger';
+}
+
+/**
+ * Check if a path can be used while a club only has billing access
+ * Account Settings stays available so admins can finish required two-factor setup.
+ */
+export function isBillingPath(pathname: string): boolean {
+  return pathname.startsWith('/club/subscriptions') || pathname.startsWith('/account');
+}
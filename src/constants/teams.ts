@@ -14,3 +14,16 @@ export const AGE_GROUP_LABELS: Record<string, string> = {
   'U18': 'U18/U19',
 };
 
+// Team-level coaching roles stored in Team.coaches (separate from the user's club role)
+export const COACHING_ROLES = ['head_coach', 'assistant_coach', 'strength_conditioning', 'goalkeeping'] as const;
+export type CoachingRole = (typeof COACHING_ROLES)[number];
+
+export const COACHING_ROLE_LABELS: Record<CoachingRole, string> = {
+  head_coach: 'Head Coach',
+  assistant_coach: 'Assistant Coach',
+  strength_conditioning: 'S&C Coach',
+  goalkeeping: 'Goalkeeping Coach',
+};
+
+// Club roles that can be given a coaching role on a team
+export const COACHING_STAFF_CLUB_ROLES = ['coach', 'club_admin_coach'];
@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { collection, getDocs, query, where, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { isActiveWithin, isInactiveUser } from '@/lib/loginActivity';
+import type { User } from '@/types';
+import { toDate } from '@/utils/dateHelpers';
 
 interface SystemHealth {
   orphanedUsers: {
@@ -23,7 +26,13 @@ interface SystemHealth {
 interface AdminStats {
   totalClubs: number;
   clubsThisMonth: number;
+  totalUsers: number;
+  // Users who signed in within the last day / 7 days / 30 days (from users.lastLoginAt)
+  dailyActiveUsers: number;
+  weeklyActiveUsers: number;
   activeUsers: number;
+  // Users who haven't signed in for 30+ days, least recently active first
+  inactiveUsers: User[];
   usersThisMonth: number;
   sessionsCreated: number;
   sessionsThisMonth: number;
@@ -38,7 +47,11 @@ export function useAdminStats() {
   const [stats, setStats] = useState<AdminStats>({
     totalClubs: 0,
     clubsThisMonth: 0,
+    totalUsers: 0,
+    dailyActiveUsers: 0,
+    weeklyActiveUsers: 0,
     activeUsers: 0,
+    inactiveUsers: [],
     usersThisMonth: 0,
     sessionsCreated: 0,
     sessionsThisMonth: 0,
@@ -103,7 +116,14 @@ export function useAdminStats() {
 
       const totalClubs = clubsSnapshot.size;
       const clubsThisMonth = clubsThisMonthSnapshot.size;
-      const activeUsers = usersSnapshot.size; // Total users since we don't have login tracking
+      const users = usersSnapshot.docs.map((userDoc) => ({ id: userDoc.id, ...userDoc.data() }) as User);
+      const totalUsers = users.length;
+      const dailyActiveUsers = users.filter((u) => isActiveWithin(u, 1, now)).length;
+      const weeklyActiveUsers = users.filter((u) => isActiveWithin(u, 7, now)).length;
+      const activeUsers = users.filter((u) => isActiveWithin(u, 30, now)).length;
+      const inactiveUsers = users
+        .filter((u) => isInactiveUser(u, now))
+        .sort((a, b) => (toDate(a.lastLoginAt)?.getTime() || 0) - (toDate(b.lastLoginAt)?.getTime() || 0));
       const usersThisMonth = usersThisMonthSnapshot.size;
       const sessionsCreated = sessionsSnapshot.size;
       const sessionsThisMonth = sessionsThisMonthSnapshot.size;
@@ -116,7 +136,11 @@ export function useAdminStats() {
       setStats({
         totalClubs,
         clubsThisMonth,
+        totalUsers,
+        dailyActiveUsers,
+        weeklyActiveUsers,
         activeUsers,
+        inactiveUsers,
         usersThisMonth,
         sessionsCreated,
         sessionsThisMonth,
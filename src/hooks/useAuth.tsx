@@ -1,17 +1,43 @@
 // Authentication hook and context
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { onAuthStateChanged, signOut as firebaseAuthSignOut, User as FirebaseUser } from 'firebase/auth';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
 import { getCurrentUserData } from '@/lib/auth';
+import { syncUserEmail } from '@/lib/account';
+import {
+  getImpersonationTarget,
+  setViewingAs,
+  startImpersonationSession,
+  stopImpersonationSession,
+} from '@/lib/impersonation';
+import { broadcastAuthEvent, subscribeToAuthEvents } from '@/lib/authBroadcast';
+import type { SignOutReason } from '@/lib/sessionPolicy';
+import { isClubSwitch } from '@/config/memberships';
+import { getEffectiveRole } from '@/config/adminGrants';
+import { isClaimsAdminGrantExpired, roleClaimsMatch, type RoleClaims } from '@/config/permissions';
+import { getTokenRoleClaims, refreshRoleClaims } from '@/lib/roleClaims';
 import type { User } from '@/types';
 
 interface AuthContextType {
   user: FirebaseUser | null;
+  // The viewed-as club admin's data while a super admin is impersonating, otherwise the signed-in user's
   userData: User | null;
+  // Always the signed-in user's data
+  realUserData: User | null;
+  // The signed-in user's role claims from their ID token; null when they couldn't be set (use realUserData)
+  claims: RoleClaims | null;
+  // Set while a super admin is viewing the dashboard as a club admin (read-only)
+  impersonatedUser: User | null;
   loading: boolean;
-  signOut: () => Promise<void>;
+  // Signs out every open tab; pass a reason for automatic sign-outs (shown on the login page)
+  signOut: (reason?: SignOutReason) => Promise<void>;
+  // Reload userData after the signed-in user's document changes (e.g. Account Settings)
+  refreshUserData: () => Promise<void>;
+  startImpersonation: (targetUid: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,15 +45,24 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<FirebaseUser | null>(null);
   const [userData, setUserData] = useState<User | null>(null);
+  const [claims, setClaims] = useState<RoleClaims | null>(null);
+  const [impersonatedUser, setImpersonatedUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const applyImpersonation = useCallback((targetData: User | null) => {
+    setViewingAs(targetData?.id || null);
+    setImpersonatedUser(targetData);
+  }, []);
+
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       setUser(firebaseUser);
 
       if (firebaseUser) {
+        // Role and club come from the ID token's claims; the users document is still needed for the profile.
         // Fetch user data from Firestore with retry logic
         // This handles the case where Cloud Function hasn't finished creating the doc yet
+        const tokenClaimsPromise = getTokenRoleClaims(firebaseUser).catch(() => null);
         let data = await getCurrentUserData(firebaseUser.uid);
 
         if (!data) {
@@ -42,25 +77,155 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }
         }
 
+        // Pick up a verified (or reverted) email change in the users document
+        if (data) {
+          try {
+            if (await syncUserEmail(firebaseUser, data)) {
+              data = { ...data, email: firebaseUser.email!.toLowerCase() };
+            }
+          } catch (error) {
+            console.error('Failed to sync user email:', error);
+          }
+        }
+
+        // Role claims are set by the server; they are only requested when the token has none (or older ones)
+        let tokenClaims = await tokenClaimsPromise;
+        if (data && (!tokenClaims || isClaimsAdminGrantExpired(tokenClaims))) {
+          tokenClaims = await refreshRoleClaims(firebaseUser);
+        }
+
+        // Restore an active "view as" session for super admins
+        let targetData: User | null = null;
+        if ((tokenClaims?.role || data?.role) === 'super_admin') {
+          const targetUid = await getImpersonationTarget();
+          targetData = targetUid ? await getCurrentUserData(targetUid) : null;
+        }
+
         setUserData(data);
+        setClaims(data ? tokenClaims : null);
+        applyImpersonation(targetData);
+
+        // Changed from the client without updating the claims: fix them for firestore.rules in the background
+        if (data && !roleClaimsMatch(tokenClaims, data)) {
+          refreshRoleClaims(firebaseUser).then((next) => {
+            if (auth.currentUser === firebaseUser) setClaims(next);
+          });
+        }
       } else {
         setUserData(null);
+        setClaims(null);
+        applyImpersonation(null);
       }
 
       setLoading(false);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [applyImpersonation]);
 
-  const signOut = async () => {
+  const signOut = useCallback(async (reason?: SignOutReason) => {
     const { signOut: firebaseSignOut } = await import('@/lib/auth');
+    if (impersonatedUser) {
+      await stopImpersonationSession();
+    }
     await firebaseSignOut();
+    broadcastAuthEvent({ type: 'signed_out', reason: reason || null });
     setUser(null);
     setUserData(null);
+    setClaims(null);
+    applyImpersonation(null);
+
+    if (reason) {
+      window.location.href = `/login?reason=${reason}`;
+    }
+  }, [impersonatedUser, applyImpersonation]);
+
+  // Another tab signed out: the session cookie is already gone, so only clear this tab
+  useEffect(() => {
+    return subscribeToAuthEvents(async (event) => {
+      if (event.type !== 'signed_out' || !auth.currentUser) return;
+
+      await firebaseAuthSignOut(auth);
+      setUser(null);
+      setUserData(null);
+      setClaims(null);
+      applyImpersonation(null);
+      window.location.href = `/login?reason=${event.reason || 'other_tab'}`;
+    });
+  }, [applyImpersonation]);
+
+  // Force a re-login if the user's role or club is changed (or the user is removed or suspended) elsewhere,
+  // including temporary admin access being given or ending
+  const uid = user?.uid;
+  useEffect(() => {
+    if (!uid || !userData?.role) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', uid),
+      (snapshot) => {
+        const data = snapshot.data() as User | undefined;
+        if (
+          data &&
+          getEffectiveRole(data) === getEffectiveRole(userData) &&
+          (data.clubId || null) === (userData.clubId || null) &&
+          (data.suspended === true) === (userData.suspended === true)
+        ) {
+          // A team manager's teams changed: keep them in userData and the token's claims
+          const teamsChanged =
+            (data.teamId || null) !== (userData.teamId || null) ||
+            (data.managedTeamIds || []).join(',') !== (userData.managedTeamIds || []).join(',');
+          if (teamsChanged && auth.currentUser) {
+            setUserData({ ...userData, teamId: data.teamId, managedTeamIds: data.managedTeamIds });
+            refreshRoleClaims(auth.currentUser).then(setClaims);
+          }
+          return;
+        }
+
+        // Switching to another of the user's clubs (in any tab) reloads the dashboard instead,
+        // once the ID token carries the new club
+        if (data && data.clubId !== userData.clubId && isClubSwitch(userData, data)) {
+          const currentUser = auth.currentUser;
+          (currentUser ? refreshRoleClaims(currentUser) : Promise.resolve(null)).finally(() => {
+            window.location.href = '/';
+          });
+          return;
+        }
+        signOut('access_changed').catch((error) => console.error('Failed to sign out:', error));
+      },
+      (error) => console.error('Error watching user access:', error)
+    );
+
+    return () => unsubscribe();
+  }, [uid, userData, signOut]);
+
+  const startImpersonation = useCallback(async (targetUid: string) => {
+    await startImpersonationSession(targetUid);
+    const targetData = await getCurrentUserData(targetUid);
+    applyImpersonation(targetData);
+  }, [applyImpersonation]);
+
+  const stopImpersonation = useCallback(async () => {
+    await stopImpersonationSession();
+    applyImpersonation(null);
+  }, [applyImpersonation]);
+
+  const refreshUserData = async () => {
+    if (!auth.currentUser) return;
+    setUserData(await getCurrentUserData(auth.currentUser.uid));
   };
 
-  const contextValue: AuthContextType = { user, userData, loading, signOut };
+  const contextValue: AuthContextType = {
+    user,
+    userData: impersonatedUser || userData,
+    realUserData: userData,
+    claims,
+    impersonatedUser,
+    loading,
+    signOut,
+    refreshUserData,
+    startImpersonation,
+    stopImpersonation,
+  };
 
   return (
     <AuthContext.Provider value={contextValue}>
@@ -0,0 +1,19 @@
+// Permission hook
+'use client';
+
+import { useAuth } from './useAuth';
+import { can, getClaimsActor, type PermissionAction, type PermissionResource } from '@/config/permissions';
+
+/**
+ * Check if the signed-in user may perform an action (see config/permissions)
+ * Uses the signed-in user's own role, also while a super admin is viewing as a club admin. The role comes from
+ * the ID token's claims, or from the users document when the token has none.
+ */
+export function usePermission(action: PermissionAction, resource?: PermissionResource) {
+  const { user, claims, realUserData, loading } = useAuth();
+
+  return {
+    allowed: !loading && can(getClaimsActor(user?.uid, claims) || realUserData, action, resource),
+    loading,
+  };
+}
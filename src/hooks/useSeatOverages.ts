@@ -0,0 +1,66 @@
+// Seat overage hook
+'use client';
+
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { subscribeToSeatLedger } from '@/lib/seatLedger';
+import {
+  getSeatLimits,
+  getSeatOverages,
+  type SeatCounts,
+  type SeatOverages,
+  type SeatType,
+} from '@/config/seatLedger';
+
+interface LoadedSeats {
+  clubId: string;
+  seats?: SeatCounts;
+  limits?: Record<SeatType, number | null>;
+}
+
+/**
+ * Follow whether a club has more members than its plan's seats (see getSeatOverages)
+ * Limits are read from the club as they change, so a Stripe downgrade shows up before the nightly recount.
+ * Pass null to skip (e.g. for users who can't resolve it).
+ */
+export function useSeatOverages(clubId: string | null | undefined) {
+  const [loaded, setLoaded] = useState<LoadedSeats | null>(null);
+
+  useEffect(() => {
+    if (!clubId) return;
+
+    const stopLedger = subscribeToSeatLedger(
+      clubId,
+      (ledger) =>
+        setLoaded((previous) => ({ ...(previous?.clubId === clubId ? previous : {}), clubId, seats: ledger.seats })),
+      (err) => console.error('Error loading seat ledger:', err)
+    );
+    const stopClub = onSnapshot(
+      doc(db, 'sports_clubs', clubId),
+      (clubDoc) =>
+        setLoaded((previous) => ({
+          ...(previous?.clubId === clubId ? previous : {}),
+          clubId,
+          limits: getSeatLimits(clubDoc.data()),
+        })),
+      (err) => console.error('Error loading club seat limits:', err)
+    );
+
+    return () => {
+      stopLedger();
+      stopClub();
+    };
+  }, [clubId]);
+
+  const current = clubId && loaded?.clubId === clubId ? loaded : null;
+  const overages: SeatOverages = current?.seats && current.limits ? getSeatOverages(current.seats, current.limits) : {};
+
+  return {
+    overages,
+    seats: current?.seats || null,
+    limits: current?.limits || null,
+    isOverLimit: Object.keys(overages).length > 0,
+    loading: !!clubId && !(current?.seats && current.limits),
+  };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { hasRecentReauthentication } from '@/lib/stepUpAuth';
+import ReauthenticateDialog from '@/components/account/ReauthenticateDialog';
+
+type StepUpAction = () => void | Promise<void>;
+
+/**
+ * Ask the user to confirm it's them (password, Google/Apple and 2FA code) before a destructive action.
+ * Once confirmed, further actions within STEP_UP_WINDOW_MS run without asking again. Actions that call a server
+ * route must use fetchWithStepUp, since the route checks the reauthentication itself.
+ *
+ * Render `stepUpDialog` once in the component and wrap destructive handlers with `requireStepUp`.
+ */
+export function useStepUpAuth() {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<{ action: StepUpAction; message?: string } | null>(null);
+
+  const requireStepUp = useCallback(
+    (action: StepUpAction, message?: string) => {
+      if (user && hasRecentReauthentication(user)) {
+        void action();
+        return;
+      }
+      setPending({ action, message });
+    },
+    [user]
+  );
+
+  const handleReauthenticated = async () => {
+    const current = pending;
+    setPending(null);
+    if (current) {
+      await current.action();
+    }
+  };
+
+  const stepUpDialog = (
+    <ReauthenticateDialog
+      open={pending !== null}
+      onClose={() => setPending(null)}
+      onReauthenticated={handleReauthenticated}
+      message={pending?.message}
+    />
+  );
+
+  return { requireStepUp, stepUpDialog };
+}
@@ -0,0 +1,57 @@
+// Subscription access hook
+'use client';
+
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { setBillingReadOnly } from '@/lib/readOnlyMode';
+import {
+  getSubscriptionAccess,
+  type SubscriptionAccessResult,
+  type SubscriptionStatusFields,
+} from '@/config/subscriptionAccess';
+
+interface LoadedAccess {
+  clubId: string;
+  result: SubscriptionAccessResult;
+}
+
+/**
+ * Follow what a club's subscriptions allow in the dashboard (see config/subscriptionAccess)
+ * Also switches the dashboard into read-only mode while the club is in its past_due grace period.
+ * Pass null for users without a club (super admins) - they always have full access.
+ */
+export function useSubscriptionAccess(clubId: string | null | undefined) {
+  const [loaded, setLoaded] = useState<LoadedAccess | null>(null);
+
+  useEffect(() => {
+    if (!clubId) return;
+
+    return onSnapshot(
+      query(collection(db, 'subscriptions'), where('clubId', '==', clubId)),
+      (snapshot) => {
+        const subscriptions = snapshot.docs.map((doc) => doc.data() as SubscriptionStatusFields);
+        setLoaded({ clubId, result: getSubscriptionAccess(subscriptions) });
+      },
+      (err) => {
+        // Sign-in and the proxy already checked the subscription; don't lock the dashboard on a read error
+        console.error('Error loading subscription access:', err);
+        setLoaded({ clubId, result: { access: 'full' } });
+      }
+    );
+  }, [clubId]);
+
+  const loading = !!clubId && loaded?.clubId !== clubId;
+  const result: SubscriptionAccessResult = clubId && !loading && loaded ? loaded.result : { access: 'full' };
+
+  useEffect(() => {
+    setBillingReadOnly(result.access === 'read_only');
+  }, [result.access]);
+
+  return {
+    access: result.access,
+    reason: result.reason,
+    graceEndsAt: result.graceEndsAt || null,
+    loading,
+  };
+}
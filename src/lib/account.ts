@@ -0,0 +1,202 @@
+// Account settings utilities
+// Linked sign-in providers, email/password changes and profile updates for the signed-in user
+'use client';
+
+import {
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  OAuthProvider,
+  linkWithCredential,
+  linkWithPopup,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  unlink,
+  updatePassword,
+  updateProfile,
+  verifyBeforeUpdateEmail,
+  User as FirebaseUser,
+} from 'firebase/auth';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { createServerSession, getActionCodeSettings } from './auth';
+import { isMultiFactorError, resolveWithTotpCode } from './mfa';
+import { logActivity } from './activityLog';
+import { recordReauthentication } from './stepUpAuth';
+import { isOidcProviderId } from '@/config/oidc';
+import type { User } from '@/types';
+
+export type AccountProviderId = 'password' | 'google.com' | 'apple.com';
+
+export const ACCOUNT_PROVIDERS: { id: AccountProviderId; label: string }[] = [
+  { id: 'password', label: 'Email & Password' },
+  { id: 'google.com', label: 'Google' },
+  { id: 'apple.com', label: 'Apple' },
+];
+
+// Accepts Google, Apple or a configured OIDC provider ID ('oidc.*')
+function getOAuthProvider(providerId: string) {
+  if (providerId === 'google.com') {
+    const provider = new GoogleAuthProvider();
+    provider.addScope('email');
+    provider.addScope('profile');
+    return provider;
+  }
+  if (providerId === 'apple.com') {
+    const provider = new OAuthProvider('apple.com');
+    provider.addScope('email');
+    provider.addScope('name');
+    return provider;
+  }
+  const provider = new OAuthProvider(providerId);
+  provider.addScope('openid');
+  provider.addScope('email');
+  provider.addScope('profile');
+  return provider;
+}
+
+/**
+ * Get the sign-in providers linked to the user's account
+ */
+export function getLinkedProviderIds(firebaseUser: FirebaseUser): string[] {
+  return firebaseUser.providerData.map((provider) => provider.providerId);
+}
+
+/**
+ * Reauthenticate the signed-in user before a sensitive change
+ * Uses the password if given, otherwise a popup for the user's first linked OAuth provider.
+ * Users with two-factor authentication must also pass a code from their authenticator app.
+ */
+export async function reauthenticate(
+  firebaseUser: FirebaseUser,
+  options: { password?: string; totpCode?: string } = {}
+): Promise<void> {
+  await reauthenticateWithFactors(firebaseUser, options);
+  recordReauthentication(firebaseUser);
+}
+
+async function reauthenticateWithFactors(
+  firebaseUser: FirebaseUser,
+  { password, totpCode }: { password?: string; totpCode?: string }
+): Promise<void> {
+  try {
+    if (password) {
+      const credential = EmailAuthProvider.credential(firebaseUser.email || '', password);
+      await reauthenticateWithCredential(firebaseUser, credential);
+      return;
+    }
+
+    const oauthProviderId = getLinkedProviderIds(firebaseUser).find(
+      (id) => id === 'google.com' || id === 'apple.com' || isOidcProviderId(id)
+    );
+    if (!oauthProviderId) {
+      throw new Error('Please enter your password to continue.');
+    }
+    await reauthenticateWithPopup(firebaseUser, getOAuthProvider(oauthProviderId));
+  } catch (error: unknown) {
+    if (isMultiFactorError(error)) {
+      if (!totpCode) {
+        throw new Error('Enter the 6-digit code from your authenticator app to continue.');
+      }
+      await resolveWithTotpCode(error, totpCode);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Link Google or Apple to the signed-in user's account
+ */
+export async function linkOAuthProvider(
+  firebaseUser: FirebaseUser,
+  providerId: 'google.com' | 'apple.com'
+): Promise<void> {
+  await linkWithPopup(firebaseUser, getOAuthProvider(providerId));
+  await logActivity('provider_linked', { providerId });
+}
+
+/**
+ * Add a password to an account that only uses Google or Apple
+ */
+export async function linkPasswordProvider(firebaseUser: FirebaseUser, newPassword: string): Promise<void> {
+  if (!firebaseUser.email) {
+    throw new Error('Your account has no email address to use with a password.');
+  }
+  const credential = EmailAuthProvider.credential(firebaseUser.email, newPassword);
+  await linkWithCredential(firebaseUser, credential);
+  await logActivity('provider_linked', { providerId: 'password' });
+}
+
+/**
+ * Unlink a sign-in provider (the last remaining provider can't be removed)
+ */
+export async function unlinkProvider(firebaseUser: FirebaseUser, providerId: AccountProviderId): Promise<void> {
+  if (getLinkedProviderIds(firebaseUser).length <= 1) {
+    throw new Error('You need at least one way to sign in. Link another sign-in method first.');
+  }
+  await unlink(firebaseUser, providerId);
+  await logActivity('provider_unlinked', { providerId });
+}
+
+/**
+ * Send a verification link to a new email address
+ * The sign-in email only changes once the link is opened; the users document is
+ * updated by syncUserEmail the next time the user signs in
+ */
+export async function requestEmailChange(firebaseUser: FirebaseUser, newEmail: string): Promise<void> {
+  const emailLower = newEmail.trim().toLowerCase();
+  if (emailLower === firebaseUser.email?.toLowerCase()) {
+    throw new Error('This is already your email address.');
+  }
+  await verifyBeforeUpdateEmail(firebaseUser, emailLower, getActionCodeSettings());
+  await logActivity('email_change_requested', { newEmail: emailLower });
+}
+
+/**
+ * Keep users/{uid}.email in step with the Firebase Auth email
+ * (after an email change is verified or reverted)
+ * @returns {Promise<boolean>} True if the users document was updated
+ */
+export async function syncUserEmail(firebaseUser: FirebaseUser, userData: User | null): Promise<boolean> {
+  const authEmail = firebaseUser.email?.toLowerCase();
+  if (!authEmail || !userData || userData.email === authEmail) {
+    return false;
+  }
+
+  await updateDoc(doc(db, 'users', firebaseUser.uid), {
+    email: authEmail,
+    updatedAt: serverTimestamp(),
+  });
+  await logActivity('email_changed', { previousEmail: userData.email, newEmail: authEmail });
+  return true;
+}
+
+/**
+ * Change the signed-in user's password
+ * Changing the password revokes existing sessions, so a new session cookie is issued
+ */
+export async function changePassword(firebaseUser: FirebaseUser, newPassword: string): Promise<void> {
+  await updatePassword(firebaseUser, newPassword);
+  await createServerSession(firebaseUser);
+  await logActivity('password_changed');
+}
+
+/**
+ * Update the user's name in Firestore and on their Firebase Auth profile
+ */
+export async function updateAccountProfile(
+  firebaseUser: FirebaseUser,
+  profile: { firstName: string; lastName: string; displayName: string }
+): Promise<void> {
+  const firstName = profile.firstName.trim();
+  const lastName = profile.lastName.trim();
+  const displayName = profile.displayName.trim() || `${firstName} ${lastName}`.trim();
+
+  await updateDoc(doc(db, 'users', firebaseUser.uid), {
+    firstName,
+    lastName,
+    displayName,
+    updatedAt: serverTimestamp(),
+  });
+  await updateProfile(firebaseUser, { displayName });
+}
@@ -0,0 +1,101 @@
+// Account deletion utilities
+// Users request deletion from Account Settings; super admins execute requests after the cool-off period
+'use client';
+
+import { doc, getDoc, setDoc, updateDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import type { User as FirebaseUser } from 'firebase/auth';
+import { db } from './firebase';
+import { logActivity } from './activityLog';
+import { fetchWithStepUp } from './stepUpAuth';
+import type { AccountDeletion, User } from '@/types';
+import { toDate } from '@/utils/dateHelpers';
+import { ACCOUNT_DELETION_COOL_OFF_DAYS } from '@/config/accountDeletion';
+
+/**
+ * Get the signed-in user's deletion request, if any
+ */
+export async function getAccountDeletionRequest(uid: string): Promise<AccountDeletion | null> {
+  const snapshot = await getDoc(doc(db, 'account_deletions', uid));
+  if (!snapshot.exists()) {
+    return null;
+  }
+  return { id: snapshot.id, ...snapshot.data() } as AccountDeletion;
+}
+
+/**
+ * Request deletion of the signed-in user's account
+ * The account stays usable until a super admin executes the request after the cool-off period.
+ */
+export async function requestAccountDeletion(
+  firebaseUser: FirebaseUser,
+  userData: User | null,
+  reason: string
+): Promise<void> {
+  if (userData?.role === 'super_admin') {
+    throw new Error('Super admin accounts cannot be deleted from Account Settings.');
+  }
+
+  const scheduledFor = new Date(Date.now() + ACCOUNT_DELETION_COOL_OFF_DAYS * 24 * 60 * 60 * 1000);
+  const userName =
+    userData?.displayName || `${userData?.firstName || ''} ${userData?.lastName || ''}`.trim() || null;
+
+  await setDoc(doc(db, 'account_deletions', firebaseUser.uid), {
+    userId: firebaseUser.uid,
+    email: firebaseUser.email || userData?.email || '',
+    userName,
+    role: userData?.role || null,
+    clubId: userData?.clubId || null,
+    reason: reason.trim() || null,
+    status: 'pending',
+    requestedAt: serverTimestamp(),
+    scheduledFor: Timestamp.fromDate(scheduledFor),
+    cancelledAt: null,
+  });
+
+  await logActivity('account_deletion_requested', {
+    targetUserId: firebaseUser.uid,
+    clubId: userData?.clubId || null,
+    scheduledFor: scheduledFor.toISOString(),
+  });
+}
+
+/**
+ * Cancel the signed-in user's pending deletion request
+ */
+export async function cancelAccountDeletion(firebaseUser: FirebaseUser): Promise<void> {
+  await updateDoc(doc(db, 'account_deletions', firebaseUser.uid), {
+    status: 'cancelled',
+    cancelledAt: serverTimestamp(),
+  });
+
+  await logActivity('account_deletion_cancelled', { targetUserId: firebaseUser.uid });
+}
+
+/**
+ * Check if a pending request's cool-off period has ended
+ */
+export function isCoolOffOver(request: AccountDeletion, now: Date = new Date()): boolean {
+  const scheduledFor = toDate(request.scheduledFor);
+  return !!scheduledFor && scheduledFor <= now;
+}
+
+/**
+ * Delete a user's account (super admins only)
+ * Their drills, sessions and notes are either purged or reassigned to another user. Needs a recent reauthentication
+ * (see useStepUpAuth).
+ */
+export async function executeAccountDeletion(
+  request: AccountDeletion,
+  options: { contentAction: 'purge' | 'reassign'; reassignTo?: string }
+): Promise<void> {
+  const response = await fetchWithStepUp('/api/admin/account-deletions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requestId: request.id, ...options }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Unable to delete this account. Please try again.');
+  }
+}
@@ -0,0 +1,30 @@
+// Activity log utilities
+// Entries are shown to super admins on the Audit Log page (admin/audit-log)
+'use client';
+
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { auth, db } from './firebase';
+
+/**
+ * Record an entry in activity_log
+ * Failures are logged but never block the action being recorded
+ * @param {string} type - Action type (e.g. 'mfa_enrolled', 'role_changed')
+ * @param {Record<string, unknown>} data - Action details shown on the Audit Log page
+ */
+export async function logActivity(type: string, data: Record<string, unknown> = {}): Promise<void> {
+  try {
+    const currentUser = auth.currentUser;
+    await addDoc(collection(db, 'activity_log'), {
+      type,
+      userId: currentUser?.uid || null,
+      data: {
+        email: currentUser?.email || null,
+        userName: currentUser?.displayName || currentUser?.email || null,
+        ...data,
+      },
+      timestamp: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`[activityLog] Failed to record ${type}:`, error);
+  }
+}
@@ -0,0 +1,109 @@
+// Temporary admin access revocation (server only)
+// Grants are revoked by a club admin, when the grantee next signs in or loads a page after expiry, and by the
+// scheduled sweep (GET /api/cron/admin-grants). firestore.rules stops honouring a grant as soon as it expires.
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { syncRoleClaims } from './roleClaimsSync';
+import { getClubMembership } from '@/config/memberships';
+import type { AdminGrant, User } from '@/types';
+
+// Who ended a grant early (absent when it expired)
+export interface AdminGrantRevoker {
+  uid: string;
+  email?: string | null;
+  name?: string | null;
+}
+
+/**
+ * Check whether a grant's expiry has passed
+ */
+export function isAdminGrantExpired(grant: Pick<AdminGrant, 'expiresAt'> | null | undefined): boolean {
+  return grant?.expiresAt instanceof Timestamp && grant.expiresAt.toMillis() <= Date.now();
+}
+
+/**
+ * End an active grant: remove the member from clubAdminIds, clear adminGrant and log the revocation
+ * The member's role and seat were never changed by the grant, so nothing is restored.
+ * Returns false if the grant had already ended.
+ */
+export async function revokeAdminGrant(grantId: string, revoker?: AdminGrantRevoker): Promise<boolean> {
+  const grantRef = adminDb.collection('admin_grants').doc(grantId);
+
+  const result = await adminDb.runTransaction(async (transaction) => {
+    const grantDoc = await transaction.get(grantRef);
+    const grant = grantDoc.data() as Omit<AdminGrant, 'id'> | undefined;
+    if (!grant || grant.status !== 'active') return null;
+
+    const userRef = adminDb.collection('users').doc(grant.userId);
+    const userData = (await transaction.get(userRef)).data() as User | undefined;
+    // Members made a club admin meanwhile (POST /api/club/members/role) stay in clubAdminIds
+    const memberRole = getClubMembership(userData, grant.clubId)?.role;
+    const isClubAdmin = memberRole === 'club_admin' || memberRole === 'club_admin_coach';
+
+    transaction.update(grantRef, {
+      status: revoker ? 'revoked' : 'expired',
+      endedAt: FieldValue.serverTimestamp(),
+      endedBy: revoker?.uid || null,
+    });
+
+    if (userData?.adminGrant?.grantId === grantId) {
+      transaction.update(userRef, {
+        adminGrant: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    if (!isClubAdmin) {
+      transaction.update(adminDb.collection('sports_clubs').doc(grant.clubId), {
+        clubAdminIds: FieldValue.arrayRemove(grant.userId),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return grant;
+  });
+
+  if (!result) return false;
+
+  await syncRoleClaims(result.userId).catch((error) =>
+    console.error('[admin-grants] Failed to sync role claims:', error)
+  );
+
+  await adminDb.collection('activity_log').add({
+    type: 'admin_grant_revoked',
+    userId: revoker?.uid || null,
+    data: {
+      email: revoker?.email || null,
+      userName: revoker ? revoker.name || revoker.email || null : null,
+      clubId: result.clubId,
+      targetUserId: result.userId,
+      targetName: result.userName || null,
+      targetEmail: result.email || null,
+      reason: revoker ? 'revoked' : 'expired',
+    },
+    timestamp: FieldValue.serverTimestamp(),
+  });
+
+  return true;
+}
+
+/**
+ * Revoke every active grant that has expired, optionally only in one club
+ * Returns the number of grants revoked.
+ */
+export async function revokeExpiredAdminGrants(clubId?: string): Promise<number> {
+  let grantsQuery = adminDb.collection('admin_grants').where('status', '==', 'active');
+  if (clubId) {
+    grantsQuery = grantsQuery.where('clubId', '==', clubId);
+  }
+
+  const snapshot = await grantsQuery.get();
+  let revokedCount = 0;
+  for (const doc of snapshot.docs) {
+    if (isAdminGrantExpired(doc.data() as AdminGrant) && (await revokeAdminGrant(doc.id))) {
+      revokedCount++;
+    }
+  }
+  return revokedCount;
+}
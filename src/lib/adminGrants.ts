@@ -0,0 +1,50 @@
+// Temporary admin access utilities
+// Grants are given, listed and revoked through server routes, which keep adminGrant and clubAdminIds in sync
+'use client';
+
+import type { AdminGrant } from '@/types';
+
+/**
+ * Get the active temporary admin grants in the signed-in admin's club
+ */
+export async function getAdminGrants(): Promise<AdminGrant[]> {
+  const response = await fetch('/api/club/admin-grants');
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to load temporary admin access.');
+  }
+  return body.grants;
+}
+
+/**
+ * Give a member club admin rights until a date
+ */
+export async function grantTemporaryAdmin(userId: string, expiresAt: Date): Promise<void> {
+  const response = await fetch('/api/club/admin-grants', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, expiresAt: expiresAt.toISOString() }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to give temporary admin access. Please try again.');
+  }
+}
+
+/**
+ * End a temporary admin grant before it expires
+ */
+export async function revokeTemporaryAdmin(grantId: string): Promise<void> {
+  const response = await fetch('/api/club/admin-grants', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ grantId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to revoke temporary admin access. Please try again.');
+  }
+}
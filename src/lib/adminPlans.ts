@@ -0,0 +1,221 @@
+// Admin-managed plan utilities
+// Super admins create complimentary and manually invoiced plans for clubs (see config/adminPlans). Each save
+// writes the subscriptions document, the club's adminPlan mirror and a subscription_history entry together, then
+// recounts the seat ledger so its limits match the new plan.
+'use client';
+
+import {
+  Timestamp,
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { logActivity } from './activityLog';
+import { reconcileSeatLedger } from './seatLedger';
+import { isAdminPlan, type AdminPlanKind, type ClubAdminPlan } from '@/config/adminPlans';
+import { toDate } from '@/utils/dateHelpers';
+import type { AdminPlan, Club, SubscriptionFieldChange } from '@/types';
+
+// Plan details entered by a super admin
+export interface AdminPlanInput {
+  kind: AdminPlanKind;
+  planName: string;
+  maxCoachAccounts: number | null;
+  maxViewOnlyUsers: number | null;
+  startDate: Date;
+  endDate: Date; // Exclusive: the plan stops applying at this moment
+  note: string;
+}
+
+/**
+ * Get a club's admin-managed plans, newest first
+ */
+export async function getClubAdminPlans(clubId: string): Promise<AdminPlan[]> {
+  const snapshot = await getDocs(query(collection(db, 'subscriptions'), where('clubId', '==', clubId)));
+  return snapshot.docs
+    .map((planDoc) => ({ ...planDoc.data(), id: planDoc.id }) as AdminPlan)
+    .filter(isAdminPlan)
+    .sort((a, b) => (toDate(b.createdAt)?.getTime() || 0) - (toDate(a.createdAt)?.getTime() || 0));
+}
+
+// subscriptions fields recorded in subscription_history when a plan changes
+const HISTORY_FIELDS = [
+  'status',
+  'adminPlanKind',
+  'planName',
+  'maxCoachAccounts',
+  'maxViewOnlyUsers',
+  'currentPeriodStart',
+  'currentPeriodEnd',
+] as const;
+
+/**
+ * Get a plan field as stored in subscription_history (dates as ISO strings)
+ */
+function getHistoryValue(value: unknown): string | number | null {
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return toDate(value)?.toISOString() || null;
+}
+
+/**
+ * Get the plan fields that differ between the saved plan (null for a new plan) and the plan being written
+ */
+function getPlanChanges(
+  previous: Record<string, unknown> | null,
+  next: Record<string, unknown>
+): Partial<Record<string, SubscriptionFieldChange>> {
+  const changes: Partial<Record<string, SubscriptionFieldChange>> = {};
+  HISTORY_FIELDS.forEach((field) => {
+    const from = previous ? getHistoryValue(previous[field]) : null;
+    const to = getHistoryValue(next[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
+
+/**
+ * Check the plan details, throwing a message to show the super admin
+ */
+function validateAdminPlanInput(input: AdminPlanInput): void {
+  if (!input.planName.trim()) {
+    throw new Error('Enter a plan name');
+  }
+  [input.maxCoachAccounts, input.maxViewOnlyUsers].forEach((seats) => {
+    if (seats !== null && (!Number.isInteger(seats) || seats < 0)) {
+      throw new Error('Seats must be a whole number');
+    }
+  });
+  if (!input.maxCoachAccounts && !input.maxViewOnlyUsers) {
+    throw new Error('Give the plan coach or view-only seats');
+  }
+  if (input.endDate.getTime() <= input.startDate.getTime()) {
+    throw new Error('The end date must be after the start date');
+  }
+}
+
+/**
+ * Recount the club's seats so the seat ledger limits include the plan
+ * The nightly reconciliation catches up if this fails.
+ */
+async function refreshSeatLimits(clubId: string): Promise<void> {
+  try {
+    await reconcileSeatLedger(clubId);
+  } catch (error) {
+    console.error('[adminPlans] Failed to recount seats:', error);
+  }
+}
+
+/**
+ * Create a club's admin-managed plan, or update it when the saved plan is given
+ * The club has one admin-managed plan at a time: saving makes this plan the one its seat limits use.
+ * @returns {Promise<ClubAdminPlan>} The club's new adminPlan mirror
+ */
+export async function saveAdminPlan(
+  club: Pick<Club, 'id' | 'name'>,
+  input: AdminPlanInput,
+  savedPlan?: AdminPlan | null
+): Promise<ClubAdminPlan> {
+  validateAdminPlanInput(input);
+
+  const planId = savedPlan?.id;
+  const planRef = planId ? doc(db, 'subscriptions', planId) : doc(collection(db, 'subscriptions'));
+  const startDate = Timestamp.fromDate(input.startDate);
+  const endDate = Timestamp.fromDate(input.endDate);
+  const plan = {
+    clubId: club.id,
+    source: 'admin',
+    subscriptionType: 'admin_plan',
+    adminPlanKind: input.kind,
+    planName: input.planName.trim(),
+    status: 'active',
+    maxCoachAccounts: input.maxCoachAccounts || null,
+    maxViewOnlyUsers: input.maxViewOnlyUsers || null,
+    currentPeriodStart: startDate,
+    currentPeriodEnd: endDate,
+    note: input.note.trim(),
+    updatedAt: serverTimestamp(),
+  };
+  const clubAdminPlan: ClubAdminPlan = {
+    subscriptionId: planRef.id,
+    kind: input.kind,
+    maxCoachAccounts: plan.maxCoachAccounts,
+    maxViewOnlyUsers: plan.maxViewOnlyUsers,
+    startDate,
+    endDate,
+  };
+
+  const batch = writeBatch(db);
+  batch.set(
+    planRef,
+    planId ? plan : { ...plan, createdBy: auth.currentUser?.uid || null, createdAt: serverTimestamp() },
+    { merge: true }
+  );
+  batch.update(doc(db, 'sports_clubs', club.id), { adminPlan: clubAdminPlan, updatedAt: serverTimestamp() });
+  const changes = getPlanChanges(savedPlan ? { ...savedPlan } : null, plan);
+  if (Object.keys(changes).length > 0) {
+    batch.set(doc(collection(db, 'subscription_history')), {
+      clubId: club.id,
+      subscriptionId: planRef.id,
+      changes,
+      changedBy: auth.currentUser?.uid || null,
+      createdAt: serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  await logActivity(planId ? 'admin_plan_updated' : 'admin_plan_created', {
+    clubId: club.id,
+    clubName: club.name || null,
+    planId: planRef.id,
+    planName: plan.planName,
+    kind: input.kind,
+    maxCoachAccounts: plan.maxCoachAccounts,
+    maxViewOnlyUsers: plan.maxViewOnlyUsers,
+    startDate: input.startDate.toISOString(),
+    endDate: input.endDate.toISOString(),
+    note: plan.note,
+  });
+  await refreshSeatLimits(club.id);
+
+  return clubAdminPlan;
+}
+
+/**
+ * End an admin-managed plan now; the club's access and seats then come from its Stripe subscriptions only
+ */
+export async function endAdminPlan(club: Pick<Club, 'id' | 'name' | 'adminPlan'>, plan: AdminPlan): Promise<void> {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'subscriptions', plan.id), {
+    status: 'canceled',
+    canceledAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  if (club.adminPlan?.subscriptionId === plan.id) {
+    batch.update(doc(db, 'sports_clubs', club.id), { adminPlan: deleteField(), updatedAt: serverTimestamp() });
+  }
+  batch.set(doc(collection(db, 'subscription_history')), {
+    clubId: club.id,
+    subscriptionId: plan.id,
+    changes: { status: { from: plan.status, to: 'canceled' } },
+    changedBy: auth.currentUser?.uid || null,
+    createdAt: serverTimestamp(),
+  });
+  await batch.commit();
+
+  await logActivity('admin_plan_ended', {
+    clubId: club.id,
+    clubName: club.name || null,
+    planId: plan.id,
+    planName: plan.planName,
+    kind: plan.adminPlanKind,
+  });
+  await refreshSeatLimits(club.id);
+}
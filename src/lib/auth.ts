@@ -7,7 +7,10 @@ import {
   signOut as firebaseSignOut,
   fetchSignInMethodsForEmail,
   updateProfile,
+  sendEmailVerification,
+  sendPasswordResetEmail,
   User as FirebaseUser,
+  UserCredential,
 } from 'firebase/auth';
 import {
   doc,
@@ -17,14 +20,60 @@ import { httpsCallable } from 'firebase/functions';
 import { auth, db, functions } from './firebase';
 import type { User } from '@/types';
 import { validateSubscriptionForLogin, shouldBypassSubscriptionCheck } from './subscriptionValidation';
+import { isMultiFactorError, startSecondFactorChallenge } from './mfa';
+import { recordSignIn } from './loginActivity';
+import { claimInviteSeat } from './seatLedger';
+import { recordLastActivity } from './sessionPolicy';
+import { DASHBOARD_ROLES } from '@/config/roles';
+import { getEffectiveRole } from '@/config/adminGrants';
+
+export interface LoginResult {
+  user: FirebaseUser | null;
+  // True when the user must enter a code from their authenticator app
+  // (see completeSecondFactorSignIn in ./mfa)
+  needsSecondFactor: boolean;
+}
 
 /**
  * Login with email and password (works for both club admin and super admin)
  * Validates subscription before allowing access for club admins
  */
-export async function loginWithPassword(email: string, password: string): Promise<FirebaseUser> {
-  const userCredential = await signInWithEmailAndPassword(auth, email.toLowerCase(), password);
-  const uid = userCredential.user.uid;
+export async function loginWithPassword(email: string, password: string): Promise<LoginResult> {
+  const emailLower = email.toLowerCase();
+  let userCredential: UserCredential;
+
+  try {
+    userCredential = await signInWithEmailAndPassword(auth, emailLower, password);
+  } catch (error: unknown) {
+    // Accounts with MFA enrolled need a second factor before the checks below can run
+    if (isMultiFactorError(error)) {
+      startSecondFactorChallenge(
+        error,
+        { type: 'password', email: emailLower, password },
+        async (credential) => {
+          await completePasswordLogin(credential.user, emailLower);
+        },
+        async () => {
+          const retryCredential = await signInWithEmailAndPassword(auth, emailLower, password);
+          await completePasswordLogin(retryCredential.user, emailLower);
+        }
+      );
+      return { user: null, needsSecondFactor: true };
+    }
+    throw error;
+  }
+
+  await completePasswordLogin(userCredential.user, emailLower);
+
+  return { user: userCredential.user, needsSecondFactor: false };
+}
+
+/**
+ * Access checks after a successful password sign-in
+ * Signs the user out and throws if they can't use the dashboard
+ */
+async function completePasswordLogin(firebaseUser: FirebaseUser, email: string): Promise<void> {
+  const uid = firebaseUser.uid;
 
   // Get user data to check role and club
   const userDoc = await getDoc(doc(db, 'users', uid));
@@ -35,20 +84,31 @@ export async function loginWithPassword(email: string, password: string): Promis
   }
 
   const userData = userDoc.data();
-  const userRole = userData.role;
+  // Members with temporary admin access sign in as club admins
+  const userRole = getEffectiveRole(userData) || '';
   const clubId = userData.clubId;
 
   // Check if user has an allowed role for the admin dashboard
-  const allowedRoles = ['super_admin', 'club_admin', 'club_admin_coach'];
-  if (!allowedRoles.includes(userRole)) {
+  if (!DASHBOARD_ROLES.includes(userRole)) {
     await firebaseSignOut(auth);
     throw new Error('Access denied. This dashboard is for club administrators only.');
   }
 
+  // Password-created club admins must verify their email before using the dashboard
+  if (requiresEmailVerification(firebaseUser, userRole)) {
+    try {
+      await sendVerificationEmail(firebaseUser);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
+    await firebaseSignOut(auth);
+    throw new Error(`Please verify your email address before signing in. We've sent a verification link to ${firebaseUser.email}.`);
+  }
+
   // Check if user should bypass subscription check (super admin)
-  if (!shouldBypassSubscriptionCheck(email.toLowerCase(), userRole)) {
+  if (!shouldBypassSubscriptionCheck(email, userRole)) {
     // Validate subscription for club admins
-    const subscriptionCheck = await validateSubscriptionForLogin(clubId);
+    const subscriptionCheck = await validateSubscriptionForLogin(clubId, userRole);
 
     if (!subscriptionCheck.valid) {
       // Sign out the user since subscription is invalid
@@ -57,7 +117,13 @@ export async function loginWithPassword(email: string, password: string): Promis
     }
   }
 
-  return userCredential.user;
+  await createServerSession(firebaseUser);
+  await recordSignIn(firebaseUser, { role: userRole, clubId }, 'password');
+}
+
+export interface SignupResult {
+  user: FirebaseUser;
+  needsEmailVerification: boolean;
 }
 
 /**
@@ -66,6 +132,8 @@ export async function loginWithPassword(email: string, password: string): Promis
  *
  * Uses the completeUserSignup Cloud Function to handle Firestore writes
  * (bypasses security rules with Admin SDK for atomic operations)
+ *
+ * Club admins are sent a verification email and signed out until they verify
  */
 export async function signupAdmin(
   email: string,
@@ -73,7 +141,7 @@ export async function signupAdmin(
   referralCode: string,
   firstName: string,
   lastName: string
-): Promise<FirebaseUser> {
+): Promise<SignupResult> {
   // 1. Validate referral code exists and is active (read-only, allowed by rules)
   const refDoc = await getDoc(doc(db, 'referral_codes', referralCode));
   if (!refDoc.exists()) {
@@ -94,7 +162,7 @@ export async function signupAdmin(
   try {
     const signInMethods = await fetchSignInMethodsForEmail(auth, email.toLowerCase());
     if (signInMethods.length > 0) {
-      throw new Error('Account already exists. Please log in.');
+      throw new Error('Account already exists. Please log in and enter the invitation code under Account Settings > Clubs.');
     }
   } catch (error: unknown) {
     if (error instanceof Error && error.message.includes('already exists')) {
@@ -142,13 +210,87 @@ export async function signupAdmin(
     throw new Error(err.message || 'Failed to complete signup. Please try again.');
   }
 
-  return userCredential.user;
+  await claimInviteSeat(userCredential.user, referralCode).catch((error) =>
+    console.error('Failed to update seat ledger after signup:', error)
+  );
+
+  const userData = await getCurrentUserData(userCredential.user.uid);
+  if (requiresEmailVerification(userCredential.user, userData?.role)) {
+    await sendVerificationEmail(userCredential.user);
+    await firebaseSignOut(auth);
+    return { user: userCredential.user, needsEmailVerification: true };
+  }
+
+  await createServerSession(userCredential.user);
+
+  return { user: userCredential.user, needsEmailVerification: false };
 }
 
 /**
- * Sign out
+ * Check if a user must verify their email before accessing the dashboard
+ * Applies to club admins who signed up with a password (OAuth providers verify email themselves)
+ */
+export function requiresEmailVerification(firebaseUser: FirebaseUser, role: string | null | undefined): boolean {
+  if (role === 'super_admin' || firebaseUser.emailVerified) {
+    return false;
+  }
+  return firebaseUser.providerData.some((provider) => provider.providerId === 'password');
+}
+
+/**
+ * Action code settings for emails sent by Firebase
+ * The links are handled by /auth/action, which returns the user to the login page
+ */
+export function getActionCodeSettings() {
+  return { url: `${window.location.origin}/login` };
+}
+
+/**
+ * Send an email verification link to the signed-in user
+ */
+export async function sendVerificationEmail(firebaseUser: FirebaseUser): Promise<void> {
+  await sendEmailVerification(firebaseUser, getActionCodeSettings());
+}
+
+/**
+ * Send a password reset email
+ */
+export async function sendPasswordReset(email: string): Promise<void> {
+  await sendPasswordResetEmail(auth, email.trim().toLowerCase(), getActionCodeSettings());
+}
+
+/**
+ * Exchange the user's ID token for an httpOnly session cookie
+ * The proxy verifies this cookie before rendering any dashboard route
+ * Signs the user out if the server refuses to create a session
+ */
+export async function createServerSession(firebaseUser: FirebaseUser): Promise<void> {
+  const idToken = await firebaseUser.getIdToken();
+  const response = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    await firebaseSignOut(auth);
+    throw new Error(body.error || 'Unable to start your session. Please sign in again.');
+  }
+
+  // The server restarted its idle timer; so does the dashboard
+  recordLastActivity();
+}
+
+/**
+ * Sign out (clears both the Firebase client session and the server session cookie)
  */
 export async function signOut(): Promise<void> {
+  try {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+  } catch (error) {
+    console.error('Failed to clear server session:', error);
+  }
   await firebaseSignOut(auth);
 }
 
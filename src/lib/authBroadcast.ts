@@ -0,0 +1,46 @@
+// Cross-tab auth events
+// Lets every open dashboard tab react immediately when one tab signs out or sees user activity
+'use client';
+
+import type { SignOutReason } from './sessionPolicy';
+
+export type AuthBroadcastEvent =
+  | { type: 'signed_out'; reason: SignOutReason | null }
+  // Any tab with user activity keeps the idle timer of the other tabs alive
+  | { type: 'activity'; at: number };
+
+const CHANNEL_NAME = 'benchmark-auth';
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Send an auth event to the other open tabs (the sending tab doesn't receive it)
+ */
+export function broadcastAuthEvent(event: AuthBroadcastEvent): void {
+  getChannel()?.postMessage(event);
+}
+
+/**
+ * Listen for auth events from other tabs
+ * @returns {Function} Unsubscribe function
+ */
+export function subscribeToAuthEvents(handler: (event: AuthBroadcastEvent) => void): () => void {
+  const current = getChannel();
+  if (!current) {
+    return () => {};
+  }
+
+  const listener = (message: MessageEvent<AuthBroadcastEvent>) => handler(message.data);
+  current.addEventListener('message', listener);
+  return () => current.removeEventListener('message', listener);
+}
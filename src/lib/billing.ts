@@ -0,0 +1,39 @@
+// Billing utilities
+// Opens Stripe Checkout (new seats) and the Stripe Billing Portal through the /api/club/billing route handlers
+'use client';
+
+import type { CheckoutSeatType } from '@/config/billing';
+
+async function getBillingUrl(path: string, payload: Record<string, unknown>, fallbackError: string): Promise<string> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.url !== 'string') {
+    throw new Error(body.error || fallbackError);
+  }
+  return body.url;
+}
+
+/**
+ * Send the user to Stripe Checkout to buy new seats for the club
+ */
+export async function startSeatCheckout(clubId: string, seatType: CheckoutSeatType, quantity: number): Promise<void> {
+  const url = await getBillingUrl(
+    '/api/club/billing/checkout',
+    { clubId, seatType, quantity },
+    'Unable to start checkout. Please try again.'
+  );
+  window.location.assign(url);
+}
+
+/**
+ * Send the user to the Stripe Billing Portal to update payment details, view invoices or cancel
+ */
+export async function openBillingPortal(clubId: string): Promise<void> {
+  const url = await getBillingUrl('/api/club/billing/portal', { clubId }, 'Unable to open billing. Please try again.');
+  window.location.assign(url);
+}
@@ -0,0 +1,54 @@
+// Multi-club membership utilities
+// Switching clubs and joining another club go through server routes, which keep memberships in sync
+'use client';
+
+import type { ClubMembership } from '@/types';
+
+/**
+ * Make another of the signed-in user's clubs their active club
+ * Returns the dashboard home path for the user's role in that club.
+ */
+export async function switchActiveClub(clubId: string): Promise<string> {
+  const response = await fetch('/api/auth/active-club', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to switch club. Please try again.');
+  }
+  return body.homePath;
+}
+
+/**
+ * Join another club with an invitation code (for users who already have an account)
+ */
+export async function joinClubWithCode(code: string): Promise<ClubMembership> {
+  const response = await fetch('/api/auth/memberships', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to join this club. Please try again.');
+  }
+  return body.membership;
+}
+
+/**
+ * Give every single-club user a memberships map (super admins only)
+ * Returns the number of users migrated.
+ */
+export async function migrateMemberships(): Promise<number> {
+  const response = await fetch('/api/admin/memberships', { method: 'POST' });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to migrate memberships. Please try again.');
+  }
+  return body.migratedCount;
+}
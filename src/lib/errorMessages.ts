@@ -29,6 +29,18 @@ export function getAuthErrorMessage(error: unknown): string {
     'auth/quota-exceeded': 'Service quota exceeded. Please try again later.',
     'auth/credential-already-in-use': 'This credential is already associated with a different account.',
     'auth/account-exists-with-different-credential': 'An account already exists with the same email but different sign-in method.',
+    'auth/expired-action-code': 'This link has expired. Please request a new one.',
+    'auth/invalid-action-code': 'This link is invalid or has already been used. Please request a new one.',
+    'auth/unverified-email': 'Please verify your email address before continuing.',
+    'auth/multi-factor-auth-required': 'Two-factor authentication is required. Please sign in again.',
+    'auth/invalid-multi-factor-session': 'Your two-factor setup session has expired. Please try again.',
+    'auth/missing-multi-factor-session': 'Your two-factor setup session has expired. Please try again.',
+    'auth/maximum-second-factor-count-exceeded': 'You already have the maximum number of authenticators set up.',
+    'auth/unsupported-first-factor': 'Two-factor authentication is not available for this sign-in method.',
+    'auth/provider-already-linked': 'This sign-in method is already linked to your account.',
+    'auth/no-such-provider': 'This sign-in method is not linked to your account.',
+    'auth/popup-closed-by-user': 'The sign-in window was closed before completing. Please try again.',
+    'auth/user-mismatch': 'Please sign in with the account you are currently using.',
   };
 
   // Check if we have a mapped message
@@ -1,6 +1,6 @@
 // Firebase configuration and initialization
 import { initializeApp, getApps } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 import { getFunctions } from "firebase/functions";
 import { getStorage } from "firebase/storage";
@@ -25,4 +25,10 @@ export const db = getFirestore(app);
 export const functions = getFunctions(app, 'europe-west1'); // Functions deployed to europe-west1
 export const storage = getStorage(app);
 
+// Use the local Auth emulator when configured (e.g. NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099)
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+
 export default app;
\ No newline at end of file
@@ -0,0 +1,39 @@
+// Firebase Admin SDK initialization (server only - route handlers and proxy)
+import { initializeApp, getApps, cert, App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+/**
+ * Initialize the Admin app once per server instance
+ *
+ * When FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST are set the Admin SDK
+ * talks to the local emulators, so no service account credentials are required.
+ */
+function getAdminApp(): App {
+  const existing = getApps();
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+  // Private keys stored in env vars have their newlines escaped
+  const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+  if (clientEmail && privateKey) {
+    return initializeApp({
+      credential: cert({ projectId, clientEmail, privateKey }),
+      projectId,
+    });
+  }
+
+  // Emulator or Application Default Credentials
+  return initializeApp({ projectId });
+}
+
+const adminApp = getAdminApp();
+
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
+
+export default adminApp;
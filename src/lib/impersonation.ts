@@ -0,0 +1,82 @@
+// "View as" utilities
+// Super admins can view the club dashboard as a club admin; every write is blocked meanwhile (here, in the API
+// routes and, through the viewingAs claim on the ID token, in firestore.rules)
+'use client';
+
+import { auth } from './firebase';
+
+// Set by AuthProvider while a super admin is viewing as another user.
+// Club pages and components check isReadOnly() (lib/readOnlyMode) before every create/update/delete.
+let viewingAsUid: string | null = null;
+
+/**
+ * Record who the dashboard is currently viewing as (null when not impersonating)
+ */
+export function setViewingAs(uid: string | null): void {
+  viewingAsUid = uid;
+}
+
+/**
+ * Check if a super admin is currently viewing as another user
+ */
+export function isImpersonating(): boolean {
+  return viewingAsUid !== null;
+}
+
+// Shown when a write is attempted while viewing as another user
+export const READ_ONLY_MESSAGE = 'You are viewing as another user. Changes are disabled in this mode.';
+
+/**
+ * Get a new ID token, so Firestore sees the viewingAs claim being set or cleared
+ */
+async function refreshIdToken(): Promise<void> {
+  try {
+    await auth.currentUser?.getIdToken(true);
+  } catch (error) {
+    console.error('Failed to refresh ID token:', error);
+  }
+}
+
+/**
+ * Get the uid the signed-in super admin is viewing as, if any
+ */
+export async function getImpersonationTarget(): Promise<string | null> {
+  try {
+    const response = await fetch('/api/auth/impersonation');
+    if (!response.ok) return null;
+    const body = await response.json();
+    // The server ended a "view as" that had expired
+    if (body.ended) {
+      await refreshIdToken();
+    }
+    return typeof body.targetUid === 'string' ? body.targetUid : null;
+  } catch (error) {
+    console.error('Failed to check view-as state:', error);
+    return null;
+  }
+}
+
+/**
+ * Start viewing as a club admin (super admins only)
+ */
+export async function startImpersonationSession(targetUid: string): Promise<void> {
+  const response = await fetch('/api/auth/impersonation', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ targetUid }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Unable to view as this user. Please try again.');
+  }
+  await refreshIdToken();
+}
+
+/**
+ * Stop viewing as another user
+ */
+export async function stopImpersonationSession(): Promise<void> {
+  await fetch('/api/auth/impersonation', { method: 'DELETE' });
+  await refreshIdToken();
+}
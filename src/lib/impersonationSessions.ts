@@ -0,0 +1,129 @@
+// "View as" session tracking (server only)
+// Each super admin's active "view as" is kept in impersonation_sessions/{uid} until they stop it, sign out or it
+// expires, so every impersonation_started entry in activity_log gets a matching impersonation_stopped. While it
+// lasts, the super admin's ID token carries a viewingAs claim that firestore.rules checks to refuse every write.
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from './firebaseAdmin';
+import { IMPERSONATION_EXPIRES_IN_SECONDS } from './sessionCookie';
+
+export type ImpersonationStopReason = 'stopped' | 'signed_out' | 'expired' | 'replaced';
+
+/**
+ * Set or clear the viewingAs claim, keeping the user's other claims
+ */
+async function setViewingAsClaim(uid: string, targetUid: string | null): Promise<void> {
+  const { customClaims } = await adminAuth.getUser(uid);
+  if ((customClaims?.viewingAs || null) === targetUid) return;
+  await adminAuth.setCustomUserClaims(uid, { ...customClaims, viewingAs: targetUid });
+}
+
+/**
+ * Record a "view as" start/stop event in activity_log
+ */
+async function logImpersonation(
+  type: 'impersonation_started' | 'impersonation_stopped',
+  adminUid: string,
+  targetUid: string,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const [adminDoc, targetDoc] = await Promise.all([
+    adminDb.collection('users').doc(adminUid).get(),
+    adminDb.collection('users').doc(targetUid).get(),
+  ]);
+  const admin = adminDoc.data();
+  const target = targetDoc.data();
+
+  await adminDb.collection('activity_log').add({
+    type,
+    userId: adminUid,
+    data: {
+      email: admin?.email || null,
+      userName: admin?.displayName || admin?.email || null,
+      targetUserId: targetUid,
+      targetEmail: target?.email || null,
+      targetUserName: target?.displayName || `${target?.firstName || ''} ${target?.lastName || ''}`.trim() || null,
+      clubId: target?.clubId || null,
+      ...extra,
+    },
+    timestamp: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * End a super admin's "view as", if one is recorded: log the stop and clear the viewingAs claim
+ * Returns false when there was nothing to end (e.g. it was already stopped in another tab).
+ */
+export async function stopImpersonation(adminUid: string, reason: ImpersonationStopReason): Promise<boolean> {
+  const sessionRef = adminDb.collection('impersonation_sessions').doc(adminUid);
+  const ended = await adminDb.runTransaction(async (transaction) => {
+    const sessionDoc = await transaction.get(sessionRef);
+    if (!sessionDoc.exists) return null;
+    transaction.delete(sessionRef);
+    return sessionDoc.data() as { targetUid: string; expiresAt: Timestamp };
+  });
+  if (!ended) return false;
+
+  await setViewingAsClaim(adminUid, null);
+  await logImpersonation('impersonation_stopped', adminUid, ended.targetUid, {
+    reason,
+    // Expired sessions are noticed later; record when the cookie actually stopped working
+    ...(reason === 'expired' ? { expiredAt: ended.expiresAt.toDate().toISOString() } : {}),
+  });
+  return true;
+}
+
+/**
+ * Start a super admin's "view as": record it, log the start and set the viewingAs claim
+ * A "view as" that is still recorded (e.g. another tab) is stopped first.
+ */
+export async function startImpersonation(adminUid: string, targetUid: string): Promise<void> {
+  await stopImpersonation(adminUid, 'replaced');
+
+  await adminDb
+    .collection('impersonation_sessions')
+    .doc(adminUid)
+    .set({
+      targetUid,
+      startedAt: FieldValue.serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(Date.now() + IMPERSONATION_EXPIRES_IN_SECONDS * 1000),
+    });
+  await setViewingAsClaim(adminUid, targetUid);
+  await logImpersonation('impersonation_started', adminUid, targetUid);
+}
+
+/**
+ * Get the user a super admin is viewing as, ending the "view as" if its cookie has expired
+ */
+export async function getActiveImpersonation(adminUid: string, cookieTargetUid: string | null): Promise<string | null> {
+  const sessionDoc = await adminDb.collection('impersonation_sessions').doc(adminUid).get();
+  const data = sessionDoc.data();
+  if (!data) return null;
+
+  if (!cookieTargetUid || data.expiresAt.toMillis() <= Date.now()) {
+    await stopImpersonation(adminUid, 'expired');
+    return null;
+  }
+  return data.targetUid;
+}
+
+/**
+ * End every "view as" past its expiry, for super admins who never came back to the dashboard
+ * @returns {Promise<number>} How many were ended
+ */
+export async function stopExpiredImpersonations(now: number = Date.now()): Promise<number> {
+  const snapshot = await adminDb
+    .collection('impersonation_sessions')
+    .where('expiresAt', '<=', Timestamp.fromMillis(now))
+    .get();
+
+  let stoppedCount = 0;
+  for (const sessionDoc of snapshot.docs) {
+    try {
+      if (await stopImpersonation(sessionDoc.id, 'expired')) stoppedCount++;
+    } catch (error) {
+      console.error(`[impersonation] Failed to end expired session for ${sessionDoc.id}:`, error);
+    }
+  }
+  return stoppedCount;
+}
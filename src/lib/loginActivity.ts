@@ -0,0 +1,62 @@
+// Login activity tracking
+// Records dashboard sign-ins and derives active/inactive users from users/{uid}.lastLoginAt
+'use client';
+
+import { collection, doc, serverTimestamp, writeBatch } from 'firebase/firestore';
+import type { User as FirebaseUser } from 'firebase/auth';
+import { db } from './firebase';
+import type { User } from '@/types';
+import { toDate } from '@/utils/dateHelpers';
+
+// Users who haven't signed in for this many days are shown as inactive
+export const INACTIVE_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Record a successful sign-in in login_events and update the user's lastLoginAt
+ * Failures are logged but never block the sign-in
+ * @param {string} provider - Sign-in method ('password', 'google.com' or 'apple.com')
+ */
+export async function recordSignIn(
+  firebaseUser: FirebaseUser,
+  userData: { role?: string; clubId?: string | null } | undefined,
+  provider: string
+): Promise<void> {
+  try {
+    const batch = writeBatch(db);
+    batch.set(doc(collection(db, 'login_events')), {
+      userId: firebaseUser.uid,
+      email: firebaseUser.email || null,
+      role: userData?.role || null,
+      clubId: userData?.clubId || null,
+      provider,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      timestamp: serverTimestamp(),
+    });
+    batch.update(doc(db, 'users', firebaseUser.uid), {
+      lastLoginAt: serverTimestamp(),
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('[loginActivity] Failed to record sign-in:', error);
+  }
+}
+
+/**
+ * Check if a user has signed in within the last `days` days
+ */
+export function isActiveWithin(user: User, days: number, now: Date = new Date()): boolean {
+  const lastLogin = toDate(user.lastLoginAt);
+  return !!lastLogin && now.getTime() - lastLogin.getTime() <= days * DAY_MS;
+}
+
+/**
+ * Check if a user hasn't signed in for INACTIVE_AFTER_DAYS or more
+ * Users who never signed in count as inactive once their account is that old
+ */
+export function isInactiveUser(user: User, now: Date = new Date()): boolean {
+  const lastActivity = toDate(user.lastLoginAt) || toDate(user.createdAt);
+  if (!lastActivity) return false;
+  return now.getTime() - lastActivity.getTime() >= INACTIVE_AFTER_DAYS * DAY_MS;
+}
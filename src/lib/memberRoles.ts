@@ -0,0 +1,81 @@
+// Member role utilities
+// Role changes go through a server route, which checks seats, keeps the club's admin lists in sync and
+// records each change in roleAuditLog. Suspensions and removals also go through the server, which frees or
+// takes the seat.
+'use client';
+
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+import { fetchWithStepUp } from './stepUpAuth';
+import { toDate } from '@/utils/dateHelpers';
+import type { ClubRole } from '@/config/roles';
+import type { RoleAuditLogEntry } from '@/types';
+
+/**
+ * Change a member's role in a club
+ * Needs a recent reauthentication (see useStepUpAuth).
+ * @param {string[]} managedTeamIds - Teams managed by a team manager (ignored for other roles)
+ */
+export async function changeMemberRole(
+  clubId: string,
+  userId: string,
+  role: ClubRole,
+  managedTeamIds: string[] = []
+): Promise<void> {
+  const response = await fetchWithStepUp('/api/club/members/role', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, userId, role, managedTeamIds }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to change this member\'s role. Please try again.');
+  }
+}
+
+/**
+ * Suspend a member of a club (freeing their seat), or reinstate them
+ */
+export async function setMemberSuspended(clubId: string, userId: string, suspended: boolean): Promise<void> {
+  const response = await fetch('/api/club/members/suspension', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, userId, suspended }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to update this member. Please try again.');
+  }
+}
+
+/**
+ * Remove a member from a club, freeing their seat
+ * Needs a recent reauthentication (see useStepUpAuth).
+ */
+export async function removeClubMember(clubId: string, userId: string): Promise<void> {
+  const response = await fetchWithStepUp('/api/club/members/removal', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, userId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to remove user. Please try again.');
+  }
+}
+
+/**
+ * Get a member's role changes in a club, newest first
+ * Sorted here rather than in the query so no composite index is needed.
+ */
+export async function getRoleHistory(clubId: string, userId: string): Promise<RoleAuditLogEntry[]> {
+  const snapshot = await getDocs(
+    query(collection(db, 'roleAuditLog'), where('clubId', '==', clubId), where('userId', '==', userId))
+  );
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as RoleAuditLogEntry)
+    .sort((a, b) => (toDate(b.createdAt)?.getTime() || 0) - (toDate(a.createdAt)?.getTime() || 0));
+}
@@ -0,0 +1,209 @@
+// Multi-factor authentication (TOTP) utilities
+// Handles the second-factor challenge during sign-in, enrollment and recovery codes
+'use client';
+
+import {
+  getMultiFactorResolver,
+  multiFactor,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  MultiFactorError,
+  MultiFactorInfo,
+  MultiFactorResolver,
+  User as FirebaseUser,
+  UserCredential,
+} from 'firebase/auth';
+import { auth } from './firebase';
+import { logActivity } from './activityLog';
+
+const TOTP_ISSUER = 'Benchmark Coach';
+
+/**
+ * Proof of the first sign-in factor, sent with a recovery code so the server
+ * can confirm the user's identity before removing their second factor
+ */
+export type RecoveryFirstFactor =
+  | { type: 'password'; email: string; password: string }
+  | { type: 'oauth'; providerId: string; idToken?: string; accessToken?: string; nonce?: string };
+
+interface PendingSecondFactor {
+  resolver: MultiFactorResolver;
+  firstFactor: RecoveryFirstFactor;
+  // Continue the original sign-in once the second factor is resolved
+  onResolved: (credential: UserCredential) => Promise<void>;
+  // Sign in again after a recovery code has removed the second factor
+  onRecovered: () => Promise<void>;
+}
+
+// Store the pending challenge between the first and second sign-in steps
+let pendingSecondFactor: PendingSecondFactor | null = null;
+
+/**
+ * Check if a sign-in error means a second factor is required
+ */
+export function isMultiFactorError(error: unknown): error is MultiFactorError {
+  return (error as { code?: string })?.code === 'auth/multi-factor-auth-required';
+}
+
+/**
+ * Start a second-factor challenge after the first factor succeeded
+ * Only TOTP factors are supported by the dashboard
+ */
+export function startSecondFactorChallenge(
+  error: MultiFactorError,
+  firstFactor: RecoveryFirstFactor,
+  onResolved: (credential: UserCredential) => Promise<void>,
+  onRecovered: () => Promise<void>
+): void {
+  const resolver = getMultiFactorResolver(auth, error);
+  const hasTotp = resolver.hints.some((hint) => hint.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hasTotp) {
+    throw new Error('Your account uses a second factor that is not supported by the dashboard. Please contact support.');
+  }
+
+  pendingSecondFactor = { resolver, firstFactor, onResolved, onRecovered };
+}
+
+/**
+ * Complete the pending sign-in with a code from the user's authenticator app
+ */
+export async function completeSecondFactorSignIn(code: string): Promise<void> {
+  if (!pendingSecondFactor) {
+    throw new Error('No pending sign-in. Please sign in again.');
+  }
+
+  const { resolver, onResolved } = pendingSecondFactor;
+  const hint = resolver.hints.find((h) => h.factorId === TotpMultiFactorGenerator.FACTOR_ID)!;
+  const assertion = TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code.trim());
+  const credential = await resolver.resolveSignIn(assertion);
+
+  pendingSecondFactor = null;
+  await onResolved(credential);
+}
+
+/**
+ * Resolve a second-factor challenge on the spot (e.g. when reauthenticating a signed-in user)
+ */
+export async function resolveWithTotpCode(error: MultiFactorError, code: string): Promise<UserCredential> {
+  const resolver = getMultiFactorResolver(auth, error);
+  const hint = resolver.hints.find((h) => h.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) {
+    throw new Error('Your account uses a second factor that is not supported by the dashboard. Please contact support.');
+  }
+  const assertion = TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code.trim());
+  return resolver.resolveSignIn(assertion);
+}
+
+/**
+ * Complete the pending sign-in with a recovery code
+ * The server verifies the first factor and the code, then removes the user's second factor
+ */
+export async function completeSignInWithRecoveryCode(recoveryCode: string): Promise<void> {
+  if (!pendingSecondFactor) {
+    throw new Error('No pending sign-in. Please sign in again.');
+  }
+
+  const { firstFactor, onRecovered } = pendingSecondFactor;
+  const response = await fetch('/api/auth/mfa/recover', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ firstFactor, recoveryCode: recoveryCode.trim() }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Unable to use this recovery code. Please try again.');
+  }
+
+  pendingSecondFactor = null;
+  await onRecovered();
+}
+
+/**
+ * Check if there's a pending second-factor challenge
+ */
+export function hasPendingSecondFactor(): boolean {
+  return pendingSecondFactor !== null;
+}
+
+/**
+ * Clear pending second-factor state
+ */
+export function clearPendingSecondFactor(): void {
+  pendingSecondFactor = null;
+}
+
+/**
+ * Get the user's enrolled TOTP factors
+ */
+export function getEnrolledTotpFactors(firebaseUser: FirebaseUser): MultiFactorInfo[] {
+  return multiFactor(firebaseUser).enrolledFactors.filter(
+    (factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID
+  );
+}
+
+/**
+ * Start TOTP enrollment - returns the secret and an otpauth:// URL for the QR code
+ */
+export async function startTotpEnrollment(firebaseUser: FirebaseUser): Promise<{ secret: TotpSecret; qrCodeUrl: string }> {
+  const session = await multiFactor(firebaseUser).getSession();
+  const secret = await TotpMultiFactorGenerator.generateSecret(session);
+  const qrCodeUrl = secret.generateQrCodeUrl(firebaseUser.email || firebaseUser.uid, TOTP_ISSUER);
+  return { secret, qrCodeUrl };
+}
+
+/**
+ * Finish TOTP enrollment with the first code from the authenticator app
+ */
+export async function finishTotpEnrollment(
+  firebaseUser: FirebaseUser,
+  secret: TotpSecret,
+  code: string,
+  displayName: string = 'Authenticator app'
+): Promise<void> {
+  const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code.trim());
+  await multiFactor(firebaseUser).enroll(assertion, displayName);
+  await logActivity('mfa_enrolled', { userId: firebaseUser.uid });
+}
+
+/**
+ * Remove an enrolled second factor
+ */
+export async function unenrollFactor(firebaseUser: FirebaseUser, factor: MultiFactorInfo): Promise<void> {
+  await multiFactor(firebaseUser).unenroll(factor);
+  await logActivity('mfa_removed', { userId: firebaseUser.uid });
+}
+
+/**
+ * Generate a new set of recovery codes (replaces any existing codes)
+ * Codes are only returned once - the server stores hashes
+ */
+export async function generateRecoveryCodes(firebaseUser: FirebaseUser): Promise<string[]> {
+  const idToken = await firebaseUser.getIdToken(true);
+  const response = await fetch('/api/auth/mfa/recovery-codes', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to generate recovery codes. Please try again.');
+  }
+  return body.codes as string[];
+}
+
+/**
+ * Require two-factor authentication for a club's admins, or stop requiring it (super admins)
+ */
+export async function setClubAdminMfaRequired(clubId: string, requireAdminMfa: boolean): Promise<void> {
+  const response = await fetch('/api/admin/club-security', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, requireAdminMfa }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Failed to update security settings. Please try again.');
+  }
+}
@@ -0,0 +1,121 @@
+// MFA recovery code utilities (server only - used by the /api/auth/mfa route handlers)
+import { createHash, randomInt } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+
+// Recovery code hashes live in a server-only collection (denied to clients in firestore.rules)
+const RECOVERY_CODES_COLLECTION = 'mfa_recovery_codes';
+const RECOVERY_CODE_COUNT = 10;
+// Unambiguous characters (no 0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+interface StoredRecoveryCode {
+  hash: string;
+  usedAt: Date | null;
+}
+
+/**
+ * Normalize user input so "abcde-fghij" and "ABCDEFGHIJ" match
+ */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function hashCode(uid: string, code: string): string {
+  return createHash('sha256').update(`${uid}:${normalizeCode(code)}`).digest('hex');
+}
+
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < 10; i++) {
+    code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Generate and store a new set of recovery codes, replacing any existing ones
+ * @returns {Promise<string[]>} Plaintext codes (shown to the user once)
+ */
+export async function createRecoveryCodes(uid: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode);
+  await adminDb.collection(RECOVERY_CODES_COLLECTION).doc(uid).set({
+    codes: codes.map((code) => ({ hash: hashCode(uid, code), usedAt: null })),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  return codes;
+}
+
+/**
+ * Mark a recovery code as used
+ * @returns {Promise<boolean>} False if the code doesn't match an unused code
+ */
+export async function consumeRecoveryCode(uid: string, code: string): Promise<boolean> {
+  const ref = adminDb.collection(RECOVERY_CODES_COLLECTION).doc(uid);
+  const hash = hashCode(uid, code);
+
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const storedCodes: StoredRecoveryCode[] = snap.data()?.codes || [];
+    const index = storedCodes.findIndex((stored) => stored.hash === hash && !stored.usedAt);
+    if (index === -1) {
+      return false;
+    }
+
+    storedCodes[index] = { ...storedCodes[index], usedAt: new Date() };
+    tx.update(ref, { codes: storedCodes });
+    return true;
+  });
+}
+
+/**
+ * Verify a user's first sign-in factor through the Identity Toolkit REST API
+ * Accounts with MFA enrolled return an mfaPendingCredential instead of an ID token,
+ * but localId is present either way once the first factor is valid
+ * @returns {Promise<string | null>} The user's uid, or null if the credentials are invalid
+ */
+export async function verifyFirstFactor(
+  firstFactor: Record<string, unknown>,
+  requestUri: string
+): Promise<string | null> {
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  const baseUrl = emulatorHost
+    ? `http://${emulatorHost}/identitytoolkit.googleapis.com/v1`
+    : 'https://identitytoolkit.googleapis.com/v1';
+
+  let endpoint: string;
+  let body: Record<string, unknown>;
+
+  if (firstFactor.type === 'password') {
+    endpoint = 'accounts:signInWithPassword';
+    body = {
+      email: String(firstFactor.email || '').toLowerCase(),
+      password: String(firstFactor.password || ''),
+      returnSecureToken: true,
+    };
+  } else if (firstFactor.type === 'oauth') {
+    const postBody = new URLSearchParams({ providerId: String(firstFactor.providerId || '') });
+    if (firstFactor.idToken) postBody.set('id_token', String(firstFactor.idToken));
+    if (firstFactor.accessToken) postBody.set('access_token', String(firstFactor.accessToken));
+    if (firstFactor.nonce) postBody.set('nonce', String(firstFactor.nonce));
+
+    endpoint = 'accounts:signInWithIdp';
+    body = { postBody: postBody.toString(), requestUri, returnSecureToken: true };
+  } else {
+    return null;
+  }
+
+  const response = await fetch(`${baseUrl}/${endpoint}?key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const result = await response.json();
+  return typeof result.localId === 'string' ? result.localId : null;
+}
@@ -1,4 +1,4 @@
-// OAuth Sign-In utilities for Google and Apple authentication
+// OAuth Sign-In utilities for Google, Apple and configured OIDC providers
 // Adapts the mobile app's account linking logic for web-based Firebase OAuth
 
 import {
@@ -8,8 +8,11 @@ import {
   signInWithCredential,
   linkWithCredential,
   fetchSignInMethodsForEmail,
+  getAdditionalUserInfo,
   UserCredential,
   AuthCredential,
+  OAuthCredential,
+  MultiFactorError,
 } from 'firebase/auth';
 import {
   collection,
@@ -26,6 +29,14 @@ import {
 import { httpsCallable } from 'firebase/functions';
 import { auth, db, functions } from './firebase';
 import { validateSubscriptionForLogin, shouldBypassSubscriptionCheck } from './subscriptionValidation';
+import { createServerSession } from './auth';
+import { recordSignIn } from './loginActivity';
+import { claimInviteSeat } from './seatLedger';
+import { isMultiFactorError, startSecondFactorChallenge } from './mfa';
+import { isEmailAllowedForProvider } from '@/config/oidc';
+import { DASHBOARD_ROLES } from '@/config/roles';
+import { getEffectiveRole } from '@/config/adminGrants';
+import type { OidcProvider } from '@/types';
 
 // Store pending OAuth credentials when referral code is needed
 let pendingOAuthCredential: AuthCredential | null = null;
@@ -35,6 +46,9 @@ export interface OAuthResult {
   user: UserCredential['user'] | null;
   isNewAccount: boolean;
   needsReferralCode: boolean;
+  // True when the user must enter a code from their authenticator app
+  // (see completeSecondFactorSignIn in ./mfa)
+  needsSecondFactor?: boolean;
   email?: string;
 }
 
@@ -136,19 +150,19 @@ async function linkOAuthToUser(
     }
 
     const userData = userDocSnap.data();
-    const userRole = userData?.role;
+    // Members with temporary admin access sign in as club admins
+    const userRole = getEffectiveRole(userData) || '';
     const clubId = userData?.clubId;
 
     // Check if user has an allowed role for the admin dashboard
-    const allowedRoles = ['super_admin', 'club_admin', 'club_admin_coach'];
-    if (!allowedRoles.includes(userRole)) {
+    if (!DASHBOARD_ROLES.includes(userRole)) {
       await auth.signOut();
       throw new Error('Access denied. This dashboard is for club administrators only.');
     }
 
     // Validate subscription for club admins
     if (!shouldBypassSubscriptionCheck(emailLower, userRole)) {
-      const subscriptionCheck = await validateSubscriptionForLogin(clubId);
+      const subscriptionCheck = await validateSubscriptionForLogin(clubId, userRole);
       if (!subscriptionCheck.valid) {
         await auth.signOut();
         throw new Error(subscriptionCheck.reason || 'Your subscription is not valid. Please contact support.');
@@ -175,6 +189,9 @@ async function linkOAuthToUser(
       console.warn('[oauthSignIn] Error updating user with authProviders:', error);
     }
 
+    await createServerSession(userCredential.user);
+    await recordSignIn(userCredential.user, { role: userRole, clubId }, credential.providerId);
+
     return { user: userCredential.user, isNewAccount: false, needsReferralCode: false };
   }
 
@@ -221,23 +238,26 @@ async function linkOAuthToUser(
 
     // Validate role and subscription
     const userData = firestoreCheck.userDoc;
-    const userRole = userData?.role;
+    // Members with temporary admin access sign in as club admins
+    const userRole = getEffectiveRole(userData) || '';
     const clubId = userData?.clubId;
 
-    const allowedRoles = ['super_admin', 'club_admin', 'club_admin_coach'];
-    if (!allowedRoles.includes(userRole)) {
+    if (!DASHBOARD_ROLES.includes(userRole)) {
       await auth.signOut();
       throw new Error('Access denied. This dashboard is for club administrators only.');
     }
 
     if (!shouldBypassSubscriptionCheck(emailLower, userRole)) {
-      const subscriptionCheck = await validateSubscriptionForLogin(clubId);
+      const subscriptionCheck = await validateSubscriptionForLogin(clubId, userRole);
       if (!subscriptionCheck.valid) {
         await auth.signOut();
         throw new Error(subscriptionCheck.reason || 'Your subscription is not valid. Please contact support.');
       }
     }
 
+    await createServerSession(userCredential.user);
+    await recordSignIn(userCredential.user, { role: userRole, clubId }, credential.providerId);
+
     return { user: userCredential.user, isNewAccount: false, needsReferralCode: false };
   }
 
@@ -313,9 +333,50 @@ async function completeOAuthSignup(
     throw new Error(err.message || 'Failed to complete signup. Please try again.');
   }
 
+  await claimInviteSeat(userCredential.user, referralCode).catch((error) =>
+    console.error('Failed to update seat ledger after signup:', error)
+  );
+
+  await createServerSession(userCredential.user);
+
   return { user: userCredential.user, isNewAccount: true, needsReferralCode: false };
 }
 
+/**
+ * Start a second-factor challenge for an OAuth sign-in
+ * Once resolved, the provider credential goes through the normal linking and access checks
+ */
+function startOAuthSecondFactor(
+  error: MultiFactorError,
+  credential: OAuthCredential | null,
+  referralCode: string | null
+): OAuthResult {
+  const email = error.customData.email;
+  if (!credential || !email) {
+    throw new Error('Failed to get sign-in credential. Please try again.');
+  }
+
+  const { nonce } = credential.toJSON() as { nonce?: string };
+  startSecondFactorChallenge(
+    error,
+    {
+      type: 'oauth',
+      providerId: credential.providerId,
+      idToken: credential.idToken,
+      accessToken: credential.accessToken,
+      nonce,
+    },
+    async (userCredential) => {
+      await linkOAuthToUser(credential, userCredential.user.email || email, referralCode);
+    },
+    async () => {
+      await linkOAuthToUser(credential, email, referralCode);
+    }
+  );
+
+  return { user: null, isNewAccount: false, needsReferralCode: false, needsSecondFactor: true, email };
+}
+
 /**
  * Sign in with Google using popup
  */
@@ -341,6 +402,10 @@ export async function signInWithGoogle(referralCode: string | null = null): Prom
 
     return linkOAuthToUser(credential, email, referralCode);
   } catch (error: unknown) {
+    // Accounts with MFA enrolled need a code from their authenticator app
+    if (isMultiFactorError(error)) {
+      return startOAuthSecondFactor(error, GoogleAuthProvider.credentialFromError(error), referralCode);
+    }
     const firebaseError = error as { code?: string; message?: string };
     if (firebaseError.code === 'auth/popup-closed-by-user') {
       throw new Error('Sign-in was cancelled');
@@ -377,6 +442,72 @@ export async function signInWithApple(referralCode: string | null = null): Promi
 
     return linkOAuthToUser(credential, email, referralCode);
   } catch (error: unknown) {
+    // Accounts with MFA enrolled need a code from their authenticator app
+    if (isMultiFactorError(error)) {
+      return startOAuthSecondFactor(error, OAuthProvider.credentialFromError(error), referralCode);
+    }
+    const firebaseError = error as { code?: string; message?: string };
+    if (firebaseError.code === 'auth/popup-closed-by-user') {
+      throw new Error('Sign-in was cancelled');
+    }
+    if (firebaseError.code === 'auth/popup-blocked') {
+      throw new Error('Sign-in popup was blocked. Please allow popups for this site.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sign in with a configured OIDC provider (e.g. a county board) using popup
+ * Only emails from the provider's allowed domains can sign in.
+ */
+export async function signInWithOidc(
+  oidcProvider: OidcProvider,
+  referralCode: string | null = null
+): Promise<OAuthResult> {
+  const provider = new OAuthProvider(oidcProvider.id);
+  provider.addScope('openid');
+  provider.addScope('email');
+  provider.addScope('profile');
+
+  const domainError = new Error(
+    `Your email address isn't allowed to sign in with ${oidcProvider.displayName}. Please contact your administrator.`
+  );
+
+  try {
+    const result = await signInWithPopup(auth, provider);
+    const email = result.user.email;
+
+    if (!email) {
+      await auth.signOut();
+      throw new Error(`${oidcProvider.displayName} account does not have an email address`);
+    }
+
+    if (!isEmailAllowedForProvider(oidcProvider, email)) {
+      // Don't leave behind an Auth account created by this popup
+      if (getAdditionalUserInfo(result)?.isNewUser) {
+        await result.user.delete().catch(() => undefined);
+      }
+      await auth.signOut();
+      throw domainError;
+    }
+
+    // Get the credential for account linking
+    const credential = OAuthProvider.credentialFromResult(result);
+    if (!credential) {
+      throw new Error(`Failed to get ${oidcProvider.displayName} credential`);
+    }
+
+    return linkOAuthToUser(credential, email, referralCode);
+  } catch (error: unknown) {
+    // Accounts with MFA enrolled need a code from their authenticator app
+    if (isMultiFactorError(error)) {
+      const email = error.customData.email;
+      if (email && !isEmailAllowedForProvider(oidcProvider, email)) {
+        throw domainError;
+      }
+      return startOAuthSecondFactor(error, OAuthProvider.credentialFromError(error), referralCode);
+    }
     const firebaseError = error as { code?: string; message?: string };
     if (firebaseError.code === 'auth/popup-closed-by-user') {
       throw new Error('Sign-in was cancelled');
@@ -0,0 +1,102 @@
+// OIDC provider registry
+// Super admins configure extra identity providers (e.g. county boards) shown on the login and signup pages
+'use client';
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { logActivity } from './activityLog';
+import type { OidcProvider } from '@/types';
+
+// Firebase requires OIDC provider IDs to start with 'oidc.'
+export const OIDC_PROVIDER_ID_PATTERN = /^oidc\.[a-z0-9-]+$/;
+
+export const DEFAULT_OIDC_BUTTON_COLOR = '#1a237e';
+export const DEFAULT_OIDC_BUTTON_TEXT_COLOR = '#ffffff';
+
+/**
+ * Get every configured OIDC provider (super admins)
+ */
+export async function getOidcProviders(): Promise<OidcProvider[]> {
+  const snapshot = await getDocs(collection(db, 'oidc_providers'));
+  return snapshot.docs
+    .map((providerDoc) => ({ id: providerDoc.id, ...providerDoc.data() } as OidcProvider))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Get the OIDC providers to show on the login and signup pages
+ */
+export async function getEnabledOidcProviders(): Promise<OidcProvider[]> {
+  const snapshot = await getDocs(query(collection(db, 'oidc_providers'), where('enabled', '==', true)));
+  return snapshot.docs
+    .map((providerDoc) => ({ id: providerDoc.id, ...providerDoc.data() } as OidcProvider))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Turn a comma separated list of domains into normalized domains ('@Board.ie' -> 'board.ie')
+ */
+export function parseEmailDomains(value: string): string[] {
+  return value
+    .split(/[,\s]+/)
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter((domain, index, domains) => domain.length > 0 && domains.indexOf(domain) === index);
+}
+
+/**
+ * Create or update an OIDC provider (super admins only)
+ */
+export async function saveOidcProvider(
+  provider: Omit<OidcProvider, 'createdAt' | 'updatedAt'>,
+  isNew: boolean
+): Promise<void> {
+  const id = provider.id.trim();
+  if (!OIDC_PROVIDER_ID_PATTERN.test(id)) {
+    throw new Error('Provider ID must start with "oidc." followed by lowercase letters, numbers or dashes.');
+  }
+  if (!provider.displayName.trim()) {
+    throw new Error('Display name is required');
+  }
+
+  await setDoc(
+    doc(db, 'oidc_providers', id),
+    {
+      displayName: provider.displayName.trim(),
+      buttonColor: provider.buttonColor || DEFAULT_OIDC_BUTTON_COLOR,
+      buttonTextColor: provider.buttonTextColor || DEFAULT_OIDC_BUTTON_TEXT_COLOR,
+      logoUrl: provider.logoUrl?.trim() || null,
+      allowedEmailDomains: provider.allowedEmailDomains,
+      enabled: provider.enabled,
+      updatedAt: serverTimestamp(),
+      ...(isNew ? { createdAt: serverTimestamp() } : {}),
+    },
+    { merge: true }
+  );
+
+  await logActivity('oidc_provider_saved', {
+    providerId: id,
+    providerName: provider.displayName.trim(),
+    enabled: provider.enabled,
+  });
+}
+
+/**
+ * Remove an OIDC provider from the login and signup pages (super admins only)
+ * Users who signed in with it keep their accounts and can still use other sign-in methods.
+ */
+export async function deleteOidcProvider(provider: OidcProvider): Promise<void> {
+  await deleteDoc(doc(db, 'oidc_providers', provider.id));
+  await logActivity('oidc_provider_deleted', {
+    providerId: provider.id,
+    providerName: provider.displayName,
+  });
+}
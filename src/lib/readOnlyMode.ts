@@ -0,0 +1,33 @@
+// Read-only dashboard mode
+// Writes are blocked while a super admin is viewing as another user (lib/impersonation) and while the club's
+// subscription is past due but within its grace period (config/subscriptionAccess). The proxy refuses club API writes
+// in both cases too.
+'use client';
+
+import { isImpersonating, READ_ONLY_MESSAGE } from './impersonation';
+import { BILLING_READ_ONLY_MESSAGE } from '@/config/subscriptionAccess';
+
+// Set by the dashboard layout from the club's subscriptions (see useSubscriptionAccess)
+let billingReadOnly = false;
+
+/**
+ * Record whether the club's subscription only allows read-only use
+ */
+export function setBillingReadOnly(readOnly: boolean): void {
+  billingReadOnly = readOnly;
+}
+
+/**
+ * Check if changes are currently disabled in the dashboard
+ * Club pages and components check this before every create/update/delete.
+ */
+export function isReadOnly(): boolean {
+  return isImpersonating() || billingReadOnly;
+}
+
+/**
+ * Get the message explaining why changes are disabled
+ */
+export function getReadOnlyMessage(): string {
+  return isImpersonating() ? READ_ONLY_MESSAGE : BILLING_READ_ONLY_MESSAGE;
+}
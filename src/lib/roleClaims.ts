@@ -0,0 +1,28 @@
+// Role claims utilities
+// The signed-in user's role and club are read from their ID token (see config/permissions getRoleClaims)
+'use client';
+
+import type { User as FirebaseUser } from 'firebase/auth';
+import { getRoleClaims, type RoleClaims } from '@/config/permissions';
+
+/**
+ * Read the role claims from a user's current ID token
+ */
+export async function getTokenRoleClaims(firebaseUser: FirebaseUser, forceRefresh = false): Promise<RoleClaims | null> {
+  const tokenResult = await firebaseUser.getIdTokenResult(forceRefresh);
+  return getRoleClaims(tokenResult.claims);
+}
+
+/**
+ * Ask the server to update the signed-in user's role claims, then get a new ID token carrying them
+ * Returns null if the claims can't be set (callers fall back to the users document).
+ */
+export async function refreshRoleClaims(firebaseUser: FirebaseUser): Promise<RoleClaims | null> {
+  try {
+    await fetch('/api/auth/claims', { method: 'POST' });
+    return await getTokenRoleClaims(firebaseUser, true);
+  } catch (error) {
+    console.error('Failed to refresh role claims:', error);
+    return null;
+  }
+}
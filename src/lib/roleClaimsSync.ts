@@ -0,0 +1,35 @@
+// Role claims sync (server only)
+// Mirrors a user's role, active club, admin flags, suspension and their club's MFA requirement into Firebase Auth
+// custom claims. Called by every route that changes them; changes made from the client are picked up by
+// POST /api/auth/claims (see useAuth), and verifySession calls it for users whose claims are missing or outdated.
+
+import { adminAuth, adminDb } from './firebaseAdmin';
+import { buildRoleClaims, getRoleClaims, roleClaimsEqual, type RoleClaims } from '@/config/permissions';
+import { belongsToClub } from '@/config/memberships';
+
+/**
+ * Update a user's role claims from their users document and active club
+ * An active club the user doesn't belong to (see belongsToClub) is left out of the claims, so it gives them no
+ * access there. Returns the claims, or null if the user has no users document.
+ */
+export async function syncRoleClaims(uid: string): Promise<RoleClaims | null> {
+  const userData = (await adminDb.collection('users').doc(uid).get()).data();
+  if (!userData) return null;
+
+  const club = userData.clubId ? (await adminDb.collection('sports_clubs').doc(userData.clubId).get()).data() : null;
+  const isMember = !userData.clubId || belongsToClub(uid, userData, userData.clubId, club);
+  if (!isMember) {
+    console.warn(`[claims] ${uid} is not a member of their active club ${userData.clubId}`);
+  }
+  const claims = isMember
+    ? buildRoleClaims({ id: uid, ...userData }, club)
+    : buildRoleClaims({ id: uid, ...userData, clubId: null, teamId: null, managedTeamIds: [] }, null);
+
+  const { customClaims } = await adminAuth.getUser(uid);
+  const current = getRoleClaims(customClaims);
+  if (!roleClaimsEqual(current, claims)) {
+    await adminAuth.setCustomUserClaims(uid, { ...customClaims, ...claims });
+  }
+
+  return claims;
+}
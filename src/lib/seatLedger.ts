@@ -0,0 +1,157 @@
+// Seat ledger utilities
+// seat_ledgers/{clubId} counts the used and pending seats of each seat type. Only the server writes it: invites,
+// signups, removals and role changes go through route handlers that update it in the same transaction as the
+// change itself, and it is reconciled nightly (see lib/seatLedgerSync).
+'use client';
+
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
+import type { User as FirebaseUser } from 'firebase/auth';
+import { db } from './firebase';
+import { fetchWithStepUp } from './stepUpAuth';
+import { normalizeSeatCounts, type SeatDrift } from '@/config/seatLedger';
+import type { ReferralCode, SeatLedger } from '@/types';
+
+// An invitation (referral) code to create; code is also the document ID. The server adds the club, use count
+// and timestamps.
+export interface InviteCodeData {
+  code: string;
+  intendedRole: string;
+  clubName?: string; // Ignored: the server puts the club's own name on invitations
+  teamId?: string;
+  teamName?: string;
+  adminEmail?: string;
+  firstName?: string;
+  lastName?: string;
+  isMemberInvitation?: boolean; // Sends the invitation email (Cloud Function)
+  maxUses?: number;
+  expiresAt?: Date; // Defaults to 7 days
+}
+
+/**
+ * Create a club's seat ledger from a recount if it doesn't exist yet
+ */
+export async function ensureSeatLedger(clubId: string): Promise<void> {
+  if ((await getDoc(doc(db, 'seat_ledgers', clubId))).exists()) return;
+
+  const response = await fetch('/api/club/seat-ledger', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to load seat usage. Please try again.');
+  }
+}
+
+/**
+ * Get a club's seat ledger, creating it if needed
+ */
+export async function getSeatLedger(clubId: string): Promise<SeatLedger> {
+  await ensureSeatLedger(clubId);
+  const ledgerDoc = await getDoc(doc(db, 'seat_ledgers', clubId));
+  const data = ledgerDoc.data() as SeatLedger | undefined;
+  return { ...data, clubId, seats: normalizeSeatCounts(data?.seats) };
+}
+
+/**
+ * Listen to a club's seat ledger, creating it if needed
+ * Returns a function that stops listening.
+ */
+export function subscribeToSeatLedger(
+  clubId: string,
+  onChange: (ledger: SeatLedger) => void,
+  onError: (error: Error) => void
+): () => void {
+  let unsubscribe: (() => void) | null = null;
+  let stopped = false;
+
+  ensureSeatLedger(clubId)
+    .then(() => {
+      if (stopped) return;
+      unsubscribe = onSnapshot(
+        doc(db, 'seat_ledgers', clubId),
+        (ledgerDoc) => {
+          const data = ledgerDoc.data() as SeatLedger | undefined;
+          onChange({ ...data, clubId, seats: normalizeSeatCounts(data?.seats) });
+        },
+        onError
+      );
+    })
+    .catch(onError);
+
+  return () => {
+    stopped = true;
+    unsubscribe?.();
+  };
+}
+
+/**
+ * Recount a club's seats now (club admins); returns the drift that was corrected
+ */
+export async function reconcileSeatLedger(clubId: string): Promise<SeatDrift> {
+  const response = await fetch('/api/club/seat-ledger', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, reconcile: true }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to recount seats. Please try again.');
+  }
+  return body.drift;
+}
+
+/**
+ * Create invitation (referral) codes for a club, holding a pending seat for each use
+ * Fails without creating any code if the club doesn't have enough free seats.
+ */
+export async function createInviteCodes(clubId: string, codes: InviteCodeData[]): Promise<void> {
+  const response = await fetch('/api/club/invite-codes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clubId, codes }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to create the invitations. Please try again.');
+  }
+}
+
+/**
+ * Delete invitation codes, releasing the seats they still hold
+ * Needs a recent reauthentication (see useStepUpAuth).
+ */
+export async function deleteInviteCodes(codes: ReferralCode[]): Promise<void> {
+  const response = await fetchWithStepUp('/api/club/invite-codes', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ codeIds: codes.map((code) => code.id) }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || 'Unable to delete the invitations. Please try again.');
+  }
+}
+
+/**
+ * Move the seat held by an invitation to the member who signed up with it
+ * Runs after the completeUserSignup Cloud Function; drift left by a failure is corrected by the nightly recount.
+ */
+export async function claimInviteSeat(firebaseUser: FirebaseUser, code: string): Promise<void> {
+  const idToken = await firebaseUser.getIdToken();
+  const response = await fetch('/api/auth/invite-seat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Unable to update seat usage.');
+  }
+}
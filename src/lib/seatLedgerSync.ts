@@ -0,0 +1,165 @@
+// Seat ledger maintenance (server only)
+// Only the server writes seat_ledgers/{clubId}: the route handlers for invites, signups, removals, role changes
+// and temporary admin access update it in the same transaction as the change. The nightly reconciliation
+// (GET /api/cron/seat-ledgers) recounts every club, reports drift and corrects the ledger.
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentReference, Transaction, UpdateData } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { getClubMembership } from '@/config/memberships';
+import {
+  SEAT_TYPES,
+  getEmptySeatCounts,
+  getMembershipSeatType,
+  getPendingSeats,
+  getSeatDrift,
+  getSeatLimits,
+  getSeatType,
+  normalizeSeatCounts,
+  type SeatChanges,
+  type SeatCounts,
+  type SeatDrift,
+  type SeatType,
+} from '@/config/seatLedger';
+import type { SeatLedger, User } from '@/types';
+
+function getLedgerRef(clubId: string) {
+  return adminDb.collection('seat_ledgers').doc(clubId);
+}
+
+/**
+ * Count a club's seats from its members and active invitation codes
+ * Members whose active club is another club are counted through memberClubIds.
+ */
+async function countClubSeats(transaction: Transaction, clubId: string): Promise<SeatCounts> {
+  const [clubDoc, activeSnapshot, membershipSnapshot, codesSnapshot] = await Promise.all([
+    transaction.get(adminDb.collection('sports_clubs').doc(clubId)),
+    transaction.get(adminDb.collection('users').where('clubId', '==', clubId)),
+    transaction.get(adminDb.collection('users').where('memberClubIds', 'array-contains', clubId)),
+    transaction.get(adminDb.collection('referral_codes').where('clubId', '==', clubId).where('active', '==', true)),
+  ]);
+
+  const seats = getEmptySeatCounts(getSeatLimits(clubDoc.data()));
+
+  const memberSeatTypes = new Map<string, SeatType | null>();
+  [...activeSnapshot.docs, ...membershipSnapshot.docs].forEach((doc) => {
+    const membership = getClubMembership(doc.data() as User, clubId);
+    if (membership) {
+      memberSeatTypes.set(doc.id, getMembershipSeatType(membership));
+    }
+  });
+  memberSeatTypes.forEach((seatType) => {
+    if (seatType) seats[seatType].used++;
+  });
+
+  codesSnapshot.forEach((doc) => {
+    const codeData = doc.data();
+    const seatType = getSeatType(codeData.intendedRole);
+    if (seatType) seats[seatType].pending += getPendingSeats(codeData);
+  });
+
+  return seats;
+}
+
+/**
+ * Recount a club's seats and rewrite its ledger
+ * Returns the drift between the previous ledger and the recount (empty if it matched or there was no ledger).
+ * Drift is logged to activity_log as seat_ledger_drift.
+ */
+export async function reconcileSeatLedger(clubId: string): Promise<SeatDrift> {
+  const ledgerRef = getLedgerRef(clubId);
+
+  const { drift, created } = await adminDb.runTransaction(async (transaction) => {
+    const ledgerDoc = await transaction.get(ledgerRef);
+    const seats = await countClubSeats(transaction, clubId);
+    const previous = ledgerDoc.data() as SeatLedger | undefined;
+    const drift = previous ? getSeatDrift(normalizeSeatCounts(previous.seats), seats) : {};
+
+    transaction.set(ledgerRef, {
+      clubId,
+      seats,
+      updatedAt: FieldValue.serverTimestamp(),
+      lastReconciliation: { at: FieldValue.serverTimestamp(), drift },
+    });
+
+    return { drift, created: !previous };
+  });
+
+  if (!created && Object.keys(drift).length > 0) {
+    await adminDb.collection('activity_log').add({
+      type: 'seat_ledger_drift',
+      userId: null,
+      data: { email: null, userName: null, clubId, drift },
+      timestamp: FieldValue.serverTimestamp(),
+    });
+  }
+
+  return drift;
+}
+
+/**
+ * Reconcile every club's seat ledger
+ * Returns the number of clubs reconciled and the clubs whose ledger had drifted.
+ */
+export async function reconcileAllSeatLedgers(): Promise<{ clubCount: number; driftedClubIds: string[] }> {
+  const clubsSnapshot = await adminDb.collection('sports_clubs').get();
+  const driftedClubIds: string[] = [];
+
+  for (const clubDoc of clubsSnapshot.docs) {
+    try {
+      const drift = await reconcileSeatLedger(clubDoc.id);
+      if (Object.keys(drift).length > 0) {
+        driftedClubIds.push(clubDoc.id);
+      }
+    } catch (error) {
+      // One club failing shouldn't stop the others
+      console.error(`[seat-ledgers] Failed to reconcile club ${clubDoc.id}:`, error);
+    }
+  }
+
+  return { clubCount: clubsSnapshot.size, driftedClubIds };
+}
+
+/**
+ * Create a club's seat ledger from a recount if it doesn't exist yet
+ * Call before a transaction that reads or updates the ledger.
+ */
+export async function ensureSeatLedger(clubId: string): Promise<void> {
+  if (!(await getLedgerRef(clubId).get()).exists) {
+    await reconcileSeatLedger(clubId);
+  }
+}
+
+/**
+ * Check inside a transaction that a club has a free seat of a type
+ * The limit is read from the club so plan changes apply before the next reconciliation.
+ */
+export async function hasFreeSeat(transaction: Transaction, clubId: string, seatType: SeatType): Promise<boolean> {
+  const [ledgerDoc, clubDoc] = await Promise.all([
+    transaction.get(getLedgerRef(clubId)),
+    transaction.get(adminDb.collection('sports_clubs').doc(clubId)),
+  ]);
+
+  const limit = getSeatLimits(clubDoc.data())[seatType];
+  const seat = normalizeSeatCounts((ledgerDoc.data() as SeatLedger | undefined)?.seats)[seatType];
+  return limit !== null && seat.used + seat.pending < limit;
+}
+
+// A transaction or write batch
+type SeatLedgerWriter = { update(documentRef: DocumentReference, data: UpdateData<DocumentData>): unknown };
+
+/**
+ * Add seat changes to a transaction or batch (the ledger must exist, see ensureSeatLedger)
+ */
+export function updateSeatLedger(transaction: SeatLedgerWriter, clubId: string, changes: SeatChanges): void {
+  const update: Record<string, unknown> = {};
+  SEAT_TYPES.forEach((seatType) => {
+    const change = changes[seatType];
+    if (change?.used) update[`seats.${seatType}.used`] = FieldValue.increment(change.used);
+    if (change?.pending) update[`seats.${seatType}.pending`] = FieldValue.increment(change.pending);
+  });
+
+  if (Object.keys(update).length > 0) {
+    transaction.update(getLedgerRef(clubId), { ...update, updatedAt: FieldValue.serverTimestamp() });
+  }
+}
@@ -0,0 +1,34 @@
+// Server-side idle tracking (server only)
+// The dashboard reports activity to POST /api/auth/activity, which stores the time in session_activity/{uid}
+// together with the idle timeout for the user's role. verifySession refuses a session that has been idle for
+// longer than that, so the 5-day session cookie can't outlive the idle timeout when the dashboard is closed.
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { getIdleTimeoutMinutes, toSessionPolicy } from '@/config/sessionPolicy';
+
+/**
+ * Record that the user is active now (on sign-in and from the dashboard's activity heartbeat)
+ */
+export async function recordSessionActivity(uid: string, role: string | null): Promise<void> {
+  const policyDoc = await adminDb.collection('session_settings').doc('policy').get();
+  await adminDb
+    .collection('session_activity')
+    .doc(uid)
+    .set({
+      lastSeenAt: Timestamp.now(),
+      idleTimeoutMinutes: getIdleTimeoutMinutes(toSessionPolicy(policyDoc.data()), role),
+    });
+}
+
+/**
+ * Check if the user has been inactive for longer than their idle timeout
+ * Sessions with no recorded activity (signed in before idle tracking) are not treated as idle.
+ */
+export async function isSessionIdle(uid: string): Promise<boolean> {
+  const activity = (await adminDb.collection('session_activity').doc(uid).get()).data();
+  if (!activity?.idleTimeoutMinutes || !(activity.lastSeenAt instanceof Timestamp)) {
+    return false;
+  }
+  return Date.now() - activity.lastSeenAt.toMillis() > activity.idleTimeoutMinutes * 60 * 1000;
+}
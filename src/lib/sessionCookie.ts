@@ -0,0 +1,165 @@
+// Server-side session cookie utilities (used by the session route handler and proxy)
+import { adminAuth, adminDb } from './firebaseAdmin';
+import { isAdminGrantExpired, revokeAdminGrant } from './adminGrantRevocation';
+import { isSessionIdle } from './sessionActivity';
+import { syncRoleClaims } from './roleClaimsSync';
+import { getSubscriptionAccess, type SubscriptionAccess } from '@/config/subscriptionAccess';
+import { getRoleClaims, isClaimsAdminGrantExpired, type RoleClaims } from '@/config/permissions';
+
+export const SESSION_COOKIE_NAME = '__session';
+
+// Set while a super admin is viewing the dashboard as a club admin (holds the club admin's uid)
+export const IMPERSONATION_COOKIE_NAME = '__impersonate';
+
+// "View as" sessions end automatically after an hour
+export const IMPERSONATION_EXPIRES_IN_SECONDS = 60 * 60;
+
+// Session cookies last 5 days (Firebase allows between 5 minutes and 2 weeks)
+export const SESSION_EXPIRES_IN_MS = 5 * 24 * 60 * 60 * 1000;
+
+// ID tokens older than this cannot be exchanged for a session cookie
+export const MAX_SIGN_IN_AGE_SECONDS = 5 * 60;
+
+// Destructive routes (role changes, member removal, account deletion) also need an ID token from a sign-in or
+// reauthentication this recent (see verifyStepUp and useStepUpAuth)
+export const STEP_UP_MAX_AGE_SECONDS = 5 * 60;
+
+// Returned by routes whose step-up check fails, so the client asks the user to confirm it's them again
+export const STEP_UP_REQUIRED_CODE = 'auth/requires-recent-login';
+
+// Roles allowed into the admin dashboard
+export { DASHBOARD_ROLES } from '@/config/roles';
+
+export interface SessionUser {
+  uid: string;
+  email?: string;
+  role: string | null;
+  clubId: string | null;
+  // Second factor used for this sign-in (e.g. 'totp'), if any
+  secondFactor: string | null;
+  // True when the user's club requires two-factor authentication for club admins
+  mfaRequired: boolean;
+}
+
+/**
+ * Load a user's role claims from Firestore and set them, for users whose claims are missing, outdated or carry
+ * temporary admin access that has ended
+ */
+async function loadRoleClaims(uid: string): Promise<RoleClaims | null> {
+  const userData = (await adminDb.collection('users').doc(uid).get()).data();
+
+  // Temporary admin access ends at its expiry even if the scheduled sweep hasn't run yet
+  if (userData?.adminGrant && isAdminGrantExpired(userData.adminGrant)) {
+    await revokeAdminGrant(userData.adminGrant.grantId);
+  }
+  return syncRoleClaims(uid);
+}
+
+/**
+ * Verify a session cookie and load the user's role and club
+ * The role, club and MFA requirement come from the user's custom claims (see lib/roleClaimsSync); Firestore is only
+ * read when those are missing or outdated. Claims only carry a club the user belongs to, and claims set before that
+ * was checked (an older ROLE_CLAIMS_VERSION) are set again. Returns null if the cookie is missing, invalid, expired
+ * or revoked, the user is suspended in their active club, or they have been idle for longer than their role's idle
+ * timeout (see lib/sessionActivity)
+ */
+export async function verifySession(sessionCookie: string | undefined): Promise<SessionUser | null> {
+  if (!sessionCookie) {
+    return null;
+  }
+
+  try {
+    const decoded = await adminAuth.verifySessionCookie(sessionCookie);
+
+    // The revocation check verifySessionCookie(cookie, true) makes, done here so the user record's current claims
+    // (rather than the ones copied into the cookie at sign-in) can be used below
+    const authUser = await adminAuth.getUser(decoded.uid);
+    const validSince = authUser.tokensValidAfterTime ? Date.parse(authUser.tokensValidAfterTime) : 0;
+    if (authUser.disabled || decoded.auth_time * 1000 < validSince) {
+      return null;
+    }
+
+    if (await isSessionIdle(decoded.uid)) {
+      return null;
+    }
+
+    let claims = getRoleClaims(authUser.customClaims);
+    if (!claims || isClaimsAdminGrantExpired(claims)) {
+      claims = await loadRoleClaims(decoded.uid);
+    }
+
+    // Members suspended in their active club lose access at once, as at sign-in (POST /api/auth/session)
+    if (claims?.suspended && claims.role !== 'super_admin') {
+      return null;
+    }
+
+    return {
+      uid: decoded.uid,
+      email: decoded.email,
+      // Members with temporary admin access act as club admins; their own role is unchanged
+      role: claims?.role || null,
+      clubId: claims?.clubId || null,
+      secondFactor: decoded.firebase?.sign_in_second_factor || null,
+      // Clubs can require MFA for their admins (set by a super admin)
+      mfaRequired: claims?.mfaRequired === true,
+    };
+  } catch (error) {
+    console.warn('[session] Invalid session cookie:', error);
+    return null;
+  }
+}
+
+/**
+ * Check the step-up ID token sent with a destructive request (`Authorization: Bearer <idToken>`)
+ * It must be the session user's and come from a sign-in or reauthentication within STEP_UP_MAX_AGE_SECONDS, so a
+ * session cookie alone isn't enough.
+ */
+export async function verifyStepUp(authorization: string | null, uid: string): Promise<boolean> {
+  const idToken = authorization?.replace(/^Bearer /, '');
+  if (!idToken) {
+    return false;
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    return decoded.uid === uid && Date.now() / 1000 - decoded.auth_time <= STEP_UP_MAX_AGE_SECONDS;
+  } catch (error) {
+    console.warn('[session] Invalid step-up token:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the dashboard home path for a role
+ */
+export function getHomePathForRole(role: string | null | undefined): string {
+  if (role === 'super_admin') {
+    return '/admin';
+  }
+  if (role === 'club_admin' || role === 'club_admin_coach') {
+    return '/club';
+  }
+  if (role === 'team_manager') {
+    return '/club/teams';
+  }
+  return '/login';
+}
+
+/**
+ * Check if a team manager may open a club route (their teams list, team editing and the FAQ)
+ */
+export function isTeamManagerPath(pathname: string): boolean {
+  return (
+    pathname === '/club/teams' ||
+    /^\/club\/teams\/[^/]+\/edit\/?$/.test(pathname) ||
+    pathname.startsWith('/club/faq')
+  );
+}
+
+/**
+ * Work out what a club can do in the dashboard from its subscriptions (see config/subscriptionAccess)
+ */
+export async function getClubSubscriptionAccess(clubId: string): Promise<SubscriptionAccess> {
+  const snapshot = await adminDb.collection('subscriptions').where('clubId', '==', clubId).get();
+  return getSubscriptionAccess(snapshot.docs.map((doc) => doc.data())).access;
+}
@@ -0,0 +1,100 @@
+// Session policy utilities
+// Idle timeout per role (configured by super admins in System Settings) and sign-out reasons
+'use client';
+
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { logActivity } from './activityLog';
+import {
+  SESSION_POLICY_ROLES,
+  toSessionPolicy,
+  type SessionPolicy,
+} from '@/config/sessionPolicy';
+
+export {
+  SESSION_POLICY_ROLES,
+  DEFAULT_SESSION_POLICY,
+  getIdleTimeoutMinutes,
+  type SessionPolicy,
+  type SessionPolicyRole,
+} from '@/config/sessionPolicy';
+
+// The warning dialog appears this long before the idle sign-out
+export const IDLE_WARNING_SECONDS = 60;
+
+export type SignOutReason = 'idle' | 'access_changed' | 'other_tab';
+
+// Shown on the login page after an automatic sign-out (see /login?reason=...)
+export const SIGN_OUT_MESSAGES: Record<SignOutReason, string> = {
+  idle: 'You were signed out after a period of inactivity.',
+  access_changed: 'Your role or club was changed. Please sign in again.',
+  other_tab: 'You signed out in another tab.',
+};
+
+const POLICY_DOC = doc(db, 'session_settings', 'policy');
+
+const LAST_ACTIVITY_KEY = 'benchmark-last-activity';
+
+/**
+ * Get the session policy, falling back to the defaults for unset roles
+ */
+export async function getSessionPolicy(): Promise<SessionPolicy> {
+  const snapshot = await getDoc(POLICY_DOC);
+  return toSessionPolicy(snapshot.data());
+}
+
+/**
+ * Get when the user was last active in any tab (0 when unknown)
+ * Kept in localStorage so closing and reopening the dashboard doesn't restart the idle timer.
+ */
+export function getLastActivity(): number {
+  try {
+    return Number(window.localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Remember when the user was last active (called on activity and on sign-in)
+ */
+export function recordLastActivity(at: number = Date.now()): void {
+  try {
+    window.localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+  } catch {
+    // Storage can be unavailable (e.g. blocked in private browsing); the in-tab timer still applies
+  }
+}
+
+/**
+ * Tell the server the user is active, so verifySession doesn't treat the session as idle
+ * @returns {Promise<boolean>} False when the server no longer accepts the session
+ */
+export async function sendActivityHeartbeat(): Promise<boolean> {
+  try {
+    const response = await fetch('/api/auth/activity', { method: 'POST' });
+    return response.status !== 401;
+  } catch {
+    // Offline; the next heartbeat will try again
+    return true;
+  }
+}
+
+/**
+ * Save the session policy (super admins only)
+ */
+export async function saveSessionPolicy(policy: SessionPolicy): Promise<void> {
+  for (const role of SESSION_POLICY_ROLES) {
+    const minutes = policy.idleTimeoutMinutes[role];
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60) {
+      throw new Error('Idle timeouts must be whole minutes between 0 and 1440');
+    }
+  }
+
+  await setDoc(POLICY_DOC, {
+    idleTimeoutMinutes: policy.idleTimeoutMinutes,
+    updatedAt: serverTimestamp(),
+  });
+
+  await logActivity('session_policy_updated', { idleTimeoutMinutes: policy.idleTimeoutMinutes });
+}
@@ -0,0 +1,57 @@
+// Step-up authentication utilities
+// Destructive actions ask the user to confirm it's them (see useStepUpAuth). The server checks it too: their routes
+// need a fresh ID token as well as the session cookie (verifyStepUp in lib/sessionCookie).
+'use client';
+
+import type { User as FirebaseUser } from 'firebase/auth';
+import { auth } from './firebase';
+
+// Destructive admin actions don't ask again if the user confirmed it's them this recently
+// (STEP_UP_MAX_AGE_SECONDS on the server)
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+// Sent back by routes that no longer see a recent reauthentication
+const STEP_UP_REQUIRED_CODE = 'auth/requires-recent-login';
+
+let lastReauthentication: { uid: string; at: number } | null = null;
+
+/**
+ * Record that the user just confirmed it's them
+ */
+export function recordReauthentication(firebaseUser: FirebaseUser): void {
+  lastReauthentication = { uid: firebaseUser.uid, at: Date.now() };
+}
+
+/**
+ * Check if the user reauthenticated within STEP_UP_WINDOW_MS
+ */
+export function hasRecentReauthentication(firebaseUser: FirebaseUser): boolean {
+  return (
+    !!lastReauthentication &&
+    lastReauthentication.uid === firebaseUser.uid &&
+    Date.now() - lastReauthentication.at < STEP_UP_WINDOW_MS
+  );
+}
+
+/**
+ * Call a destructive route with the signed-in user's ID token, which carries when they last reauthenticated
+ * If the route refuses it, the next destructive action asks the user to confirm it's them again.
+ */
+export async function fetchWithStepUp(
+  url: string,
+  init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> }
+): Promise<Response> {
+  const idToken = await auth.currentUser?.getIdToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: { ...init.headers, ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}) },
+  });
+
+  if (response.status === 403) {
+    const body = await response.clone().json().catch(() => ({}));
+    if (body.code === STEP_UP_REQUIRED_CODE) {
+      lastReauthentication = null;
+    }
+  }
+  return response;
+}
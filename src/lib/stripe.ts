@@ -0,0 +1,114 @@
+// Stripe API client (server only)
+// Calls the Stripe REST API directly. Set STRIPE_API_BASE to the local stub (scripts/stripe-stub.mjs) to test
+// checkout and the billing portal offline.
+
+import { adminDb } from './firebaseAdmin';
+import { isAdminPlan } from '@/config/adminPlans';
+import type { CheckoutSeatType } from '@/config/billing';
+
+const STRIPE_API_BASE = process.env.STRIPE_API_BASE || 'https://api.stripe.com';
+
+// Stripe price for one seat of each type bought through Checkout
+const SEAT_PRICE_IDS: Record<CheckoutSeatType, string | undefined> = {
+  coach: process.env.STRIPE_COACH_SEAT_PRICE_ID,
+  view_only: process.env.STRIPE_VIEW_ONLY_SEAT_PRICE_ID,
+};
+
+type StripeParams = { [key: string]: string | number | boolean | null | undefined | StripeParams | StripeParams[] };
+
+/**
+ * Flatten params into Stripe's form encoding, e.g. line_items[0][price]=price_123
+ */
+function encodeParams(params: StripeParams, prefix = '', form = new URLSearchParams()): URLSearchParams {
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => encodeParams(item, `${name}[${index}]`, form));
+    } else if (typeof value === 'object') {
+      encodeParams(value, name, form);
+    } else {
+      form.append(name, String(value));
+    }
+  });
+  return form;
+}
+
+async function stripeRequest<T>(path: string, params: StripeParams): Promise<T> {
+  const response = await fetch(`${STRIPE_API_BASE}/v1/${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.STRIPE_SECRET_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: encodeParams(params),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Stripe ${path} failed (${response.status}): ${body.error?.message || 'unknown error'}`);
+  }
+  return body as T;
+}
+
+/**
+ * Check if the Stripe secret key is set
+ */
+export function isStripeConfigured(): boolean {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
+/**
+ * Check if seats of a type can be bought (its Stripe price is configured)
+ */
+export function hasSeatPrice(seatType: CheckoutSeatType): boolean {
+  return !!SEAT_PRICE_IDS[seatType];
+}
+
+/**
+ * Create a Checkout session for new seats on a club's subscription
+ * The webhook reads clubId and seatType from the subscription's metadata. Check hasSeatPrice first.
+ */
+export async function createSeatCheckoutSession(options: {
+  clubId: string;
+  seatType: CheckoutSeatType;
+  quantity: number;
+  customerId?: string | null;
+  customerEmail?: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<{ id: string; url: string }> {
+  const metadata = { clubId: options.clubId, seatType: options.seatType };
+  return stripeRequest('checkout/sessions', {
+    mode: 'subscription',
+    line_items: [{ price: SEAT_PRICE_IDS[options.seatType], quantity: options.quantity }],
+    client_reference_id: options.clubId,
+    // Reuse the club's Stripe customer so every subscription is billed together
+    ...(options.customerId ? { customer: options.customerId } : { customer_email: options.customerEmail }),
+    metadata,
+    subscription_data: { metadata },
+    success_url: options.successUrl,
+    cancel_url: options.cancelUrl,
+  });
+}
+
+/**
+ * Create a Billing Portal session where a customer updates payment methods, views invoices or cancels
+ */
+export async function createBillingPortalSession(customerId: string, returnUrl: string): Promise<{ id: string; url: string }> {
+  return stripeRequest('billing_portal/sessions', { customer: customerId, return_url: returnUrl });
+}
+
+/**
+ * Get a club's Stripe customer from the subscriptions the webhook wrote for it
+ * The club document's stripeCustomerId isn't used: club admins can write the club document, and the customer
+ * decides whose invoices, payment methods and subscriptions the Billing Portal opens.
+ */
+export async function getClubStripeCustomerId(clubId: string): Promise<string | null> {
+  const subscriptionsSnapshot = await adminDb.collection('subscriptions').where('clubId', '==', clubId).get();
+  const subscription = subscriptionsSnapshot.docs.find((subscriptionDoc) => {
+    const data = subscriptionDoc.data();
+    return !isAdminPlan(data) && typeof data.stripeCustomerId === 'string' && data.stripeCustomerId;
+  });
+  return subscription?.data().stripeCustomerId || null;
+}
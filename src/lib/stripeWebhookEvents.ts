@@ -0,0 +1,134 @@
+// Stripe webhook event utilities
+// stripe_webhook_events keeps every event the Stripe webhook received. Super admins inspect them next to the
+// subscriptions documents they produced to find out why a club's subscription looks wrong.
+'use client';
+
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import type { StripeWebhookEvent } from '@/types';
+import { toDate } from '@/utils/dateHelpers';
+
+export type WebhookProcessingStatus = 'processed' | 'failed' | 'pending' | 'unprocessed';
+
+export const WEBHOOK_PROCESSING_STATUS_LABELS: Record<WebhookProcessingStatus, string> = {
+  processed: 'Processed',
+  failed: 'Failed',
+  pending: 'Pending',
+  unprocessed: 'Never Processed',
+};
+
+// Events still not processed this long after Stripe created them are treated as never processed
+export const UNPROCESSED_AFTER_MINUTES = 15;
+
+// Events loaded by the inspector per page
+export const WEBHOOK_EVENTS_PAGE_SIZE = 100;
+
+export interface WebhookEventFilters {
+  clubId?: string;
+  customerId?: string;
+}
+
+export interface WebhookEventsPage {
+  events: StripeWebhookEvent[];
+  // Pass back to load the next page; null once there are no more events
+  cursor: QueryDocumentSnapshot | null;
+}
+
+/**
+ * Get a page of webhook events, newest first
+ * Filters by club or Stripe customer in the query, so older events stay reachable by loading more pages.
+ */
+export async function getStripeWebhookEvents(
+  filters: WebhookEventFilters = {},
+  cursor: QueryDocumentSnapshot | null = null
+): Promise<WebhookEventsPage> {
+  const constraints: QueryConstraint[] = [];
+  if (filters.clubId) constraints.push(where('clubId', '==', filters.clubId));
+  if (filters.customerId) constraints.push(where('data.object.customer', '==', filters.customerId));
+  constraints.push(orderBy('created', 'desc'));
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(WEBHOOK_EVENTS_PAGE_SIZE));
+
+  const snapshot = await getDocs(query(collection(db, 'stripe_webhook_events'), ...constraints));
+  return {
+    events: snapshot.docs.map((eventDoc) => ({ ...eventDoc.data(), id: eventDoc.id }) as StripeWebhookEvent),
+    cursor: snapshot.docs.length === WEBHOOK_EVENTS_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : null,
+  };
+}
+
+/**
+ * Get when Stripe created an event
+ */
+export function getEventCreatedAt(event: StripeWebhookEvent): Date | null {
+  return typeof event.created === 'number' ? new Date(event.created * 1000) : toDate(event.receivedAt);
+}
+
+/**
+ * Work out whether the webhook handled an event
+ * Uses status when the webhook recorded one, otherwise processed/processedAt and error.
+ */
+export function getProcessingStatus(event: StripeWebhookEvent, now: number = Date.now()): WebhookProcessingStatus {
+  const status = event.status?.toLowerCase();
+  if (event.error || status === 'failed' || status === 'error') return 'failed';
+  if (event.processed === true || event.processedAt || status === 'processed' || status === 'succeeded') {
+    return 'processed';
+  }
+
+  const createdAt = getEventCreatedAt(event);
+  return createdAt && now - createdAt.getTime() > UNPROCESSED_AFTER_MINUTES * 60 * 1000 ? 'unprocessed' : 'pending';
+}
+
+/**
+ * Get the Stripe customer an event is about
+ */
+export function getEventCustomerId(event: StripeWebhookEvent): string | null {
+  const object = event.data?.object;
+  if (!object) return null;
+  if (object.object === 'customer') return typeof object.id === 'string' ? object.id : null;
+  return typeof object.customer === 'string' ? object.customer : null;
+}
+
+/**
+ * Get the Stripe subscription an event is about (subscription events, invoices and checkout sessions)
+ */
+export function getEventSubscriptionId(event: StripeWebhookEvent): string | null {
+  const object = event.data?.object;
+  if (!object) return null;
+  if (object.object === 'subscription') return typeof object.id === 'string' ? object.id : null;
+  return typeof object.subscription === 'string' ? object.subscription : null;
+}
+
+/**
+ * Get the club from the event document or from the clubId metadata set at checkout
+ */
+export function getEventClubId(event: StripeWebhookEvent): string | null {
+  if (event.clubId) return event.clubId;
+  const metadata = event.data?.object?.metadata as Record<string, unknown> | undefined;
+  return typeof metadata?.clubId === 'string' ? metadata.clubId : null;
+}
+
+/**
+ * Format a Firestore document for display, with timestamps as ISO strings
+ */
+export function formatDocumentJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (key, fieldValue) {
+      // JSON.stringify has already called Timestamp.toJSON(); read the original value instead
+      const original = (this as Record<string, unknown>)[key];
+      const date = original && typeof original === 'object' ? toDate(original) : null;
+      return date ? date.toISOString() : fieldValue;
+    },
+    2
+  );
+}
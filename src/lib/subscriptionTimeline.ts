@@ -0,0 +1,401 @@
+// Subscription timeline utilities
+// Builds a club's subscription lifecycle (status transitions, seat-limit changes and plan changes) from the Stripe
+// webhook events of its subscriptions and the subscription_history entries of its admin-managed plans.
+'use client';
+
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { getEventCreatedAt } from './stripeWebhookEvents';
+import { ADMIN_PLAN_KIND_LABELS, isAdminPlan, type AdminPlanKind } from '@/config/adminPlans';
+import { SEAT_LIMIT_FIELDS, SEAT_TYPES, SEAT_TYPE_LABELS, type SeatType } from '@/config/seatLedger';
+import { formatDate, toDate } from '@/utils/dateHelpers';
+import type { StripeWebhookEvent, SubscriptionFieldChange, SubscriptionHistoryEntry } from '@/types';
+
+export type SubscriptionTimelineKind = 'status' | 'seats' | 'plan';
+
+// Where an entry came from: a Stripe webhook event, a dashboard change to an admin-managed plan, or the
+// subscriptions document itself when nothing else was recorded for it
+export type SubscriptionTimelineSource = 'stripe' | 'admin' | 'record';
+
+export const SUBSCRIPTION_TIMELINE_KIND_LABELS: Record<SubscriptionTimelineKind, string> = {
+  status: 'Status',
+  seats: 'Seats',
+  plan: 'Plan',
+};
+
+export const SUBSCRIPTION_TIMELINE_SOURCE_LABELS: Record<SubscriptionTimelineSource, string> = {
+  stripe: 'Stripe',
+  admin: 'Admin',
+  record: 'Subscription record',
+};
+
+const SUBSCRIPTION_STATUS_LABELS: Record<string, string> = {
+  trialing: 'Trialing',
+  active: 'Active',
+  past_due: 'Past Due',
+  unpaid: 'Unpaid',
+  incomplete: 'Incomplete',
+  incomplete_expired: 'Incomplete Expired',
+  paused: 'Paused',
+  canceled: 'Canceled',
+  ended: 'Ended',
+};
+
+export interface SubscriptionTimelineEntry {
+  id: string;
+  at: Date;
+  kind: SubscriptionTimelineKind;
+  subscriptionName: string;
+  label: string; // What changed, e.g. 'Status' or 'Coach seats'
+  from: string | null; // null when the subscription was created
+  to: string | null;
+  source: SubscriptionTimelineSource;
+  eventId?: string; // Stripe event ID, for the webhook inspector
+}
+
+// The subscriptions document fields used here
+export interface TimelineSubscription {
+  id: string;
+  source?: string;
+  stripeSubscriptionId?: string;
+  stripeCustomerId?: string;
+  status?: string;
+  planName?: string;
+  coachAccountPlanName?: string;
+  coachAccountPriceId?: string;
+  viewOnlyPriceId?: string;
+  currentPeriodEnd?: unknown;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+interface StripeItem {
+  priceId: string | null;
+  priceName: string | null;
+  interval: string | null;
+  seatType: SeatType | null;
+  quantity: number;
+}
+
+/**
+ * Get a subscription status for display
+ */
+export function getSubscriptionStatusLabel(status: string | null | undefined): string {
+  return SUBSCRIPTION_STATUS_LABELS[status || ''] || status || 'Unknown';
+}
+
+/**
+ * Check if a value is a seat type
+ */
+function isSeatType(value: unknown): value is SeatType {
+  return SEAT_TYPES.includes(value as SeatType);
+}
+
+/**
+ * Read the items of a Stripe subscription object
+ * An item's seat type comes from its price's seatType metadata, the club's known seat prices or, for a
+ * subscription with one item, the seatType metadata set at checkout.
+ */
+function getStripeItems(
+  items: unknown,
+  subscriptionMetadata: Record<string, unknown> | undefined,
+  priceSeatTypes: Map<string, SeatType>
+): StripeItem[] {
+  const data = (items as { data?: unknown } | null)?.data;
+  if (!Array.isArray(data)) return [];
+
+  return data.map((item: Record<string, unknown>) => {
+    const price = (item.price || item.plan || {}) as Record<string, unknown>;
+    const priceId = typeof price.id === 'string' ? price.id : null;
+    const metadataSeatType = (price.metadata as Record<string, unknown> | undefined)?.seatType;
+    const recurring = price.recurring as Record<string, unknown> | undefined;
+    const checkoutSeatType = data.length === 1 ? subscriptionMetadata?.seatType : null;
+
+    return {
+      priceId,
+      priceName: (price.nickname as string) || (price.lookup_key as string) || priceId,
+      interval: ((recurring?.interval || price.interval) as string) || null,
+      seatType: isSeatType(metadataSeatType)
+        ? metadataSeatType
+        : (priceId && priceSeatTypes.get(priceId)) || (isSeatType(checkoutSeatType) ? checkoutSeatType : null),
+      quantity: typeof item.quantity === 'number' ? item.quantity : 0,
+    };
+  });
+}
+
+/**
+ * Total the seats of each type in a subscription's items
+ */
+function getItemSeats(items: StripeItem[]): Partial<Record<SeatType, number>> {
+  const seats: Partial<Record<SeatType, number>> = {};
+  items.forEach((item) => {
+    if (item.seatType) {
+      seats[item.seatType] = (seats[item.seatType] || 0) + item.quantity;
+    }
+  });
+  return seats;
+}
+
+/**
+ * Describe the prices a subscription is on, e.g. "Coach Seats (year) + View Only Seats (year)"
+ */
+function getItemPlan(items: StripeItem[]): string | null {
+  const prices = items
+    .filter((item) => item.priceName)
+    .map((item) => (item.interval ? `${item.priceName} (${item.interval})` : item.priceName))
+    .sort();
+  return prices.length > 0 ? prices.join(' + ') : null;
+}
+
+/**
+ * Get a subscription's name for display
+ */
+function getSubscriptionName(subscription: TimelineSubscription | undefined, fallbackId: string): string {
+  return subscription?.planName || subscription?.coachAccountPlanName || fallbackId;
+}
+
+/**
+ * Build timeline entries from customer.subscription.* webhook events, oldest first
+ * Statuses are tracked per subscription so events without the previous status (e.g. deleted) still show it.
+ */
+function getStripeEntries(
+  events: StripeWebhookEvent[],
+  subscriptions: TimelineSubscription[]
+): SubscriptionTimelineEntry[] {
+  const subscriptionsByStripeId = new Map(
+    subscriptions.flatMap((subscription) =>
+      subscription.stripeSubscriptionId ? [[subscription.stripeSubscriptionId, subscription] as const] : []
+    )
+  );
+  const priceSeatTypes = new Map<string, SeatType>();
+  subscriptions.forEach((subscription) => {
+    if (subscription.coachAccountPriceId) priceSeatTypes.set(subscription.coachAccountPriceId, 'coach');
+    if (subscription.viewOnlyPriceId) priceSeatTypes.set(subscription.viewOnlyPriceId, 'view_only');
+  });
+
+  const lastStatuses = new Map<string, string>();
+  const entries: SubscriptionTimelineEntry[] = [];
+
+  events
+    .map((event) => ({ event, at: getEventCreatedAt(event) }))
+    .filter(({ event, at }) => at && event.type?.startsWith('customer.subscription.') && event.data?.object)
+    .sort((a, b) => (a.at as Date).getTime() - (b.at as Date).getTime())
+    .forEach(({ event, at }) => {
+      const object = event.data?.object as Record<string, unknown>;
+      const previous = event.data?.previous_attributes || {};
+      const stripeId = typeof object.id === 'string' ? object.id : event.id;
+      const metadata = object.metadata as Record<string, unknown> | undefined;
+      const isCreated = event.type === 'customer.subscription.created';
+      const isDeleted = event.type === 'customer.subscription.deleted';
+      const base = {
+        at: at as Date,
+        subscriptionName: getSubscriptionName(subscriptionsByStripeId.get(stripeId), stripeId),
+        source: 'stripe' as const,
+        eventId: event.id,
+      };
+
+      const status = isDeleted ? 'canceled' : (object.status as string);
+      const previousStatus = isCreated ? null : (previous.status as string) || lastStatuses.get(stripeId) || null;
+      if (status && (isCreated || isDeleted || 'status' in previous) && previousStatus !== status) {
+        entries.push({
+          ...base,
+          id: `${event.id}:status`,
+          kind: 'status',
+          label: 'Status',
+          from: previousStatus ? getSubscriptionStatusLabel(previousStatus) : null,
+          to: getSubscriptionStatusLabel(status),
+        });
+      }
+      if (status) lastStatuses.set(stripeId, status);
+
+      if (!isCreated && !('items' in previous)) return;
+
+      const items = getStripeItems(object.items, metadata, priceSeatTypes);
+      const previousItems = isCreated ? [] : getStripeItems(previous.items, metadata, priceSeatTypes);
+      const seats = getItemSeats(items);
+      const previousSeats = getItemSeats(previousItems);
+      SEAT_TYPES.forEach((seatType) => {
+        if ((seats[seatType] || 0) === (previousSeats[seatType] || 0)) return;
+        entries.push({
+          ...base,
+          id: `${event.id}:seats:${seatType}`,
+          kind: 'seats',
+          label: `${SEAT_TYPE_LABELS[seatType]} seats`,
+          from: isCreated ? null : String(previousSeats[seatType] || 0),
+          to: String(seats[seatType] || 0),
+        });
+      });
+
+      const plan = getItemPlan(items);
+      const previousPlan = isCreated ? null : getItemPlan(previousItems);
+      if (plan && plan !== previousPlan) {
+        entries.push({ ...base, id: `${event.id}:plan`, kind: 'plan', label: 'Plan', from: previousPlan, to: plan });
+      }
+    });
+
+  return entries;
+}
+
+/**
+ * Format an admin-managed plan field from subscription_history for display
+ */
+function formatHistoryValue(field: string, value: SubscriptionFieldChange['from']): string | null {
+  if (value === null || value === undefined) return null;
+  if (field === 'status') return getSubscriptionStatusLabel(String(value));
+  if (field === 'adminPlanKind') return ADMIN_PLAN_KIND_LABELS[value as AdminPlanKind] || String(value);
+  if (field === 'currentPeriodStart' || field === 'currentPeriodEnd') return formatDate(value);
+  return String(value);
+}
+
+// subscription_history fields shown on the timeline, other than seats
+const HISTORY_FIELD_LABELS: Record<string, { kind: SubscriptionTimelineKind; label: string }> = {
+  status: { kind: 'status', label: 'Status' },
+  adminPlanKind: { kind: 'plan', label: 'Plan type' },
+  planName: { kind: 'plan', label: 'Plan name' },
+  currentPeriodStart: { kind: 'plan', label: 'Start date' },
+  currentPeriodEnd: { kind: 'plan', label: 'End date' },
+};
+
+/**
+ * Build timeline entries from subscription_history (changes to admin-managed plans)
+ */
+function getHistoryEntries(
+  history: SubscriptionHistoryEntry[],
+  subscriptions: TimelineSubscription[]
+): SubscriptionTimelineEntry[] {
+  const subscriptionsById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+  return history.flatMap((entry) => {
+    const at = toDate(entry.createdAt);
+    if (!at) return [];
+
+    const base = {
+      at,
+      subscriptionName: getSubscriptionName(subscriptionsById.get(entry.subscriptionId), entry.subscriptionId),
+      source: 'admin' as const,
+    };
+    const fields = [
+      ...Object.entries(HISTORY_FIELD_LABELS).map(([field, { kind, label }]) => ({ field, kind, label })),
+      ...SEAT_TYPES.map((seatType) => ({
+        field: SEAT_LIMIT_FIELDS[seatType],
+        kind: 'seats' as const,
+        label: `${SEAT_TYPE_LABELS[seatType]} seats`,
+      })),
+    ];
+
+    return fields.flatMap(({ field, kind, label }) => {
+      const change = entry.changes[field];
+      if (!change) return [];
+      return [
+        {
+          ...base,
+          id: `${entry.id}:${field}`,
+          kind,
+          label,
+          from: formatHistoryValue(field, change.from),
+          to: formatHistoryValue(field, change.to),
+        },
+      ];
+    });
+  });
+}
+
+/**
+ * Build timeline entries the subscriptions documents imply
+ * Admin-managed plans that ran to their end date are marked ended then, and subscriptions with nothing recorded
+ * (e.g. created before webhook events were kept) show their current status.
+ */
+function getRecordEntries(
+  subscriptions: TimelineSubscription[],
+  recordedIds: Set<string>,
+  now: number
+): SubscriptionTimelineEntry[] {
+  return subscriptions.flatMap((subscription) => {
+    const entries: SubscriptionTimelineEntry[] = [];
+    const subscriptionName = getSubscriptionName(subscription, subscription.stripeSubscriptionId || subscription.id);
+    const endsAt = toDate(subscription.currentPeriodEnd);
+
+    if (isAdminPlan(subscription) && subscription.status === 'active' && endsAt && endsAt.getTime() <= now) {
+      entries.push({
+        id: `${subscription.id}:ended`,
+        at: endsAt,
+        kind: 'status',
+        subscriptionName,
+        label: 'Status',
+        from: getSubscriptionStatusLabel('active'),
+        to: getSubscriptionStatusLabel('ended'),
+        source: 'record',
+      });
+    }
+
+    const recordedAt = toDate(subscription.updatedAt) || toDate(subscription.createdAt);
+    const isRecorded = recordedIds.has(subscription.id) || recordedIds.has(subscription.stripeSubscriptionId || '');
+    if (!isRecorded && recordedAt) {
+      entries.push({
+        id: `${subscription.id}:current`,
+        at: recordedAt,
+        kind: 'status',
+        subscriptionName,
+        label: 'Status',
+        from: null,
+        to: getSubscriptionStatusLabel(subscription.status),
+        source: 'record',
+      });
+    }
+
+    return entries;
+  });
+}
+
+/**
+ * Build a club's subscription timeline, newest first
+ */
+export function buildSubscriptionTimeline(
+  subscriptions: TimelineSubscription[],
+  events: StripeWebhookEvent[],
+  history: SubscriptionHistoryEntry[],
+  now: number = Date.now()
+): SubscriptionTimelineEntry[] {
+  const recordedIds = new Set([
+    ...events.flatMap((event) => {
+      const object = event.data?.object;
+      return event.type?.startsWith('customer.subscription.') && typeof object?.id === 'string' ? [object.id] : [];
+    }),
+    ...history.map((entry) => entry.subscriptionId),
+  ]);
+
+  return [
+    ...getStripeEntries(events, subscriptions),
+    ...getHistoryEntries(history, subscriptions),
+    ...getRecordEntries(subscriptions, recordedIds, now),
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * Get the webhook events about a club's subscriptions
+ * Only events the webhook stored with the club's clubId are read: firestore.rules lets club admins read those and
+ * nothing else.
+ */
+async function getClubSubscriptionEvents(clubId: string): Promise<StripeWebhookEvent[]> {
+  const snapshot = await getDocs(query(collection(db, 'stripe_webhook_events'), where('clubId', '==', clubId)));
+  return snapshot.docs.map((eventDoc) => ({ ...eventDoc.data(), id: eventDoc.id }) as StripeWebhookEvent);
+}
+
+/**
+ * Load a club's subscription timeline, newest first
+ */
+export async function getSubscriptionTimeline(clubId: string): Promise<SubscriptionTimelineEntry[]> {
+  const [subscriptionsSnapshot, historySnapshot] = await Promise.all([
+    getDocs(query(collection(db, 'subscriptions'), where('clubId', '==', clubId))),
+    getDocs(query(collection(db, 'subscription_history'), where('clubId', '==', clubId))),
+  ]);
+  const subscriptions = subscriptionsSnapshot.docs.map(
+    (subscriptionDoc) => ({ ...subscriptionDoc.data(), id: subscriptionDoc.id }) as TimelineSubscription
+  );
+  const history = historySnapshot.docs.map(
+    (entryDoc) => ({ ...entryDoc.data(), id: entryDoc.id }) as SubscriptionHistoryEntry
+  );
+  const events = await getClubSubscriptionEvents(clubId);
+
+  return buildSubscriptionTimeline(subscriptions, events, history);
+}
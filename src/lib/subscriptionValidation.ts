@@ -3,18 +3,27 @@
 
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from './firebase';
+import { getSeatLedger } from './seatLedger';
+import { getSubscriptionAccess, type SubscriptionAccess } from '@/config/subscriptionAccess';
+import { ROLE_CONFIG, type ClubRole } from '@/config/roles';
+import type { CheckoutSeatType } from '@/config/billing';
+import { getSeatLimits } from '@/config/seatLedger';
+import { isAdminPlan, isAdminPlanActive } from '@/config/adminPlans';
 
 interface Subscription {
   id: string;
   status: string;
   subscriptionType?: string;
   maxViewOnlyUsers?: number;
+  maxCoachAccounts?: number;
   [key: string]: unknown;
 }
 
 interface SubscriptionValidationResult {
   valid: boolean;
   reason?: string;
+  access?: SubscriptionAccess;
+  graceEndsAt?: Date | null;
   subscriptions?: Subscription[];
   maxViewOnlyUsers?: number | null;
   hasCoachAccount?: boolean;
@@ -24,10 +33,16 @@ interface SubscriptionValidationResult {
 /**
  * Check if a subscription is valid for login
  * Now supports multiple subscriptions per club (coach_account + view_only)
+ * Past-due clubs can still sign in: read-only during the grace period, then only to club/subscriptions
+ * (roles that can't see subscriptions are refused once the grace period is over).
  * @param {string} clubId - Club ID to check subscription for
+ * @param {string} role - Role of the user signing in
  * @returns {Promise<SubscriptionValidationResult>}
  */
-export async function validateSubscriptionForLogin(clubId: string | null | undefined): Promise<SubscriptionValidationResult> {
+export async function validateSubscriptionForLogin(
+  clubId: string | null | undefined,
+  role?: string | null
+): Promise<SubscriptionValidationResult> {
   if (!clubId) {
     return {
       valid: false,
@@ -41,69 +56,54 @@ export async function validateSubscriptionForLogin(clubId: string | null | undef
     const subscriptionsQuery = query(subscriptionsRef, where('clubId', '==', clubId));
     const subscriptionsSnapshot = await getDocs(subscriptionsQuery);
 
-    // If no subscriptions exist, deny access - subscription required
-    if (subscriptionsSnapshot.empty) {
-      return {
-        valid: false,
-        reason: 'No active subscription found. Please purchase a subscription to access the dashboard.',
-        subscriptions: [],
-        maxViewOnlyUsers: null,
-      };
-    }
-
     const subscriptions: Subscription[] = subscriptionsSnapshot.docs.map((doc) => ({
       id: doc.id,
       status: '',
       ...doc.data(),
     } as Subscription));
 
-    // Check if at least one subscription is active
-    const validStatuses = ['trialing', 'active'];
-    const activeSubscriptions = subscriptions.filter((sub) => validStatuses.includes(sub.status));
-
-    // Invalid subscription statuses
-    const invalidStatuses: Record<string, string> = {
-      canceled: 'Your subscription has been canceled. Please renew your subscription to continue using the admin dashboard.',
-      past_due: 'Your subscription payment is past due. Please update your payment method to continue using the admin dashboard.',
-      unpaid: 'Your subscription payment failed. Please update your payment method to continue using the admin dashboard.',
-      incomplete: 'Your subscription setup is incomplete. Please complete your subscription to continue using the admin dashboard.',
-      incomplete_expired: 'Your subscription setup has expired. Please create a new subscription to continue using the admin dashboard.',
-    };
-
-    // If at least one subscription is active, allow access
-    if (activeSubscriptions.length > 0) {
-      // Calculate combined limits
-      const viewOnlySubscription = activeSubscriptions.find((sub) => sub.subscriptionType === 'view_only');
-      const maxViewOnlyUsers = viewOnlySubscription?.maxViewOnlyUsers || null;
-      const hasCoachAccount = activeSubscriptions.some((sub) => sub.subscriptionType === 'coach_account');
+    const { access, reason, graceEndsAt } = getSubscriptionAccess(subscriptions);
 
+    // If no subscription can be recovered, deny access - subscription required
+    if (access === 'none') {
       return {
-        valid: true,
-        reason: undefined,
-        subscriptions: activeSubscriptions,
-        maxViewOnlyUsers,
-        hasCoachAccount,
+        valid: false,
+        reason,
+        access,
+        subscriptions,
       };
     }
 
-    // Check if all subscriptions are in invalid states
-    const allInvalid = subscriptions.every((sub) => invalidStatuses[sub.status]);
-    if (allInvalid && subscriptions.length > 0) {
-      const firstInvalid = subscriptions.find((sub) => invalidStatuses[sub.status]);
-      if (firstInvalid) {
-        return {
-          valid: false,
-          reason: invalidStatuses[firstInvalid.status],
-          subscriptions: subscriptions,
-        };
-      }
+    if (access === 'billing_only' && !ROLE_CONFIG[role as ClubRole]?.permissions.includes('subscription.view')) {
+      return {
+        valid: false,
+        reason: `${reason} Please ask your club admin to update the club's billing.`,
+        access,
+        subscriptions,
+      };
     }
 
-    // Unknown status - default to invalid for safety
+    // Calculate combined limits from the subscriptions still in use
+    const currentSubscriptions = subscriptions.filter((sub) =>
+      isAdminPlan(sub) ? isAdminPlanActive(sub) : ['trialing', 'active', 'past_due'].includes(sub.status)
+    );
+    const viewOnlySubscription = currentSubscriptions.find((sub) => sub.subscriptionType === 'view_only');
+    const adminPlanViewOnlyUsers = currentSubscriptions
+      .filter(isAdminPlan)
+      .reduce((total, sub) => total + (sub.maxViewOnlyUsers || 0), 0);
+    const maxViewOnlyUsers = (viewOnlySubscription?.maxViewOnlyUsers || 0) + adminPlanViewOnlyUsers || null;
+    const hasCoachAccount = currentSubscriptions.some(
+      (sub) => sub.subscriptionType === 'coach_account' || (isAdminPlan(sub) && !!sub.maxCoachAccounts)
+    );
+
     return {
-      valid: false,
-      reason: 'Your subscription status is not valid. Please contact support.',
-      subscriptions: subscriptions,
+      valid: true,
+      reason: access === 'full' ? undefined : reason,
+      access,
+      graceEndsAt,
+      subscriptions: currentSubscriptions,
+      maxViewOnlyUsers,
+      hasCoachAccount,
     };
   } catch (error: unknown) {
     console.error('Error checking subscription:', error);
@@ -132,188 +132,56 @@ export function shouldBypassSubscriptionCheck(email: string | null | undefined,
   return false;
 }
 
+interface ClubLimits {
+  maxCoachAccounts: number | null;
+  maxViewOnlyUsers: number | null;
+  maxTeamManagers: number | null;
+}
+
 /**
  * Get club subscription limits from sports_clubs document
  * @param {string} clubId - Club ID
- * @returns {Promise<{maxCoachAccounts: number | null, maxViewOnlyUsers: number | null}>}
+ * @returns {Promise<ClubLimits>}
  */
-export async function getClubLimits(clubId: string): Promise<{ maxCoachAccounts: number | null, maxViewOnlyUsers: number | null }> {
+export async function getClubLimits(clubId: string): Promise<ClubLimits> {
   try {
     const { doc, getDoc } = await import('firebase/firestore');
     const { db } = await import('./firebase');
 
     const clubDoc = await getDoc(doc(db, 'sports_clubs', clubId));
     if (!clubDoc.exists()) {
-      return { maxCoachAccounts: null, maxViewOnlyUsers: null };
+      return { maxCoachAccounts: null, maxViewOnlyUsers: null, maxTeamManagers: null };
     }
 
-    const clubData = clubDoc.data();
+    // Includes the seats of an admin-managed plan that applies now
+    const limits = getSeatLimits(clubDoc.data());
     return {
-      maxCoachAccounts: clubData.maxCoachAccounts || null,
-      maxViewOnlyUsers: clubData.maxViewOnlyUsers || null
+      maxCoachAccounts: limits.coach,
+      maxViewOnlyUsers: limits.view_only,
+      maxTeamManagers: limits.team_manager,
     };
   } catch (error) {
     console.error('Error fetching club limits:', error);
-    return { maxCoachAccounts: null, maxViewOnlyUsers: null };
-  }
-}
-
-/**
- * Get current count of coaches (coach OR club_admin_coach roles)
- * @param {string} clubId - Club ID
- * @returns {Promise<number>}
- */
-export async function getCurrentCoachCount(clubId: string): Promise<number> {
-  try {
-    const { collection, query, where, getDocs } = await import('firebase/firestore');
-    const { db } = await import('./firebase');
-
-    const usersQuery = query(
-      collection(db, 'users'),
-      where('clubId', '==', clubId)
-    );
-    const usersSnapshot = await getDocs(usersQuery);
-
-    let count = 0;
-    usersSnapshot.forEach((doc) => {
-      const userData = doc.data();
-      if (userData.role === 'coach' || userData.role === 'club_admin_coach') {
-        count++;
-      }
-    });
-
-    return count;
-  } catch (error) {
-    console.error('Error counting coaches:', error);
-    return 0;
-  }
-}
-
-/**
- * Get count of pending coach invites (active, unused referral codes for coach roles)
- * @param {string} clubId - Club ID
- * @returns {Promise<number>}
- */
-export async function getPendingCoachInvites(clubId: string): Promise<number> {
-  try {
-    const { collection, query, where, getDocs } = await import('firebase/firestore');
-    const { db } = await import('./firebase');
-
-    // Query active referral codes for this club with coach roles
-    const codesQuery = query(
-      collection(db, 'referral_codes'),
-      where('clubId', '==', clubId),
-      where('active', '==', true)
-    );
-    const codesSnapshot = await getDocs(codesQuery);
-
-    let count = 0;
-    const now = new Date();
-    codesSnapshot.forEach((doc) => {
-      const codeData = doc.data();
-      // Only count codes for coach roles that haven't been fully used
-      const isCoachRole = codeData.intendedRole === 'coach' || codeData.intendedRole === 'club_admin_coach';
-      const usesRemaining = (codeData.maxUses || 1) - (codeData.usesCount || 0);
-      const isExpired = codeData.expiresAt && codeData.expiresAt.toDate() < now;
-
-      if (isCoachRole && usesRemaining > 0 && !isExpired) {
-        count += usesRemaining;
-      }
-    });
-
-    return count;
-  } catch (error) {
-    console.error('Error counting pending coach invites:', error);
-    return 0;
-  }
-}
-
-/**
- * Get current count of view-only users
- * @param {string} clubId - Club ID
- * @returns {Promise<number>}
- */
-export async function getCurrentViewOnlyCount(clubId: string): Promise<number> {
-  try {
-    const { collection, query, where, getDocs } = await import('firebase/firestore');
-    const { db } = await import('./firebase');
-
-    const usersQuery = query(
-      collection(db, 'users'),
-      where('clubId', '==', clubId)
-    );
-    const usersSnapshot = await getDocs(usersQuery);
-
-    let count = 0;
-    usersSnapshot.forEach((doc) => {
-      const userData = doc.data();
-      if (userData.role === 'view_only') {
-        count++;
-      }
-    });
-
-    return count;
-  } catch (error) {
-    console.error('Error counting view-only users:', error);
-    return 0;
-  }
-}
-
-/**
- * Get count of pending view-only invites (active, unused referral codes for view_only role)
- * @param {string} clubId - Club ID
- * @returns {Promise<number>}
- */
-export async function getPendingViewOnlyInvites(clubId: string): Promise<number> {
-  try {
-    const { collection, query, where, getDocs } = await import('firebase/firestore');
-    const { db } = await import('./firebase');
-
-    // Query active referral codes for this club with view_only role
-    const codesQuery = query(
-      collection(db, 'referral_codes'),
-      where('clubId', '==', clubId),
-      where('active', '==', true)
-    );
-    const codesSnapshot = await getDocs(codesQuery);
-
-    let count = 0;
-    const now = new Date();
-    codesSnapshot.forEach((doc) => {
-      const codeData = doc.data();
-      // Only count codes for view_only role that haven't been fully used
-      const isViewOnlyRole = codeData.intendedRole === 'view_only';
-      const usesRemaining = (codeData.maxUses || 1) - (codeData.usesCount || 0);
-      const isExpired = codeData.expiresAt && codeData.expiresAt.toDate() < now;
-
-      if (isViewOnlyRole && usesRemaining > 0 && !isExpired) {
-        count += usesRemaining;
-      }
-    });
-
-    return count;
-  } catch (error) {
-    console.error('Error counting pending view-only invites:', error);
-    return 0;
+    return { maxCoachAccounts: null, maxViewOnlyUsers: null, maxTeamManagers: null };
   }
 }
 
 /**
  * Validate if adding a user with a specific role would exceed subscription limits
- * Includes both signed-up users AND pending invites (unused referral codes)
+ * Includes both signed-up users AND pending invites (unused referral codes), read from the club's seat ledger
  * @param {string} clubId - Club ID
- * @param {string} role - Role to be assigned ('coach', 'club_admin_coach', or 'view_only')
+ * @param {string} role - Role to be assigned ('coach', 'club_admin_coach', 'team_manager' or 'view_only')
  * @param {number} additionalCount - Number of additional users being added (default: 1)
- * @returns {Promise<{valid: boolean, reason?: string}>}
+ * @returns {Promise<{valid: boolean, reason?: string, upgradeSeatType?: CheckoutSeatType}>} - upgradeSeatType is set when buying more seats would fix it
  */
 export async function validateUserLimit(
   clubId: string,
   role: string,
   additionalCount: number = 1
-): Promise<{ valid: boolean, reason?: string }> {
+): Promise<{ valid: boolean, reason?: string, upgradeSeatType?: CheckoutSeatType }> {
   try {
-    // Get club limits
-    const limits = await getClubLimits(clubId);
+    // Get club limits and seat usage
+    const [limits, { seats }] = await Promise.all([getClubLimits(clubId), getSeatLedger(clubId)]);
 
     // Validate coach account limit
     if (role === 'coach' || role === 'club_admin_coach') {
@@ -321,12 +189,12 @@ export async function validateUserLimit(
         // No coach subscription - cannot add coaches
         return {
           valid: false,
-          reason: 'No coach account subscription found. Please purchase a coach account subscription to add coaches.'
+          reason: 'No coach account subscription found. Please purchase a coach account subscription to add coaches.',
+          upgradeSeatType: 'coach',
         };
       }
 
-      const currentCount = await getCurrentCoachCount(clubId);
-      const pendingInvites = await getPendingCoachInvites(clubId);
+      const { used: currentCount, pending: pendingInvites } = seats.coach;
       const totalCommitted = currentCount + pendingInvites;
       const newTotal = totalCommitted + additionalCount;
 
@@ -335,12 +203,14 @@ export async function validateUserLimit(
         if (pendingInvites > 0) {
           return {
             valid: false,
-            reason: `Cannot add ${additionalCount} coach account(s). You have ${currentCount} coach(es) signed up and ${pendingInvites} pending invite(s) (${totalCommitted} of ${limits.maxCoachAccounts} slots committed). Delete unused referral codes or upgrade your subscription.`
+            reason: `Cannot add ${additionalCount} coach account(s). You have ${currentCount} coach(es) signed up and ${pendingInvites} pending invite(s) (${totalCommitted} of ${limits.maxCoachAccounts} slots committed). Delete unused referral codes or upgrade your subscription.`,
+            upgradeSeatType: 'coach',
           };
         }
         return {
           valid: false,
-          reason: `Cannot add ${additionalCount} coach account(s). You have ${currentCount} of ${limits.maxCoachAccounts} coach accounts used. Please upgrade your subscription to add more coaches.`
+          reason: `Cannot add ${additionalCount} coach account(s). You have ${currentCount} of ${limits.maxCoachAccounts} coach accounts used. Please upgrade your subscription to add more coaches.`,
+          upgradeSeatType: 'coach',
         };
       }
     }
@@ -351,12 +221,12 @@ export async function validateUserLimit(
         // No view-only subscription - cannot add view-only users
         return {
           valid: false,
-          reason: 'No view-only subscription found. Please purchase a view-only subscription to add view-only users.'
+          reason: 'No view-only subscription found. Please purchase a view-only subscription to add view-only users.',
+          upgradeSeatType: 'view_only',
         };
       }
 
-      const currentCount = await getCurrentViewOnlyCount(clubId);
-      const pendingInvites = await getPendingViewOnlyInvites(clubId);
+      const { used: currentCount, pending: pendingInvites } = seats.view_only;
       const totalCommitted = currentCount + pendingInvites;
       const newTotal = totalCommitted + additionalCount;
 
@@ -365,12 +235,40 @@ export async function validateUserLimit(
         if (pendingInvites > 0) {
           return {
             valid: false,
-            reason: `Cannot add ${additionalCount} view-only user(s). You have ${currentCount} user(s) signed up and ${pendingInvites} pending invite(s) (${totalCommitted} of ${limits.maxViewOnlyUsers} slots committed). Delete unused referral codes or upgrade your subscription.`
+            reason: `Cannot add ${additionalCount} view-only user(s). You have ${currentCount} user(s) signed up and ${pendingInvites} pending invite(s) (${totalCommitted} of ${limits.maxViewOnlyUsers} slots committed). Delete unused referral codes or upgrade your subscription.`,
+            upgradeSeatType: 'view_only',
+          };
+        }
+        return {
+          valid: false,
+          reason: `Cannot add ${additionalCount} view-only user(s). You have ${currentCount} of ${limits.maxViewOnlyUsers} view-only slots used. Please upgrade your subscription to add more view-only users.`,
+          upgradeSeatType: 'view_only',
+        };
+      }
+    }
+
+    // Validate team manager limit
+    if (role === 'team_manager') {
+      if (limits.maxTeamManagers === null) {
+        return {
+          valid: false,
+          reason: 'Your plan has no team manager seats. Please contact support to add team manager seats.'
+        };
+      }
+
+      const { used: currentCount, pending: pendingInvites } = seats.team_manager;
+      const totalCommitted = currentCount + pendingInvites;
+
+      if (totalCommitted + additionalCount > limits.maxTeamManagers) {
+        if (pendingInvites > 0) {
+          return {
+            valid: false,
+            reason: `Cannot add ${additionalCount} team manager(s). You have ${currentCount} team manager(s) signed up and ${pendingInvites} pending invite(s) (${totalCommitted} of ${limits.maxTeamManagers} seats committed). Delete unused referral codes or add more seats.`
           };
         }
         return {
           valid: false,
-          reason: `Cannot add ${additionalCount} view-only user(s). You have ${currentCount} of ${limits.maxViewOnlyUsers} view-only slots used. Please upgrade your subscription to add more view-only users.`
+          reason: `Cannot add ${additionalCount} team manager(s). You have ${currentCount} of ${limits.maxTeamManagers} team manager seats used.`
         };
       }
     }
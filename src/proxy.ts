@@ -1,17 +1,59 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  SESSION_COOKIE_NAME,
+  IMPERSONATION_COOKIE_NAME,
+  DASHBOARD_ROLES,
+  verifySession,
+  getHomePathForRole,
+  isTeamManagerPath,
+  getClubSubscriptionAccess,
+} from '@/lib/sessionCookie';
+import { BILLING_READ_ONLY_MESSAGE, isBillingApiPath, isBillingPath } from '@/config/subscriptionAccess';
+import { can } from '@/config/permissions';
+
+// API routes a super admin can still call with a write method while viewing as a club admin: stopping it,
+// signing out, refreshing their own claims and reporting activity
+const VIEW_AS_WRITE_PATHS = ['/api/auth/impersonation', '/api/auth/session', '/api/auth/claims', '/api/auth/activity'];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
 
 /**
  * Proxy for route protection
- * 
- * Note: Firebase Auth doesn't work in Edge runtime, so we do basic route protection here
- * and rely on client-side auth checks in layout components for actual authentication.
+ *
+ * Dashboard routes require a valid session cookie (minted by /api/auth/session after
+ * a client-side Firebase sign-in). The cookie is verified with the Admin SDK and the
+ * user is redirected by role before any dashboard page is rendered.
  */
-export function proxy(request: NextRequest) {
+export async function proxy(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  // API routes check their own session; here they only refuse writes while viewing as another user, and club
+  // writes while the club's subscription is read-only or billing-only
+  if (pathname.startsWith('/api/')) {
+    const isWrite = !READ_METHODS.includes(request.method);
+    const isViewingAs = !!request.cookies.get(IMPERSONATION_COOKIE_NAME)?.value;
+    if (isViewingAs && isWrite && !VIEW_AS_WRITE_PATHS.includes(pathname)) {
+      return NextResponse.json(
+        { error: 'You are viewing as another user. Changes are disabled in this mode.' },
+        { status: 403 }
+      );
+    }
+
+    if (isWrite && pathname.startsWith('/api/club/') && !isBillingApiPath(pathname)) {
+      const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+      if (session && session.role !== 'super_admin' && session.clubId) {
+        const access = await getClubSubscriptionAccess(session.clubId);
+        if (access === 'read_only' || access === 'billing_only') {
+          return NextResponse.json({ error: BILLING_READ_ONLY_MESSAGE }, { status: 403 });
+        }
+      }
+    }
+    return NextResponse.next();
+  }
+
   // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/signup'];
+  const publicRoutes = ['/login', '/signup', '/reset-password', '/auth/action'];
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
 
   // If accessing a public route, allow it
@@ -19,9 +61,53 @@ export function proxy(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Dashboard routes - allow through (client-side auth check in layout will handle redirect)
-  // This proxy mainly serves to prevent direct access patterns
-  if (pathname.startsWith('/onboarding') || pathname.startsWith('/club') || pathname.startsWith('/admin')) {
+  // Dashboard routes - require a verified session
+  const isAdminRoute = pathname.startsWith('/admin');
+  const isClubRoute = pathname.startsWith('/club') || pathname.startsWith('/onboarding');
+  const isAccountRoute = pathname.startsWith('/account');
+
+  if (isAdminRoute || isClubRoute || isAccountRoute) {
+    const session = await verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+    if (!session || !DASHBOARD_ROLES.includes(session.role || '')) {
+      const response = NextResponse.redirect(new URL('/login', request.url));
+      response.cookies.delete(SESSION_COOKIE_NAME);
+      return response;
+    }
+
+    // Club admins must set up two-factor authentication if their club requires it
+    if (session.mfaRequired && !session.secondFactor && !isAccountRoute) {
+      return NextResponse.redirect(new URL('/account?mfa=required', request.url));
+    }
+
+    // Super admins only use /admin (and /club while viewing as a club admin),
+    // club roles only use /club and /onboarding
+    const isSuperAdmin = session.role === 'super_admin';
+    const isViewingAs = isSuperAdmin && !!request.cookies.get(IMPERSONATION_COOKIE_NAME)?.value;
+    const canViewClubRoute = isViewingAs && pathname.startsWith('/club');
+    if ((isSuperAdmin && isClubRoute && !canViewClubRoute) || (!isSuperAdmin && isAdminRoute)) {
+      return NextResponse.redirect(new URL(getHomePathForRole(session.role), request.url));
+    }
+
+    // Team managers only use their own teams' pages
+    if (session.role === 'team_manager' && isClubRoute && !isTeamManagerPath(pathname)) {
+      return NextResponse.redirect(new URL(getHomePathForRole(session.role), request.url));
+    }
+
+    // Past-due clubs are read-only during the grace period (enforced by the dashboard and for club API writes
+    // above); after it, admins can only reach club/subscriptions to fix billing
+    if (!isSuperAdmin && session.clubId && !isBillingPath(pathname)) {
+      const access = await getClubSubscriptionAccess(session.clubId);
+      if (access === 'billing_only') {
+        const canFixBilling = can({ id: session.uid, role: session.role, clubId: session.clubId }, 'subscription.view');
+        const response = NextResponse.redirect(new URL(canFixBilling ? '/club/subscriptions' : '/login', request.url));
+        if (!canFixBilling) {
+          response.cookies.delete(SESSION_COOKIE_NAME);
+        }
+        return response;
+      }
+    }
+
     return NextResponse.next();
   }
 
@@ -38,13 +124,11 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public files (public folder)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 };
-
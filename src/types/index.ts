@@ -1,5 +1,7 @@
 // TypeScript type definitions
 import type { Timestamp } from 'firebase/firestore';
+import type { SeatCounts, SeatDrift } from '@/config/seatLedger';
+import type { AdminPlanKind, ClubAdminPlan } from '@/config/adminPlans';
 
 export type FirestoreTimestamp = Timestamp | Date | string | number | null | undefined;
 
@@ -11,12 +13,32 @@ export interface User {
   displayName?: string;
   clubId?: string;
   teamId?: string;
-  role: 'super_admin' | 'club_admin' | 'club_admin_coach' | 'coach' | 'view_only';
+  role: 'super_admin' | 'club_admin' | 'club_admin_coach' | 'team_manager' | 'coach' | 'view_only';
+  managedTeamIds?: string[]; // Teams a team_manager can edit (see config/permissions getManagedTeamIds)
+  suspended?: boolean; // Suspended in the active club (see ClubMembership)
+  // Every club the user belongs to, keyed by club ID (see config/memberships); clubId above is the active club
+  memberships?: Record<string, ClubMembership>;
+  memberClubIds?: string[]; // Keys of memberships, for queries
+  // Temporary club_admin access (see AdminGrant); removed when the grant ends
+  adminGrant?: { grantId: string; clubId: string; expiresAt: FirestoreTimestamp };
   referralCode?: string;
+  lastLoginAt?: FirestoreTimestamp; // Last dashboard sign-in (see lib/loginActivity)
   createdAt?: FirestoreTimestamp;
   updatedAt?: FirestoreTimestamp;
 }
 
+export interface ClubMembership {
+  clubId: string;
+  clubName?: string;
+  role: 'club_admin' | 'club_admin_coach' | 'team_manager' | 'coach' | 'view_only';
+  teamId?: string | null;
+  managedTeamIds?: string[];
+  // Set by a club admin when the club is over its seat limits: the member keeps their role but takes no seat
+  // and loses access to the club until reinstated (POST /api/club/members/suspension)
+  suspended?: boolean;
+  joinedAt?: FirestoreTimestamp;
+}
+
 export interface Club {
   id: string;
   name: string;
@@ -26,9 +48,12 @@ export interface Club {
   memberIds?: string[];
   maxCoachAccounts?: number | null;
   maxViewOnlyUsers?: number | null;
+  maxTeamManagers?: number | null; // Team manager seats (set by super admins)
   maxUses?: number;
   usedCount?: number;
   status?: string;
+  requireAdminMfa?: boolean; // Club admins must use two-factor authentication (set by super admins)
+  adminPlan?: ClubAdminPlan | null; // Seats of the club's admin-managed plan (see AdminPlan)
   createdAt?: FirestoreTimestamp;
   updatedAt?: FirestoreTimestamp;
 }
@@ -48,6 +73,8 @@ export interface Team {
     assignedAt?: FirestoreTimestamp;
     assignedBy?: string;
   }>;
+  // User IDs in coaches, kept in sync for isTeamCoach in firestore.rules
+  coachIds?: string[];
   members: string[];
   createdAt?: FirestoreTimestamp;
   updatedAt?: FirestoreTimestamp;
@@ -72,3 +99,132 @@ export interface ReferralCode {
   expiresAt?: FirestoreTimestamp;
 }
 
+
+export interface AccountDeletion {
+  id: string; // Same as the user's uid (older clients use generated IDs)
+  userId: string;
+  email: string;
+  userName?: string | null;
+  role?: string | null;
+  clubId?: string | null;
+  reason?: string | null;
+  status: 'pending' | 'cancelled' | 'completed';
+  requestedAt?: FirestoreTimestamp;
+  scheduledFor?: FirestoreTimestamp; // End of the cool-off period; super admins can execute after this
+  cancelledAt?: FirestoreTimestamp;
+  completedAt?: FirestoreTimestamp;
+  completedBy?: string | null;
+  contentAction?: 'purge' | 'reassign' | null; // What happened to the user's drills, sessions and notes
+  reassignedTo?: string | null;
+}
+
+// One entry per role change, written by the server (POST /api/club/members/role)
+export interface RoleAuditLogEntry {
+  id: string;
+  clubId: string;
+  userId: string;
+  userName?: string | null;
+  email?: string | null;
+  oldRole: string | null;
+  newRole: string;
+  changedBy: string;
+  changedByName?: string | null;
+  createdAt?: FirestoreTimestamp;
+}
+
+// Temporary club_admin access given by a club admin, revoked at expiresAt (see lib/adminGrantRevocation)
+export interface AdminGrant {
+  id: string;
+  clubId: string;
+  userId: string;
+  userName?: string | null;
+  email?: string | null;
+  memberRole: ClubMembership['role']; // The member's own role, which the grant leaves unchanged
+  status: 'active' | 'revoked' | 'expired';
+  expiresAt: FirestoreTimestamp;
+  grantedBy: string;
+  grantedByName?: string | null;
+  createdAt?: FirestoreTimestamp;
+  endedAt?: FirestoreTimestamp;
+  endedBy?: string | null; // Null when the grant expired
+}
+
+// Per-club seat counts kept in seat_ledgers/{clubId} (see config/seatLedger and lib/seatLedgerSync)
+export interface SeatLedger {
+  clubId: string;
+  seats: SeatCounts;
+  updatedAt?: FirestoreTimestamp;
+  lastReconciliation?: {
+    at: FirestoreTimestamp;
+    drift: SeatDrift; // Empty when the ledger matched the recount
+  } | null;
+}
+
+export interface OidcProvider {
+  id: string; // Firebase Authentication provider ID, e.g. 'oidc.county-board' (also the document ID)
+  displayName: string;
+  buttonColor?: string;
+  buttonTextColor?: string;
+  logoUrl?: string | null;
+  allowedEmailDomains: string[]; // Empty allows any email domain
+  enabled: boolean;
+  createdAt?: FirestoreTimestamp;
+  updatedAt?: FirestoreTimestamp;
+}
+
+// stripe_webhook_events/{eventId}: a Stripe event as the webhook received it, plus how processing went
+// (see lib/stripeWebhookEvents). Written by the webhook only.
+export interface StripeWebhookEvent {
+  id: string; // Stripe event ID (also the document ID)
+  type?: string; // e.g. 'customer.subscription.updated'
+  created?: number; // Unix seconds, set by Stripe
+  livemode?: boolean;
+  data?: {
+    object?: Record<string, unknown>;
+    previous_attributes?: Record<string, unknown>;
+  };
+  clubId?: string | null; // Club admins can read events with their club's ID
+  processed?: boolean;
+  status?: string; // e.g. 'processed' or 'failed', when the webhook records it
+  error?: string | null;
+  receivedAt?: FirestoreTimestamp;
+  processedAt?: FirestoreTimestamp;
+}
+
+// subscriptions/{subscriptionId} with source 'admin': a complimentary or manually invoiced plan a super admin
+// created instead of a Stripe subscription (see config/adminPlans). Ending a plan early sets status 'canceled'.
+export interface AdminPlan {
+  id: string;
+  clubId: string;
+  source: 'admin';
+  subscriptionType: 'admin_plan';
+  adminPlanKind: AdminPlanKind;
+  planName: string;
+  status: 'active' | 'canceled';
+  maxCoachAccounts: number | null;
+  maxViewOnlyUsers: number | null;
+  currentPeriodStart: FirestoreTimestamp; // Plan start
+  currentPeriodEnd: FirestoreTimestamp; // Plan end
+  note?: string;
+  createdBy?: string;
+  createdAt?: FirestoreTimestamp;
+  updatedAt?: FirestoreTimestamp;
+  canceledAt?: FirestoreTimestamp;
+}
+
+// A field's value before and after a subscription change (null when the subscription was created)
+export interface SubscriptionFieldChange {
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// subscription_history/{entryId}: a change to a subscription made in the dashboard, i.e. to an admin-managed plan
+// (Stripe subscription changes are read from stripe_webhook_events). Written with the change by super admins.
+export interface SubscriptionHistoryEntry {
+  id: string;
+  clubId: string;
+  subscriptionId: string; // subscriptions document ID
+  changes: Partial<Record<string, SubscriptionFieldChange>>; // Keyed by subscriptions field, e.g. 'status'
+  changedBy: string | null;
+  createdAt?: FirestoreTimestamp;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, toCsv } from './csv';
+
+describe('escapeCsvValue', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(escapeCsvValue('Smith, Jo')).toBe('"Smith, Jo"');
+    expect(escapeCsvValue('The "A" Team')).toBe('"The ""A"" Team"');
+    expect(escapeCsvValue('line 1\nline 2')).toBe('"line 1\nline 2"');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+
+  it.each(['=HYPERLINK("http://example.com")', '+1+1', '-2+3', '@SUM(A1)', '\t=1'])(
+    'prefixes %j so spreadsheets show it as text',
+    (value) => {
+      expect(escapeCsvValue(value).replace(/^"/, '').startsWith("'")).toBe(true);
+    }
+  );
+
+  it('quotes formula text that also needs quoting after prefixing it', () => {
+    expect(escapeCsvValue('=1,2')).toBe('"\'=1,2"');
+  });
+
+  it('leaves numbers, including negative ones, unprefixed', () => {
+    expect(escapeCsvValue(-12.5)).toBe('-12.5');
+    expect(toCsv(['Amount'], [[-3]])).toBe('Amount\r\n-3');
+  });
+});
@@ -0,0 +1,37 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it contains a comma, quote or line break
+ * Text that a spreadsheet would treat as a formula (e.g. a member named "=HYPERLINK(...)") is prefixed with '
+ * first; numbers are left as they are so negative amounts stay numeric.
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Download CSV text as a file
+ */
+export function downloadCsv(fileName: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
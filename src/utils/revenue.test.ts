@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getMonthlyAmount,
+  getMonthlyRevenue,
+  getMrr,
+  getSubscriptionAmount,
+  getTrialConversion,
+  getTrialMrr,
+  getUpcomingCancellations,
+  getUpcomingRenewals,
+  hasConverted,
+  type RevenueSubscription,
+} from './revenue';
+
+// Local dates, since months are bucketed in local time
+const NOW = new Date(2026, 5, 15).getTime();
+const date = (month: number, day: number, year: number = 2026) => new Date(year, month, day);
+
+// An admin-managed plan: active, but billed outside Stripe so it has no price
+const adminPlan: RevenueSubscription = {
+  id: 'admin',
+  status: 'active',
+  createdAt: date(4, 1),
+  currentPeriodStart: date(4, 1),
+  currentPeriodEnd: date(6, 1),
+};
+
+describe('getSubscriptionAmount', () => {
+  it('adds up the line item prices', () => {
+    expect(getSubscriptionAmount({ id: 's', price: 99, coachAccountPrice: 30, viewOnlyPrice: 5 })).toBe(35);
+    expect(getSubscriptionAmount({ id: 's', price: 99, viewOnlyPrice: 5 })).toBe(5);
+  });
+
+  it('falls back to the total price, and to nothing without one', () => {
+    expect(getSubscriptionAmount({ id: 's', price: 40 })).toBe(40);
+    expect(getSubscriptionAmount(adminPlan)).toBe(0);
+  });
+});
+
+describe('getMonthlyAmount', () => {
+  it('counts annual plans as a twelfth of their price', () => {
+    expect(getMonthlyAmount({ id: 's', planType: 'annual', price: 120 })).toBe(10);
+    expect(getMonthlyAmount({ id: 's', planType: 'monthly', price: 120 })).toBe(120);
+  });
+});
+
+describe('getMrr', () => {
+  it('counts active and past due subscriptions only', () => {
+    const subscriptions: RevenueSubscription[] = [
+      { id: 'active', status: 'active', price: 50 },
+      { id: 'past-due', status: 'past_due', price: 20 },
+      { id: 'trial', status: 'trialing', price: 100 },
+      { id: 'canceled', status: 'canceled', price: 100 },
+      { id: 'unpaid', status: 'unpaid', price: 100 },
+    ];
+    expect(getMrr(subscriptions)).toBe(70);
+    expect(getTrialMrr(subscriptions)).toBe(100);
+  });
+
+  it('adds nothing for admin-managed plans', () => {
+    expect(getMrr([adminPlan, { id: 'active', status: 'active', price: 50 }])).toBe(50);
+  });
+});
+
+describe('hasConverted', () => {
+  it('treats billed subscriptions as converted and running trials as not', () => {
+    expect(hasConverted({ id: 's', status: 'active' }, NOW)).toBe(true);
+    expect(hasConverted({ id: 's', status: 'unpaid' }, NOW)).toBe(true);
+    expect(hasConverted({ id: 's', status: 'trialing', trialEndDate: date(6, 1) }, NOW)).toBe(false);
+  });
+
+  it('counts a cancellation as converted only after the trial ended', () => {
+    const trialEndDate = date(4, 15);
+    expect(hasConverted({ id: 's', status: 'canceled', trialEndDate, canceledAt: date(4, 10) }, NOW)).toBe(false);
+    expect(hasConverted({ id: 's', status: 'canceled', trialEndDate, canceledAt: date(4, 20) }, NOW)).toBe(true);
+    expect(hasConverted({ id: 's', status: 'canceled', trialEndDate: date(6, 1), canceledAt: date(5, 1) }, NOW)).toBe(
+      false
+    );
+  });
+});
+
+describe('getTrialConversion', () => {
+  it('divides converted trials by ended trials', () => {
+    const conversion = getTrialConversion(
+      [
+        { id: 'running', status: 'trialing', trialEnabled: true, trialEndDate: date(6, 1) },
+        { id: 'paid', status: 'active', trialEnabled: true, trialEndDate: date(3, 1) },
+        { id: 'dropped', status: 'canceled', trialEnabled: true, trialEndDate: date(3, 1), canceledAt: date(2, 20) },
+        { id: 'no-trial', status: 'active', createdAt: date(1, 1) },
+      ],
+      NOW
+    );
+    expect(conversion).toEqual({ trialsStarted: 3, trialsEnded: 2, trialsConverted: 1, conversionRate: 0.5 });
+  });
+
+  it('has no rate before any trial has ended', () => {
+    expect(getTrialConversion([{ id: 's', status: 'trialing', trialEnabled: true }], NOW).conversionRate).toBeNull();
+    expect(getTrialConversion([], NOW)).toEqual({
+      trialsStarted: 0,
+      trialsEnded: 0,
+      trialsConverted: 0,
+      conversionRate: null,
+    });
+  });
+});
+
+describe('getMonthlyRevenue', () => {
+  const byMonth = (subscriptions: RevenueSubscription[]) =>
+    Object.fromEntries(getMonthlyRevenue(subscriptions, NOW, 6).map((entry) => [entry.month, entry]));
+
+  it('returns the requested months, oldest first', () => {
+    expect(getMonthlyRevenue([], NOW, 3).map((entry) => entry.month)).toEqual(['2026-04', '2026-05', '2026-06']);
+  });
+
+  it('counts new MRR when the trial ends and churn when a paying subscription is canceled', () => {
+    const months = byMonth([
+      {
+        id: 's',
+        status: 'canceled',
+        price: 30,
+        trialEnabled: true,
+        createdAt: date(1, 20),
+        trialEndDate: date(2, 3),
+        canceledAt: date(4, 9),
+      },
+    ]);
+    expect(months['2026-02'].newMrr).toBe(0);
+    expect(months['2026-03']).toMatchObject({ newMrr: 30, newSubscriptions: 1, trialsEnded: 1, trialsConverted: 1 });
+    expect(months['2026-05']).toMatchObject({ churnedMrr: 30, churnedSubscriptions: 1, netNewMrr: -30 });
+  });
+
+  it('counts a trial canceled before it ended as neither new nor churned revenue', () => {
+    const months = byMonth([
+      { id: 's', status: 'canceled', price: 30, trialEndDate: date(3, 10), canceledAt: date(3, 5) },
+    ]);
+    expect(months['2026-04']).toMatchObject({
+      newMrr: 0,
+      newSubscriptions: 0,
+      churnedMrr: 0,
+      churnedSubscriptions: 0,
+      trialsEnded: 1,
+      trialsConverted: 0,
+    });
+  });
+
+  it('leaves running trials out until they end', () => {
+    const months = byMonth([{ id: 's', status: 'trialing', price: 30, trialEndDate: date(6, 1) }]);
+    expect(Object.values(months).every((entry) => entry.newMrr === 0 && entry.trialsEnded === 0)).toBe(true);
+  });
+
+  it('counts annual plans monthly and admin-managed plans as new subscriptions without revenue', () => {
+    const months = byMonth([
+      adminPlan,
+      { id: 'annual', status: 'active', planType: 'annual', price: 240, createdAt: date(4, 2) },
+    ]);
+    expect(months['2026-05']).toMatchObject({ newMrr: 20, newSubscriptions: 2, netNewMrr: 20 });
+  });
+});
+
+describe('getUpcomingRenewals', () => {
+  it('lists billed and trialing subscriptions renewing in the window, soonest first', () => {
+    const renewals = getUpcomingRenewals(
+      [
+        { id: 'later', status: 'active', currentPeriodEnd: date(6, 10) },
+        { id: 'trial', status: 'trialing', currentPeriodEnd: date(5, 20) },
+        { id: 'too-late', status: 'active', currentPeriodEnd: date(7, 20) },
+        { id: 'ending', status: 'active', cancelAtPeriodEnd: true, currentPeriodEnd: date(5, 25) },
+        { id: 'canceled', status: 'canceled', currentPeriodEnd: date(5, 25) },
+      ],
+      NOW
+    );
+    expect(renewals.map((subscription) => subscription.id)).toEqual(['trial', 'later']);
+  });
+});
+
+describe('getUpcomingCancellations', () => {
+  it('lists subscriptions canceling at period end that have not ended yet', () => {
+    const cancellations = getUpcomingCancellations(
+      [
+        { id: 'later', status: 'active', cancelAtPeriodEnd: true, currentPeriodEnd: date(7, 1) },
+        { id: 'sooner', status: 'trialing', cancelAtPeriodEnd: true, currentPeriodEnd: date(5, 30) },
+        { id: 'past', status: 'active', cancelAtPeriodEnd: true, currentPeriodEnd: date(4, 1) },
+        { id: 'done', status: 'canceled', cancelAtPeriodEnd: true, currentPeriodEnd: date(7, 1) },
+        { id: 'renewing', status: 'active', currentPeriodEnd: date(5, 30) },
+      ],
+      NOW
+    );
+    expect(cancellations.map((subscription) => subscription.id)).toEqual(['sooner', 'later']);
+  });
+});
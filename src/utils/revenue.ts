@@ -0,0 +1,231 @@
+import { toDate } from './dateHelpers';
+
+/**
+ * Subscription fields used for revenue reporting (from the subscriptions collection)
+ * Prices are per billing period: a year for annual plans, a month otherwise.
+ */
+export interface RevenueSubscription {
+  id: string;
+  clubId?: string;
+  clubName?: string;
+  status?: string;
+  planType?: string;
+  price?: number;
+  coachAccountPrice?: number;
+  viewOnlyPrice?: number;
+  trialEnabled?: boolean;
+  trialStartDate?: unknown;
+  trialEndDate?: unknown;
+  currentPeriodStart?: unknown;
+  currentPeriodEnd?: unknown;
+  cancelAtPeriodEnd?: boolean;
+  canceledAt?: unknown;
+  createdAt?: unknown;
+}
+
+export interface MonthlyRevenue {
+  month: string; // YYYY-MM
+  newMrr: number;
+  churnedMrr: number;
+  netNewMrr: number;
+  newSubscriptions: number;
+  churnedSubscriptions: number;
+  trialsEnded: number;
+  trialsConverted: number;
+}
+
+export interface TrialConversion {
+  trialsStarted: number;
+  trialsEnded: number;
+  trialsConverted: number;
+  conversionRate: number | null; // Converted / ended, null before any trial has ended
+}
+
+// Statuses counted in MRR (a past_due payment is still being retried, so it counts until Stripe gives up)
+const PAYING_STATUSES = ['active', 'past_due'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the amount billed each period: the line item prices, or the total price for older single-product documents
+ */
+export function getSubscriptionAmount(subscription: RevenueSubscription): number {
+  if (subscription.coachAccountPrice != null || subscription.viewOnlyPrice != null) {
+    return (subscription.coachAccountPrice || 0) + (subscription.viewOnlyPrice || 0);
+  }
+  return subscription.price || 0;
+}
+
+/**
+ * Get a subscription's monthly recurring revenue, whatever its status
+ */
+export function getMonthlyAmount(subscription: RevenueSubscription): number {
+  const amount = getSubscriptionAmount(subscription);
+  return subscription.planType === 'annual' ? amount / 12 : amount;
+}
+
+/**
+ * Check if a subscription is currently billed
+ */
+export function isPaying(subscription: RevenueSubscription): boolean {
+  return PAYING_STATUSES.includes(subscription.status || '');
+}
+
+/**
+ * Get when a subscription started paying: the end of its trial, or when it was created
+ */
+export function getPaidStart(subscription: RevenueSubscription): Date | null {
+  const trialEnd = toDate(subscription.trialEndDate);
+  if (trialEnd) return trialEnd;
+  return toDate(subscription.createdAt) || toDate(subscription.currentPeriodStart);
+}
+
+/**
+ * Check if a subscription ever moved from its trial (or creation) to paying
+ * Unpaid subscriptions were billed at least once; canceled ones converted if canceled after the trial ended.
+ */
+export function hasConverted(subscription: RevenueSubscription, now: number): boolean {
+  if (isPaying(subscription) || subscription.status === 'unpaid') return true;
+  if (subscription.status !== 'canceled') return false;
+
+  const paidStart = getPaidStart(subscription);
+  const canceledAt = toDate(subscription.canceledAt);
+  if (!paidStart || paidStart.getTime() > now) return false;
+  return !canceledAt || canceledAt > paidStart;
+}
+
+/**
+ * Sum the monthly recurring revenue of the subscriptions being billed
+ */
+export function getMrr(subscriptions: RevenueSubscription[]): number {
+  return subscriptions.filter(isPaying).reduce((total, subscription) => total + getMonthlyAmount(subscription), 0);
+}
+
+/**
+ * Sum the monthly recurring revenue of trials that haven't ended
+ */
+export function getTrialMrr(subscriptions: RevenueSubscription[]): number {
+  return subscriptions
+    .filter((subscription) => subscription.status === 'trialing')
+    .reduce((total, subscription) => total + getMonthlyAmount(subscription), 0);
+}
+
+function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Work out trial-to-paid conversion for subscriptions that started with a trial
+ */
+export function getTrialConversion(subscriptions: RevenueSubscription[], now: number): TrialConversion {
+  const trials = subscriptions.filter(
+    (subscription) => subscription.trialEnabled || toDate(subscription.trialStartDate)
+  );
+  const ended = trials.filter((subscription) => {
+    const trialEnd = toDate(subscription.trialEndDate);
+    return subscription.status !== 'trialing' && (!trialEnd || trialEnd.getTime() <= now);
+  });
+  const converted = ended.filter((subscription) => hasConverted(subscription, now));
+
+  return {
+    trialsStarted: trials.length,
+    trialsEnded: ended.length,
+    trialsConverted: converted.length,
+    conversionRate: ended.length > 0 ? converted.length / ended.length : null,
+  };
+}
+
+/**
+ * Get new and churned MRR and trial results for each of the last months, oldest first
+ * New MRR is counted in the month a subscription started paying; churned MRR in the month a paying subscription
+ * was canceled.
+ */
+export function getMonthlyRevenue(subscriptions: RevenueSubscription[], now: number, months: number = 12): MonthlyRevenue[] {
+  const current = new Date(now);
+  const byMonth = new Map<string, MonthlyRevenue>();
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const month = getMonthKey(new Date(current.getFullYear(), current.getMonth() - offset, 1));
+    byMonth.set(month, {
+      month,
+      newMrr: 0,
+      churnedMrr: 0,
+      netNewMrr: 0,
+      newSubscriptions: 0,
+      churnedSubscriptions: 0,
+      trialsEnded: 0,
+      trialsConverted: 0,
+    });
+  }
+
+  subscriptions.forEach((subscription) => {
+    const monthlyAmount = getMonthlyAmount(subscription);
+    const converted = hasConverted(subscription, now);
+    const paidStart = getPaidStart(subscription);
+
+    if (converted && paidStart && paidStart.getTime() <= now) {
+      const entry = byMonth.get(getMonthKey(paidStart));
+      if (entry) {
+        entry.newMrr += monthlyAmount;
+        entry.newSubscriptions += 1;
+      }
+    }
+
+    const canceledAt = toDate(subscription.canceledAt);
+    if (subscription.status === 'canceled' && converted && canceledAt) {
+      const entry = byMonth.get(getMonthKey(canceledAt));
+      if (entry) {
+        entry.churnedMrr += monthlyAmount;
+        entry.churnedSubscriptions += 1;
+      }
+    }
+
+    const trialEnd = toDate(subscription.trialEndDate);
+    if (trialEnd && trialEnd.getTime() <= now && subscription.status !== 'trialing') {
+      const entry = byMonth.get(getMonthKey(trialEnd));
+      if (entry) {
+        entry.trialsEnded += 1;
+        if (converted) entry.trialsConverted += 1;
+      }
+    }
+  });
+
+  return [...byMonth.values()].map((entry) => ({ ...entry, netNewMrr: entry.newMrr - entry.churnedMrr }));
+}
+
+/**
+ * Get billed subscriptions renewing within the next days, soonest first
+ */
+export function getUpcomingRenewals(
+  subscriptions: RevenueSubscription[],
+  now: number,
+  days: number = 30
+): RevenueSubscription[] {
+  return subscriptions
+    .filter((subscription) => {
+      const periodEnd = toDate(subscription.currentPeriodEnd);
+      return (
+        (isPaying(subscription) || subscription.status === 'trialing') &&
+        !subscription.cancelAtPeriodEnd &&
+        !!periodEnd &&
+        periodEnd.getTime() >= now &&
+        periodEnd.getTime() <= now + days * DAY_MS
+      );
+    })
+    .sort((a, b) => (toDate(a.currentPeriodEnd)?.getTime() || 0) - (toDate(b.currentPeriodEnd)?.getTime() || 0));
+}
+
+/**
+ * Get subscriptions set to cancel at the end of their current period, soonest first
+ */
+export function getUpcomingCancellations(subscriptions: RevenueSubscription[], now: number): RevenueSubscription[] {
+  return subscriptions
+    .filter((subscription) => {
+      const periodEnd = toDate(subscription.currentPeriodEnd);
+      return (
+        subscription.cancelAtPeriodEnd === true &&
+        subscription.status !== 'canceled' &&
+        (!periodEnd || periodEnd.getTime() >= now)
+      );
+    })
+    .sort((a, b) => (toDate(a.currentPeriodEnd)?.getTime() || 0) - (toDate(b.currentPeriodEnd)?.getTime() || 0));
+}